@@ -1,6 +1,7 @@
 import { multiselect } from '@clack/prompts'
 import { Command } from 'commander'
 import { listWorktrees, removeWorktree } from '../../lib/git-workflow'
+import { printOutput } from '../../lib/github'
 import { detectSystemLanguage, getIssueMessages } from '../../lib/i18n'
 import { resolveRepository } from '../../lib/repo-manager'
 
@@ -18,7 +19,7 @@ export function createCleanupCommand(): Command {
 
       try {
         // Resolve repository
-        console.log(msg.cleanupListing)
+        printOutput(msg.cleanupListing)
         const repoInfo = await resolveRepository(options.repo)
 
         // List worktrees
@@ -28,11 +29,11 @@ export function createCleanupCommand(): Command {
         const prunable = worktrees.filter(w => w.prunable)
 
         if (prunable.length === 0) {
-          console.log(msg.cleanupNothingToClean)
+          printOutput(msg.cleanupNothingToClean)
           return
         }
 
-        console.log(msg.cleanupFoundPrunable(prunable.length))
+        printOutput(msg.cleanupFoundPrunable(prunable.length))
 
         // Select worktrees to remove
         let toRemove = prunable
@@ -47,7 +48,7 @@ export function createCleanupCommand(): Command {
 
           if (typeof selected === 'symbol') {
             // User cancelled
-            console.log('Cancelled.')
+            printOutput('Cancelled.')
             return
           }
 
@@ -56,11 +57,11 @@ export function createCleanupCommand(): Command {
 
         // Remove selected worktrees
         for (const wt of toRemove) {
-          console.log(msg.cleanupRemoving(wt.path))
+          printOutput(msg.cleanupRemoving(wt.path))
           await removeWorktree(wt.path)
         }
 
-        console.log(msg.cleanupRemoved(toRemove.length))
+        printOutput(msg.cleanupRemoved(toRemove.length))
       }
       catch (error) {
         console.error(
@@ -1,5 +1,5 @@
 import { Command } from 'commander'
-import { updateIssueCommentByNodeId } from '../../lib/github'
+import { getExitCode, getRepositoryUrl, printOutput, updateIssueCommentByNodeId } from '../../lib/github'
 import { getRepoInfo } from '../../lib/github-api'
 import { detectSystemLanguage, getCommentMessages } from '../../lib/i18n'
 import { toIssueCommentNodeId, validateCommentIdentifier } from '../../lib/id-converter'
@@ -78,7 +78,7 @@ export function createIssueCommentEditCommand(): Command {
         if (commentIdentifier.startsWith('IC_')) {
           // Already a Node ID, use directly
           commentNodeId = commentIdentifier
-          console.log(`✓ Node ID detected, using directly`)
+          printOutput(`✓ Node ID detected, using directly`)
         }
         else {
           // Database ID - need issue number to convert
@@ -94,7 +94,7 @@ export function createIssueCommentEditCommand(): Command {
             throw new TypeError('Invalid issue number')
           }
 
-          console.log(`🔄 Converting Database ID to Node ID...`)
+          printOutput(`🔄 Converting Database ID to Node ID...`)
           commentNodeId = await toIssueCommentNodeId(
             commentIdentifier,
             owner,
@@ -106,20 +106,20 @@ export function createIssueCommentEditCommand(): Command {
         // Update comment using GraphQL
         const displayId = Number.parseInt(commentIdentifier, 10)
         if (!Number.isNaN(displayId)) {
-          console.log(msg.updatingComment(displayId))
+          printOutput(msg.updatingComment(displayId))
         }
         else {
-          console.log(`🔄 Updating comment ${commentIdentifier}...`)
+          printOutput(`🔄 Updating comment ${commentIdentifier}...`)
         }
         await updateIssueCommentByNodeId(commentNodeId, body)
 
-        console.log(msg.commentUpdated)
+        printOutput(msg.commentUpdated)
         // Show URL (best effort - may not have issue number for Node ID input)
         if (options.issue) {
           const issueNumber = Number.parseInt(options.issue, 10)
           const dbId = Number.parseInt(commentIdentifier, 10)
           if (!Number.isNaN(dbId)) {
-            console.log(`   https://github.com/${owner}/${repo}/issues/${issueNumber}#issuecomment-${dbId}`)
+            printOutput(`   ${getRepositoryUrl(owner, repo)}/issues/${issueNumber}#issuecomment-${dbId}`)
           }
         }
       }
@@ -130,7 +130,7 @@ export function createIssueCommentEditCommand(): Command {
         else {
           console.error(msg.unknownError)
         }
-        process.exit(1)
+        process.exit(getExitCode(error))
       }
     })
 
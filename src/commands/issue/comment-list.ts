@@ -1,11 +1,13 @@
 import type { OutputFormat } from '@pleaseai/cli-toolkit/output'
 import type { CommentInfo } from '../../types'
-import { isStructuredOutput, outputData, parseFields } from '@pleaseai/cli-toolkit/output'
+import { isStructuredOutput, parseFields } from '@pleaseai/cli-toolkit/output'
 import { Command } from 'commander'
 import { listIssueComments } from '../../lib/comment-api'
+import { getExitCode, printOutput } from '../../lib/github'
 import { getRepoInfo } from '../../lib/github-api'
 import { detectSystemLanguage, getCommentMessages } from '../../lib/i18n'
 import { applyQuery } from '../../lib/jmespath-query'
+import { printData } from '../../lib/structured-output'
 
 const BODY_PREVIEW_LENGTH = 80
 
@@ -74,7 +76,7 @@ export function createIssueCommentListCommand(): Command {
 
         // Fetch comments (no progress messages in structured output mode)
         if (!shouldUseStructuredOutput) {
-          console.log(msg.listingIssueComments(issueNumber))
+          printOutput(msg.listingIssueComments(issueNumber))
         }
         const comments = await listIssueComments(owner, repo, issueNumber)
 
@@ -93,20 +95,20 @@ export function createIssueCommentListCommand(): Command {
           // Apply JMESPath query if provided
           data = applyQuery(data, options.query, msg.errorPrefix, msg.unknownError)
 
-          outputData(data, outputFormat, fields)
+          printData(data, outputFormat, fields)
           return
         }
 
         // Human-readable output
         if (comments.length === 0) {
-          console.log(msg.noComments)
+          printOutput(msg.noComments)
           return
         }
 
-        console.log(msg.foundComments(comments.length))
+        printOutput(msg.foundComments(comments.length))
         comments.forEach((comment, index) => {
-          console.log(`\n[${index + 1}/${comments.length}]`)
-          console.log(formatComment(comment))
+          printOutput(`\n[${index + 1}/${comments.length}]`)
+          printOutput(formatComment(comment))
         })
       }
       catch (error) {
@@ -116,7 +118,7 @@ export function createIssueCommentListCommand(): Command {
         else {
           console.error(msg.unknownError)
         }
-        process.exit(1)
+        process.exit(getExitCode(error))
       }
     })
 
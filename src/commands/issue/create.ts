@@ -1,23 +1,307 @@
+import type { IssueMessages } from '../../lib/i18n'
+import type { WizardChoice } from '../../lib/issue-create-wizard'
+import type { IssueForm, IssueFormAnswer, IssueFormField } from '../../lib/issue-form'
+import { confirm, spinner as createSpinner, intro, isCancel, log, multiselect, outro, select, text } from '@clack/prompts'
 import { filterFields, outputJson, parseFields } from '@pleaseai/cli-toolkit/output'
 import { Command } from 'commander'
 import {
   addSubIssue,
+  classifyGhApiFailure,
   createIssueWithType,
   getAssigneeNodeIds,
+  getExitCode,
   getIssueNodeId,
   getLabelNodeIds,
   getMilestoneNodeId,
   getProjectNodeIds,
+  getRepositoryUrl,
+  ghApi,
+  isDryRunResult,
+  listAssignableUsers,
   listIssueTypes,
+  listLabels,
+  listOpenMilestones,
+  listProjects,
+  NotFoundError,
+  printOutput,
 } from '../../lib/github'
 import { getRepoInfo } from '../../lib/github-api'
 import { detectSystemLanguage, getIssueMessages } from '../../lib/i18n'
+import {
+  editInEditor,
+  filterChoices,
+  formatIssueCreateCommand,
+  WIZARD_SEARCH_THRESHOLD,
+} from '../../lib/issue-create-wizard'
+import {
+  findIssueForm,
+  findMissingRequiredFields,
+  formatFieldAssignments,
+  loadIssueForms,
+  parseFieldAssignments,
+  renderIssueFormBody,
+  resolveAnswer,
+} from '../../lib/issue-form'
 
 interface IssueTemplate {
   name: string
   body: string
 }
 
+interface CreateOptions {
+  title?: string
+  body?: string
+  repo?: string
+  type?: string
+  typeId?: string
+  label?: string[]
+  assignee?: string[]
+  milestone?: string
+  project?: string[]
+  parent?: string
+  bodyFile?: string
+  template?: string
+  field?: string[]
+  json?: string | boolean
+}
+
+/**
+ * Fetch the body of a markdown issue template by name
+ */
+async function fetchTemplateBody(owner: string, repo: string, name: string): Promise<string> {
+  const response = await ghApi(['api', `/repos/${owner}/${repo}/issues/templates`])
+
+  if (response.exitCode !== 0) {
+    const error = classifyGhApiFailure(
+      `Failed to fetch issue templates: ${response.stderr.trim()}`,
+      response.stderr,
+      response.body,
+    )
+    if (error instanceof NotFoundError) {
+      throw new NotFoundError(
+        `No issue templates found in ${owner}/${repo}.\n`
+        + `Make sure the repository has templates in .github/ISSUE_TEMPLATE/`,
+      )
+    }
+    throw error
+  }
+
+  let templates: IssueTemplate[]
+  try {
+    templates = JSON.parse(response.body)
+
+    if (!Array.isArray(templates)) {
+      throw new TypeError('Expected array of templates')
+    }
+  }
+  catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    throw new Error(
+      `Failed to parse issue templates response from GitHub.\n`
+      + `Error: ${errorMessage}\n`
+      + `Response preview: ${response.body.substring(0, 200)}${response.body.length > 200 ? '...' : ''}\n`
+      + `\n`
+      + `This is likely a GitHub API issue. Please try again later.`,
+    )
+  }
+
+  const template = templates.find(t => t.name === name)
+
+  if (!template) {
+    const availableTemplates = templates.map(t => t.name).join(', ')
+    throw new Error(
+      `Template "${name}" not found.\n${
+        availableTemplates
+          ? `Available templates: ${availableTemplates}`
+          : 'No templates available'}`,
+    )
+  }
+
+  return template.body
+}
+
+/**
+ * Prompt for the form fields not given with --field
+ */
+async function promptFormFields(
+  form: IssueForm,
+  answers: Map<IssueFormField, IssueFormAnswer>,
+  msg: IssueMessages,
+): Promise<void> {
+  for (const field of form.fields.filter(f => !answers.has(f))) {
+    const message = field.required ? `${field.label} *` : field.label
+    const initial = resolveAnswer(field, answers)
+    let answer: IssueFormAnswer | symbol
+
+    if (field.type === 'input' || field.type === 'textarea') {
+      answer = await text({
+        message,
+        placeholder: field.placeholder,
+        initialValue: typeof initial === 'string' ? initial : undefined,
+        validate: value => field.required && value.trim().length === 0 ? msg.formFieldRequired : undefined,
+      })
+    }
+    else if (field.type === 'checkboxes' || field.multiple) {
+      answer = await multiselect({
+        message,
+        options: field.options.map(option => ({ value: option.label, label: option.required ? `${option.label} *` : option.label })),
+        initialValues: Array.isArray(initial) ? initial : [],
+        required: field.type === 'dropdown' && field.required,
+      })
+    }
+    else {
+      const choice = await select({
+        message,
+        options: [
+          ...field.options.map(option => ({ value: option.label, label: option.label })),
+          ...(field.required ? [] : [{ value: '', label: msg.formNoResponse }]),
+        ],
+        initialValue: Array.isArray(initial) ? initial[0] : undefined,
+      })
+      answer = typeof choice === 'symbol' ? choice : choice ? [choice] : []
+    }
+
+    if (isCancel(answer)) {
+      throw new Error(msg.formPromptCancelled)
+    }
+    answers.set(field, answer)
+  }
+}
+
+/**
+ * Throw when a wizard prompt was cancelled, otherwise return its value
+ */
+function unlessCancelled<T>(value: T | symbol, msg: IssueMessages): T {
+  if (isCancel(value)) {
+    throw new Error(msg.formPromptCancelled)
+  }
+  return value as T
+}
+
+/**
+ * Narrow a long choice list with a search prompt (repeated until something matches)
+ */
+async function searchChoices(subject: string, choices: WizardChoice[], msg: IssueMessages): Promise<WizardChoice[]> {
+  if (choices.length <= WIZARD_SEARCH_THRESHOLD) {
+    return choices
+  }
+
+  while (true) {
+    const search = unlessCancelled(await text({ message: msg.wizardSearch(subject, choices.length), placeholder: msg.wizardSearchPlaceholder }), msg)
+    const matches = filterChoices(choices, search ?? '')
+    if (matches.length > 0) {
+      return matches
+    }
+    log.warn(msg.wizardNoMatches(search))
+  }
+}
+
+/**
+ * Pick one choice, or none
+ */
+async function pickOne(subject: string, choices: WizardChoice[], msg: IssueMessages): Promise<string | undefined> {
+  if (choices.length === 0) {
+    return undefined
+  }
+  const candidates = await searchChoices(subject, choices, msg)
+  const picked = unlessCancelled(await select({
+    message: subject,
+    options: [{ value: '', label: msg.wizardNone }, ...candidates],
+  }), msg)
+  return picked || undefined
+}
+
+/**
+ * Pick any number of choices
+ */
+async function pickMany(subject: string, choices: WizardChoice[], msg: IssueMessages): Promise<string[]> {
+  if (choices.length === 0) {
+    return []
+  }
+  const candidates = await searchChoices(subject, choices, msg)
+  return unlessCancelled(await multiselect({ message: subject, options: candidates, required: false }), msg)
+}
+
+/**
+ * Interactive wizard for the settings not given as options
+ *
+ * Fills in title, type, labels, assignees, milestone, projects, parent, and
+ * (without another body source) a body written in $EDITOR.
+ */
+async function runCreateWizard(owner: string, repo: string, options: CreateOptions, msg: IssueMessages): Promise<void> {
+  intro(msg.wizardIntro(`${owner}/${repo}`))
+
+  options.title = unlessCancelled(await text({
+    message: msg.wizardTitle,
+    validate: value => value.trim().length === 0 ? msg.formFieldRequired : undefined,
+  }), msg).trim()
+
+  const spinner = createSpinner()
+  spinner.start(msg.wizardLoadingMetadata)
+  // Issue types and organization projects are unavailable for user-owned repositories; skip those steps
+  const [types, labels, users, milestones, projects] = await Promise.all([
+    options.type || options.typeId ? [] : listIssueTypes(owner, repo).catch(() => []),
+    options.label?.length ? [] : listLabels(owner, repo),
+    options.assignee?.length ? [] : listAssignableUsers(owner, repo),
+    options.milestone ? [] : listOpenMilestones(owner, repo),
+    options.project?.length ? [] : listProjects(owner, repo).catch(() => []),
+  ])
+  spinner.stop(msg.wizardMetadataLoaded)
+
+  options.type ??= await pickOne(msg.wizardType, types.map(t => ({ value: t.name, label: t.name, hint: t.description ?? undefined })), msg)
+  if (!options.label?.length) {
+    options.label = await pickMany(msg.wizardLabels, labels.map(l => ({ value: l.name, label: l.name })), msg)
+  }
+  if (!options.assignee?.length) {
+    options.assignee = await pickMany(msg.wizardAssignees, users.map(u => ({ value: u.login, label: u.login, hint: u.name ?? undefined })), msg)
+  }
+  options.milestone ??= await pickOne(msg.wizardMilestone, milestones.map(m => ({ value: m.title, label: m.title })), msg)
+  if (!options.project?.length) {
+    options.project = await pickMany(msg.wizardProjects, projects.map(p => ({ value: p.title, label: p.title })), msg)
+  }
+
+  if (options.parent === undefined) {
+    const parent = unlessCancelled(await text({
+      message: msg.wizardParent,
+      placeholder: msg.wizardParentPlaceholder,
+      validate: value => value && !/^\d+$/.test(value.trim()) ? msg.wizardParentInvalid : undefined,
+    }), msg)
+    options.parent = parent?.trim() || undefined
+  }
+
+  if (!options.body && !options.bodyFile && !options.template) {
+    const wantsBody = unlessCancelled(await confirm({ message: msg.wizardEditBody }), msg)
+    if (wantsBody) {
+      const body = (await editInEditor('')).trim()
+      options.body = body || undefined
+    }
+  }
+}
+
+/**
+ * Print the non-interactive command equivalent to the wizard's answers
+ * Issue form answers are passed as `--field id=value` assignments.
+ */
+function printWizardCommandLine(options: CreateOptions, fields: string[], msg: IssueMessages): void {
+  outro(msg.wizardCommandLine)
+  const commandLine = formatIssueCreateCommand({
+    repo: options.repo,
+    title: options.title!,
+    body: options.body,
+    bodyFile: options.bodyFile,
+    type: options.type,
+    typeId: options.typeId,
+    labels: options.label ?? [],
+    assignees: options.assignee ?? [],
+    milestone: options.milestone,
+    projects: options.project ?? [],
+    parent: options.parent,
+    template: options.template,
+    fields,
+  })
+  printOutput(`${commandLine}\n`)
+}
+
 /**
  * Creates a command to create GitHub issues with optional issue type
  * @returns Command object for issue creation
@@ -27,7 +311,7 @@ export function createIssueCreateCommand(): Command {
 
   command
     .description('Create a new issue with optional issue type')
-    .requiredOption('--title <text>', 'Issue title')
+    .option('--title <text>', 'Issue title (omit in a terminal to start the interactive wizard)')
     .option('--body <text>', 'Issue body')
     .option('-R, --repo <owner/repo>', 'Repository in owner/repo format')
     .option('--type <name>', 'Issue type name (e.g., "Bug", "Feature")')
@@ -38,23 +322,10 @@ export function createIssueCreateCommand(): Command {
     .option('-p, --project <title>', 'Add to project (can be used multiple times)', (value, previous: string[] = []) => [...previous, value], [])
     .option('--parent <number>', 'Parent issue number (creates sub-issue relationship)')
     .option('-F, --body-file <path>', 'Read issue body from file ("-" for stdin)')
-    .option('-t, --template <name>', 'Use issue template')
+    .option('-t, --template <name>', 'Use issue template or issue form (form name or file name, e.g. bug_report)')
+    .option('--field <id=value>', 'Issue form field value (can be used multiple times; comma-separate options)', (value, previous: string[] = []) => [...previous, value], [])
     .option('--json [fields]', 'Output as JSON with optional field selection (number, title, url, type)')
-    .action(async (options: {
-      title: string
-      body?: string
-      repo?: string
-      type?: string
-      typeId?: string
-      label?: string[]
-      assignee?: string[]
-      milestone?: string
-      project?: string[]
-      parent?: string
-      bodyFile?: string
-      template?: string
-      json?: string | boolean
-    }) => {
+    .action(async (options: CreateOptions) => {
       const lang = detectSystemLanguage()
       const msg = getIssueMessages(lang)
 
@@ -73,6 +344,31 @@ export function createIssueCreateCommand(): Command {
           throw new TypeError('Cannot specify --body with --body-file or --template')
         }
 
+        if (options.field && options.field.length > 0 && !options.template) {
+          throw new TypeError(msg.fieldRequiresTemplate)
+        }
+
+        // Without a title, ask for everything interactively
+        const usesWizard = !options.title
+        if (usesWizard) {
+          if (!process.stdin.isTTY) {
+            throw new TypeError(msg.titleRequired)
+          }
+          // The wizard's prompts write to stdout, which --json keeps for the result
+          if (options.json) {
+            throw new TypeError(msg.wizardNotWithJson)
+          }
+          await runCreateWizard(owner, repo, options, msg)
+          issueBody = options.body
+        }
+
+        // Issue forms may prefix the title and add labels, assignees, and a type
+        let title = options.title!
+        let labels = options.label ?? []
+        let assignees = options.assignee ?? []
+        let formTypeName: string | undefined
+        let fieldAssignments = options.field ?? []
+
         if (options.bodyFile) {
           if (options.bodyFile === '-') {
             // Read from stdin
@@ -126,60 +422,47 @@ export function createIssueCreateCommand(): Command {
           }
         }
         else if (options.template) {
-          // Use gh CLI to fetch template content
-          const proc = Bun.spawn([
-            'gh',
-            'api',
-            `/repos/${owner}/${repo}/issues/templates`,
-          ], {
-            stdout: 'pipe',
-            stderr: 'pipe',
-          })
-
-          const stdout = await new Response(proc.stdout).text()
-          const stderr = await new Response(proc.stderr).text()
-          const exitCode = await proc.exited
-
-          if (exitCode !== 0) {
-            const errorMsg = stderr.includes('404')
-              ? `No issue templates found in ${owner}/${repo}.\n`
-              + `Make sure the repository has templates in .github/ISSUE_TEMPLATE/`
-              : `Failed to fetch issue templates: ${stderr}`
-            throw new Error(errorMsg)
+          const { forms, source, invalid } = await loadIssueForms(owner, repo, { preferLocal: !options.repo, name: options.template })
+          for (const { fileName, message } of invalid) {
+            console.warn(msg.issueFormSkipped(fileName, message))
           }
+          const form = findIssueForm(forms, options.template)
 
-          let templates: IssueTemplate[]
-          try {
-            templates = JSON.parse(stdout)
+          if (form) {
+            if (!options.json) {
+              printOutput(msg.usingIssueForm(form.name, source))
+            }
 
-            if (!Array.isArray(templates)) {
-              throw new TypeError('Expected array of templates')
+            const answers = parseFieldAssignments(form, options.field ?? [])
+            if (process.stdin.isTTY) {
+              await promptFormFields(form, answers, msg)
             }
-          }
-          catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error)
-            throw new Error(
-              `Failed to parse issue templates response from GitHub.\n`
-              + `Error: ${errorMessage}\n`
-              + `Response preview: ${stdout.substring(0, 200)}${stdout.length > 200 ? '...' : ''}\n`
-              + `\n`
-              + `This is likely a GitHub API issue. Please try again later.`,
-            )
-          }
 
-          const template = templates.find(t => t.name === options.template)
+            const missing = findMissingRequiredFields(form, answers)
+            if (missing.length > 0) {
+              throw new TypeError(msg.formFieldsMissing(missing))
+            }
 
-          if (!template) {
-            const availableTemplates = templates.map(t => t.name).join(', ')
-            throw new Error(
-              `Template "${options.template}" not found.\n${
-                availableTemplates
-                  ? `Available templates: ${availableTemplates}`
-                  : 'No templates available'}`,
-            )
+            issueBody = renderIssueFormBody(form, answers)
+            fieldAssignments = formatFieldAssignments(form, answers)
+            if (form.title && !title.startsWith(form.title.trim())) {
+              title = `${form.title}${title}`
+            }
+            labels = [...new Set([...form.labels, ...labels])]
+            assignees = [...new Set([...form.assignees, ...assignees])]
+            formTypeName = form.type
           }
+          else if (options.field && options.field.length > 0) {
+            throw new TypeError(msg.fieldRequiresIssueForm(options.template))
+          }
+          else {
+            issueBody = await fetchTemplateBody(owner, repo, options.template)
+          }
+        }
 
-          issueBody = template.body
+        // Printed once the form answers are known, so the command can be rerun without prompts
+        if (usesWizard) {
+          printWizardCommandLine(options, fieldAssignments, msg)
         }
 
         let issueTypeId: string | undefined
@@ -190,10 +473,11 @@ export function createIssueCreateCommand(): Command {
           // Direct Node ID provided
           issueTypeId = options.typeId
         }
-        else if (options.type) {
-          // Type name provided - need to look it up
+        else if (options.type || formTypeName) {
+          // Type name provided (or set by the issue form) - need to look it up
+          const typeName = (options.type ?? formTypeName)!
           if (!options.json) {
-            console.log(msg.fetchingIssueTypes)
+            printOutput(msg.fetchingIssueTypes)
           }
 
           const types = await listIssueTypes(owner, repo)
@@ -204,11 +488,11 @@ export function createIssueCreateCommand(): Command {
           }
 
           const matchingType = types.find(
-            t => t.name.toLowerCase() === options.type!.toLowerCase(),
+            t => t.name.toLowerCase() === typeName.toLowerCase(),
           )
 
           if (!matchingType) {
-            console.error(`❌ ${msg.issueTypeNotFound(options.type)}`)
+            console.error(`❌ ${msg.issueTypeNotFound(typeName)}`)
             console.error(msg.availableTypes)
             for (const t of types) {
               console.error(`  - ${t.name}`)
@@ -222,27 +506,27 @@ export function createIssueCreateCommand(): Command {
 
         // Get label Node IDs if labels are provided
         let labelIds: string[] | undefined
-        if (options.label && options.label.length > 0) {
+        if (labels.length > 0) {
           if (!options.json) {
-            console.log(`🏷️  Looking up label IDs...`)
+            printOutput(`🏷️  Looking up label IDs...`)
           }
-          labelIds = await getLabelNodeIds(owner, repo, options.label)
+          labelIds = await getLabelNodeIds(owner, repo, labels)
         }
 
         // Get assignee Node IDs if assignees are provided
         let assigneeIds: string[] | undefined
-        if (options.assignee && options.assignee.length > 0) {
+        if (assignees.length > 0) {
           if (!options.json) {
-            console.log(`👤 Looking up assignee IDs...`)
+            printOutput(`👤 Looking up assignee IDs...`)
           }
-          assigneeIds = await getAssigneeNodeIds(owner, repo, options.assignee)
+          assigneeIds = await getAssigneeNodeIds(owner, repo, assignees)
         }
 
         // Get milestone Node ID if milestone is provided
         let milestoneId: string | undefined
         if (options.milestone) {
           if (!options.json) {
-            console.log(`🎯 Looking up milestone ID...`)
+            printOutput(`🎯 Looking up milestone ID...`)
           }
           milestoneId = await getMilestoneNodeId(owner, repo, options.milestone)
         }
@@ -251,20 +535,20 @@ export function createIssueCreateCommand(): Command {
         let projectIds: string[] | undefined
         if (options.project && options.project.length > 0) {
           if (!options.json) {
-            console.log(`📋 Looking up project IDs...`)
+            printOutput(`📋 Looking up project IDs...`)
           }
           projectIds = await getProjectNodeIds(owner, repo, options.project)
         }
 
         // Create the issue
         if (!options.json) {
-          console.log(msg.creatingIssue)
+          printOutput(msg.creatingIssue)
         }
 
         const result = await createIssueWithType(
           owner,
           repo,
-          options.title,
+          title,
           issueBody,
           issueTypeId,
           labelIds,
@@ -281,23 +565,28 @@ export function createIssueCreateCommand(): Command {
           }
 
           if (!options.json) {
-            console.log(`🔗 Linking to parent issue #${parentNumber}...`)
+            printOutput(`🔗 Linking to parent issue #${parentNumber}...`)
           }
 
           const parentNodeId = await getIssueNodeId(owner, repo, parentNumber)
           await addSubIssue(parentNodeId, result.nodeId)
 
           if (!options.json) {
-            console.log(`✓ Linked as sub-issue of #${parentNumber}`)
+            printOutput(`✓ Linked as sub-issue of #${parentNumber}`)
           }
         }
 
+        // In dry-run mode the planned mutations are the output
+        if (isDryRunResult(result)) {
+          return
+        }
+
         // Output result
         if (options.json) {
           const issueData = {
             number: result.number,
-            title: options.title,
-            url: `https://github.com/${owner}/${repo}/issues/${result.number}`,
+            title,
+            url: `${getRepositoryUrl(owner, repo)}/issues/${result.number}`,
             type: issueTypeName || null,
           }
 
@@ -306,15 +595,15 @@ export function createIssueCreateCommand(): Command {
           outputJson(filtered)
         }
         else {
-          console.log(msg.issueCreated(result.number, issueTypeName))
-          console.log(`   View: https://github.com/${owner}/${repo}/issues/${result.number}`)
+          printOutput(msg.issueCreated(result.number, issueTypeName))
+          printOutput(`   View: ${getRepositoryUrl(owner, repo)}/issues/${result.number}`)
         }
       }
       catch (error) {
         console.error(
           `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
         )
-        process.exit(1)
+        process.exit(getExitCode(error))
       }
     })
 
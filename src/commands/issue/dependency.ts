@@ -1,19 +1,43 @@
 import type { OutputFormat } from '@pleaseai/cli-toolkit/output'
-import { isStructuredOutput, outputData, parseFields } from '@pleaseai/cli-toolkit/output'
+import type { GraphFormat } from '../../lib/dependency-graph'
+import type { IssueInfo } from '../../lib/github'
+import type { RepoInfo } from '../../lib/issue-ref'
+import type { ReadySort } from '../../lib/ready-issues'
+import { isStructuredOutput, parseFields } from '@pleaseai/cli-toolkit/output'
 import { Command } from 'commander'
+import {
+  crawlDependencyGraph,
+  DEFAULT_GRAPH_DEPTH,
+  findDependencyCycles,
+  GRAPH_FORMATS,
+  MAX_GRAPH_DEPTH,
+  renderDependencyGraph,
+} from '../../lib/dependency-graph'
 import {
   addBlockedBy,
-  getIssueNodeId,
+  getExitCode,
+  getIssueInfos,
   listBlockedBy,
+  listBlocking,
+  listFilterableSubIssues,
+  listSubIssues,
+  printOutput,
   removeBlockedBy,
+  searchIssues,
+  ValidationError,
 } from '../../lib/github'
 import { getRepoInfo } from '../../lib/github-api'
 import { detectSystemLanguage, getIssueMessages } from '../../lib/i18n'
+import { formatIssueRef, getIssueRefNodeIds, getIssueRefUrl, resolveIssueRefs, toIssueRef } from '../../lib/issue-ref'
+import { buildIssueSearchQuery, matchesIssueFilters, parseLabelList } from '../../lib/issue-search'
 import { applyQuery } from '../../lib/jmespath-query'
+import { resolveListLimit } from '../../lib/list-limit'
+import { findReadyIssues, READY_SORTS, sortReadyCandidates } from '../../lib/ready-issues'
+import { printData } from '../../lib/structured-output'
 
 /**
  * Creates a command to manage issue dependencies (blocked_by relationships)
- * @returns Command object with sub-commands (add, remove, list)
+ * @returns Command object with sub-commands (add, remove, list, graph, ready)
  */
 export function createDependencyCommand(): Command {
   const command = new Command('dependency')
@@ -23,100 +47,92 @@ export function createDependencyCommand(): Command {
   // Add subcommand
   const addCmd = new Command('add')
     .description('Add a blocking dependency to an issue')
-    .argument('<issue>', 'Issue number that is blocked')
-    .requiredOption('--blocked-by <blocker>', 'Issue number that blocks this issue')
+    .argument('<issue>', 'Issue that is blocked, or the blocking issue with --blocks (number, owner/repo#number, or URL)')
+    .option('--blocked-by <blocker>', 'Issue that blocks this issue (number, owner/repo#number, or URL)')
+    .option('--blocks <blocked>', 'Issue that this issue blocks (number, owner/repo#number, or URL)')
     .option('-R, --repo <owner/repo>', 'Repository in owner/repo format')
-    .action(async (issueStr: string, options: { blockedBy: string, repo?: string }) => {
+    .action(async (issueStr: string, options: { blockedBy?: string, blocks?: string, repo?: string }) => {
       const lang = detectSystemLanguage()
       const msg = getIssueMessages(lang)
 
       try {
-        const issueNumber = Number.parseInt(issueStr, 10)
-        const blockerNumber = Number.parseInt(options.blockedBy, 10)
-
-        if (Number.isNaN(issueNumber) || Number.isNaN(blockerNumber)) {
-          throw new TypeError(msg.issueNumberInvalid)
+        if ((options.blockedBy === undefined) === (options.blocks === undefined)) {
+          throw new Error(msg.dependencyDirectionRequired)
         }
 
-        const { owner, repo } = await getRepoInfo(options.repo)
+        // Both forms create the same edge: <blocked> is blocked by <blocker>
+        const [blockedStr, blockerStr] = options.blocks !== undefined
+          ? [options.blocks, issueStr]
+          : [issueStr, options.blockedBy!]
+        const { context, refs: [issue, blocker] } = await resolveIssueRefs([blockedStr, blockerStr], options.repo)
+        const issueLabel = formatIssueRef(issue!, context)
+        const blockerLabel = formatIssueRef(blocker!, context)
 
-        console.log(msg.gettingNodeIds)
-        const issueNodeId = await getIssueNodeId(owner, repo, issueNumber)
-        const blockerNodeId = await getIssueNodeId(owner, repo, blockerNumber)
+        printOutput(msg.gettingNodeIds)
+        const [issueNodeId, blockerNodeId] = await getIssueRefNodeIds([issue!, blocker!])
 
-        console.log(msg.settingBlocker(blockerNumber, issueNumber))
-        await addBlockedBy(issueNodeId, blockerNodeId)
+        printOutput(msg.settingBlocker(blockerLabel, issueLabel))
+        await addBlockedBy(issueNodeId!, blockerNodeId!)
 
-        console.log(msg.dependencyAdded)
-        console.log(msg.issueBlockedBy(issueNumber, blockerNumber))
-        console.log(
-          `   ${msg.blocked}: https://github.com/${owner}/${repo}/issues/${issueNumber}`,
-        )
-        console.log(
-          `   ${msg.blocker}: https://github.com/${owner}/${repo}/issues/${blockerNumber}`,
-        )
+        printOutput(msg.dependencyAdded)
+        printOutput(msg.issueBlockedBy(issueLabel, blockerLabel))
+        printOutput(`   ${msg.blocked}: ${getIssueRefUrl(issue!)}`)
+        printOutput(`   ${msg.blocker}: ${getIssueRefUrl(blocker!)}`)
       }
       catch (error) {
         console.error(
           `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
         )
-        process.exit(1)
+        process.exit(getExitCode(error))
       }
     })
 
   // Remove subcommand
   const removeCmd = new Command('remove')
     .description('Remove a blocking dependency from an issue')
-    .argument('<issue>', 'Issue number that is blocked')
-    .argument('<blocker>', 'Issue number that is no longer blocking')
+    .argument('<issue>', 'Issue that is blocked (number, owner/repo#number, or URL)')
+    .argument('<blocker>', 'Issue that is no longer blocking (number, owner/repo#number, or URL)')
     .option('-R, --repo <owner/repo>', 'Repository in owner/repo format')
     .action(async (issueStr: string, blockerStr: string, options: { repo?: string }) => {
       const lang = detectSystemLanguage()
       const msg = getIssueMessages(lang)
 
       try {
-        const issueNumber = Number.parseInt(issueStr, 10)
-        const blockerNumber = Number.parseInt(blockerStr, 10)
-
-        if (Number.isNaN(issueNumber) || Number.isNaN(blockerNumber)) {
-          throw new TypeError(msg.issueNumberInvalid)
-        }
+        const { context, refs: [issue, blocker] } = await resolveIssueRefs([issueStr, blockerStr], options.repo)
+        const issueLabel = formatIssueRef(issue!, context)
+        const blockerLabel = formatIssueRef(blocker!, context)
 
-        const { owner, repo } = await getRepoInfo(options.repo)
+        printOutput(msg.gettingNodeIds)
+        const [issueNodeId, blockerNodeId] = await getIssueRefNodeIds([issue!, blocker!])
 
-        console.log(msg.gettingNodeIds)
-        const issueNodeId = await getIssueNodeId(owner, repo, issueNumber)
-        const blockerNodeId = await getIssueNodeId(owner, repo, blockerNumber)
+        printOutput(msg.removingBlocker(blockerLabel, issueLabel))
+        await removeBlockedBy(issueNodeId!, blockerNodeId!)
 
-        console.log(msg.removingBlocker(blockerNumber, issueNumber))
-        await removeBlockedBy(issueNodeId, blockerNodeId)
-
-        console.log(msg.dependencyRemoved)
-        console.log(msg.issueNoLongerBlocked(issueNumber, blockerNumber))
-        console.log(
-          `   ${msg.blocked}: https://github.com/${owner}/${repo}/issues/${issueNumber}`,
-        )
-        console.log(
-          `   ${msg.blocker}: https://github.com/${owner}/${repo}/issues/${blockerNumber}`,
-        )
+        printOutput(msg.dependencyRemoved)
+        printOutput(msg.issueNoLongerBlocked(issueLabel, blockerLabel))
+        printOutput(`   ${msg.blocked}: ${getIssueRefUrl(issue!)}`)
+        printOutput(`   ${msg.blocker}: ${getIssueRefUrl(blocker!)}`)
       }
       catch (error) {
         console.error(
           `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
         )
-        process.exit(1)
+        process.exit(getExitCode(error))
       }
     })
 
   // List subcommand
   const listCmd = new Command('list')
-    .description('List all issues blocking a given issue')
-    .argument('<issue>', 'Issue number')
+    .description('List all issues blocking a given issue, or blocked by it with --blocking')
+    .argument('<issue>', 'Issue (number, owner/repo#number, or URL)')
+    .option('--blocking', 'List the issues this issue blocks instead of its blockers')
     .option('-R, --repo <owner/repo>', 'Repository in owner/repo format')
-    .option('--json [fields]', 'Output in JSON format with optional field selection (number,title,state,nodeId,url)')
+    .option('--json [fields]', 'Output in JSON format with optional field selection (number,title,state,nodeId,url,repository)')
     .option('--format <format>', 'Output format: json or toon')
     .option('--query <jmespath>', 'JMESPath query to filter results (e.g., "[?state==\'OPEN\'].{number:number,title:title}")')
-    .action(async (issueStr: string, options: { repo?: string, json?: string | boolean, format?: OutputFormat, query?: string }) => {
+    .option('-L, --limit <number>', 'Maximum number of issues to fetch (default: 100)')
+    .option('--all', 'Fetch all issues (ignores --limit)')
+    .action(async (issueStr: string, options: { blocking?: boolean, repo?: string, json?: string | boolean, format?: OutputFormat, query?: string, limit?: string, all?: boolean }) => {
       // Determine output format
       const outputFormat: OutputFormat = options.format
         ? options.format
@@ -128,69 +144,265 @@ export function createDependencyCommand(): Command {
       const msg = getIssueMessages(lang)
 
       try {
-        const issueNumber = Number.parseInt(issueStr, 10)
-        if (Number.isNaN(issueNumber)) {
-          throw new TypeError(msg.issueNumberInvalid)
-        }
-
-        const { owner, repo } = await getRepoInfo(options.repo)
+        const limit = resolveListLimit(options)
+        const { context, refs: [issue] } = await resolveIssueRefs([issueStr], options.repo)
+        const issueLabel = formatIssueRef(issue!, context)
 
         // Determine output mode
         const shouldUseStructuredOutput = isStructuredOutput(options)
 
         // Show progress messages only for human-readable output
         if (!shouldUseStructuredOutput) {
-          console.log(msg.fetchingBlockers(issueNumber))
+          printOutput(options.blocking ? msg.fetchingBlocked(issueLabel) : msg.fetchingBlockers(issueLabel))
         }
 
-        // Fetch blocking issues
-        const issueNodeId = await getIssueNodeId(owner, repo, issueNumber)
-        const blockers = await listBlockedBy(issueNodeId)
+        // Fetch blocking (or blocked) issues
+        const [issueNodeId] = await getIssueRefNodeIds([issue!])
+        const related = await (options.blocking ? listBlocking : listBlockedBy)(issueNodeId!, {
+          limit,
+          onTruncated: count => console.warn(msg.resultsTruncated(count)),
+        })
 
         // Handle structured output (JSON or TOON)
         if (shouldUseStructuredOutput) {
           const fields = parseFields(options.json)
-          let data = blockers.map(blocker => ({
-            number: blocker.number,
-            title: blocker.title,
-            state: blocker.state,
-            nodeId: blocker.nodeId,
-            url: `https://github.com/${owner}/${repo}/issues/${blocker.number}`,
-          }))
+          let data = related.map((relatedIssue) => {
+            const ref = toIssueRef(relatedIssue.repository, relatedIssue.number, context)
+            return {
+              number: relatedIssue.number,
+              title: relatedIssue.title,
+              state: relatedIssue.state,
+              nodeId: relatedIssue.nodeId,
+              url: relatedIssue.url ?? getIssueRefUrl(ref),
+              repository: `${ref.owner}/${ref.repo}`,
+            }
+          })
 
           // Apply JMESPath query if provided
           data = applyQuery(data, options.query, msg.errorPrefix, msg.unknownError)
 
-          outputData(data, outputFormat, fields)
+          printData(data, outputFormat, fields)
           return
         }
 
         // Human-readable output
-        if (blockers.length === 0) {
-          console.log(msg.noBlockers(issueNumber))
+        if (related.length === 0) {
+          printOutput(options.blocking ? msg.noBlocked(issueLabel) : msg.noBlockers(issueLabel))
           return
         }
 
-        console.log(msg.issueBlockedByCount(issueNumber, blockers.length))
-        for (const blocker of blockers) {
-          const status = blocker.state === 'OPEN' ? '🔴' : '🟢'
-          console.log(`${status} #${blocker.number}: ${blocker.title}`)
+        printOutput(options.blocking
+          ? msg.issueBlockingCount(issueLabel, related.length)
+          : msg.issueBlockedByCount(issueLabel, related.length))
+        for (const relatedIssue of related) {
+          const status = relatedIssue.state === 'OPEN' ? '🔴' : '🟢'
+          printOutput(`${status} ${formatIssueRef(toIssueRef(relatedIssue.repository, relatedIssue.number, context), context)}: ${relatedIssue.title}`)
         }
-        console.log(
-          `\nView: https://github.com/${owner}/${repo}/issues/${issueNumber}`,
+        printOutput(`\nView: ${getIssueRefUrl(issue!)}`)
+      }
+      catch (error) {
+        console.error(
+          `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
         )
+        process.exit(getExitCode(error))
+      }
+    })
+
+  // Graph subcommand
+  const graphCmd = new Command('graph')
+    .description('Export the blocked-by graph of an issue, milestone, or label set and detect cycles')
+    .argument('[issue]', 'Root issue (number, owner/repo#number, or URL)')
+    .option('-R, --repo <owner/repo>', 'Repository in owner/repo format')
+    .option('--milestone <title>', 'Start from the issues in a milestone')
+    .option('--label <names>', 'Start from the issues with all of these labels (comma-separated)')
+    .option('--depth <n>', `Levels of blockers to follow (1-${MAX_GRAPH_DEPTH})`, String(DEFAULT_GRAPH_DEPTH))
+    .option('--format <format>', 'Output format: mermaid, dot, or json', 'mermaid')
+    .action(async (issueStr: string | undefined, options: { repo?: string, milestone?: string, label?: string, depth: string, format: string }) => {
+      const lang = detectSystemLanguage()
+      const msg = getIssueMessages(lang)
+
+      try {
+        const hasFilters = options.milestone !== undefined || options.label !== undefined
+        if (issueStr === undefined ? !hasFilters : hasFilters) {
+          throw new Error(msg.graphSourceRequired)
+        }
+
+        const depth = Number(options.depth)
+        if (!Number.isInteger(depth) || depth < 1 || depth > MAX_GRAPH_DEPTH) {
+          throw new Error(msg.depthInvalid(options.depth, MAX_GRAPH_DEPTH))
+        }
+
+        const format = options.format as GraphFormat
+        if (!GRAPH_FORMATS.includes(format)) {
+          throw new Error(msg.graphFormatInvalid(options.format))
+        }
+
+        // Progress goes to stderr so the graph can be piped
+        let context: RepoInfo
+        let seeds: IssueInfo[]
+        if (issueStr !== undefined) {
+          const resolved = await resolveIssueRefs([issueStr], options.repo)
+          context = resolved.context
+          seeds = await getIssueInfos(await getIssueRefNodeIds(resolved.refs))
+        }
+        else {
+          context = await getRepoInfo(options.repo)
+          const searchQuery = buildIssueSearchQuery(context, {
+            milestone: options.milestone,
+            labels: parseLabelList(options.label),
+          })
+          console.error(msg.searchingIssues(searchQuery))
+          seeds = await searchIssues(searchQuery)
+          if (seeds.length === 0) {
+            console.error(msg.noIssuesMatched)
+            return
+          }
+        }
+
+        console.error(msg.crawlingDependencies(seeds.length))
+        const graph = await crawlDependencyGraph(seeds, context, depth)
+
+        printOutput(renderDependencyGraph(graph, format, context))
+
+        if (graph.truncated) {
+          console.warn(msg.dependencyGraphTruncated(depth))
+        }
+
+        const cycles = findDependencyCycles(graph)
+        if (cycles.length > 0) {
+          const lines = cycles.map((cycle) => {
+            const labels = cycle.map((key) => {
+              const node = graph.nodes.find(n => n.key === key)!
+              return formatIssueRef(toIssueRef(node.repository, node.number, context), context)
+            })
+            return `   ${[...labels, labels[0]].join(' → ')}`
+          })
+          throw new ValidationError([msg.dependencyCyclesFound(cycles.length), ...lines].join('\n'))
+        }
+      }
+      catch (error) {
+        console.error(
+          `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
+        )
+        process.exit(getExitCode(error))
+      }
+    })
+
+  // Ready subcommand
+  const readyCmd = new Command('ready')
+    .description('List open issues whose blockers are all closed (ready to work on)')
+    .option('-R, --repo <owner/repo>', 'Repository in owner/repo format')
+    .option('--milestone <title>', 'Only issues in this milestone')
+    .option('--label <names>', 'Only issues with all of these labels (comma-separated)')
+    .option('--type <name>', 'Only issues of this issue type')
+    .option('--parent <issue>', 'Only sub-issues of this issue (number, owner/repo#number, or URL)')
+    .option('--sort <order>', 'Sort by sub-issue order (order, requires --parent) or oldest first (created); default: order with --parent, otherwise created')
+    .option('--json [fields]', 'Output in JSON format with optional field selection (number,title,state,nodeId,url,repository,createdAt)')
+    .option('--format <format>', 'Output format: json or toon')
+    .option('--query <jmespath>', 'JMESPath query to filter results')
+    .option('-L, --limit <number>', 'Maximum number of ready issues to return (default: 100)')
+    .option('--all', 'Return all ready issues (ignores --limit)')
+    .action(async (options: { repo?: string, milestone?: string, label?: string, type?: string, parent?: string, sort?: string, json?: string | boolean, format?: OutputFormat, query?: string, limit?: string, all?: boolean }) => {
+      const outputFormat: OutputFormat = options.format
+        ? options.format
+        : options.json !== undefined
+          ? 'json'
+          : 'toon'
+
+      const lang = detectSystemLanguage()
+      const msg = getIssueMessages(lang)
+
+      try {
+        const limit = resolveListLimit(options)
+        const sort = (options.sort ?? (options.parent !== undefined ? 'order' : 'created')) as ReadySort
+        if (!READY_SORTS.includes(sort)) {
+          throw new Error(msg.readySortInvalid(options.sort!))
+        }
+        if (sort === 'order' && options.parent === undefined) {
+          throw new Error(msg.readySortRequiresParent)
+        }
+
+        const shouldUseStructuredOutput = isStructuredOutput(options)
+        const progress = (message: string) => {
+          if (!shouldUseStructuredOutput) {
+            printOutput(message)
+          }
+        }
+
+        const filters = {
+          milestone: options.milestone,
+          labels: parseLabelList(options.label),
+          type: options.type,
+        }
+        const hasFilters = filters.milestone !== undefined || filters.labels.length > 0 || filters.type !== undefined
+
+        let context: RepoInfo
+        let candidates: IssueInfo[]
+        if (options.parent !== undefined) {
+          const { context: parentContext, refs: [parent] } = await resolveIssueRefs([options.parent], options.repo)
+          context = parentContext
+          progress(msg.fetchingSubIssues(formatIssueRef(parent!, context)))
+          const [parentNodeId] = await getIssueRefNodeIds([parent!])
+          // Sub-issues may live in other repositories, so filter the list itself rather than searching one repository
+          candidates = hasFilters
+            ? (await listFilterableSubIssues(parentNodeId!)).filter(issue => matchesIssueFilters(issue, filters))
+            : await listSubIssues(parentNodeId!)
+        }
+        else {
+          context = await getRepoInfo(options.repo)
+          const searchQuery = buildIssueSearchQuery(context, { state: 'open', ...filters })
+          progress(msg.searchingIssues(searchQuery))
+          candidates = await searchIssues(searchQuery)
+        }
+
+        const queue = sortReadyCandidates(candidates.filter(issue => issue.state === 'OPEN'), sort)
+        progress(msg.checkingBlockers(queue.length))
+        const ready = await findReadyIssues(queue, limit)
+
+        if (shouldUseStructuredOutput) {
+          const fields = parseFields(options.json)
+          let data = ready.map((issue) => {
+            const ref = toIssueRef(issue.repository, issue.number, context)
+            return {
+              number: issue.number,
+              title: issue.title,
+              state: issue.state,
+              nodeId: issue.nodeId,
+              url: issue.url ?? getIssueRefUrl(ref),
+              repository: `${ref.owner}/${ref.repo}`,
+              createdAt: issue.createdAt,
+            }
+          })
+
+          data = applyQuery(data, options.query, msg.errorPrefix, msg.unknownError)
+
+          printData(data, outputFormat, fields)
+          return
+        }
+
+        if (ready.length === 0) {
+          printOutput(msg.noReadyIssues)
+          return
+        }
+
+        printOutput(msg.readyIssuesCount(ready.length))
+        for (const issue of ready) {
+          printOutput(`🟢 ${formatIssueRef(toIssueRef(issue.repository, issue.number, context), context)}: ${issue.title}`)
+        }
       }
       catch (error) {
         console.error(
           `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
         )
-        process.exit(1)
+        process.exit(getExitCode(error))
       }
     })
 
   command.addCommand(addCmd)
   command.addCommand(removeCmd)
   command.addCommand(listCmd)
+  command.addCommand(graphCmd)
+  command.addCommand(readyCmd)
 
   return command
 }
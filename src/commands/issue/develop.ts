@@ -3,6 +3,7 @@ import * as fs from 'node:fs'
 import { confirm, select } from '@clack/prompts'
 import { Command } from 'commander'
 import { createWorktree, createWorktreeFromRepo, fetchBranch, getAllLinkedBranches, startDevelopWorkflow } from '../../lib/git-workflow'
+import { isDryRun, printOutput } from '../../lib/github'
 import { detectSystemLanguage, getIssueMessages } from '../../lib/i18n'
 import { cloneBareRepo, findBareRepo, resolveRepository } from '../../lib/repo-manager'
 
@@ -32,12 +33,12 @@ export function createDevelopCommand(): Command {
           throw new TypeError(msg.issueNumberInvalid)
         }
 
-        console.log(msg.developStarting(issueNumber))
+        printOutput(msg.developStarting(issueNumber))
 
         // Worktree mode: gh-please extension feature
         if (options.worktree) {
           // Resolve repository
-          console.log(msg.developCheckingRepo)
+          printOutput(msg.developCheckingRepo)
           const repoInfo = await resolveRepository(options.repo)
 
           // Check for existing linked branches
@@ -60,7 +61,7 @@ export function createDevelopCommand(): Command {
               ],
             })
             if (selectedOption === 'cancel') {
-              console.log('Cancelled.')
+              printOutput('Cancelled.')
               process.exit(0)
             }
             branch = selectedOption === 'use' ? existingBranches[0]! : await startDevelopWorkflow(issueNumber, options)
@@ -76,7 +77,7 @@ export function createDevelopCommand(): Command {
               ],
             })
             if (selectedOption === '__cancel__') {
-              console.log('Cancelled.')
+              printOutput('Cancelled.')
               process.exit(0)
             }
             if (!selectedOption || typeof selectedOption !== 'string') {
@@ -85,26 +86,31 @@ export function createDevelopCommand(): Command {
             branch = selectedOption === '__new__' ? await startDevelopWorkflow(issueNumber, options) : selectedOption
           }
 
+          // Worktrees are local changes; skip them in dry-run mode
+          if (isDryRun()) {
+            return
+          }
+
           // Prepare worktree path (centralized location)
           const worktreePath = `~/.please/worktrees/${repoInfo.repo}/${branch}`
           const expandedPath = worktreePath.replace(/^~/, process.env.HOME || '')
 
           // Check if worktree already exists
           if (fs.existsSync(expandedPath)) {
-            console.log(`✅ Worktree already exists!`)
-            console.log(`cd ${expandedPath}`)
+            printOutput(`✅ Worktree already exists!`)
+            printOutput(`cd ${expandedPath}`)
           }
           else if (repoInfo.gitDir && !options.repo) {
             // Case 1: Inside a cloned repo without --repo flag
             // Use the current repo's gitDir for worktree (proper remote tracking)
-            console.log(`📥 Fetching branch ${branch}...`)
+            printOutput(`📥 Fetching branch ${branch}...`)
 
             // Create worktree from current repo
-            console.log(msg.developCreateWorktree(worktreePath))
+            printOutput(msg.developCreateWorktree(worktreePath))
             await createWorktreeFromRepo(repoInfo.gitDir, branch, worktreePath)
 
-            console.log(msg.developWorktreeReady(expandedPath))
-            console.log(`cd ${expandedPath}`)
+            printOutput(msg.developWorktreeReady(expandedPath))
+            printOutput(`cd ${expandedPath}`)
           }
           else {
             // Case 2: Outside repo or --repo specified - use bare repo mode
@@ -117,31 +123,31 @@ export function createDevelopCommand(): Command {
               })
 
               if (!shouldClone) {
-                console.log('Cancelled.')
+                printOutput('Cancelled.')
                 process.exit(0)
               }
 
-              console.log(msg.developCloning(repoInfo.owner, repoInfo.repo))
+              printOutput(msg.developCloning(repoInfo.owner, repoInfo.repo))
               bareRepoPath = await cloneBareRepo(repoInfo.owner, repoInfo.repo)
             }
 
             // Fetch branch into bare repo before creating worktree
-            console.log(`📥 Fetching branch ${branch}...`)
+            printOutput(`📥 Fetching branch ${branch}...`)
             await fetchBranch(bareRepoPath, branch)
 
             // Create worktree from bare repo
-            console.log(msg.developCreateWorktree(worktreePath))
+            printOutput(msg.developCreateWorktree(worktreePath))
             await createWorktree(bareRepoPath, branch, worktreePath)
 
-            console.log(msg.developWorktreeReady(expandedPath))
-            console.log(`cd ${expandedPath}`)
+            printOutput(msg.developWorktreeReady(expandedPath))
+            printOutput(`cd ${expandedPath}`)
           }
         }
         else {
           // Default mode (no --worktree): Pass through to gh issue develop
           // This supports both default (branch only) and --checkout modes
           const branch = await startDevelopWorkflow(issueNumber, options)
-          console.log(msg.developBranchReady(branch))
+          printOutput(msg.developBranchReady(branch))
         }
       }
       catch (error) {
@@ -0,0 +1,200 @@
+import type { DryRunResult } from '../../lib/github'
+import type { IssueMessages } from '../../lib/i18n'
+import type { ImportRow } from '../../lib/issue-import'
+import { Command } from 'commander'
+import {
+  addBlockedBy,
+  addSubIssue,
+  createIssueWithType,
+  DRY_RUN_PLACEHOLDER,
+  getAssigneeNodeIds,
+  getExitCode,
+  getLabelNodeIds,
+  getMilestoneNodeId,
+  getParentIssue,
+  getProjectNodeIds,
+  isDryRunResult,
+  listBlockedBy,
+  listIssuesWithBody,
+  listIssueTypes,
+  printOutput,
+  updateIssueFields,
+  updateIssueType,
+} from '../../lib/github'
+import { getRepoInfo } from '../../lib/github-api'
+import { detectSystemLanguage, getIssueMessages } from '../../lib/i18n'
+import {
+  detectImportFormat,
+  ensureImportKey,
+  indexImportedIssues,
+  orderImport,
+  parseImport,
+  withImportKey,
+} from '../../lib/issue-import'
+
+/**
+ * Read an import file or stdin ("-")
+ */
+async function readImportText(filePath: string): Promise<string> {
+  if (filePath === '-') {
+    return Bun.stdin.text()
+  }
+  const file = Bun.file(filePath)
+  if (!(await file.exists())) {
+    throw new Error(`File not found: ${filePath}`)
+  }
+  return file.text()
+}
+
+/**
+ * Resolve names to Node IDs, one lookup for all distinct names
+ */
+async function resolveNames(names: string[], lookup: (names: string[]) => Promise<string[]>): Promise<Map<string, string>> {
+  const distinct = [...new Set(names)]
+  if (distinct.length === 0) {
+    return new Map()
+  }
+  const ids = await lookup(distinct)
+  return new Map(distinct.map((name, i) => [name, ids[i]!]))
+}
+
+/**
+ * Resolve issue type names of the rows to Node IDs
+ */
+async function resolveTypeIds(owner: string, repo: string, rows: ImportRow[], msg: IssueMessages): Promise<Map<string, string>> {
+  const typeNames = [...new Set(rows.flatMap(row => row.type !== undefined ? [row.type] : []))]
+  const typeIds = new Map<string, string>()
+  if (typeNames.length === 0) {
+    return typeIds
+  }
+
+  printOutput(msg.fetchingIssueTypes)
+  const types = await listIssueTypes(owner, repo)
+  for (const name of typeNames) {
+    const match = types.find(t => t.name.toLowerCase() === name.toLowerCase())
+    if (!match) {
+      throw new Error(`${msg.issueTypeNotFound(name)}${msg.availableTypes}\n${types.map(t => `  - ${t.name}`).join('\n')}`)
+    }
+    typeIds.set(name, match.id)
+  }
+  return typeIds
+}
+
+/**
+ * Creates a command to create or update many issues from a YAML or CSV file
+ * @returns Command object for issue import
+ */
+export function createIssueImportCommand(): Command {
+  const command = new Command('import')
+
+  command
+    .description('Create or update issues from a YAML or CSV file (rows are matched to issues by key)')
+    .argument('<file>', 'YAML, JSON, or CSV file ("-" for stdin)')
+    .option('-R, --repo <owner/repo>', 'Repository in owner/repo format')
+    .action(async (filePath: string, options: { repo?: string }) => {
+      const lang = detectSystemLanguage()
+      const msg = getIssueMessages(lang)
+
+      try {
+        // Parse and validate the whole file before touching GitHub
+        printOutput(msg.readingImport(filePath))
+        const text = await readImportText(filePath)
+        const rows = orderImport(parseImport(text, detectImportFormat(filePath, text)))
+
+        const { owner, repo } = await getRepoInfo(options.repo)
+
+        const typeIds = await resolveTypeIds(owner, repo, rows, msg)
+        const labelIds = await resolveNames(rows.flatMap(row => row.labels), names => getLabelNodeIds(owner, repo, names))
+        const assigneeIds = await resolveNames(rows.flatMap(row => row.assignees), logins => getAssigneeNodeIds(owner, repo, logins))
+        const milestoneIds = await resolveNames(
+          rows.flatMap(row => row.milestone !== undefined ? [row.milestone] : []),
+          titles => Promise.all(titles.map(title => getMilestoneNodeId(owner, repo, title))),
+        )
+        const projectIds = await resolveNames(rows.flatMap(row => row.projects), titles => getProjectNodeIds(owner, repo, titles))
+
+        printOutput(msg.findingImportedIssues)
+        const existing = indexImportedIssues(await listIssuesWithBody(owner, repo))
+        const toUpdate = rows.filter(row => existing.has(row.key)).length
+        printOutput(msg.importingIssues(rows.length - toUpdate, toUpdate))
+
+        const nodeIds = new Map<string, string>()
+        let created = 0
+        let updated = 0
+        for (const [index, row] of rows.entries()) {
+          const typeId = row.type !== undefined ? typeIds.get(row.type) : undefined
+          const rowLabelIds = row.labels.map(name => labelIds.get(name)!)
+          const rowAssigneeIds = row.assignees.map(login => assigneeIds.get(login)!)
+          const milestoneId = row.milestone !== undefined ? milestoneIds.get(row.milestone) : undefined
+          const previous = existing.get(row.key)
+
+          let issue: { number: number, nodeId: string } | DryRunResult
+          if (previous) {
+            // Fields left out of the row are not changed; projects only apply to new issues
+            const body = row.body !== undefined ? withImportKey(row.body, row.key) : ensureImportKey(previous.body, row.key)
+            await updateIssueFields(previous.nodeId, {
+              title: row.title,
+              ...(body !== previous.body && { body }),
+              ...(row.labels.length > 0 && { labelIds: rowLabelIds }),
+              ...(row.assignees.length > 0 && { assigneeIds: rowAssigneeIds }),
+              ...(milestoneId !== undefined && { milestoneId }),
+            })
+            if (typeId !== undefined) {
+              await updateIssueType(previous.nodeId, typeId)
+            }
+            issue = previous
+          }
+          else {
+            issue = await createIssueWithType(
+              owner,
+              repo,
+              row.title,
+              withImportKey(row.body, row.key),
+              typeId,
+              rowLabelIds,
+              rowAssigneeIds,
+              milestoneId,
+              row.projects.map(title => projectIds.get(title)!),
+            )
+          }
+          nodeIds.set(row.key, issue.nodeId)
+
+          if (row.parent !== undefined) {
+            const parentNodeId = nodeIds.get(row.parent)!
+            const currentParent = previous ? await getParentIssue(issue.nodeId) : null
+            if (currentParent?.nodeId !== parentNodeId) {
+              await addSubIssue(parentNodeId, issue.nodeId, { replaceParent: currentParent !== null })
+            }
+          }
+
+          const currentBlockers = previous && row.blockedBy.length > 0
+            ? new Set((await listBlockedBy(issue.nodeId)).map(blocker => blocker.nodeId))
+            : new Set<string>()
+          for (const key of row.blockedBy) {
+            const blockerNodeId = nodeIds.get(key)!
+            if (!currentBlockers.has(blockerNodeId)) {
+              await addBlockedBy(issue.nodeId, blockerNodeId)
+            }
+          }
+
+          if (previous) {
+            updated++
+          }
+          else {
+            created++
+          }
+          const issueLabel = isDryRunResult(issue) ? DRY_RUN_PLACEHOLDER : `#${issue.number}`
+          printOutput(msg.importProgress(index + 1, rows.length, issueLabel, row.title, previous !== undefined))
+        }
+
+        printOutput(msg.importSummary(created, updated, `${owner}/${repo}`))
+      }
+      catch (error) {
+        console.error(
+          `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
+        )
+        process.exit(getExitCode(error))
+      }
+    })
+
+  return command
+}
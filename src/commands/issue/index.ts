@@ -6,6 +6,8 @@ import { createIssueCommentListCommand } from './comment-list'
 import { createIssueCreateCommand } from './create'
 import { createDependencyCommand } from './dependency'
 import { createDevelopCommand } from './develop'
+import { createIssueImportCommand } from './import'
+import { createIssueProgressCommand } from './progress'
 import { createSubIssueCommand } from './sub-issue'
 import { createIssueTypeCommand } from './type'
 
@@ -15,8 +17,10 @@ export function createIssueCommand(): Command {
   command.description('Manage GitHub issues')
 
   command.addCommand(createIssueCreateCommand())
+  command.addCommand(createIssueImportCommand())
   command.addCommand(createSubIssueCommand())
   command.addCommand(createDependencyCommand())
+  command.addCommand(createIssueProgressCommand())
   command.addCommand(createDevelopCommand())
   command.addCommand(createCleanupCommand())
   command.addCommand(createIssueTypeCommand())
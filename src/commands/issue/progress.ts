@@ -0,0 +1,100 @@
+import type { OutputData } from '../../lib/formatters'
+import type { IssueRef } from '../../lib/issue-ref'
+import { Command } from 'commander'
+import { listIssueComments, updateIssueComment } from '../../lib/comment-api'
+import { createFormatter, getOutputFormat } from '../../lib/formatters'
+import { getExitCode, getSubIssueTree, MAX_SUB_ISSUE_DEPTH, printOutput } from '../../lib/github'
+import { createIssueComment } from '../../lib/github-api'
+import { detectSystemLanguage, getIssueMessages } from '../../lib/i18n'
+import { buildProgressReport, PROGRESS_COMMENT_MARKER } from '../../lib/issue-progress'
+import { formatIssueRef, getIssueRefNodeIds, getIssueRefUrl, resolveIssueRefs } from '../../lib/issue-ref'
+
+const PROGRESS_FORMATS = ['human', 'markdown', 'xml']
+
+/**
+ * Create or update the marked progress comment on an issue
+ *
+ * @returns URL of the comment and whether an existing comment was updated
+ */
+async function upsertProgressComment(issue: IssueRef, markdown: string): Promise<{ url: string, updated: boolean }> {
+  const body = `${PROGRESS_COMMENT_MARKER}\n${markdown}`
+  const comments = await listIssueComments(issue.owner, issue.repo, issue.number)
+  const existing = comments.find(comment => comment.body.includes(PROGRESS_COMMENT_MARKER))
+
+  if (existing) {
+    await updateIssueComment(issue.owner, issue.repo, existing.id, body)
+    return { url: existing.html_url, updated: true }
+  }
+
+  const commentId = await createIssueComment(issue.owner, issue.repo, issue.number, body)
+  return { url: `${getIssueRefUrl(issue)}#issuecomment-${commentId}`, updated: false }
+}
+
+/**
+ * Creates a command to report progress of an issue's whole sub-issue subtree
+ * @returns Command object configured for progress reports
+ */
+export function createIssueProgressCommand(): Command {
+  const command = new Command('progress')
+
+  command
+    .description('Report progress of an issue\'s sub-issue subtree (counts, breakdowns, overdue and blocked issues)')
+    .argument('<parent>', 'Parent issue (number, owner/repo#number, or URL)')
+    .option('-R, --repo <owner/repo>', 'Repository in owner/repo format')
+    .option('--depth <number>', `Levels of sub-issues to include (default: ${MAX_SUB_ISSUE_DEPTH})`)
+    .option('--format <format>', 'Output format: human, markdown, or xml (default: GH_PLEASE_FORMAT or human)')
+    .option('--comment', 'Post the markdown report as a comment on the parent issue, updating the previous report comment')
+    .action(async (parentStr: string, options: { repo?: string, depth?: string, format?: string, comment?: boolean }) => {
+      const lang = detectSystemLanguage()
+      const msg = getIssueMessages(lang)
+
+      try {
+        if (options.format !== undefined && !PROGRESS_FORMATS.includes(options.format.toLowerCase())) {
+          throw new TypeError(msg.progressFormatInvalid(options.format))
+        }
+
+        let maxDepth = MAX_SUB_ISSUE_DEPTH
+        if (options.depth !== undefined) {
+          maxDepth = Number(options.depth)
+          if (!Number.isInteger(maxDepth) || maxDepth < 1 || maxDepth > MAX_SUB_ISSUE_DEPTH) {
+            throw new TypeError(msg.depthInvalid(options.depth, MAX_SUB_ISSUE_DEPTH))
+          }
+        }
+
+        const { context, refs: [parent] } = await resolveIssueRefs([parentStr], options.repo)
+        const parentLabel = formatIssueRef(parent!, context)
+
+        // Progress goes to stderr so markdown/xml reports can be redirected
+        console.error(msg.collectingProgress(parentLabel))
+        const [parentNodeId] = await getIssueRefNodeIds([parent!])
+        const tree = await getSubIssueTree(parentNodeId!, { maxDepth })
+
+        if (tree.children.length === 0) {
+          console.error(msg.noProgressSubIssues(parentLabel))
+          return
+        }
+
+        const output: OutputData = {
+          command: 'gh please issue progress',
+          repository: `${parent!.owner}/${parent!.repo}`,
+          timestamp: new Date().toISOString(),
+          data: await buildProgressReport(tree),
+        }
+        printOutput(createFormatter(getOutputFormat(options.format)).format(output))
+
+        if (options.comment) {
+          console.error(msg.postingProgressComment(parentLabel))
+          const { url, updated } = await upsertProgressComment(parent!, createFormatter('markdown').format(output))
+          console.error(updated ? msg.progressCommentUpdated(url) : msg.progressCommentCreated(url))
+        }
+      }
+      catch (error) {
+        console.error(
+          `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
+        )
+        process.exit(getExitCode(error))
+      }
+    })
+
+  return command
+}
@@ -1,21 +1,73 @@
 import type { OutputFormat } from '@pleaseai/cli-toolkit/output'
-import { isStructuredOutput, outputData, parseFields } from '@pleaseai/cli-toolkit/output'
+import type { SubIssueMove, SubIssueTreeNode } from '../../lib/github'
+import type { IssueRef, RepoInfo } from '../../lib/issue-ref'
+import { multiselect } from '@clack/prompts'
+import { isStructuredOutput, parseFields } from '@pleaseai/cli-toolkit/output'
 import { Command } from 'commander'
 import {
   addSubIssue,
+  closeIssue,
   createIssueWithType,
-  getIssueNodeId,
+  DRY_RUN_PLACEHOLDER,
+  getExitCode,
+  getIssueBody,
+  getParentIssue,
+  getRepositoryUrl,
+  getSubIssueTree,
+  isDryRunResult,
   listIssueTypes,
   listSubIssues,
+  MAX_SUB_ISSUE_DEPTH,
+  moveSubIssue,
+  planSubIssueReorder,
+  printOutput,
   removeSubIssue,
+  reprioritizeSubIssue,
+  SubIssueMoveError,
+  updateIssueBody,
 } from '../../lib/github'
-import { getRepoInfo } from '../../lib/github-api'
 import { detectSystemLanguage, getIssueMessages } from '../../lib/i18n'
+import { formatIssueRef, getIssueRefNodeIds, getIssueRefUrl, isSameRepo, resolveIssueRefs, toIssueRef } from '../../lib/issue-ref'
 import { applyQuery } from '../../lib/jmespath-query'
+import { resolveListLimit } from '../../lib/list-limit'
+import { printData } from '../../lib/structured-output'
+import { createSubIssuesFromPlan, formatCreatedIssue } from '../../lib/sub-issue-plan'
+import { linkTaskListItems, parseTaskList } from '../../lib/task-list'
+
+/**
+ * Format one tree line: state, number, title, type, assignees and rolled-up progress
+ *
+ * Issues from another repository than the root are shown as owner/repo#number.
+ */
+function formatTreeLine(node: SubIssueTreeNode, rootRepository: string): string {
+  const status = node.state === 'OPEN' ? '🟢' : '🔴'
+  const ref = node.repository && node.repository !== rootRepository
+    ? `${node.repository}#${node.number}`
+    : `#${node.number}`
+  const details = [
+    node.issueType ? `[${node.issueType}]` : '',
+    node.assignees.map(login => `@${login}`).join(' '),
+    node.progress.total > 0 ? `(${node.progress.closed}/${node.progress.total})` : '',
+    node.truncated ? '…' : '',
+  ].filter(Boolean)
+
+  return [status, ref, node.title, ...details].join(' ')
+}
+
+/**
+ * Print the children of a tree node with box-drawing indentation
+ */
+function printTreeChildren(node: SubIssueTreeNode, rootRepository: string, indent = ''): void {
+  node.children.forEach((child, index) => {
+    const isLast = index === node.children.length - 1
+    printOutput(`${indent}${isLast ? '└── ' : '├── '}${formatTreeLine(child, rootRepository)}`)
+    printTreeChildren(child, rootRepository, `${indent}${isLast ? '    ' : '│   '}`)
+  })
+}
 
 /**
  * Creates a command to manage issue sub-issue relationships
- * @returns Command object with sub-commands (create, add, remove, list)
+ * @returns Command object with sub-commands (create, add, remove, list, tree, reorder, move, extract)
  */
 export function createSubIssueCommand(): Command {
   const command = new Command('sub-issue')
@@ -25,26 +77,32 @@ export function createSubIssueCommand(): Command {
   // Create subcommand
   const createCmd = new Command('create')
     .description('Create a new sub-issue linked to a parent')
-    .argument('<parent-issue>', 'Parent issue number')
-    .requiredOption('--title <text>', 'Sub-issue title')
+    .argument('<parent-issue>', 'Parent issue (number, owner/repo#number, or URL)')
+    .option('--title <text>', 'Sub-issue title')
     .option('--body <text>', 'Sub-issue body')
+    .option('--from-file <path>', 'Create a tree of sub-issues from a YAML or markdown task list plan ("-" for stdin)')
     .option('-R, --repo <owner/repo>', 'Repository in owner/repo format')
-    .option('--type <name>', 'Issue type name (e.g., "Bug", "Feature")')
+    .option('--type <name>', 'Issue type name (e.g., "Bug", "Feature"); default type for plan entries')
     .option('--type-id <id>', 'Issue type Node ID (direct)')
-    .action(async (parentStr: string, options: { title: string, body?: string, repo?: string, type?: string, typeId?: string }) => {
+    .action(async (parentStr: string, options: { title?: string, body?: string, fromFile?: string, repo?: string, type?: string, typeId?: string }) => {
       const lang = detectSystemLanguage()
       const msg = getIssueMessages(lang)
 
       try {
-        const parentNumber = Number.parseInt(parentStr, 10)
-        if (Number.isNaN(parentNumber)) {
-          throw new TypeError(msg.issueNumberInvalid)
+        if ((options.title === undefined) === (options.fromFile === undefined)) {
+          throw new Error(msg.subIssueSourceRequired)
+        }
+        if (options.fromFile !== undefined) {
+          await createSubIssuesFromPlan(parentStr, { fromFile: options.fromFile, repo: options.repo, type: options.type }, msg)
+          return
         }
 
-        const { owner, repo } = await getRepoInfo(options.repo)
-        console.log(msg.gettingParentIssue(parentNumber))
+        // The sub-issue is created in --repo or the current repository, wherever the parent lives
+        const { context, refs: [parent] } = await resolveIssueRefs([parentStr], options.repo, { requireContext: true })
+        const { owner, repo } = context
+        printOutput(msg.gettingParentIssue(formatIssueRef(parent!, context)))
 
-        const parentNodeId = await getIssueNodeId(owner, repo, parentNumber)
+        const [parentNodeId] = await getIssueRefNodeIds([parent!])
 
         let issueTypeId: string | undefined
         let issueTypeName: string | undefined
@@ -56,7 +114,7 @@ export function createSubIssueCommand(): Command {
         }
         else if (options.type) {
           // Type name provided - need to look it up
-          console.log(msg.fetchingIssueTypes)
+          printOutput(msg.fetchingIssueTypes)
 
           const types = await listIssueTypes(owner, repo)
 
@@ -83,133 +141,116 @@ export function createSubIssueCommand(): Command {
         }
 
         // Create the sub-issue via GraphQL
-        console.log(msg.creatingSubIssue)
+        printOutput(msg.creatingSubIssue)
         const result = await createIssueWithType(
           owner,
           repo,
-          options.title,
+          options.title!,
           options.body,
           issueTypeId,
         )
 
-        const childNumber = result.number
-        const childNodeId = result.nodeId
-
         // Now link it as a sub-issue
-        await addSubIssue(parentNodeId, childNodeId)
+        await addSubIssue(parentNodeId!, result.nodeId)
+        if (isDryRunResult(result)) {
+          return
+        }
+        const childNumber = result.number
 
         // Show success message with type info if provided
-        console.log(msg.subIssueCreatedLinked(childNumber, parentNumber))
+        printOutput(msg.subIssueCreatedLinked(`#${childNumber}`, formatIssueRef(parent!, context)))
         if (issueTypeName) {
-          console.log(`   Type: ${issueTypeName}`)
+          printOutput(`   Type: ${issueTypeName}`)
         }
-        console.log(
-          `   View: https://github.com/${owner}/${repo}/issues/${childNumber}`,
+        printOutput(
+          `   View: ${getRepositoryUrl(owner, repo)}/issues/${childNumber}`,
         )
       }
       catch (error) {
         console.error(
           `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
         )
-        process.exit(1)
+        process.exit(getExitCode(error))
       }
     })
 
   // Add subcommand
   const addCmd = new Command('add')
     .description('Add existing issue as sub-issue to parent')
-    .argument('<parent-issue>', 'Parent issue number')
-    .argument('<child-issue>', 'Child issue number to add as sub-issue')
+    .argument('<parent-issue>', 'Parent issue (number, owner/repo#number, or URL)')
+    .argument('<child-issue>', 'Child issue to add as sub-issue (number, owner/repo#number, or URL)')
     .option('-R, --repo <owner/repo>', 'Repository in owner/repo format')
     .action(async (parentStr: string, childStr: string, options: { repo?: string }) => {
       const lang = detectSystemLanguage()
       const msg = getIssueMessages(lang)
 
       try {
-        const parentNumber = Number.parseInt(parentStr, 10)
-        const childNumber = Number.parseInt(childStr, 10)
+        const { context, refs: [parent, child] } = await resolveIssueRefs([parentStr, childStr], options.repo)
+        const parentLabel = formatIssueRef(parent!, context)
+        const childLabel = formatIssueRef(child!, context)
 
-        if (Number.isNaN(parentNumber) || Number.isNaN(childNumber)) {
-          throw new TypeError(msg.issueNumberInvalid)
-        }
-
-        const { owner, repo } = await getRepoInfo(options.repo)
+        printOutput(msg.gettingNodeIds)
+        const [parentNodeId, childNodeId] = await getIssueRefNodeIds([parent!, child!])
 
-        console.log(msg.gettingNodeIds)
-        const parentNodeId = await getIssueNodeId(owner, repo, parentNumber)
-        const childNodeId = await getIssueNodeId(owner, repo, childNumber)
+        printOutput(msg.linkingSubIssue(childLabel, parentLabel))
+        await addSubIssue(parentNodeId!, childNodeId!)
 
-        console.log(msg.linkingSubIssue(childNumber, parentNumber))
-        await addSubIssue(parentNodeId, childNodeId)
-
-        console.log(msg.subIssueLinked)
-        console.log(
-          `   ${msg.parent}: https://github.com/${owner}/${repo}/issues/${parentNumber}`,
-        )
-        console.log(
-          `   ${msg.child}: https://github.com/${owner}/${repo}/issues/${childNumber}`,
-        )
+        printOutput(msg.subIssueLinked)
+        printOutput(`   ${msg.parent}: ${getIssueRefUrl(parent!)}`)
+        printOutput(`   ${msg.child}: ${getIssueRefUrl(child!)}`)
       }
       catch (error) {
         console.error(
           `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
         )
-        process.exit(1)
+        process.exit(getExitCode(error))
       }
     })
 
   // Remove subcommand
   const removeCmd = new Command('remove')
     .description('Remove sub-issue from parent')
-    .argument('<parent-issue>', 'Parent issue number')
-    .argument('<child-issue>', 'Child issue number to remove')
+    .argument('<parent-issue>', 'Parent issue (number, owner/repo#number, or URL)')
+    .argument('<child-issue>', 'Child issue to remove (number, owner/repo#number, or URL)')
     .option('-R, --repo <owner/repo>', 'Repository in owner/repo format')
     .action(async (parentStr: string, childStr: string, options: { repo?: string }) => {
       const lang = detectSystemLanguage()
       const msg = getIssueMessages(lang)
 
       try {
-        const parentNumber = Number.parseInt(parentStr, 10)
-        const childNumber = Number.parseInt(childStr, 10)
-
-        if (Number.isNaN(parentNumber) || Number.isNaN(childNumber)) {
-          throw new TypeError(msg.issueNumberInvalid)
-        }
+        const { context, refs: [parent, child] } = await resolveIssueRefs([parentStr, childStr], options.repo)
+        const parentLabel = formatIssueRef(parent!, context)
+        const childLabel = formatIssueRef(child!, context)
 
-        const { owner, repo } = await getRepoInfo(options.repo)
+        printOutput(msg.gettingNodeIds)
+        const [parentNodeId, childNodeId] = await getIssueRefNodeIds([parent!, child!])
 
-        console.log(msg.gettingNodeIds)
-        const parentNodeId = await getIssueNodeId(owner, repo, parentNumber)
-        const childNodeId = await getIssueNodeId(owner, repo, childNumber)
+        printOutput(msg.unlinkingSubIssue(childLabel, parentLabel))
+        await removeSubIssue(parentNodeId!, childNodeId!)
 
-        console.log(msg.unlinkingSubIssue(childNumber, parentNumber))
-        await removeSubIssue(parentNodeId, childNodeId)
-
-        console.log(msg.subIssueUnlinked)
-        console.log(
-          `   ${msg.parent}: https://github.com/${owner}/${repo}/issues/${parentNumber}`,
-        )
-        console.log(
-          `   ${msg.child}: https://github.com/${owner}/${repo}/issues/${childNumber}`,
-        )
+        printOutput(msg.subIssueUnlinked)
+        printOutput(`   ${msg.parent}: ${getIssueRefUrl(parent!)}`)
+        printOutput(`   ${msg.child}: ${getIssueRefUrl(child!)}`)
       }
       catch (error) {
         console.error(
           `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
         )
-        process.exit(1)
+        process.exit(getExitCode(error))
       }
     })
 
   // List subcommand
   const listCmd = new Command('list')
     .description('List all sub-issues of a parent issue')
-    .argument('<parent-issue>', 'Parent issue number')
+    .argument('<parent-issue>', 'Parent issue (number, owner/repo#number, or URL)')
     .option('-R, --repo <owner/repo>', 'Repository in owner/repo format')
-    .option('--json [fields]', 'Output in JSON format with optional field selection (number,title,state,nodeId,url)')
+    .option('--json [fields]', 'Output in JSON format with optional field selection (number,title,state,nodeId,url,repository)')
     .option('--format <format>', 'Output format: json or toon')
     .option('--query <jmespath>', 'JMESPath query to filter results (e.g., "[?state==\'OPEN\'].{number:number,title:title}")')
-    .action(async (parentStr: string, options: { repo?: string, json?: string | boolean, format?: OutputFormat, query?: string }) => {
+    .option('-L, --limit <number>', 'Maximum number of sub-issues to fetch (default: 100)')
+    .option('--all', 'Fetch all sub-issues (ignores --limit)')
+    .action(async (parentStr: string, options: { repo?: string, json?: string | boolean, format?: OutputFormat, query?: string, limit?: string, all?: boolean }) => {
       // Determine output format
       const outputFormat: OutputFormat = options.format
         ? options.format
@@ -221,63 +262,389 @@ export function createSubIssueCommand(): Command {
       const msg = getIssueMessages(lang)
 
       try {
-        const parentNumber = Number.parseInt(parentStr, 10)
-        if (Number.isNaN(parentNumber)) {
-          throw new TypeError(msg.issueNumberInvalid)
-        }
-
-        const { owner, repo } = await getRepoInfo(options.repo)
+        const limit = resolveListLimit(options)
+        const { context, refs: [parent] } = await resolveIssueRefs([parentStr], options.repo)
+        const parentLabel = formatIssueRef(parent!, context)
 
         // Determine output mode
         const shouldUseStructuredOutput = isStructuredOutput(options)
 
         // Show progress messages only for human-readable output
         if (!shouldUseStructuredOutput) {
-          console.log(msg.fetchingSubIssues(parentNumber))
+          printOutput(msg.fetchingSubIssues(parentLabel))
         }
 
         // Fetch sub-issues
-        const parentNodeId = await getIssueNodeId(owner, repo, parentNumber)
-        const subIssues = await listSubIssues(parentNodeId)
+        const [parentNodeId] = await getIssueRefNodeIds([parent!])
+        const subIssues = await listSubIssues(parentNodeId!, {
+          limit,
+          onTruncated: count => console.warn(msg.resultsTruncated(count)),
+        })
 
         // Handle structured output (JSON or TOON)
         if (shouldUseStructuredOutput) {
           const fields = parseFields(options.json)
-          let data = subIssues.map(issue => ({
-            number: issue.number,
-            title: issue.title,
-            state: issue.state,
-            nodeId: issue.nodeId,
-            url: `https://github.com/${owner}/${repo}/issues/${issue.number}`,
-          }))
+          let data = subIssues.map((issue) => {
+            const ref = toIssueRef(issue.repository, issue.number, context)
+            return {
+              number: issue.number,
+              title: issue.title,
+              state: issue.state,
+              nodeId: issue.nodeId,
+              url: issue.url ?? getIssueRefUrl(ref),
+              repository: `${ref.owner}/${ref.repo}`,
+            }
+          })
 
           // Apply JMESPath query if provided
           data = applyQuery(data, options.query, msg.errorPrefix, msg.unknownError)
 
-          outputData(data, outputFormat, fields)
+          printData(data, outputFormat, fields)
           return
         }
 
         // Human-readable output
         if (subIssues.length === 0) {
-          console.log(msg.noSubIssues(parentNumber))
+          printOutput(msg.noSubIssues(parentLabel))
           return
         }
 
-        console.log(msg.foundSubIssues(subIssues.length))
+        printOutput(msg.foundSubIssues(subIssues.length))
         for (const issue of subIssues) {
           const status = issue.state === 'OPEN' ? '🟢' : '🔴'
-          console.log(`${status} #${issue.number}: ${issue.title}`)
+          printOutput(`${status} ${formatIssueRef(toIssueRef(issue.repository, issue.number, context), context)}: ${issue.title}`)
+        }
+        printOutput(`\nView: ${getIssueRefUrl(parent!)}`)
+      }
+      catch (error) {
+        console.error(
+          `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
+        )
+        process.exit(getExitCode(error))
+      }
+    })
+
+  // Tree subcommand
+  const treeCmd = new Command('tree')
+    .description('Show the sub-issue hierarchy of an issue with progress rollup')
+    .argument('<issue>', 'Root issue (number, owner/repo#number, or URL)')
+    .option('-R, --repo <owner/repo>', 'Repository in owner/repo format')
+    .option('--depth <number>', `Levels of sub-issues to show (default: ${MAX_SUB_ISSUE_DEPTH})`)
+    .option('--format <format>', 'Output format: json or toon')
+    .option('--query <jmespath>', 'JMESPath query to filter results (e.g., "children[?state==\'OPEN\'].number")')
+    .action(async (issueStr: string, options: { repo?: string, depth?: string, format?: OutputFormat, query?: string }) => {
+      const lang = detectSystemLanguage()
+      const msg = getIssueMessages(lang)
+
+      try {
+        let maxDepth = MAX_SUB_ISSUE_DEPTH
+        if (options.depth !== undefined) {
+          maxDepth = Number(options.depth)
+          if (!Number.isInteger(maxDepth) || maxDepth < 1 || maxDepth > MAX_SUB_ISSUE_DEPTH) {
+            throw new TypeError(msg.depthInvalid(options.depth, MAX_SUB_ISSUE_DEPTH))
+          }
+        }
+
+        const { context, refs: [root] } = await resolveIssueRefs([issueStr], options.repo)
+        const rootLabel = formatIssueRef(root!, context)
+        const shouldUseStructuredOutput = isStructuredOutput(options)
+
+        if (!shouldUseStructuredOutput) {
+          printOutput(msg.fetchingSubIssueTree(rootLabel))
+        }
+
+        const [rootNodeId] = await getIssueRefNodeIds([root!])
+        const tree = await getSubIssueTree(rootNodeId!, { maxDepth })
+
+        if (shouldUseStructuredOutput) {
+          const data = applyQuery(tree, options.query, msg.errorPrefix, msg.unknownError)
+          printData(data, options.format ?? 'toon')
+          return
+        }
+
+        printOutput(`\n${formatTreeLine(tree, tree.repository)}`)
+        printTreeChildren(tree, tree.repository)
+
+        if (tree.children.length === 0) {
+          printOutput(msg.noSubIssues(rootLabel))
+          return
+        }
+
+        printOutput(msg.subIssueTreeProgress(tree.progress.closed, tree.progress.total))
+        printOutput(`View: ${tree.url}`)
+      }
+      catch (error) {
+        console.error(
+          `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
+        )
+        process.exit(getExitCode(error))
+      }
+    })
+
+  // Reorder subcommand
+  const reorderCmd = new Command('reorder')
+    .description('Change the order of sub-issues within a parent')
+    .argument('<parent-issue>', 'Parent issue (number, owner/repo#number, or URL)')
+    .argument('[child-issue]', 'Sub-issue to move (not used with --order)')
+    .option('-R, --repo <owner/repo>', 'Repository in owner/repo format')
+    .option('--before <issue>', 'Place the sub-issue before this sibling')
+    .option('--after <issue>', 'Place the sub-issue after this sibling')
+    .option('--top', 'Move the sub-issue to the top')
+    .option('--bottom', 'Move the sub-issue to the bottom')
+    .option('--order <issues>', 'Put these sub-issues first, in this order (e.g., 12,15,9), with the fewest moves')
+    .action(async (parentStr: string, childStr: string | undefined, options: { repo?: string, before?: string, after?: string, top?: boolean, bottom?: boolean, order?: string }) => {
+      const lang = detectSystemLanguage()
+      const msg = getIssueMessages(lang)
+
+      try {
+        const positions = [options.before, options.after, options.top, options.bottom, options.order].filter(p => p !== undefined)
+        if (positions.length !== 1 || (options.order === undefined) === (childStr === undefined)) {
+          throw new TypeError(msg.reorderPositionRequired)
+        }
+
+        const listed = options.order?.split(',').map(value => value.trim()).filter(Boolean) ?? []
+        if (options.order !== undefined && listed.length === 0) {
+          throw new TypeError(msg.reorderOrderInvalid(options.order))
+        }
+
+        // Resolve the parent and every sibling reference against the same repository context
+        const siblingValues = [childStr, options.before, options.after].filter((v): v is string => v !== undefined)
+        const { context, refs: [parent, ...siblings] } = await resolveIssueRefs([parentStr, ...siblingValues, ...listed], options.repo)
+        const parentLabel = formatIssueRef(parent!, context)
+
+        const [childRef, targetRef] = siblings
+        if (targetRef && childRef!.number === targetRef.number && isSameRepo(childRef!, targetRef)) {
+          throw new TypeError(msg.reorderTargetIsChild(formatIssueRef(childRef!, context)))
+        }
+
+        printOutput(msg.fetchingSubIssues(parentLabel))
+        const [parentNodeId] = await getIssueRefNodeIds([parent!])
+        const subIssues = await listSubIssues(parentNodeId!)
+
+        // Find a referenced issue among the parent's sub-issues
+        const indexOf = (ref: IssueRef): number => {
+          const index = subIssues.findIndex(issue =>
+            issue.number === ref.number && isSameRepo(toIssueRef(issue.repository, issue.number, context), ref))
+          if (index === -1) {
+            throw new Error(msg.notASubIssue(formatIssueRef(ref, context), parentLabel))
+          }
+          return index
+        }
+
+        let moves: SubIssueMove[]
+        if (options.order !== undefined) {
+          const first = siblings.map(indexOf)
+          if (new Set(first).size !== first.length) {
+            throw new TypeError(msg.reorderOrderInvalid(options.order))
+          }
+
+          const rest = subIssues.map((_, index) => index).filter(index => !first.includes(index))
+          moves = planSubIssueReorder(
+            subIssues.map(issue => issue.nodeId),
+            [...first, ...rest].map(index => subIssues[index]!.nodeId),
+          )
+        }
+        else {
+          const [child, target] = siblings
+          const childIndex = indexOf(child!)
+          const childId = subIssues[childIndex]!.nodeId
+          const last = subIssues.length - 1
+
+          if (options.top) {
+            moves = childIndex === 0 ? [] : [{ subIssueId: childId, beforeId: subIssues[0]!.nodeId }]
+          }
+          else if (options.bottom) {
+            moves = childIndex === last ? [] : [{ subIssueId: childId, afterId: subIssues[last]!.nodeId }]
+          }
+          else if (options.before !== undefined) {
+            const targetIndex = indexOf(target!)
+            moves = targetIndex === childIndex + 1 ? [] : [{ subIssueId: childId, beforeId: subIssues[targetIndex]!.nodeId }]
+          }
+          else {
+            const targetIndex = indexOf(target!)
+            moves = targetIndex === childIndex - 1 ? [] : [{ subIssueId: childId, afterId: subIssues[targetIndex]!.nodeId }]
+          }
+        }
+
+        if (moves.length === 0) {
+          printOutput(msg.subIssueOrderUnchanged)
+          return
+        }
+
+        if (options.order !== undefined) {
+          printOutput(msg.reorderingSubIssues(moves.length, parentLabel))
+        }
+        else {
+          printOutput(msg.reorderingSubIssue(formatIssueRef(siblings[0]!, context), parentLabel))
+        }
+
+        for (const { subIssueId, ...position } of moves) {
+          await reprioritizeSubIssue(parentNodeId!, subIssueId, position)
+        }
+
+        printOutput(msg.subIssueReordered)
+        printOutput(`   ${msg.parent}: ${getIssueRefUrl(parent!)}`)
+      }
+      catch (error) {
+        console.error(
+          `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
+        )
+        process.exit(getExitCode(error))
+      }
+    })
+
+  // Move subcommand
+  const moveCmd = new Command('move')
+    .description('Move a sub-issue to a different parent')
+    .argument('<child-issue>', 'Sub-issue to move (number, owner/repo#number, or URL)')
+    .requiredOption('--to <parent-issue>', 'New parent issue (number, owner/repo#number, or URL)')
+    .option('-R, --repo <owner/repo>', 'Repository in owner/repo format')
+    .action(async (childStr: string, options: { to: string, repo?: string }) => {
+      const lang = detectSystemLanguage()
+      const msg = getIssueMessages(lang)
+
+      let childLabel = childStr
+      let childNodeId: string | undefined
+      let context: RepoInfo | undefined
+      try {
+        const resolved = await resolveIssueRefs([childStr, options.to], options.repo)
+        context = resolved.context
+        const [child, newParent] = resolved.refs
+        childLabel = formatIssueRef(child!, context)
+        const newParentLabel = formatIssueRef(newParent!, context)
+
+        printOutput(msg.gettingNodeIds)
+        const [childId, newParentNodeId] = await getIssueRefNodeIds([child!, newParent!])
+        childNodeId = childId
+
+        const currentParent = await getParentIssue(childNodeId!)
+        if (currentParent?.nodeId === newParentNodeId) {
+          printOutput(msg.alreadySubIssueOf(childLabel, newParentLabel))
+          return
         }
-        console.log(
-          `\nView: https://github.com/${owner}/${repo}/issues/${parentNumber}`,
+
+        const currentParentLabel = currentParent
+          ? formatIssueRef(toIssueRef(currentParent.repository, currentParent.number, context), context)
+          : null
+        printOutput(msg.movingSubIssue(childLabel, currentParentLabel, newParentLabel))
+        await moveSubIssue(childNodeId!, newParentNodeId!, currentParent?.nodeId ?? null)
+
+        printOutput(msg.subIssueMoved(childLabel, newParentLabel))
+        printOutput(`   View: ${getIssueRefUrl(newParent!)}`)
+      }
+      catch (error) {
+        console.error(
+          `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
         )
+
+        // Report where the child ended up after a failed fallback
+        if (error instanceof SubIssueMoveError && childNodeId && context) {
+          const finalParent = await getParentIssue(childNodeId).catch(() => undefined)
+          if (finalParent !== undefined) {
+            const finalLabel = finalParent
+              ? formatIssueRef(toIssueRef(finalParent.repository, finalParent.number, context), context)
+              : null
+            console.error(msg.subIssueFinalParent(childLabel, finalLabel))
+          }
+        }
+
+        process.exit(getExitCode(error instanceof SubIssueMoveError ? error.cause : error))
+      }
+    })
+
+  // Extract subcommand
+  const extractCmd = new Command('extract')
+    .description('Turn task list items in an issue body into sub-issues')
+    .argument('<issue>', 'Issue whose body has the task list (number, owner/repo#number, or URL)')
+    .option('-R, --repo <owner/repo>', 'Repository in owner/repo format')
+    .option('--include-checked', 'Also extract checked items (created as closed sub-issues)')
+    .option('--all', 'Extract every item without prompting')
+    .action(async (issueStr: string, options: { repo?: string, includeChecked?: boolean, all?: boolean }) => {
+      const lang = detectSystemLanguage()
+      const msg = getIssueMessages(lang)
+
+      try {
+        const { context, refs: [issue] } = await resolveIssueRefs([issueStr], options.repo)
+        const issueLabel = formatIssueRef(issue!, context)
+
+        printOutput(msg.fetchingIssueBody(issueLabel))
+        const [issueNodeId] = await getIssueRefNodeIds([issue!])
+        const body = await getIssueBody(issueNodeId!)
+
+        const items = parseTaskList(body).filter(item => options.includeChecked || !item.checked)
+        if (items.length === 0) {
+          printOutput(msg.noTaskItems(issueLabel))
+          return
+        }
+        printOutput(msg.foundTaskItems(items.length))
+
+        let toExtract = items
+        if (!options.all) {
+          if (!process.stdin.isTTY) {
+            throw new TypeError(msg.taskItemsAllRequired)
+          }
+          const selected = await multiselect({
+            message: msg.selectTaskItems,
+            options: items.map(item => ({
+              value: item.line,
+              label: `${item.checked ? '[x]' : '[ ]'} ${item.text}`,
+            })),
+            initialValues: items.map(item => item.line),
+          })
+
+          if (typeof selected === 'symbol') {
+            // User cancelled
+            printOutput(msg.operationCancelled)
+            return
+          }
+
+          toExtract = items.filter(item => selected.includes(item.line))
+        }
+
+        // Sub-issues are created next to the issue, which may not be the current repository
+        printOutput(msg.creatingPlannedIssues(toExtract.length))
+        const links = new Map<number, string>()
+        try {
+          for (const item of toExtract) {
+            const child = await createIssueWithType(issue!.owner, issue!.repo, item.text)
+            links.set(item.line, formatCreatedIssue(child))
+            await addSubIssue(issueNodeId!, child.nodeId)
+            if (item.checked) {
+              await closeIssue(child.nodeId)
+            }
+
+            const childLabel = isDryRunResult(child)
+              ? DRY_RUN_PLACEHOLDER
+              : formatIssueRef({ owner: issue!.owner, repo: issue!.repo, number: child.number }, context)
+            printOutput(item.checked
+              ? msg.closedTaskItemCreated(childLabel, item.text)
+              : msg.plannedIssueCreated(childLabel, item.text))
+          }
+        }
+        catch (error) {
+          // Link the items created so far, so a re-run does not create them again
+          if (links.size > 0) {
+            console.error(msg.taskItemsPartiallyExtracted(links.size, toExtract.length, issueLabel))
+            toExtract
+              .filter(item => links.has(item.line))
+              .forEach(item => console.error(`   ${links.get(item.line)} ${item.text}`))
+            console.error(msg.updatingIssueBody(issueLabel))
+            await updateIssueBody(issueNodeId!, linkTaskListItems(body, links))
+          }
+          throw error
+        }
+
+        printOutput(msg.updatingIssueBody(issueLabel))
+        await updateIssueBody(issueNodeId!, linkTaskListItems(body, links))
+
+        printOutput(msg.taskItemsExtracted(toExtract.length, issueLabel))
+        printOutput(`   View: ${getIssueRefUrl(issue!)}`)
       }
       catch (error) {
         console.error(
           `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
         )
-        process.exit(1)
+        process.exit(getExitCode(error))
       }
     })
 
@@ -285,6 +652,10 @@ export function createSubIssueCommand(): Command {
   command.addCommand(addCmd)
   command.addCommand(removeCmd)
   command.addCommand(listCmd)
+  command.addCommand(treeCmd)
+  command.addCommand(reorderCmd)
+  command.addCommand(moveCmd)
+  command.addCommand(extractCmd)
 
   return command
 }
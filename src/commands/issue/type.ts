@@ -1,18 +1,201 @@
 import type { OutputFormat } from '@pleaseai/cli-toolkit/output'
-import { isStructuredOutput, outputData, parseFields } from '@pleaseai/cli-toolkit/output'
+import type { IssueTypeColor, IssueTypeInfo } from '../../lib/github'
+import type { IssueMessages } from '../../lib/i18n'
+import type { RetypeMatch } from '../../lib/issue-retype'
+import { confirm } from '@clack/prompts'
+import { isStructuredOutput, parseFields } from '@pleaseai/cli-toolkit/output'
 import { Command } from 'commander'
 import {
+  createOrgIssueType,
+  deleteOrgIssueType,
+  getExitCode,
   getIssueNodeId,
+  getLabelNodeIds,
+  getRepositoryUrl,
+  isDryRun,
+  isDryRunResult,
+  ISSUE_TYPE_COLORS,
   listIssueTypes,
+  listOrgIssueTypes,
+  normalizeIssueTypeColor,
+  NotFoundError,
+  printOutput,
+  removeIssueLabels,
+  searchIssuesWithType,
   updateIssueType,
+  updateOrgIssueType,
 } from '../../lib/github'
 import { getRepoInfo } from '../../lib/github-api'
 import { detectSystemLanguage, getIssueMessages } from '../../lib/i18n'
+import { parseLabelTypeMapping, planRetype } from '../../lib/issue-retype'
+import { buildIssueSearchQuery, parseLabelList } from '../../lib/issue-search'
+import { formatIssueTypeChanges, parseIssueTypeManifest, planIssueTypeSync } from '../../lib/issue-type-manifest'
 import { applyQuery } from '../../lib/jmespath-query'
+import { resolveListLimit } from '../../lib/list-limit'
+import { printData } from '../../lib/structured-output'
+
+/**
+ * Use --org, or the owner of the current repository
+ */
+async function resolveOrg(org?: string): Promise<string> {
+  return org ?? (await getRepoInfo()).owner
+}
+
+/**
+ * Validate a --color value
+ */
+function parseColorOption(color: string, msg: IssueMessages): IssueTypeColor {
+  const normalized = normalizeIssueTypeColor(color)
+  if (!normalized) {
+    throw new TypeError(msg.issueTypeColorInvalid(color, ISSUE_TYPE_COLORS.map(c => c.toLowerCase()).join(', ')))
+  }
+  return normalized
+}
+
+/**
+ * Find an organization issue type by name (case-insensitive)
+ */
+async function findOrgIssueType(org: string, name: string, msg: IssueMessages): Promise<IssueTypeInfo> {
+  printOutput(msg.fetchingOrgIssueTypes(org))
+  const types = await listOrgIssueTypes(org)
+  const type = types.find(t => t.name.toLowerCase() === name.toLowerCase())
+  if (!type) {
+    throw new NotFoundError(msg.orgIssueTypeNotFound(name, org))
+  }
+  return type
+}
+
+/**
+ * Ask before a destructive change unless --yes or dry-run mode is set
+ *
+ * @returns Whether to proceed
+ */
+async function confirmChange(message: string, yes: boolean | undefined): Promise<boolean> {
+  if (yes || isDryRun()) {
+    return true
+  }
+  const answer = await confirm({ message })
+  return answer === true
+}
+
+/**
+ * Read a manifest from a file or stdin ("-")
+ */
+async function readManifestText(filePath: string): Promise<string> {
+  if (filePath === '-') {
+    return Bun.stdin.text()
+  }
+  const file = Bun.file(filePath)
+  if (!(await file.exists())) {
+    throw new Error(`File not found: ${filePath}`)
+  }
+  return file.text()
+}
+
+interface SetTypeOptions {
+  repo?: string
+  type?: string
+  typeId?: string
+  search?: string
+  fromLabel?: string
+  removeLabel?: string | boolean
+}
+
+/**
+ * Set the type of every issue found by --search or --from-label, then remove labels if asked
+ *
+ * Issues are processed one by one; failures are reported and counted, and the
+ * command exits with 1 if any issue failed.
+ */
+async function setIssueTypesInBulk(options: SetTypeOptions, msg: IssueMessages): Promise<void> {
+  if (options.fromLabel !== undefined && (options.type !== undefined || options.typeId !== undefined)) {
+    throw new TypeError(msg.typeSetFromLabelConflict)
+  }
+  if (options.fromLabel === undefined && options.type === undefined) {
+    throw new TypeError(msg.typeSetSearchTypeRequired)
+  }
+  if (options.removeLabel === true && options.fromLabel === undefined) {
+    throw new TypeError(msg.removeLabelNamesRequired)
+  }
+  const mappings = options.fromLabel !== undefined ? parseLabelTypeMapping(options.fromLabel) : []
+
+  const { owner, repo } = await getRepoInfo(options.repo)
+
+  printOutput(msg.fetchingIssueTypes)
+  const types = await listIssueTypes(owner, repo)
+  const resolveType = (name: string) => {
+    const type = types.find(t => t.name.toLowerCase() === name.toLowerCase())
+    if (!type) {
+      const available = types.length > 0 ? `\n\nAvailable types:\n${types.map(t => `  - ${t.name}`).join('\n')}` : ''
+      throw new NotFoundError(`${msg.issueTypeNotFound(name)}${available}`)
+    }
+    return type
+  }
+
+  // Search once per mapped label, or once for --search
+  const searches = mappings.length > 0
+    ? mappings.map(mapping => ({ label: mapping.label as string | undefined, type: resolveType(mapping.type), labels: [mapping.label] }))
+    : [{ label: undefined, type: resolveType(options.type!), labels: [] }]
+  const matches: RetypeMatch[] = []
+  for (const search of searches) {
+    const query = [buildIssueSearchQuery({ owner, repo }, { labels: search.labels }), options.search].filter(Boolean).join(' ')
+    printOutput(msg.searchingIssues(query))
+    const issues = await searchIssuesWithType(query)
+    matches.push(...issues.map(issue => ({ issue, type: search.type.name, label: search.label })))
+  }
+
+  const { items, conflicts } = planRetype(matches)
+  for (const conflict of conflicts) {
+    console.warn(msg.retypeConflict(`#${conflict.issue.number}`, conflict.types))
+  }
+  if (items.length === 0) {
+    printOutput(msg.noIssuesMatched)
+    return
+  }
+
+  // Labels to remove: the names given, or each issue's mapped labels for a bare --remove-label
+  const explicitLabels = typeof options.removeLabel === 'string' ? parseLabelList(options.removeLabel) : undefined
+  const labelNames = explicitLabels ?? (options.removeLabel === true ? mappings.map(mapping => mapping.label) : [])
+  const labelIds = labelNames.length > 0 ? await getLabelNodeIds(owner, repo, labelNames) : []
+  const labelIdByName = new Map(labelNames.map((name, index) => [name.toLowerCase(), labelIds[index]!]))
+  const typeIdByName = new Map(types.map(type => [type.name, type.id]))
+
+  printOutput(msg.retypingIssues(items.length))
+  let retyped = 0
+  let labelsRemoved = 0
+  let failed = 0
+  for (const [index, item] of items.entries()) {
+    const issueRef = `#${item.issue.number}`
+    try {
+      if (item.retype) {
+        await updateIssueType(item.issue.nodeId, typeIdByName.get(item.type)!)
+        retyped++
+      }
+
+      const toRemove = explicitLabels ?? (options.removeLabel === true ? item.labels : [])
+      if (toRemove.length > 0) {
+        await removeIssueLabels(item.issue.nodeId, toRemove.map(name => labelIdByName.get(name.toLowerCase())!))
+        labelsRemoved++
+      }
+
+      printOutput(msg.retypeProgress(index + 1, items.length, issueRef, item.type, item.retype, toRemove))
+    }
+    catch (error) {
+      failed++
+      console.error(msg.retypeFailed(issueRef, error instanceof Error ? error.message : msg.unknownError))
+    }
+  }
+
+  const unchanged = items.filter(item => !item.retype).length
+  printOutput(msg.retypeSummary(retyped, unchanged, labelsRemoved, conflicts.length, failed))
+  if (failed > 0) {
+    process.exit(1)
+  }
+}
 
 /**
  * Creates a command group for issue type management
- * @returns Command object with subcommands (list, set, remove)
+ * @returns Command object with subcommands (list, set, remove, create, edit, enable, disable, delete, sync)
  */
 export function createIssueTypeCommand(): Command {
   const command = new Command('type')
@@ -26,7 +209,9 @@ export function createIssueTypeCommand(): Command {
     .option('--json [fields]', 'Output as JSON with optional field selection (id, name, description, color, isEnabled)')
     .option('--format <format>', 'Output format: json or toon')
     .option('--query <jmespath>', 'JMESPath query to filter results (e.g., "[?isEnabled==`true`].{name:name,color:color}")')
-    .action(async (options: { repo?: string, json?: string | boolean, format?: OutputFormat, query?: string }) => {
+    .option('-L, --limit <number>', 'Maximum number of issue types to fetch (default: 100)')
+    .option('--all', 'Fetch all issue types (ignores --limit)')
+    .action(async (options: { repo?: string, json?: string | boolean, format?: OutputFormat, query?: string, limit?: string, all?: boolean }) => {
       // Determine output format
       const outputFormat: OutputFormat = options.format
         ? options.format
@@ -38,6 +223,7 @@ export function createIssueTypeCommand(): Command {
       const msg = getIssueMessages(lang)
 
       try {
+        const limit = resolveListLimit(options)
         const { owner, repo } = await getRepoInfo(options.repo)
 
         // Determine output mode
@@ -45,19 +231,22 @@ export function createIssueTypeCommand(): Command {
 
         // Show progress messages only for human-readable output
         if (!shouldUseStructuredOutput) {
-          console.log(msg.fetchingIssueTypes)
+          printOutput(msg.fetchingIssueTypes)
         }
 
         // Fetch issue types
-        const types = await listIssueTypes(owner, repo)
+        const types = await listIssueTypes(owner, repo, {
+          limit,
+          onTruncated: count => console.warn(msg.resultsTruncated(count)),
+        })
 
         // Handle empty results
         if (types.length === 0) {
           if (shouldUseStructuredOutput) {
-            outputData([], outputFormat)
+            printData([], outputFormat)
           }
           else {
-            console.log(msg.noIssueTypes)
+            printOutput(msg.noIssueTypes)
           }
           return
         }
@@ -70,15 +259,15 @@ export function createIssueTypeCommand(): Command {
           // Apply JMESPath query if provided
           data = applyQuery(data, options.query, msg.errorPrefix, msg.unknownError)
 
-          outputData(data, outputFormat, fields)
+          printData(data, outputFormat, fields)
         }
         else {
           // Human-readable output
-          console.log(`\n📋 Available issue types (${types.length}):\n`)
+          printOutput(`\n📋 Available issue types (${types.length}):\n`)
           for (const type of types) {
             const enabled = type.isEnabled ? '✓' : '✗'
             const desc = type.description ? ` - ${type.description}` : ''
-            console.log(`  ${enabled} ${type.name} (${type.color})${desc}`)
+            printOutput(`  ${enabled} ${type.name} (${type.color})${desc}`)
           }
         }
       }
@@ -86,22 +275,36 @@ export function createIssueTypeCommand(): Command {
         console.error(
           `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
         )
-        process.exit(1)
+        process.exit(getExitCode(error))
       }
     })
 
   // Set subcommand
   const setCmd = new Command('set')
-    .description('Set the issue type for an issue')
-    .argument('<issue-number>', 'Issue number')
+    .description('Set the issue type for an issue, or for every issue matching a search or label mapping')
+    .argument('[issue-number]', 'Issue number (omit with --search or --from-label)')
     .option('-R, --repo <owner/repo>', 'Repository in owner/repo format')
     .option('--type <name>', 'Issue type name')
     .option('--type-id <id>', 'Issue type Node ID (direct)')
-    .action(async (issueStr: string, options: { repo?: string, type?: string, typeId?: string }) => {
+    .option('--search <query>', 'Set --type on every issue matching a search query (e.g., "label:bug is:open")')
+    .option('--from-label <mapping>', 'Set types from labels (e.g., bug=Bug,enhancement=Feature); --search narrows the issues')
+    .option('--remove-label [labels]', 'Remove labels after setting the type (the mapped labels with --from-label)')
+    .action(async (issueStr: string | undefined, options: SetTypeOptions) => {
       const lang = detectSystemLanguage()
       const msg = getIssueMessages(lang)
 
       try {
+        if (issueStr === undefined) {
+          if (options.search === undefined && options.fromLabel === undefined) {
+            throw new TypeError(msg.typeSetTargetRequired)
+          }
+          await setIssueTypesInBulk(options, msg)
+          return
+        }
+        if (options.search !== undefined || options.fromLabel !== undefined || options.removeLabel !== undefined) {
+          throw new TypeError(msg.typeSetTargetConflict)
+        }
+
         const issueNumber = Number.parseInt(issueStr, 10)
         if (Number.isNaN(issueNumber) || issueNumber <= 0) {
           throw new TypeError(msg.issueNumberInvalid)
@@ -125,7 +328,7 @@ export function createIssueTypeCommand(): Command {
         }
         else {
           // Type name provided - need to look it up
-          console.log(msg.fetchingIssueTypes)
+          printOutput(msg.fetchingIssueTypes)
 
           const types = await listIssueTypes(owner, repo)
 
@@ -154,17 +357,17 @@ export function createIssueTypeCommand(): Command {
         // Get issue Node ID
         const issueNodeId = await getIssueNodeId(owner, repo, issueNumber)
 
-        console.log(msg.settingIssueType(issueNumber, issueTypeName))
+        printOutput(msg.settingIssueType(issueNumber, issueTypeName))
         await updateIssueType(issueNodeId, issueTypeId)
 
-        console.log(msg.issueTypeSet)
-        console.log(`   View: https://github.com/${owner}/${repo}/issues/${issueNumber}`)
+        printOutput(msg.issueTypeSet)
+        printOutput(`   View: ${getRepositoryUrl(owner, repo)}/issues/${issueNumber}`)
       }
       catch (error) {
         console.error(
           `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
         )
-        process.exit(1)
+        process.exit(getExitCode(error))
       }
     })
 
@@ -188,23 +391,237 @@ export function createIssueTypeCommand(): Command {
         // Get issue Node ID
         const issueNodeId = await getIssueNodeId(owner, repo, issueNumber)
 
-        console.log(msg.removingIssueType(issueNumber))
+        printOutput(msg.removingIssueType(issueNumber))
         await updateIssueType(issueNodeId, null) // null to clear
 
-        console.log(msg.issueTypeRemoved)
-        console.log(`   View: https://github.com/${owner}/${repo}/issues/${issueNumber}`)
+        printOutput(msg.issueTypeRemoved)
+        printOutput(`   View: ${getRepositoryUrl(owner, repo)}/issues/${issueNumber}`)
+      }
+      catch (error) {
+        console.error(
+          `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
+        )
+        process.exit(getExitCode(error))
+      }
+    })
+
+  // Create subcommand (organization admin)
+  const createCmd = new Command('create')
+    .description('Create an organization issue type (requires organization admin)')
+    .argument('<name>', 'Issue type name')
+    .option('--org <org>', 'Organization (default: owner of the current repository)')
+    .option('-d, --description <text>', 'Issue type description')
+    .option('--color <color>', `Color: ${ISSUE_TYPE_COLORS.map(c => c.toLowerCase()).join(', ')}`)
+    .option('--disabled', 'Create the issue type disabled')
+    .action(async (name: string, options: { org?: string, description?: string, color?: string, disabled?: boolean }) => {
+      const lang = detectSystemLanguage()
+      const msg = getIssueMessages(lang)
+
+      try {
+        const color = options.color !== undefined ? parseColorOption(options.color, msg) : undefined
+        const org = await resolveOrg(options.org)
+
+        printOutput(msg.fetchingOrgIssueTypes(org))
+        const types = await listOrgIssueTypes(org)
+        if (types.some(t => t.name.toLowerCase() === name.toLowerCase())) {
+          throw new Error(msg.issueTypeAlreadyExists(name, org))
+        }
+
+        printOutput(msg.creatingIssueType(name, org))
+        await createOrgIssueType(org, {
+          name,
+          description: options.description,
+          color,
+          isEnabled: !options.disabled,
+        })
+
+        printOutput(msg.issueTypeCreated(name))
+      }
+      catch (error) {
+        console.error(
+          `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
+        )
+        process.exit(getExitCode(error))
+      }
+    })
+
+  // Edit subcommand (organization admin)
+  const editCmd = new Command('edit')
+    .description('Edit the name, description, or color of an organization issue type')
+    .argument('<name>', 'Current issue type name')
+    .option('--org <org>', 'Organization (default: owner of the current repository)')
+    .option('--name <name>', 'New name')
+    .option('-d, --description <text>', 'New description ("" to clear)')
+    .option('--color <color>', `New color: ${ISSUE_TYPE_COLORS.map(c => c.toLowerCase()).join(', ')}`)
+    .action(async (name: string, options: { org?: string, name?: string, description?: string, color?: string }) => {
+      const lang = detectSystemLanguage()
+      const msg = getIssueMessages(lang)
+
+      try {
+        if (options.name === undefined && options.description === undefined && options.color === undefined) {
+          throw new TypeError(msg.issueTypeEditRequired)
+        }
+        const color = options.color !== undefined ? parseColorOption(options.color, msg) : undefined
+        const org = await resolveOrg(options.org)
+        const type = await findOrgIssueType(org, name, msg)
+
+        printOutput(msg.updatingIssueType(type.name))
+        const updated = await updateOrgIssueType(org, type.id, {
+          name: options.name,
+          description: options.description,
+          color,
+        })
+
+        const updatedName = isDryRunResult(updated) ? undefined : updated.name
+        printOutput(msg.issueTypeUpdated(updatedName ?? options.name ?? type.name))
+      }
+      catch (error) {
+        console.error(
+          `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
+        )
+        process.exit(getExitCode(error))
+      }
+    })
+
+  // Enable/disable subcommands (organization admin)
+  const createToggleCommand = (enabled: boolean) => new Command(enabled ? 'enable' : 'disable')
+    .description(enabled
+      ? 'Enable an organization issue type'
+      : 'Disable an organization issue type (hidden from new issues, kept on existing ones)')
+    .argument('<name>', 'Issue type name')
+    .option('--org <org>', 'Organization (default: owner of the current repository)')
+    .action(async (name: string, options: { org?: string }) => {
+      const lang = detectSystemLanguage()
+      const msg = getIssueMessages(lang)
+
+      try {
+        const org = await resolveOrg(options.org)
+        const type = await findOrgIssueType(org, name, msg)
+
+        if (type.isEnabled === enabled) {
+          printOutput(msg.issueTypeStateUnchanged(type.name, enabled))
+          return
+        }
+
+        printOutput(msg.updatingIssueType(type.name))
+        await updateOrgIssueType(org, type.id, { isEnabled: enabled })
+
+        printOutput(enabled ? msg.issueTypeEnabled(type.name) : msg.issueTypeDisabled(type.name))
+      }
+      catch (error) {
+        console.error(
+          `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
+        )
+        process.exit(getExitCode(error))
+      }
+    })
+
+  // Delete subcommand (organization admin)
+  const deleteCmd = new Command('delete')
+    .description('Delete an organization issue type (issues of this type lose their type)')
+    .argument('<name>', 'Issue type name')
+    .option('--org <org>', 'Organization (default: owner of the current repository)')
+    .option('-y, --yes', 'Skip the confirmation prompt')
+    .action(async (name: string, options: { org?: string, yes?: boolean }) => {
+      const lang = detectSystemLanguage()
+      const msg = getIssueMessages(lang)
+
+      try {
+        const org = await resolveOrg(options.org)
+        const type = await findOrgIssueType(org, name, msg)
+
+        if (!(await confirmChange(msg.confirmDeleteIssueType(type.name, org), options.yes))) {
+          printOutput(msg.operationCancelled)
+          return
+        }
+
+        printOutput(msg.deletingIssueType(type.name))
+        await deleteOrgIssueType(org, type.id)
+
+        printOutput(msg.issueTypeDeleted(type.name))
+      }
+      catch (error) {
+        console.error(
+          `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
+        )
+        process.exit(getExitCode(error))
+      }
+    })
+
+  // Sync subcommand (organization admin)
+  const syncCmd = new Command('sync')
+    .description('Reconcile organization issue types with a YAML manifest, previewing the changes first')
+    .requiredOption('--file <path>', 'Manifest file (YAML or JSON, "-" for stdin)')
+    .option('--org <org>', 'Organization (default: owner of the current repository)')
+    .option('--prune', 'Delete issue types that are not in the manifest')
+    .option('-y, --yes', 'Apply without the confirmation prompt')
+    .action(async (options: { file: string, org?: string, prune?: boolean, yes?: boolean }) => {
+      const lang = detectSystemLanguage()
+      const msg = getIssueMessages(lang)
+
+      try {
+        printOutput(msg.readingTypeManifest(options.file))
+        const manifest = parseIssueTypeManifest(await readManifestText(options.file))
+        const org = await resolveOrg(options.org)
+
+        printOutput(msg.fetchingOrgIssueTypes(org))
+        const current = await listOrgIssueTypes(org)
+        const changes = planIssueTypeSync(current, manifest, { prune: options.prune })
+
+        if (changes.length === 0) {
+          printOutput(msg.typeSyncUpToDate(org))
+          return
+        }
+
+        printOutput(msg.typeSyncPreview(org, changes.length))
+        printOutput(formatIssueTypeChanges(changes))
+        printOutput()
+
+        if (!(await confirmChange(msg.confirmTypeSync(changes.length), options.yes))) {
+          printOutput(msg.operationCancelled)
+          return
+        }
+
+        for (const change of changes) {
+          if (change.action === 'create') {
+            const { entry } = change
+            printOutput(msg.creatingIssueType(entry.name, org))
+            await createOrgIssueType(org, {
+              name: entry.name,
+              description: entry.description,
+              color: entry.color,
+              isEnabled: entry.enabled,
+            })
+          }
+          else if (change.action === 'update') {
+            printOutput(msg.updatingIssueType(change.type.name))
+            await updateOrgIssueType(org, change.type.id, change.input)
+          }
+          else {
+            printOutput(msg.deletingIssueType(change.type.name))
+            await deleteOrgIssueType(org, change.type.id)
+          }
+        }
+
+        printOutput(msg.typeSyncApplied(changes.length))
       }
       catch (error) {
         console.error(
           `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
         )
-        process.exit(1)
+        process.exit(getExitCode(error))
       }
     })
 
   command.addCommand(listCmd)
   command.addCommand(setCmd)
   command.addCommand(removeCmd)
+  command.addCommand(createCmd)
+  command.addCommand(editCmd)
+  command.addCommand(createToggleCommand(true))
+  command.addCommand(createToggleCommand(false))
+  command.addCommand(deleteCmd)
+  command.addCommand(syncCmd)
 
   return command
 }
@@ -5,8 +5,10 @@
  */
 
 import type { OutputFormat } from '@pleaseai/cli-toolkit/output'
-import { isStructuredOutput, outputData, parseFields } from '@pleaseai/cli-toolkit/output'
+import { isStructuredOutput, parseFields } from '@pleaseai/cli-toolkit/output'
 import { Command } from 'commander'
+import { printOutput } from '../lib/github'
+import { printData } from '../lib/structured-output'
 import { installPlugin, uninstallPlugin } from '../plugins/plugin-installer'
 import { PluginRegistry } from '../plugins/plugin-registry'
 
@@ -53,39 +55,39 @@ export function createPluginCommand(): Command {
           author: plugin.author || null,
           premium: plugin.premium || false,
         }))
-        outputData(data, outputFormat, fields)
+        printData(data, outputFormat, fields)
         return
       }
 
       // Human-readable output
       if (plugins.length === 0) {
-        console.log('📦 No plugins installed')
-        console.log('')
-        console.log('💡 Available plugins:')
-        console.log('   • ai (premium)    - AI-powered automation')
-        console.log('   • speckit         - Spec document management')
-        console.log('')
-        console.log('Install with: gh please plugin install <name>')
+        printOutput('📦 No plugins installed')
+        printOutput('')
+        printOutput('💡 Available plugins:')
+        printOutput('   • ai (premium)    - AI-powered automation')
+        printOutput('   • speckit         - Spec document management')
+        printOutput('')
+        printOutput('Install with: gh please plugin install <name>')
         return
       }
 
-      console.log('📦 Installed plugins:\n')
+      printOutput('📦 Installed plugins:\n')
 
       for (const plugin of plugins) {
         const premiumBadge = plugin.premium ? '🔒' : '✅'
         const typeBadge = `[${plugin.type}]`
 
-        console.log(`${premiumBadge} ${plugin.name} v${plugin.version} ${typeBadge}`)
+        printOutput(`${premiumBadge} ${plugin.name} v${plugin.version} ${typeBadge}`)
 
         if (plugin.description) {
-          console.log(`   ${plugin.description}`)
+          printOutput(`   ${plugin.description}`)
         }
 
         if (plugin.author) {
-          console.log(`   by ${plugin.author}`)
+          printOutput(`   by ${plugin.author}`)
         }
 
-        console.log('')
+        printOutput('')
       }
     })
 
@@ -156,25 +158,25 @@ export function createPluginCommand(): Command {
           premium: plugin.premium,
           package: plugin.package,
         }))
-        outputData(data, outputFormat, fields)
+        printData(data, outputFormat, fields)
         return
       }
 
       // Human-readable output
-      console.log('🔍 Available gh-please plugins:\n')
+      printOutput('🔍 Available gh-please plugins:\n')
 
       if (filtered.length === 0) {
-        console.log(`No plugins found matching '${query}'`)
+        printOutput(`No plugins found matching '${query}'`)
         return
       }
 
       for (const plugin of filtered) {
         const badge = plugin.premium ? '🔒 premium' : '✅ free'
-        console.log(`${plugin.name} (${badge})`)
-        console.log(`   ${plugin.description}`)
-        console.log(`   by ${plugin.author}`)
-        console.log(`   Install: gh please plugin install ${plugin.name}`)
-        console.log('')
+        printOutput(`${plugin.name} (${badge})`)
+        printOutput(`   ${plugin.description}`)
+        printOutput(`   by ${plugin.author}`)
+        printOutput(`   Install: gh please plugin install ${plugin.name}`)
+        printOutput('')
       }
     })
 
@@ -203,9 +205,9 @@ export function createPluginCommand(): Command {
 
       if (premium && name !== 'ai') {
         console.error(`❌ Plugin '${name}' is not a premium plugin`)
-        console.log('   Premium plugins: ai')
-        console.log('')
-        console.log('Use --premium flag only with: gh please plugin install ai')
+        printOutput('   Premium plugins: ai')
+        printOutput('')
+        printOutput('Use --premium flag only with: gh please plugin install ai')
         process.exit(1)
       }
 
@@ -213,10 +215,10 @@ export function createPluginCommand(): Command {
 
       if (result.success) {
         if (!premium) {
-          console.log(`✅ ${result.message}`)
-          console.log('')
-          console.log('Plugin installed successfully!')
-          console.log('Restart your terminal or run: hash -r')
+          printOutput(`✅ ${result.message}`)
+          printOutput('')
+          printOutput('Plugin installed successfully!')
+          printOutput('Restart your terminal or run: hash -r')
         }
       }
       else {
@@ -249,7 +251,7 @@ export function createPluginCommand(): Command {
       const result = await uninstallPlugin(packageName, { global: !local })
 
       if (result.success) {
-        console.log(`✅ ${result.message}`)
+        printOutput(`✅ ${result.message}`)
       }
       else {
         console.error(`❌ ${result.message}`)
@@ -1,5 +1,12 @@
 import { Command } from 'commander'
-import { getPrNodeId, listReviewThreads, resolveReviewThread } from '../../lib/github'
+import {
+  getExitCode,
+  getPrNodeId,
+  getRepositoryUrl,
+  listReviewThreads,
+  printOutput,
+  resolveReviewThread,
+} from '../../lib/github'
 import { getRepoInfo } from '../../lib/github-api'
 import { detectSystemLanguage, getPrMessages } from '../../lib/i18n'
 
@@ -38,35 +45,35 @@ export function createResolveCommand(): Command {
           const prNodeId = await getPrNodeId(owner, repo, prNumber)
 
           if (options.all) {
-            console.log(msg.fetchingThreads(prNumber))
+            printOutput(msg.fetchingThreads(prNumber))
             const threads = await listReviewThreads(prNodeId)
             const unresolved = threads.filter(t => !t.isResolved)
 
             if (unresolved.length === 0) {
-              console.log(msg.allResolved)
+              printOutput(msg.allResolved)
               return
             }
 
-            console.log(msg.resolvingThreads(unresolved.length))
+            printOutput(msg.resolvingThreads(unresolved.length))
             for (const thread of unresolved) {
               await resolveReviewThread(thread.nodeId)
-              console.log(msg.resolvedThread(thread.path, thread.line))
+              printOutput(msg.resolvedThread(thread.path, thread.line))
             }
-            console.log(msg.resolvedCount(unresolved.length))
+            printOutput(msg.resolvedCount(unresolved.length))
           }
           else if (options.thread) {
-            console.log(msg.resolvingThread(options.thread))
+            printOutput(msg.resolvingThread(options.thread))
             await resolveReviewThread(options.thread)
-            console.log(msg.threadResolved)
+            printOutput(msg.threadResolved)
           }
 
-          console.log(`   View: https://github.com/${owner}/${repo}/pull/${prNumber}`)
+          printOutput(`   View: ${getRepositoryUrl(owner, repo)}/pull/${prNumber}`)
         }
         catch (error) {
           console.error(
             `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
           )
-          process.exit(1)
+          process.exit(getExitCode(error))
         }
       },
     )
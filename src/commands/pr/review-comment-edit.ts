@@ -1,5 +1,6 @@
 import { Command } from 'commander'
 import { getReviewComment, updateReviewComment } from '../../lib/comment-api'
+import { getExitCode, getRepositoryUrl, printOutput } from '../../lib/github'
 import { getRepoInfo } from '../../lib/github-api'
 import { detectSystemLanguage, getCommentMessages } from '../../lib/i18n'
 import { validateCommentId } from '../../lib/validation'
@@ -71,15 +72,15 @@ export function createReviewCommentEditCommand(): Command {
         const { owner, repo } = await getRepoInfo(options.repo)
 
         // Fetch current comment (for verification)
-        console.log(msg.fetchingComment(commentId))
+        printOutput(msg.fetchingComment(commentId))
         await getReviewComment(owner, repo, commentId)
 
         // Update comment
-        console.log(msg.updatingComment(commentId))
+        printOutput(msg.updatingComment(commentId))
         await updateReviewComment(owner, repo, commentId, body)
 
-        console.log(msg.commentUpdated)
-        console.log(`   https://github.com/${owner}/${repo}/pull#discussion_r${commentId}`)
+        printOutput(msg.commentUpdated)
+        printOutput(`   ${getRepositoryUrl(owner, repo)}/pull#discussion_r${commentId}`)
       }
       catch (error) {
         if (error instanceof Error) {
@@ -88,7 +89,7 @@ export function createReviewCommentEditCommand(): Command {
         else {
           console.error(msg.unknownError)
         }
-        process.exit(1)
+        process.exit(getExitCode(error))
       }
     })
 
@@ -1,4 +1,5 @@
 import { Command } from 'commander'
+import { getExitCode, printOutput } from '../../lib/github'
 import { createReviewReply, getCurrentPrInfo, getRepoInfo } from '../../lib/github-api'
 import { detectSystemLanguage, getPrMessages } from '../../lib/i18n'
 import { validateCommentId, validateReplyBody } from '../../lib/validation'
@@ -45,7 +46,7 @@ export function createReviewReplyCommand(): Command {
         // Validate body
         body = validateReplyBody(body)
 
-        console.log(msg.fetchingPrInfo)
+        printOutput(msg.fetchingPrInfo)
 
         let prInfo
         if (options.repo && options.pr) {
@@ -65,7 +66,7 @@ export function createReviewReplyCommand(): Command {
           prInfo = await getCurrentPrInfo()
         }
 
-        console.log(msg.creatingReply(commentId, prInfo.number))
+        printOutput(msg.creatingReply(commentId, prInfo.number))
         await createReviewReply({
           commentId,
           body,
@@ -79,7 +80,7 @@ export function createReviewReplyCommand(): Command {
         else {
           console.error(msg.unknownError)
         }
-        process.exit(1)
+        process.exit(getExitCode(error))
       }
     })
 
@@ -1,5 +1,5 @@
 import { Command } from 'commander'
-import { updateReviewCommentByNodeId } from '../../../lib/github'
+import { getExitCode, getRepositoryUrl, printOutput, updateReviewCommentByNodeId } from '../../../lib/github'
 import { getRepoInfo } from '../../../lib/github-api'
 import { detectSystemLanguage, getCommentMessages } from '../../../lib/i18n'
 import { toReviewCommentNodeId, validateCommentIdentifier } from '../../../lib/id-converter'
@@ -78,7 +78,7 @@ export function createReviewCommentEditCommand(): Command {
         if (commentIdentifier.startsWith('PRRC_')) {
           // Already a Node ID, use directly
           commentNodeId = commentIdentifier
-          console.log(`✓ Node ID detected, using directly`)
+          printOutput(`✓ Node ID detected, using directly`)
         }
         else {
           // Database ID - need PR number to convert
@@ -94,7 +94,7 @@ export function createReviewCommentEditCommand(): Command {
             throw new TypeError('Invalid PR number')
           }
 
-          console.log(`🔄 Converting Database ID to Node ID...`)
+          printOutput(`🔄 Converting Database ID to Node ID...`)
           commentNodeId = await toReviewCommentNodeId(
             commentIdentifier,
             owner,
@@ -106,20 +106,20 @@ export function createReviewCommentEditCommand(): Command {
         // Update comment using GraphQL
         const displayId = Number.parseInt(commentIdentifier, 10)
         if (!Number.isNaN(displayId)) {
-          console.log(msg.updatingComment(displayId))
+          printOutput(msg.updatingComment(displayId))
         }
         else {
-          console.log(`🔄 Updating comment ${commentIdentifier}...`)
+          printOutput(`🔄 Updating comment ${commentIdentifier}...`)
         }
         await updateReviewCommentByNodeId(commentNodeId, body)
 
-        console.log(msg.commentUpdated)
+        printOutput(msg.commentUpdated)
         // Show URL (best effort - may not have PR number for Node ID input)
         if (options.pr) {
           const prNumber = Number.parseInt(options.pr, 10)
           const dbId = Number.parseInt(commentIdentifier, 10)
           if (!Number.isNaN(dbId)) {
-            console.log(`   https://github.com/${owner}/${repo}/pull/${prNumber}#discussion_r${dbId}`)
+            printOutput(`   ${getRepositoryUrl(owner, repo)}/pull/${prNumber}#discussion_r${dbId}`)
           }
         }
       }
@@ -130,7 +130,7 @@ export function createReviewCommentEditCommand(): Command {
         else {
           console.error(msg.unknownError)
         }
-        process.exit(1)
+        process.exit(getExitCode(error))
       }
     })
 
@@ -1,10 +1,12 @@
 import type { OutputFormat } from '@pleaseai/cli-toolkit/output'
 import type { ReviewCommentInfo } from '../../../types'
-import { isStructuredOutput, outputData, parseFields } from '@pleaseai/cli-toolkit/output'
+import { isStructuredOutput, parseFields } from '@pleaseai/cli-toolkit/output'
 import { Command } from 'commander'
 import { listReviewComments } from '../../../lib/comment-api'
+import { getExitCode, printOutput } from '../../../lib/github'
 import { getRepoInfo } from '../../../lib/github-api'
 import { detectSystemLanguage, getCommentMessages } from '../../../lib/i18n'
+import { printData } from '../../../lib/structured-output'
 
 const BODY_PREVIEW_LENGTH = 80
 
@@ -75,7 +77,7 @@ export function createReviewCommentListCommand(): Command {
 
         // Fetch review comments (no progress messages in structured output mode)
         if (!shouldUseStructuredOutput) {
-          console.log(msg.listingReviewComments(prNumber))
+          printOutput(msg.listingReviewComments(prNumber))
         }
         const comments = await listReviewComments(owner, repo, prNumber)
 
@@ -92,20 +94,20 @@ export function createReviewCommentListCommand(): Command {
             updatedAt: comment.updated_at,
             url: comment.html_url,
           }))
-          outputData(data, outputFormat, fields)
+          printData(data, outputFormat, fields)
           return
         }
 
         // Human-readable output
         if (comments.length === 0) {
-          console.log(msg.noComments)
+          printOutput(msg.noComments)
           return
         }
 
-        console.log(msg.foundComments(comments.length))
+        printOutput(msg.foundComments(comments.length))
         comments.forEach((comment, index) => {
-          console.log(`\n[${index + 1}/${comments.length}]`)
-          console.log(formatReviewComment(comment))
+          printOutput(`\n[${index + 1}/${comments.length}]`)
+          printOutput(formatReviewComment(comment))
         })
       }
       catch (error) {
@@ -115,7 +117,7 @@ export function createReviewCommentListCommand(): Command {
         else {
           console.error(msg.unknownError)
         }
-        process.exit(1)
+        process.exit(getExitCode(error))
       }
     })
 
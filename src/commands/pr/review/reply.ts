@@ -1,5 +1,5 @@
 import { Command } from 'commander'
-import { createReviewCommentReply, getPrNodeId } from '../../../lib/github'
+import { createReviewCommentReply, getExitCode, getPrNodeId, isDryRunResult, printOutput } from '../../../lib/github'
 import { getCurrentPrInfo, getRepoInfo } from '../../../lib/github-api'
 import { detectSystemLanguage, getPrMessages } from '../../../lib/i18n'
 import { isDatabaseId, isNodeId, isThreadNodeId } from '../../../lib/id-converter'
@@ -53,7 +53,7 @@ export function createReviewReplyCommand(): Command {
         // Validate body
         body = validateReplyBody(body)
 
-        console.log(msg.fetchingPrInfo)
+        printOutput(msg.fetchingPrInfo)
 
         let prInfo
         if (options.repo && options.pr) {
@@ -78,15 +78,15 @@ export function createReviewReplyCommand(): Command {
 
         // Show progress based on identifier type
         if (isThreadNodeId(identifier)) {
-          console.log(`🔄 Creating reply to thread ${identifier} on PR #${prInfo.number}...`)
+          printOutput(`🔄 Creating reply to thread ${identifier} on PR #${prInfo.number}...`)
         }
         else {
           const displayId = Number.parseInt(identifier, 10)
           if (!Number.isNaN(displayId)) {
-            console.log(msg.creatingReply(displayId, prInfo.number))
+            printOutput(msg.creatingReply(displayId, prInfo.number))
           }
           else {
-            console.log(`🔄 Creating reply to comment ${identifier} on PR #${prInfo.number}...`)
+            printOutput(`🔄 Creating reply to comment ${identifier} on PR #${prInfo.number}...`)
           }
         }
 
@@ -94,11 +94,14 @@ export function createReviewReplyCommand(): Command {
         // - Thread ID (PRRT_...): used directly, no additional API call
         // - Comment ID or Database ID: finds thread via reviewThreads query
         const result = await createReviewCommentReply(identifier, body, prNodeId)
+        if (isDryRunResult(result)) {
+          return
+        }
 
-        console.log(`✅ Reply created successfully!`)
-        console.log(`   Comment ID: ${result.databaseId}`)
-        console.log(`   Node ID: ${result.nodeId}`)
-        console.log(`   View: ${result.url}`)
+        printOutput(`✅ Reply created successfully!`)
+        printOutput(`   Comment ID: ${result.databaseId}`)
+        printOutput(`   Node ID: ${result.nodeId}`)
+        printOutput(`   View: ${result.url}`)
       }
       catch (error) {
         if (error instanceof Error) {
@@ -107,7 +110,7 @@ export function createReviewReplyCommand(): Command {
         else {
           console.error(msg.unknownError)
         }
-        process.exit(1)
+        process.exit(getExitCode(error))
       }
     })
 
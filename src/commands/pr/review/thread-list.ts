@@ -1,9 +1,11 @@
 import type { OutputFormat } from '@pleaseai/cli-toolkit/output'
-import { isStructuredOutput, outputData, parseFields } from '@pleaseai/cli-toolkit/output'
+import { isStructuredOutput, parseFields } from '@pleaseai/cli-toolkit/output'
 import { Command } from 'commander'
-import { getPrNodeId, listReviewThreads } from '../../../lib/github'
+import { getExitCode, getPrNodeId, getRepositoryUrl, listReviewThreads, printOutput } from '../../../lib/github'
 import { getRepoInfo } from '../../../lib/github-api'
 import { detectSystemLanguage, getPrMessages } from '../../../lib/i18n'
+import { resolveListLimit } from '../../../lib/list-limit'
+import { printData } from '../../../lib/structured-output'
 
 /**
  * Creates a command to list review threads on pull requests
@@ -19,10 +21,12 @@ export function createThreadListCommand(): Command {
     .option('-R, --repo <owner/repo>', 'Repository in owner/repo format')
     .option('--json [fields]', 'Output in JSON format with optional field selection (nodeId,isResolved,path,line,resolvedBy,firstCommentBody,url)')
     .option('--format <format>', 'Output format: json or toon')
+    .option('-L, --limit <number>', 'Maximum number of review threads to fetch (default: 100)')
+    .option('--all', 'Fetch all review threads (ignores --limit)')
     .action(
       async (
         prNumberStr: string,
-        options: { unresolvedOnly?: boolean, repo?: string, json?: string | boolean, format?: OutputFormat },
+        options: { unresolvedOnly?: boolean, repo?: string, json?: string | boolean, format?: OutputFormat, limit?: string, all?: boolean },
       ) => {
         // Determine output format
         const outputFormat: OutputFormat = options.format
@@ -40,6 +44,7 @@ export function createThreadListCommand(): Command {
             throw new TypeError(msg.prNumberInvalid)
           }
 
+          const limit = resolveListLimit(options)
           const { owner, repo } = await getRepoInfo(options.repo)
           const prNodeId = await getPrNodeId(owner, repo, prNumber)
 
@@ -48,11 +53,14 @@ export function createThreadListCommand(): Command {
 
           // Show progress messages only for human-readable output
           if (!shouldUseStructuredOutput) {
-            console.log(msg.listingThreads(prNumber))
+            printOutput(msg.listingThreads(prNumber))
           }
 
           // Fetch review threads
-          const threads = await listReviewThreads(prNodeId)
+          const threads = await listReviewThreads(prNodeId, {
+            limit,
+            onTruncated: count => console.warn(msg.resultsTruncated(count)),
+          })
           const unresolvedThreads = threads.filter(t => !t.isResolved)
           const resolvedThreads = threads.filter(t => t.isResolved)
 
@@ -68,31 +76,31 @@ export function createThreadListCommand(): Command {
               line: thread.line,
               resolvedBy: thread.resolvedBy || null,
               firstCommentBody: thread.firstCommentBody || null,
-              url: `https://github.com/${owner}/${repo}/pull/${prNumber}#discussion_r${thread.firstCommentDatabaseId}`,
+              url: `${getRepositoryUrl(owner, repo)}/pull/${prNumber}#discussion_r${thread.firstCommentDatabaseId}`,
             }))
-            outputData(data, outputFormat, fields)
+            printData(data, outputFormat, fields)
             return
           }
 
           // Human-readable output
           if (threads.length === 0) {
-            console.log(msg.noThreads)
+            printOutput(msg.noThreads)
             return
           }
 
           // Check for empty results with better messaging
           if (options.unresolvedOnly && unresolvedThreads.length === 0) {
-            console.log(msg.noUnresolvedThreads)
+            printOutput(msg.noUnresolvedThreads)
             return
           }
 
           // Show summary
-          console.log(`\n${msg.foundThreads(threads.length, resolvedThreads.length, unresolvedThreads.length)}\n`)
+          printOutput(`\n${msg.foundThreads(threads.length, resolvedThreads.length, unresolvedThreads.length)}\n`)
 
           // Show unresolved threads
           if (unresolvedThreads.length > 0) {
             if (!options.unresolvedOnly) {
-              console.log(msg.unresolvedThreadsHeader(unresolvedThreads.length))
+              printOutput(msg.unresolvedThreadsHeader(unresolvedThreads.length))
             }
 
             unresolvedThreads.forEach((thread, index) => {
@@ -101,34 +109,34 @@ export function createThreadListCommand(): Command {
                 ? `\n    💬 "${truncateComment(thread.firstCommentBody, 80)}"`
                 : ''
 
-              console.log(`  ✗ Thread ${index + 1}: ${location}`)
-              console.log(`    Node ID: ${thread.nodeId}${commentPreview}`)
-              console.log(`\n    # Resolve command:`)
-              console.log(`    gh please pr review thread resolve ${prNumber} --thread ${thread.nodeId}\n`)
+              printOutput(`  ✗ Thread ${index + 1}: ${location}`)
+              printOutput(`    Node ID: ${thread.nodeId}${commentPreview}`)
+              printOutput(`\n    # Resolve command:`)
+              printOutput(`    gh please pr review thread resolve ${prNumber} --thread ${thread.nodeId}\n`)
             })
           }
 
           // Show resolved threads (if not filtered)
           if (!options.unresolvedOnly && resolvedThreads.length > 0) {
-            console.log(msg.resolvedThreadsHeader(resolvedThreads.length))
+            printOutput(msg.resolvedThreadsHeader(resolvedThreads.length))
             resolvedThreads.forEach((thread, index) => {
               const location = msg.threadAtLocation(thread.path, thread.line)
               const resolvedByText = thread.resolvedBy
                 ? ` (${msg.resolvedBy(thread.resolvedBy)})`
                 : ''
 
-              console.log(`  ✓ Thread ${index + 1}: ${location}${resolvedByText}`)
-              console.log(`    Node ID: ${thread.nodeId}\n`)
+              printOutput(`  ✓ Thread ${index + 1}: ${location}${resolvedByText}`)
+              printOutput(`    Node ID: ${thread.nodeId}\n`)
             })
           }
 
-          console.log(`${msg.viewPr} https://github.com/${owner}/${repo}/pull/${prNumber}`)
+          printOutput(`${msg.viewPr} ${getRepositoryUrl(owner, repo)}/pull/${prNumber}`)
         }
         catch (error) {
           console.error(
             `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
           )
-          process.exit(1)
+          process.exit(getExitCode(error))
         }
       },
     )
@@ -1,9 +1,11 @@
 import type { OutputFormat } from '@pleaseai/cli-toolkit/output'
-import { isStructuredOutput, outputData, parseFields } from '@pleaseai/cli-toolkit/output'
+import { isStructuredOutput, parseFields } from '@pleaseai/cli-toolkit/output'
 import { Command } from 'commander'
 import { executeGhCommand } from '../../lib/gh-passthrough'
+import { getExitCode, printOutput } from '../../lib/github'
 import { detectSystemLanguage, getRepoMessages } from '../../lib/i18n'
 import { applyQuery } from '../../lib/jmespath-query'
+import { printData } from '../../lib/structured-output'
 
 interface RepoListItem {
   name: string
@@ -115,7 +117,7 @@ export function createRepoListCommand(): Command {
 
         // Show progress messages only for human-readable output
         if (!shouldUseStructuredOutput) {
-          console.log(msg.fetchingRepositories)
+          printOutput(msg.fetchingRepositories)
         }
 
         // Execute gh CLI command
@@ -159,18 +161,18 @@ export function createRepoListCommand(): Command {
           // Apply JMESPath query if provided
           data = applyQuery(data, options.query, msg.errorPrefix, msg.unknownError)
 
-          outputData(data, outputFormat, fields)
+          printData(data, outputFormat, fields)
           return
         }
 
         // Human-readable output - pass through to gh CLI
-        console.log(result.stdout)
+        printOutput(result.stdout)
       }
       catch (error) {
         console.error(
           `${msg.errorPrefix}: ${error instanceof Error ? error.message : msg.unknownError}`,
         )
-        process.exit(1)
+        process.exit(getExitCode(error))
       }
     })
 
@@ -7,6 +7,8 @@ import { createPluginCommand } from './commands/plugin'
 import { createPrCommand } from './commands/pr'
 import { createRepoCommand } from './commands/repo'
 import { passThroughCommand } from './lib/gh-passthrough'
+import { getExitCode, setCacheMode, setDryRun, setHost } from './lib/github'
+import { enableTrace } from './lib/trace'
 import { PluginRegistry } from './plugins/plugin-registry'
 
 /**
@@ -20,6 +22,16 @@ export async function createProgram(): Promise<Command> {
     .name('gh-please')
     .description('GitHub CLI extension for managing pull requests and issues')
     .version(packageJson.version)
+    .option('--hostname <host>', 'GitHub host, e.g. a GitHub Enterprise Server (default: GH_HOST or github.com)')
+    .option('--no-cache', 'Bypass the on-disk lookup cache')
+    .option('--refresh', 'Refresh cached lookups (labels, milestones, projects, issue types)')
+    .option('--dry-run', 'Resolve inputs and print planned mutations without sending them')
+    .option('--dry-run-format <format>', 'Dry-run plan format: human or json (implies --dry-run)')
+    .option('--debug', 'Trace subprocesses and API requests to stderr as JSONL (or set GH_PLEASE_DEBUG=1)')
+    .option('--debug-file <path>', 'Append the trace to a file instead of stderr (implies --debug)')
+
+  // Apply global options before any subcommand runs
+  program.hook('preAction', () => applyGlobalOptions(program))
 
   // Add core command groups
   program.addCommand(createIssueCommand())
@@ -61,12 +73,48 @@ export async function createProgram(): Promise<Command> {
   program.on('command:*', async (_operands) => {
     // Get all args from process.argv (when run from CLI) or program.args (when run from tests)
     const args = program.args.length > 0 ? program.args : process.argv.slice(2)
+    applyGlobalOptions(program)
     await passThroughCommand(args)
   })
 
   return program
 }
 
+// Map --hostname / --no-cache / --refresh / --dry-run / --debug to process-wide settings
+function applyGlobalOptions(program: Command) {
+  const { hostname, cache, refresh, dryRun, dryRunFormat, debug, debugFile } = program.opts<{
+    hostname?: string
+    cache: boolean
+    refresh?: boolean
+    dryRun?: boolean
+    dryRunFormat?: string
+    debug?: boolean
+    debugFile?: string
+  }>()
+
+  if (debug || debugFile) {
+    enableTrace(debugFile)
+  }
+
+  if (hostname) {
+    setHost(hostname)
+  }
+
+  if (!cache) {
+    setCacheMode('disabled')
+  }
+  else if (refresh) {
+    setCacheMode('refresh')
+  }
+
+  if (dryRunFormat !== undefined && dryRunFormat !== 'human' && dryRunFormat !== 'json') {
+    program.error(`Invalid --dry-run-format '${dryRunFormat}'. Use 'human' or 'json'.`)
+  }
+  if (dryRun || dryRunFormat) {
+    setDryRun(dryRunFormat === 'json' ? 'json' : 'human')
+  }
+}
+
 // Load and register plugins
 async function loadPlugins(program: Command) {
   try {
@@ -108,5 +156,5 @@ async function main() {
 // Run main
 main().catch((error) => {
   console.error('Fatal error:', error)
-  process.exit(1)
+  process.exit(getExitCode(error))
 })
@@ -1,4 +1,5 @@
 import { mkdir, rm } from 'node:fs/promises'
+import { printOutput } from './github/dry-run'
 
 /**
  * Check if tar command is available on the system
@@ -79,7 +80,7 @@ export async function extractTarball(
 export async function cleanupArchive(filePath: string): Promise<void> {
   try {
     await rm(filePath, { force: true })
-    console.log(`[archive] Successfully removed tarball: ${filePath}`)
+    printOutput(`[archive] Successfully removed tarball: ${filePath}`)
   }
   catch (error) {
     // Log error but don't throw - cleanup is a best-effort operation
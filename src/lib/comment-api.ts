@@ -1,12 +1,6 @@
 import type { CommentInfo, ReviewCommentInfo } from '../types'
-
-/**
- * Get the gh command path from environment variable or use default
- * This allows tests to inject a mock gh command
- */
-function getGhCommand(): string {
-  return process.env.GH_PATH || 'gh'
-}
+import { classifyGhApiFailure } from './github/errors'
+import { ghApi } from './github/transport'
 
 /**
  * Get an issue comment by ID
@@ -22,9 +16,8 @@ export async function getIssueComment(
 ): Promise<CommentInfo> {
   const endpoint = `/repos/${owner}/${repo}/issues/comments/${commentId}`
 
-  const proc = Bun.spawn(
+  const response = await ghApi(
     [
-      getGhCommand(),
       'api',
       '-H',
       'Accept: application/vnd.github+json',
@@ -32,18 +25,12 @@ export async function getIssueComment(
       'X-GitHub-Api-Version: 2022-11-28',
       endpoint,
     ],
-    {
-      stdout: 'pipe',
-      stderr: 'pipe',
-    },
   )
+  const output = response.body
 
-  const output = await new Response(proc.stdout).text()
-  const exitCode = await proc.exited
-
-  if (exitCode !== 0) {
-    const error = await new Response(proc.stderr).text()
-    throw new Error(`Failed to fetch issue comment ${commentId}: ${error.trim()}`)
+  if (response.exitCode !== 0) {
+    const error = response.stderr
+    throw classifyGhApiFailure(`Failed to fetch issue comment ${commentId}: ${error.trim()}`, error, output)
   }
 
   return JSON.parse(output)
@@ -64,9 +51,8 @@ export async function updateIssueComment(
 ): Promise<void> {
   const endpoint = `/repos/${owner}/${repo}/issues/comments/${commentId}`
 
-  const proc = Bun.spawn(
+  const response = await ghApi(
     [
-      getGhCommand(),
       'api',
       '--method',
       'PATCH',
@@ -78,17 +64,11 @@ export async function updateIssueComment(
       '-f',
       `body=${body}`,
     ],
-    {
-      stdout: 'pipe',
-      stderr: 'pipe',
-    },
   )
 
-  const exitCode = await proc.exited
-
-  if (exitCode !== 0) {
-    const error = await new Response(proc.stderr).text()
-    throw new Error(`Failed to update issue comment ${commentId}: ${error.trim()}`)
+  if (response.exitCode !== 0) {
+    const error = response.stderr
+    throw classifyGhApiFailure(`Failed to update issue comment ${commentId}: ${error.trim()}`, error, response.body)
   }
 }
 
@@ -106,9 +86,8 @@ export async function getReviewComment(
 ): Promise<CommentInfo> {
   const endpoint = `/repos/${owner}/${repo}/pulls/comments/${commentId}`
 
-  const proc = Bun.spawn(
+  const response = await ghApi(
     [
-      getGhCommand(),
       'api',
       '-H',
       'Accept: application/vnd.github+json',
@@ -116,18 +95,12 @@ export async function getReviewComment(
       'X-GitHub-Api-Version: 2022-11-28',
       endpoint,
     ],
-    {
-      stdout: 'pipe',
-      stderr: 'pipe',
-    },
   )
+  const output = response.body
 
-  const output = await new Response(proc.stdout).text()
-  const exitCode = await proc.exited
-
-  if (exitCode !== 0) {
-    const error = await new Response(proc.stderr).text()
-    throw new Error(`Failed to fetch review comment ${commentId}: ${error.trim()}`)
+  if (response.exitCode !== 0) {
+    const error = response.stderr
+    throw classifyGhApiFailure(`Failed to fetch review comment ${commentId}: ${error.trim()}`, error, output)
   }
 
   return JSON.parse(output)
@@ -148,9 +121,8 @@ export async function updateReviewComment(
 ): Promise<void> {
   const endpoint = `/repos/${owner}/${repo}/pulls/comments/${commentId}`
 
-  const proc = Bun.spawn(
+  const response = await ghApi(
     [
-      getGhCommand(),
       'api',
       '--method',
       'PATCH',
@@ -162,17 +134,11 @@ export async function updateReviewComment(
       '-f',
       `body=${body}`,
     ],
-    {
-      stdout: 'pipe',
-      stderr: 'pipe',
-    },
   )
 
-  const exitCode = await proc.exited
-
-  if (exitCode !== 0) {
-    const error = await new Response(proc.stderr).text()
-    throw new Error(`Failed to update review comment ${commentId}: ${error.trim()}`)
+  if (response.exitCode !== 0) {
+    const error = response.stderr
+    throw classifyGhApiFailure(`Failed to update review comment ${commentId}: ${error.trim()}`, error, response.body)
   }
 }
 
@@ -186,9 +152,8 @@ async function fetchPaginatedComments<T>(
   endpoint: string,
   errorMessage: string,
 ): Promise<T[]> {
-  const proc = Bun.spawn(
+  const response = await ghApi(
     [
-      getGhCommand(),
       'api',
       '-H',
       'Accept: application/vnd.github+json',
@@ -197,18 +162,13 @@ async function fetchPaginatedComments<T>(
       endpoint,
       '--paginate',
     ],
-    {
-      stdout: 'pipe',
-      stderr: 'pipe',
-    },
+    { includeHeaders: false },
   )
+  const output = response.body
 
-  const output = await new Response(proc.stdout).text()
-  const exitCode = await proc.exited
-
-  if (exitCode !== 0) {
-    const error = await new Response(proc.stderr).text()
-    throw new Error(`${errorMessage}: ${error.trim()}`)
+  if (response.exitCode !== 0) {
+    const error = response.stderr
+    throw classifyGhApiFailure(`${errorMessage}: ${error.trim()}`, error, output)
   }
 
   return JSON.parse(output)
@@ -0,0 +1,233 @@
+/**
+ * Issue dependency graphs
+ *
+ * Crawls "blocked by" edges from seed issues, detects cycles, and renders the
+ * graph as Mermaid, Graphviz DOT, or a JSON adjacency list.
+ */
+
+import type { IssueInfo } from './github'
+import type { RepoInfo } from './issue-ref'
+import { listBlockedBy } from './github'
+import { formatIssueRef, toIssueRef } from './issue-ref'
+
+/**
+ * Default number of blocked-by levels followed from the seed issues
+ */
+export const DEFAULT_GRAPH_DEPTH = 10
+
+/**
+ * Deepest crawl accepted by --depth
+ */
+export const MAX_GRAPH_DEPTH = 50
+
+/**
+ * Supported graph output formats
+ */
+export const GRAPH_FORMATS = ['mermaid', 'dot', 'json'] as const
+
+export type GraphFormat = typeof GRAPH_FORMATS[number]
+
+/**
+ * Issue in a dependency graph
+ */
+export interface DependencyNode {
+  /** Repository-qualified reference (owner/repo#number) */
+  key: string
+  number: number
+  repository: string
+  title: string
+  state: string
+  url: string
+  nodeId: string
+  /** Keys of the issues blocking this one (empty when not crawled) */
+  blockedBy: string[]
+}
+
+/**
+ * Dependency graph reachable from the seed issues
+ */
+export interface DependencyGraph {
+  nodes: DependencyNode[]
+  /** True when the depth limit stopped the crawl with issues whose blockers were not fetched */
+  truncated: boolean
+}
+
+/**
+ * Build a graph node from an issue
+ */
+function toDependencyNode(issue: IssueInfo, context: RepoInfo): DependencyNode {
+  const ref = toIssueRef(issue.repository, issue.number, context)
+  return {
+    key: `${ref.owner}/${ref.repo}#${ref.number}`,
+    number: issue.number,
+    repository: `${ref.owner}/${ref.repo}`,
+    title: issue.title,
+    state: issue.state,
+    url: issue.url,
+    nodeId: issue.nodeId,
+    blockedBy: [],
+  }
+}
+
+/**
+ * Follow "blocked by" edges breadth-first from the seed issues
+ *
+ * @param seeds - Issues to start from
+ * @param context - Repository for issues whose repository is unknown
+ * @param maxDepth - Levels of blockers to follow
+ * @returns Every issue reached, seeds first
+ */
+export async function crawlDependencyGraph(
+  seeds: IssueInfo[],
+  context: RepoInfo,
+  maxDepth = DEFAULT_GRAPH_DEPTH,
+): Promise<DependencyGraph> {
+  const nodes = new Map<string, DependencyNode>()
+  let truncated = false
+
+  let frontier: DependencyNode[] = []
+  for (const seed of seeds) {
+    const node = toDependencyNode(seed, context)
+    if (!nodes.has(node.key)) {
+      nodes.set(node.key, node)
+      frontier.push(node)
+    }
+  }
+
+  for (let depth = 0; frontier.length > 0; depth++) {
+    if (depth >= maxDepth) {
+      truncated = true
+      break
+    }
+
+    const next: DependencyNode[] = []
+    for (const node of frontier) {
+      const blockers = await listBlockedBy(node.nodeId)
+      for (const blocker of blockers) {
+        const blockerNode = toDependencyNode(blocker, context)
+        node.blockedBy.push(blockerNode.key)
+        if (!nodes.has(blockerNode.key)) {
+          nodes.set(blockerNode.key, blockerNode)
+          next.push(blockerNode)
+        }
+      }
+    }
+    frontier = next
+  }
+
+  return { nodes: [...nodes.values()], truncated }
+}
+
+/**
+ * Find dependency cycles (strongly connected components of the blocked-by graph)
+ *
+ * @param graph - Dependency graph
+ * @returns Each cycle as the keys of its issues; self-blocking issues form a cycle of one
+ */
+export function findDependencyCycles(graph: DependencyGraph): string[][] {
+  const edges = new Map(graph.nodes.map(node => [node.key, node.blockedBy]))
+  const index = new Map<string, number>()
+  const lowLink = new Map<string, number>()
+  const stack: string[] = []
+  const onStack = new Set<string>()
+  const cycles: string[][] = []
+  let counter = 0
+
+  // Tarjan's algorithm
+  const visit = (key: string): void => {
+    index.set(key, counter)
+    lowLink.set(key, counter)
+    counter++
+    stack.push(key)
+    onStack.add(key)
+
+    for (const next of edges.get(key) ?? []) {
+      if (!index.has(next)) {
+        visit(next)
+        lowLink.set(key, Math.min(lowLink.get(key)!, lowLink.get(next)!))
+      }
+      else if (onStack.has(next)) {
+        lowLink.set(key, Math.min(lowLink.get(key)!, index.get(next)!))
+      }
+    }
+
+    if (lowLink.get(key) === index.get(key)) {
+      const component: string[] = []
+      let member: string
+      do {
+        member = stack.pop()!
+        onStack.delete(member)
+        component.unshift(member)
+      } while (member !== key)
+
+      if (component.length > 1 || edges.get(key)?.includes(key)) {
+        cycles.push(component)
+      }
+    }
+  }
+
+  for (const node of graph.nodes) {
+    if (!index.has(node.key)) {
+      visit(node.key)
+    }
+  }
+
+  return cycles
+}
+
+/**
+ * Label shown for a node: short reference and title
+ */
+function nodeLabel(node: DependencyNode, context: RepoInfo): string {
+  const ref = toIssueRef(node.repository, node.number, context)
+  return `${formatIssueRef(ref, context)} ${node.title}`
+}
+
+/**
+ * Render a dependency graph
+ *
+ * Edges point from the blocking issue to the issue it blocks; closed issues are greyed out.
+ *
+ * @param graph - Dependency graph
+ * @param format - mermaid, dot, or json
+ * @param context - Repository whose issues are shown as `#number`
+ * @returns Rendered graph text
+ */
+export function renderDependencyGraph(graph: DependencyGraph, format: GraphFormat, context: RepoInfo): string {
+  const ids = new Map(graph.nodes.map((node, i) => [node.key, `n${i + 1}`]))
+  const edges = graph.nodes.flatMap(node => node.blockedBy.map(blocker => [ids.get(blocker)!, ids.get(node.key)!] as const))
+  const closed = graph.nodes.filter(node => node.state === 'CLOSED').map(node => ids.get(node.key)!)
+
+  if (format === 'json') {
+    return JSON.stringify({
+      nodes: graph.nodes.map(({ nodeId: _nodeId, ...node }) => node),
+      cycles: findDependencyCycles(graph),
+      truncated: graph.truncated,
+    }, null, 2)
+  }
+
+  if (format === 'dot') {
+    const escape = (text: string) => text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')
+    return [
+      'digraph dependencies {',
+      '  rankdir=LR;',
+      '  node [shape=box];',
+      ...graph.nodes.map((node) => {
+        const style = node.state === 'CLOSED' ? ', style=filled, fillcolor=lightgray' : ''
+        return `  ${ids.get(node.key)} [label="${escape(nodeLabel(node, context))}"${style}];`
+      }),
+      ...edges.map(([from, to]) => `  ${from} -> ${to};`),
+      '}',
+    ].join('\n')
+  }
+
+  const escape = (text: string) => text.replace(/"/g, '#quot;')
+  return [
+    'graph LR',
+    ...graph.nodes.map(node => `  ${ids.get(node.key)}["${escape(nodeLabel(node, context))}"]`),
+    ...edges.map(([from, to]) => `  ${from} --> ${to}`),
+    ...(closed.length > 0
+      ? ['  classDef closed fill:#eee,color:#888', `  class ${closed.join(',')} closed`]
+      : []),
+  ].join('\n')
+}
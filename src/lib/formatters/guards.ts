@@ -2,6 +2,7 @@ import type {
   ActionResultOutput,
   DependencyListOutput,
   PluginListOutput,
+  ProgressReportOutput,
   ReviewThreadOutput,
   SubIssueListOutput,
 } from './types'
@@ -32,6 +33,20 @@ export function isDependencyListOutput(data: unknown): data is DependencyListOut
   )
 }
 
+/**
+ * Type guard for ProgressReportOutput
+ */
+export function isProgressReportOutput(data: unknown): data is ProgressReportOutput {
+  return (
+    typeof data === 'object'
+    && data !== null
+    && 'parent' in data
+    && 'progress' in data
+    && 'byType' in data
+    && Array.isArray((data as any).byType)
+  )
+}
+
 /**
  * Type guard for ReviewThreadOutput
  */
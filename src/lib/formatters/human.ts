@@ -1,5 +1,6 @@
-import type { OutputData } from './types'
+import type { OutputData, ProgressBreakdownEntry, ProgressReportOutput } from './types'
 import { BaseFormatter } from './base'
+import { isProgressReportOutput } from './guards'
 
 /**
  * Human-readable formatter
@@ -12,8 +13,63 @@ export class HumanFormatter extends BaseFormatter {
   format(data: OutputData): string {
     this.validateData(data)
 
+    if (isProgressReportOutput(data.data)) {
+      return this.formatProgressReport(data.data)
+    }
+
     // TODO: Implement human-readable formatting
     // This will be implemented in Phase 4 by wrapping current output logic
     return 'Human formatter not yet implemented'
   }
+
+  /**
+   * Format progress report output with a progress bar and indented sections
+   */
+  private formatProgressReport(report: ProgressReportOutput): string {
+    const { parent, progress, byType, byAssignee, byLabel, overdue, blocked, truncated } = report
+    const filled = Math.round(progress.percent / 5)
+    const lines: string[] = []
+
+    lines.push(`📊 #${parent.number} ${parent.title}`)
+    lines.push(`   [${'█'.repeat(filled)}${'░'.repeat(20 - filled)}] ${progress.percent}% (${progress.closed}/${progress.total} closed, ${progress.open} open)`)
+    if (truncated) {
+      lines.push('   ⚠️  Some sub-issues were not loaded (depth limit reached)')
+    }
+
+    this.pushBreakdown(lines, 'By type', byType)
+    this.pushBreakdown(lines, 'By assignee', byAssignee)
+    this.pushBreakdown(lines, 'By label', byLabel)
+
+    lines.push('')
+    lines.push(`⏰ Overdue: ${overdue.length}`)
+    for (const issue of overdue) {
+      lines.push(`   ${issue.ref} ${issue.title} (${issue.milestone}, due ${issue.dueOn.slice(0, 10)})`)
+    }
+
+    lines.push('')
+    lines.push(`🚧 Blocked: ${blocked.length}`)
+    for (const issue of blocked) {
+      lines.push(`   ${issue.ref} ${issue.title} ← ${issue.blockers.map(blocker => blocker.ref).join(', ')}`)
+    }
+
+    lines.push('')
+    lines.push(`View: ${parent.url}`)
+
+    return lines.join('\n')
+  }
+
+  /**
+   * Append an open/closed breakdown section, skipped when empty
+   */
+  private pushBreakdown(lines: string[], heading: string, entries: ProgressBreakdownEntry[]): void {
+    if (entries.length === 0) {
+      return
+    }
+    const width = Math.max(...entries.map(entry => entry.name.length))
+    lines.push('')
+    lines.push(`${heading}:`)
+    for (const entry of entries) {
+      lines.push(`   ${entry.name.padEnd(width)}  ${entry.closed}/${entry.open + entry.closed} closed`)
+    }
+  }
 }
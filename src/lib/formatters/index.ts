@@ -82,6 +82,9 @@ export type {
   OutputData,
   OutputFormat,
   PluginListOutput,
+  ProgressBreakdownEntry,
+  ProgressReportIssue,
+  ProgressReportOutput,
   ReviewThreadOutput,
   SubIssueListOutput,
 } from './types'
@@ -3,6 +3,8 @@ import type {
   DependencyListOutput,
   OutputData,
   PluginListOutput,
+  ProgressBreakdownEntry,
+  ProgressReportOutput,
   ReviewThreadOutput,
   SubIssueListOutput,
 } from './types'
@@ -11,6 +13,7 @@ import {
   isActionResultOutput,
   isDependencyListOutput,
   isPluginListOutput,
+  isProgressReportOutput,
   isReviewThreadOutput,
   isSubIssueListOutput,
 } from './guards'
@@ -39,6 +42,9 @@ export class MarkdownFormatter extends BaseFormatter {
     else if (isPluginListOutput(outputData)) {
       return this.formatPluginList(data as OutputData & { data: PluginListOutput })
     }
+    else if (isProgressReportOutput(outputData)) {
+      return this.formatProgressReport(data as OutputData & { data: ProgressReportOutput })
+    }
     else if (isActionResultOutput(outputData)) {
       return this.formatActionResult(data as OutputData & { data: ActionResultOutput })
     }
@@ -186,6 +192,86 @@ export class MarkdownFormatter extends BaseFormatter {
     return lines.join('\n')
   }
 
+  /**
+   * Format progress report output
+   */
+  private formatProgressReport(data: OutputData & { data: ProgressReportOutput }): string {
+    const { parent, progress, byType, byAssignee, byLabel, overdue, blocked, truncated } = data.data
+    const lines: string[] = []
+
+    // Header
+    lines.push(`## Progress for #${parent.number}: ${this.escape(parent.title)}`)
+    lines.push('')
+    lines.push(`**Progress**: ${progress.closed}/${progress.total} closed (${progress.percent}%), ${progress.open} open`)
+    if (truncated) {
+      lines.push('')
+      lines.push('*Some sub-issues were not loaded (depth limit reached)*')
+    }
+
+    // Breakdowns
+    this.pushBreakdown(lines, 'By Type', 'Type', byType)
+    this.pushBreakdown(lines, 'By Assignee', 'Assignee', byAssignee)
+    this.pushBreakdown(lines, 'By Label', 'Label', byLabel)
+
+    // Overdue milestone items
+    lines.push('')
+    lines.push(`### Overdue (${overdue.length})`)
+    lines.push('')
+    if (overdue.length > 0) {
+      lines.push('| Issue | Title | Milestone | Due |')
+      lines.push('|-------|-------|-----------|-----|')
+      for (const issue of overdue) {
+        lines.push(`| [${issue.ref}](${issue.url}) | ${this.escape(issue.title)} | ${this.escape(issue.milestone)} | ${issue.dueOn.slice(0, 10)} |`)
+      }
+    }
+    else {
+      lines.push('*No overdue issues*')
+    }
+
+    // Blocked items
+    lines.push('')
+    lines.push(`### Blocked (${blocked.length})`)
+    lines.push('')
+    if (blocked.length > 0) {
+      lines.push('| Issue | Title | Blocked By |')
+      lines.push('|-------|-------|------------|')
+      for (const issue of blocked) {
+        const blockers = issue.blockers.map(blocker => `[${blocker.ref}](${blocker.url})`).join(', ')
+        lines.push(`| [${issue.ref}](${issue.url}) | ${this.escape(issue.title)} | ${blockers} |`)
+      }
+    }
+    else {
+      lines.push('*No blocked issues*')
+    }
+
+    lines.push('')
+    lines.push(`**Parent Issue**: ${parent.url}`)
+
+    // Add metadata footer
+    lines.push('')
+    lines.push(this.formatMetadata(data))
+
+    return lines.join('\n')
+  }
+
+  /**
+   * Append an open/closed breakdown table section
+   */
+  private pushBreakdown(lines: string[], heading: string, column: string, entries: ProgressBreakdownEntry[]): void {
+    lines.push('')
+    lines.push(`### ${heading}`)
+    lines.push('')
+    if (entries.length === 0) {
+      lines.push('*None*')
+      return
+    }
+    lines.push(`| ${column} | Open | Closed |`)
+    lines.push(`|${'-'.repeat(column.length + 2)}|------|--------|`)
+    for (const entry of entries) {
+      lines.push(`| ${this.escape(entry.name)} | ${entry.open} | ${entry.closed} |`)
+    }
+  }
+
   /**
    * Format action result output
    */
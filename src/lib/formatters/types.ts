@@ -66,6 +66,55 @@ export interface DependencyListOutput {
   total: number
 }
 
+/**
+ * Open/closed count for one group of issues in a progress report
+ */
+export interface ProgressBreakdownEntry {
+  /** Issue type, assignee login, or label name */
+  name: string
+  open: number
+  closed: number
+}
+
+/**
+ * Issue listed in a progress report
+ */
+export interface ProgressReportIssue {
+  /** Reference relative to the parent's repository (#12 or owner/repo#12) */
+  ref: string
+  title: string
+  url: string
+}
+
+/**
+ * Epic progress report output data (whole sub-issue subtree of a parent)
+ */
+export interface ProgressReportOutput {
+  /** Parent issue information */
+  parent: {
+    number: number
+    title: string
+    url: string
+  }
+  /** Counts over every issue below the parent */
+  progress: {
+    open: number
+    closed: number
+    total: number
+    /** Closed share, 0-100 */
+    percent: number
+  }
+  byType: ProgressBreakdownEntry[]
+  byAssignee: ProgressBreakdownEntry[]
+  byLabel: ProgressBreakdownEntry[]
+  /** Open issues whose milestone is past due */
+  overdue: Array<ProgressReportIssue & { milestone: string, dueOn: string }>
+  /** Open issues with open blockers */
+  blocked: Array<ProgressReportIssue & { blockers: ProgressReportIssue[] }>
+  /** True when the subtree was cut off by the depth limit */
+  truncated: boolean
+}
+
 /**
  * Review thread list/resolution output data
  */
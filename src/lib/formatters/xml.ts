@@ -3,6 +3,8 @@ import type {
   DependencyListOutput,
   OutputData,
   PluginListOutput,
+  ProgressBreakdownEntry,
+  ProgressReportOutput,
   ReviewThreadOutput,
   SubIssueListOutput,
 } from './types'
@@ -11,6 +13,7 @@ import {
   isActionResultOutput,
   isDependencyListOutput,
   isPluginListOutput,
+  isProgressReportOutput,
   isReviewThreadOutput,
   isSubIssueListOutput,
 } from './guards'
@@ -39,6 +42,9 @@ export class XMLFormatter extends BaseFormatter {
     else if (isPluginListOutput(outputData)) {
       return this.formatPluginList(data as OutputData & { data: PluginListOutput })
     }
+    else if (isProgressReportOutput(outputData)) {
+      return this.formatProgressReport(data as OutputData & { data: ProgressReportOutput })
+    }
     else if (isActionResultOutput(outputData)) {
       return this.formatActionResult(data as OutputData & { data: ActionResultOutput })
     }
@@ -180,6 +186,74 @@ export class XMLFormatter extends BaseFormatter {
     return lines.join('\n')
   }
 
+  /**
+   * Format progress report output as XML
+   */
+  private formatProgressReport(data: OutputData & { data: ProgressReportOutput }): string {
+    const { parent, progress, byType, byAssignee, byLabel, overdue, blocked, truncated } = data.data
+    const lines: string[] = []
+
+    lines.push('<?xml version="1.0" encoding="UTF-8"?>')
+    lines.push(`<progress-report truncated="${truncated}">`)
+    lines.push(this.formatMetadata(data, 2))
+    lines.push('')
+    lines.push(`  <parent number="${parent.number}">`)
+    lines.push(`    <title>${this.escape(parent.title)}</title>`)
+    lines.push(`    <url>${this.escape(parent.url)}</url>`)
+    lines.push('  </parent>')
+    lines.push('')
+    lines.push('  <summary>')
+    lines.push(`    <total>${progress.total}</total>`)
+    lines.push(`    <open>${progress.open}</open>`)
+    lines.push(`    <closed>${progress.closed}</closed>`)
+    lines.push(`    <percent>${progress.percent}</percent>`)
+    lines.push('  </summary>')
+    lines.push('')
+    lines.push(this.formatBreakdown('by-type', byType))
+    lines.push(this.formatBreakdown('by-assignee', byAssignee))
+    lines.push(this.formatBreakdown('by-label', byLabel))
+    lines.push('')
+    lines.push(`  <overdue count="${overdue.length}">`)
+    for (const issue of overdue) {
+      lines.push(`    <issue ref="${this.escape(issue.ref)}" due-on="${this.escape(issue.dueOn)}">`)
+      lines.push(`      <title>${this.escape(issue.title)}</title>`)
+      lines.push(`      <milestone>${this.escape(issue.milestone)}</milestone>`)
+      lines.push(`      <url>${this.escape(issue.url)}</url>`)
+      lines.push('    </issue>')
+    }
+    lines.push('  </overdue>')
+    lines.push('')
+    lines.push(`  <blocked count="${blocked.length}">`)
+    for (const issue of blocked) {
+      lines.push(`    <issue ref="${this.escape(issue.ref)}">`)
+      lines.push(`      <title>${this.escape(issue.title)}</title>`)
+      lines.push(`      <url>${this.escape(issue.url)}</url>`)
+      for (const blocker of issue.blockers) {
+        lines.push(`      <blocked-by ref="${this.escape(blocker.ref)}">${this.escape(blocker.title)}</blocked-by>`)
+      }
+      lines.push('    </issue>')
+    }
+    lines.push('  </blocked>')
+    lines.push('</progress-report>')
+
+    return lines.join('\n')
+  }
+
+  /**
+   * Format an open/closed breakdown element
+   */
+  private formatBreakdown(tag: string, entries: ProgressBreakdownEntry[]): string {
+    const lines: string[] = []
+
+    lines.push(`  <${tag}>`)
+    for (const entry of entries) {
+      lines.push(`    <group name="${this.escape(entry.name)}" open="${entry.open}" closed="${entry.closed}" />`)
+    }
+    lines.push(`  </${tag}>`)
+
+    return lines.join('\n')
+  }
+
   /**
    * Format action result output as XML
    */
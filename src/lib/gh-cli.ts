@@ -1,3 +1,4 @@
+import { printOutput } from './github/dry-run'
 /**
  * Get the gh command path from environment variable or use default
  * This allows tests to inject a mock gh command
@@ -78,7 +79,7 @@ export async function checkGhAuth(): Promise<boolean> {
   const { stderr, exitCode } = await runGhCommand(['auth', 'status'])
 
   if (exitCode === 0) {
-    console.log('[gh-cli] GitHub CLI authentication verified')
+    printOutput('[gh-cli] GitHub CLI authentication verified')
     return true
   }
 
@@ -97,6 +98,7 @@ export async function checkGhAuth(): Promise<boolean> {
  * Runs `gh auth token` to retrieve the current authentication token.
  * This can be useful for operations that require direct GitHub API access.
  *
+ * @param hostname - GitHub host (defaults to gh's default host)
  * @returns Promise<string | null> - The GitHub token if available, null if not authenticated or unavailable
  * @throws Error if gh CLI is not installed or if an unexpected error occurs
  *
@@ -111,8 +113,8 @@ export async function checkGhAuth(): Promise<boolean> {
  * }
  * ```
  */
-export async function getGitHubToken(): Promise<string | null> {
-  const { stdout, stderr, exitCode } = await runGhCommand(['auth', 'token'])
+export async function getGitHubToken(hostname?: string): Promise<string | null> {
+  const { stdout, stderr, exitCode } = await runGhCommand(hostname ? ['auth', 'token', '--hostname', hostname] : ['auth', 'token'])
 
   if (exitCode === 0) {
     const token = stdout.trim()
@@ -120,7 +122,6 @@ export async function getGitHubToken(): Promise<string | null> {
       console.warn('[gh-cli] GitHub token command succeeded but returned empty token')
       return null
     }
-    console.log('[gh-cli] GitHub token retrieved successfully')
     return token
   }
 
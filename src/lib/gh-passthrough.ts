@@ -1,9 +1,12 @@
 import type { OutputFormat } from '@pleaseai/cli-toolkit/output'
 import type { Language } from '../types'
-import { outputData } from '@pleaseai/cli-toolkit/output'
 import { GH_JSON_FIELDS } from './gh-fields.generated'
+import { invalidateCache } from './github/cache'
+import { isDryRun, recordPlannedMutation, writeOutput } from './github/dry-run'
 import { detectSystemLanguage, getPassthroughMessages } from './i18n'
 import { executeQuery, QueryError } from './jmespath-query'
+import { printData } from './structured-output'
+import { traceEvent } from './trace'
 
 /**
  * Result from executing a gh CLI command
@@ -130,6 +133,7 @@ export interface FormatDetection {
  */
 export async function executeGhCommand(args: string[]): Promise<PassthroughResult> {
   try {
+    const started = performance.now()
     const proc = Bun.spawn(['gh', ...args], {
       stdout: 'pipe',
       stderr: 'pipe',
@@ -139,6 +143,14 @@ export async function executeGhCommand(args: string[]): Promise<PassthroughResul
     const stderr = await new Response(proc.stderr).text()
     const exitCode = await proc.exited
 
+    traceEvent({
+      kind: 'gh',
+      command: ['gh', ...args],
+      durationMs: performance.now() - started,
+      exitCode,
+      ...(exitCode !== 0 && { error: stderr }),
+    })
+
     return { stdout, stderr, exitCode }
   }
   catch (error) {
@@ -306,6 +318,32 @@ export function injectJsonFlag(args: string[]): string[] {
   return [...args, '--json']
 }
 
+/**
+ * gh command groups whose mutations change data held in the lookup cache
+ */
+const CACHED_OPERATIONS_BY_COMMAND: Record<string, string> = {
+  label: 'labels',
+  project: 'projects',
+}
+
+/**
+ * Drop cached lookups made stale by a successful passthrough mutation
+ *
+ * @param args - Command arguments (e.g., ['label', 'create', 'bug'])
+ *
+ * @example
+ * ```typescript
+ * invalidateCacheForMutation(['label', 'create', 'bug'])  // clears cached labels
+ * invalidateCacheForMutation(['label', 'list'])           // no-op
+ * ```
+ */
+export function invalidateCacheForMutation(args: string[]): void {
+  const operation = CACHED_OPERATIONS_BY_COMMAND[args[0] ?? '']
+  if (operation && isMutationCommand(args)) {
+    invalidateCache({ operation })
+  }
+}
+
 /**
  * Main passthrough command orchestration
  *
@@ -333,6 +371,12 @@ export async function passThroughCommand(args: string[]): Promise<void> {
   // 1. Detect format requirement (defaults to 'toon' in Phase 1.1) and query (Phase 1.5)
   const { format, cleanArgs, query } = shouldConvertToStructuredFormat(args)
 
+  // In dry-run mode, print mutating commands instead of running them
+  if (isDryRun() && isMutationCommand(cleanArgs)) {
+    recordPlannedMutation({ kind: 'gh', operationName: `gh ${cleanArgs.slice(0, 2).join(' ')}`, variables: { args: cleanArgs } })
+    return
+  }
+
   // 2. Handle table format (legacy native output with deprecation warning)
   if (format === 'table') {
     console.error(msg.deprecationWarning)
@@ -346,7 +390,8 @@ export async function passThroughCommand(args: string[]): Promise<void> {
       process.exit(result.exitCode)
     }
 
-    process.stdout.write(result.stdout)
+    invalidateCacheForMutation(cleanArgs)
+    writeOutput(result.stdout)
     return
   }
 
@@ -407,6 +452,8 @@ export async function passThroughCommand(args: string[]): Promise<void> {
     process.exit(result.exitCode)
   }
 
+  invalidateCacheForMutation(cleanArgs)
+
   // 6. Convert format if requested (TOON or JSON)
   if (format) {
     try {
@@ -450,7 +497,7 @@ export async function passThroughCommand(args: string[]): Promise<void> {
 
       // Type assertion: at this point format is OutputFormat ('toon' or 'json')
       // because 'table' was handled earlier with early return
-      outputData(data, format as OutputFormat)
+      printData(data, format as OutputFormat)
     }
     catch (error) {
       // JSON parse error - provide detailed context
@@ -1,3 +1,5 @@
+import { traceEvent } from './trace'
+
 /**
  * Result of a git command execution
  */
@@ -11,6 +13,7 @@ export interface GitResult {
  * Execute a CLI command (git or gh) and return the result
  */
 export async function runCliCommand(args: string[]): Promise<GitResult> {
+  const started = performance.now()
   const proc = Bun.spawn(args, {
     stdout: 'pipe',
     stderr: 'pipe',
@@ -22,6 +25,14 @@ export async function runCliCommand(args: string[]): Promise<GitResult> {
     proc.exited,
   ])
 
+  traceEvent({
+    kind: 'spawn',
+    command: args,
+    durationMs: performance.now() - started,
+    exitCode,
+    ...(exitCode !== 0 && { error: stderr }),
+  })
+
   return { exitCode, stdout, stderr }
 }
 
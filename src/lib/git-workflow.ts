@@ -1,6 +1,8 @@
 import type { DevelopOptions } from '../types'
 import { getGhCommand } from './gh-command'
 import { runCliCommand } from './git-exec'
+import { DRY_RUN_PLACEHOLDER, isDryRun, recordPlannedMutation } from './github/dry-run'
+import { paginateGraphQL } from './github/pagination'
 
 // Re-export worktree functions from dedicated module
 export {
@@ -10,6 +12,12 @@ export {
   removeWorktree,
 } from './git-workflow-worktree'
 
+interface LinkedBranchNode {
+  ref?: {
+    name?: string
+  }
+}
+
 /**
  * Get all linked branches for an issue using GitHub GraphQL API
  */
@@ -31,59 +39,44 @@ export async function getAllLinkedBranches(
   const repoName = parts[1]!
 
   const query = `
-    query GetLinkedBranches($owner: String!, $repo: String!, $issueNumber: Int!) {
+    query GetLinkedBranches($owner: String!, $repo: String!, $issueNumber: Int!, $first: Int!, $after: String) {
       repository(owner: $owner, name: $repo) {
         issue(number: $issueNumber) {
-          linkedBranches(first: 100) {
+          linkedBranches(first: $first, after: $after) {
             nodes {
               ref {
                 name
               }
             }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
           }
         }
       }
     }
   `
 
-  const args = [
-    getGhCommand(),
-    'api',
-    'graphql',
-    '-f',
-    `query=${query}`,
-    '-F',
-    `owner=${owner}`,
-    '-F',
-    `repo=${repoName}`,
-    '-F',
-    `issueNumber=${issueNumber}`,
-  ]
-
-  const result = await runCliCommand(args)
-
-  if (result.exitCode !== 0) {
+  let branches: LinkedBranchNode[]
+  try {
+    const result = await paginateGraphQL<LinkedBranchNode>(
+      query,
+      { owner, repo: repoName, issueNumber },
+      data => data.repository?.issue?.linkedBranches,
+      { operationName: 'GetLinkedBranches' },
+    )
+    branches = result.nodes
+  }
+  catch (error) {
     // GraphQL query failed
-    if (result.stderr.trim()) {
-      console.warn(`⚠️  Failed to get linked branches: ${result.stderr.trim()}`)
-    }
+    console.warn(`⚠️  Failed to get linked branches: ${error instanceof Error ? error.message : String(error)}`)
     return []
   }
 
-  try {
-    const data = JSON.parse(result.stdout)
-    const branches = data?.data?.repository?.issue?.linkedBranches?.nodes || []
-    return branches
-      .map((node: unknown) => {
-        const typedNode = node as { ref?: { name?: string } }
-        return typedNode?.ref?.name
-      })
-      .filter((name: string | undefined) => name !== undefined)
-  }
-  catch {
-    // Parse error, return empty array
-    return []
-  }
+  return branches
+    .map(node => node?.ref?.name)
+    .filter((name): name is string => name !== undefined)
 }
 
 /**
@@ -123,6 +116,11 @@ export async function startDevelopWorkflow(
     args.push('-n', options.name)
   }
 
+  if (isDryRun()) {
+    recordPlannedMutation({ kind: 'gh', operationName: 'gh issue develop', variables: { args: args.slice(1) } })
+    return DRY_RUN_PLACEHOLDER
+  }
+
   const result = await runCliCommand(args)
 
   if (result.exitCode !== 0) {
@@ -1,4 +1,8 @@
 import type { PrInfo, ReplyOptions, ReviewComment } from '../types'
+import { printOutput } from './github/dry-run'
+import { classifyGhApiFailure } from './github/errors'
+import { setRepositoryHost } from './github/host'
+import { ghApi } from './github/transport'
 
 /**
  * Get the gh command path from environment variable or use default
@@ -56,7 +60,7 @@ export async function getCurrentPrInfo(): Promise<PrInfo> {
 
   if (exitCode !== 0) {
     const error = await new Response(proc.stderr).text()
-    throw new Error(`Failed to get PR info: ${error.trim() || 'Not in a PR context'}`)
+    throw classifyGhApiFailure(`Failed to get PR info: ${error.trim() || 'Not in a PR context'}`, error)
   }
 
   const data = JSON.parse(output)
@@ -72,9 +76,8 @@ export async function getReviewComment(
 ): Promise<ReviewComment> {
   const endpoint = buildGetCommentEndpoint(prInfo, commentId)
 
-  const proc = Bun.spawn(
+  const response = await ghApi(
     [
-      getGhCommand(),
       'api',
       '-H',
       'Accept: application/vnd.github+json',
@@ -82,18 +85,12 @@ export async function getReviewComment(
       'X-GitHub-Api-Version: 2022-11-28',
       endpoint,
     ],
-    {
-      stdout: 'pipe',
-      stderr: 'pipe',
-    },
   )
+  const output = response.body
 
-  const output = await new Response(proc.stdout).text()
-  const exitCode = await proc.exited
-
-  if (exitCode !== 0) {
-    const error = await new Response(proc.stderr).text()
-    throw new Error(`Failed to fetch comment ${commentId}: ${error.trim()}`)
+  if (response.exitCode !== 0) {
+    const error = response.stderr
+    throw classifyGhApiFailure(`Failed to fetch comment ${commentId}: ${error.trim()}`, error, output)
   }
 
   return JSON.parse(output)
@@ -116,9 +113,8 @@ export async function createReviewReply(options: ReplyOptions): Promise<void> {
 
   const endpoint = buildReplyEndpoint(prInfo, commentId)
 
-  const proc = Bun.spawn(
+  const response = await ghApi(
     [
-      getGhCommand(),
       'api',
       '--method',
       'POST',
@@ -130,36 +126,40 @@ export async function createReviewReply(options: ReplyOptions): Promise<void> {
       '-f',
       `body=${body}`,
     ],
-    {
-      stdout: 'pipe',
-      stderr: 'pipe',
-    },
+    { idempotent: false },
   )
+  const output = response.body
 
-  const output = await new Response(proc.stdout).text()
-  const exitCode = await proc.exited
-
-  if (exitCode !== 0) {
-    const error = await new Response(proc.stderr).text()
-    throw new Error(`Failed to create reply: ${error.trim()}`)
+  if (response.exitCode !== 0) {
+    const error = response.stderr
+    throw classifyGhApiFailure(`Failed to create reply: ${error.trim()}`, error, output)
   }
 
   const reply = JSON.parse(output)
-  console.log(`✅ Reply created successfully!`)
-  console.log(`   Comment ID: ${reply.id}`)
-  console.log(`   View: ${reply.html_url}`)
+  printOutput(`✅ Reply created successfully!`)
+  printOutput(`   Comment ID: ${reply.id}`)
+  printOutput(`   View: ${reply.html_url}`)
 }
 
 /**
- * Parse repository string in owner/repo format
- * @param repoString - Repository string in "owner/repo" format
- * @returns Object with owner and repo properties
+ * Parse repository string in owner/repo or HOST/owner/repo format
+ * @param repoString - Repository string in "owner/repo" or "HOST/owner/repo" format
+ * @returns Object with owner and repo properties, plus host when given
  * @throws Error if format is invalid
  */
-export function parseRepoString(repoString: string): { owner: string, repo: string } {
+export function parseRepoString(repoString: string): { owner: string, repo: string, host?: string } {
   const trimmed = repoString.trim()
   const parts = trimmed.split('/')
 
+  // HOST/owner/repo (as accepted by gh -R); a host always contains a dot
+  if (parts.length === 3 && parts[0]?.includes('.') && parts[1] && parts[2]) {
+    return {
+      owner: parts[1],
+      repo: parts[2],
+      host: parts[0].toLowerCase(),
+    }
+  }
+
   if (parts.length !== 2 || !parts[0] || !parts[1]) {
     throw new Error(
       `Invalid repository format: "${repoString}". Expected format: "owner/repo"`,
@@ -182,11 +182,15 @@ export async function getRepoInfo(
 ): Promise<{ owner: string, repo: string }> {
   // If repo string is provided, parse it directly
   if (repoString) {
-    return parseRepoString(repoString)
+    const { owner, repo, host } = parseRepoString(repoString)
+    if (host) {
+      setRepositoryHost(host)
+    }
+    return { owner, repo }
   }
 
-  // Otherwise, get from current context using gh CLI
-  const proc = Bun.spawn([getGhCommand(), 'repo', 'view', '--json', 'owner,name'], {
+  // Otherwise, get from current context using gh CLI (recording the clone's host)
+  const proc = Bun.spawn([getGhCommand(), 'repo', 'view', '--json', 'owner,name,url'], {
     stdout: 'pipe',
     stderr: 'pipe',
   })
@@ -196,10 +200,13 @@ export async function getRepoInfo(
 
   if (exitCode !== 0) {
     const error = await new Response(proc.stderr).text()
-    throw new Error(`Failed to get repo info: ${error.trim() || 'Not in a repository'}`)
+    throw classifyGhApiFailure(`Failed to get repo info: ${error.trim() || 'Not in a repository'}`, error)
   }
 
   const data = JSON.parse(output)
+  if (data.url) {
+    setRepositoryHost(data.url)
+  }
   return {
     owner: data.owner?.login || data.owner,
     repo: data.name,
@@ -217,9 +224,8 @@ export async function createIssueComment(
 ): Promise<number> {
   const endpoint = `/repos/${owner}/${repo}/issues/${issueNumber}/comments`
 
-  const proc = Bun.spawn(
+  const response = await ghApi(
     [
-      getGhCommand(),
       'api',
       '--method',
       'POST',
@@ -231,18 +237,13 @@ export async function createIssueComment(
       '-f',
       `body=${body}`,
     ],
-    {
-      stdout: 'pipe',
-      stderr: 'pipe',
-    },
+    { idempotent: false },
   )
+  const output = response.body
 
-  const output = await new Response(proc.stdout).text()
-  const exitCode = await proc.exited
-
-  if (exitCode !== 0) {
-    const error = await new Response(proc.stderr).text()
-    throw new Error(`Failed to create issue comment: ${error.trim()}`)
+  if (response.exitCode !== 0) {
+    const error = response.stderr
+    throw classifyGhApiFailure(`Failed to create issue comment: ${error.trim()}`, error, output)
   }
 
   const comment = JSON.parse(output)
@@ -260,9 +261,8 @@ export async function createPrComment(
 ): Promise<number> {
   const endpoint = `/repos/${owner}/${repo}/issues/${prNumber}/comments`
 
-  const proc = Bun.spawn(
+  const response = await ghApi(
     [
-      getGhCommand(),
       'api',
       '--method',
       'POST',
@@ -274,18 +274,13 @@ export async function createPrComment(
       '-f',
       `body=${body}`,
     ],
-    {
-      stdout: 'pipe',
-      stderr: 'pipe',
-    },
+    { idempotent: false },
   )
+  const output = response.body
 
-  const output = await new Response(proc.stdout).text()
-  const exitCode = await proc.exited
-
-  if (exitCode !== 0) {
-    const error = await new Response(proc.stderr).text()
-    throw new Error(`Failed to create PR comment: ${error.trim()}`)
+  if (response.exitCode !== 0) {
+    const error = response.stderr
+    throw classifyGhApiFailure(`Failed to create PR comment: ${error.trim()}`, error, output)
   }
 
   const comment = JSON.parse(output)
@@ -0,0 +1,256 @@
+/**
+ * Persistent on-disk cache for read-only GitHub lookups
+ *
+ * Entries live under ~/.please/cache/{host}/{owner}/{repo}/ as JSON files and expire
+ * after a TTL. Only lookups whose results rarely change (node IDs, labels, milestones,
+ * projects, issue types) should be cached; mutations that alter them must invalidate.
+ */
+
+import { createHash } from 'node:crypto'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { expandHome } from '../path-utils'
+import { getHost } from './host'
+import { getRecordingMode } from './recording'
+
+/**
+ * Default time-to-live for cache entries (1 hour)
+ */
+export const DEFAULT_CACHE_TTL_SECONDS = 60 * 60
+
+/**
+ * Cache behavior for the current process
+ * - default: read fresh entries and write new ones
+ * - refresh: skip reads but write fresh results (--refresh)
+ * - disabled: neither read nor write (--no-cache)
+ */
+export type CacheMode = 'default' | 'refresh' | 'disabled'
+
+/**
+ * Identifies a cached lookup
+ */
+export interface CacheKey {
+  /** Repository owner */
+  owner: string
+  /** Repository name */
+  repo: string
+  /** Lookup name (e.g., 'labels', 'issue-types') */
+  operation: string
+  /** Extra parameters that distinguish entries of the same operation */
+  params?: string
+}
+
+/**
+ * Scope of entries to remove from the cache
+ */
+export interface CacheScope {
+  owner?: string
+  repo?: string
+  operation?: string
+}
+
+/**
+ * Options for withCache
+ */
+export interface WithCacheOptions<T> {
+  /** Treat a cached value as stale and refetch (e.g., a requested name is missing) */
+  isStale?: (value: T) => boolean
+}
+
+interface CacheEntry<T> {
+  createdAt: number
+  value: T
+}
+
+let cacheMode: CacheMode = process.env.GH_PLEASE_NO_CACHE ? 'disabled' : 'default'
+
+/**
+ * Set the cache mode for the current process
+ */
+export function setCacheMode(mode: CacheMode): void {
+  cacheMode = mode
+}
+
+/**
+ * Get the cache mode for the current process
+ */
+export function getCacheMode(): CacheMode {
+  return cacheMode
+}
+
+/**
+ * Get the cache root directory
+ * Override with GH_PLEASE_CACHE_DIR (useful for tests)
+ */
+export function getCacheDir(): string {
+  return expandHome(process.env.GH_PLEASE_CACHE_DIR || '~/.please/cache')
+}
+
+/**
+ * Get the cache TTL in seconds
+ * Override with GH_PLEASE_CACHE_TTL
+ */
+function getCacheTtlSeconds(): number {
+  const ttl = Number(process.env.GH_PLEASE_CACHE_TTL)
+  return Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_CACHE_TTL_SECONDS
+}
+
+/**
+ * Make a key component safe to use as a path segment
+ */
+function toSegment(value: string): string {
+  return value.replace(/[^\w.-]/g, '_')
+}
+
+/**
+ * Resolve the file path for a cache key
+ */
+export function getCacheFilePath(key: CacheKey): string {
+  const fileName = key.params
+    ? `${toSegment(key.operation)}-${createHash('sha256').update(key.params).digest('hex').slice(0, 16)}.json`
+    : `${toSegment(key.operation)}.json`
+
+  return path.join(
+    getCacheDir(),
+    toSegment(getHost()),
+    toSegment(key.owner),
+    toSegment(key.repo),
+    fileName,
+  )
+}
+
+/**
+ * Read a fresh cache entry, or undefined on miss, expiry, or read error
+ */
+function readEntry<T>(key: CacheKey): T | undefined {
+  try {
+    const raw = fs.readFileSync(getCacheFilePath(key), 'utf8')
+    const entry = JSON.parse(raw) as CacheEntry<T>
+    const ageSeconds = (Date.now() - entry.createdAt) / 1000
+
+    if (ageSeconds > getCacheTtlSeconds()) {
+      return undefined
+    }
+
+    return entry.value
+  }
+  catch {
+    return undefined
+  }
+}
+
+/**
+ * Write a cache entry, ignoring write errors (the cache is best-effort)
+ */
+function writeEntry<T>(key: CacheKey, value: T): void {
+  try {
+    const filePath = getCacheFilePath(key)
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
+    const entry: CacheEntry<T> = { createdAt: Date.now(), value }
+    fs.writeFileSync(filePath, JSON.stringify(entry))
+  }
+  catch {
+    // Cache write failures must never break a command
+  }
+}
+
+/**
+ * Return a cached value for the key, or fetch and cache it
+ *
+ * @param key - Cache key (host is taken from the current GitHub host)
+ * @param fetcher - Function performing the actual lookup
+ * @param options - Optional staleness check for cached values
+ * @returns Cached or freshly fetched value
+ *
+ * @example
+ * ```typescript
+ * const labels = await withCache(
+ *   { owner, repo, operation: 'labels' },
+ *   () => fetchLabels(owner, repo),
+ *   { isStale: labels => names.some(n => !labels.find(l => l.name === n)) },
+ * )
+ * ```
+ */
+export async function withCache<T>(
+  key: CacheKey,
+  fetcher: () => Promise<T>,
+  options: WithCacheOptions<T> = {},
+): Promise<T> {
+  // Recorded sessions must see every request, and replays must not touch the user's cache
+  if (cacheMode === 'disabled' || getRecordingMode()) {
+    return fetcher()
+  }
+
+  if (cacheMode === 'default') {
+    const cached = readEntry<T>(key)
+    if (cached !== undefined && !options.isStale?.(cached)) {
+      return cached
+    }
+  }
+
+  const value = await fetcher()
+  writeEntry(key, value)
+  return value
+}
+
+/**
+ * Remove cache entries for the current host
+ *
+ * @param scope - Narrow removal to an owner, repository, and/or operation.
+ *                An operation without owner/repo is removed from every repository.
+ */
+export function invalidateCache(scope: CacheScope = {}): void {
+  const hostDir = path.join(getCacheDir(), toSegment(getHost()))
+
+  try {
+    if (!scope.operation) {
+      const target = path.join(
+        hostDir,
+        ...(scope.owner ? [toSegment(scope.owner)] : []),
+        ...(scope.owner && scope.repo ? [toSegment(scope.repo)] : []),
+      )
+      fs.rmSync(target, { recursive: true, force: true })
+      return
+    }
+
+    const prefix = toSegment(scope.operation)
+    for (const repoDir of listRepoDirs(hostDir, scope)) {
+      for (const file of fs.readdirSync(repoDir)) {
+        if (file === `${prefix}.json` || file.startsWith(`${prefix}-`)) {
+          fs.rmSync(path.join(repoDir, file), { force: true })
+        }
+      }
+    }
+  }
+  catch {
+    // Nothing cached yet
+  }
+}
+
+/**
+ * List repository cache directories matching the scope
+ */
+function listRepoDirs(hostDir: string, scope: CacheScope): string[] {
+  const owners = scope.owner ? [toSegment(scope.owner)] : safeReadDir(hostDir)
+  const dirs: string[] = []
+
+  for (const owner of owners) {
+    const ownerDir = path.join(hostDir, owner)
+    const repos = scope.repo ? [toSegment(scope.repo)] : safeReadDir(ownerDir)
+    dirs.push(...repos.map(repo => path.join(ownerDir, repo)))
+  }
+
+  return dirs.filter(dir => fs.existsSync(dir))
+}
+
+/**
+ * Read directory entries, returning an empty list if the directory is missing
+ */
+function safeReadDir(dir: string): string[] {
+  try {
+    return fs.readdirSync(dir)
+  }
+  catch {
+    return []
+  }
+}
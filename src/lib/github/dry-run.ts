@@ -0,0 +1,227 @@
+/**
+ * Dry-run mode for mutating commands
+ *
+ * Lookups (node IDs, labels, issue types, ...) still run so inputs are fully resolved,
+ * but GraphQL mutations, non-GET REST calls, and mutating gh passthrough commands
+ * are recorded and printed instead of being sent.
+ */
+
+/**
+ * Output format for the dry-run plan
+ */
+export type DryRunFormat = 'human' | 'json'
+
+/**
+ * A mutation that would have been sent
+ */
+export interface PlannedMutation {
+  /** Transport the mutation would use */
+  kind: 'graphql' | 'rest' | 'gh'
+  /** GraphQL operation name, or `METHOD endpoint` / `gh <command>` for other kinds */
+  operationName: string
+  /** GraphQL variables or REST fields */
+  variables: Record<string, any>
+}
+
+/**
+ * Value substituted for IDs, URLs, and other fields a skipped mutation would have returned
+ */
+export const DRY_RUN_PLACEHOLDER = '<dry-run>'
+
+let dryRunFormat: DryRunFormat | null = null
+let plannedMutations: PlannedMutation[] = []
+let planWriter: (text: string) => void = text => process.stdout.write(text)
+
+/**
+ * Enable dry-run mode for the current process
+ *
+ * In JSON mode the plan is written to stdout as one array when the process exits.
+ * Command output printed with printOutput, writeOutput, and printData goes to
+ * stderr instead, so stdout stays parseable.
+ *
+ * @param format - Plan output format
+ * @param writePlan - Writer for the JSON plan (default: stdout)
+ */
+export function setDryRun(
+  format: DryRunFormat,
+  writePlan: (text: string) => void = text => process.stdout.write(text),
+): void {
+  dryRunFormat = format
+  plannedMutations = []
+  planWriter = writePlan
+
+  process.removeListener('exit', printDryRunSummary)
+  process.once('exit', printDryRunSummary)
+}
+
+/**
+ * Check whether dry-run mode is enabled
+ */
+export function isDryRun(): boolean {
+  return dryRunFormat !== null
+}
+
+/**
+ * Check whether stdout is reserved for the JSON plan
+ */
+export function isDryRunJson(): boolean {
+  return dryRunFormat === 'json'
+}
+
+/**
+ * Print a line of command output to stdout, or to stderr while stdout is reserved for the JSON plan
+ *
+ * @param data - Values to print, as with console.log
+ */
+export function printOutput(...data: unknown[]): void {
+  if (isDryRunJson()) {
+    console.error(...data)
+  }
+  else {
+    console.log(...data)
+  }
+}
+
+/**
+ * Write raw command output to stdout, or to stderr while stdout is reserved for the JSON plan
+ *
+ * @param text - Text to write as is
+ */
+export function writeOutput(text: string): void {
+  if (isDryRunJson()) {
+    process.stderr.write(text)
+  }
+  else {
+    process.stdout.write(text)
+  }
+}
+
+/**
+ * Get the mutations recorded so far
+ */
+export function getPlannedMutations(): PlannedMutation[] {
+  return [...plannedMutations]
+}
+
+/**
+ * Reset dry-run state (used by tests)
+ */
+export function resetDryRun(): void {
+  process.removeListener('exit', printDryRunSummary)
+  dryRunFormat = null
+  plannedMutations = []
+  planWriter = text => process.stdout.write(text)
+}
+
+/**
+ * Record a planned mutation, printing it immediately in human mode
+ *
+ * @param mutation - Mutation that would have been sent
+ */
+export function recordPlannedMutation(mutation: PlannedMutation): void {
+  plannedMutations.push(mutation)
+
+  if (dryRunFormat === 'human') {
+    console.error(`🔍 [dry-run] ${mutation.operationName}`)
+    const variables = JSON.stringify(mutation.variables, null, 2)
+    if (variables !== '{}') {
+      console.error(variables.replace(/^/gm, '   '))
+    }
+  }
+}
+
+/**
+ * Print the plan summary (human) or the full plan (JSON)
+ */
+function printDryRunSummary(): void {
+  if (dryRunFormat === 'json') {
+    planWriter(`${JSON.stringify(plannedMutations, null, 2)}\n`)
+  }
+  else if (dryRunFormat === 'human') {
+    console.error(`🔍 [dry-run] ${plannedMutations.length} mutation(s) planned, nothing was sent to GitHub`)
+  }
+}
+
+/**
+ * Get the GraphQL operation name declared in a mutation document
+ *
+ * @param query - GraphQL document
+ * @returns Declared name, or undefined for anonymous operations
+ */
+export function getDeclaredOperationName(query: string): string | undefined {
+  return query.match(/^\s*(?:mutation|query)\s+(\w+)/)?.[1]
+}
+
+/**
+ * Result returned instead of the response data of a skipped GraphQL mutation
+ *
+ * `nodeId` stands in for the ID of a created entity, so later planned
+ * mutations can still refer to it. GitHub assigned nothing else (no number, no URL).
+ */
+export interface DryRunResult {
+  dryRun: true
+  nodeId: typeof DRY_RUN_PLACEHOLDER
+}
+
+/**
+ * The single DryRunResult value
+ */
+export const DRY_RUN_RESULT: DryRunResult = { dryRun: true, nodeId: DRY_RUN_PLACEHOLDER }
+
+/**
+ * Check whether a mutation result was only planned (dry-run mode)
+ *
+ * @param value - Response data or a value returned by a mutation function
+ */
+export function isDryRunResult(value: unknown): value is DryRunResult {
+  return value === DRY_RUN_RESULT
+}
+
+/**
+ * REST methods that do not change data
+ */
+const SAFE_METHODS = new Set(['GET', 'HEAD'])
+
+/**
+ * Describe a `gh api` REST call if it would change data
+ *
+ * gh defaults to POST when fields are passed without `--method`.
+ * GraphQL requests (`gh api graphql`) are never matched; executeGraphQL plans those itself.
+ *
+ * @param args - Arguments after `gh` (starting with 'api')
+ * @returns The planned mutation, or null for read-only calls
+ */
+export function describeRestMutation(args: string[]): PlannedMutation | null {
+  let method: string | undefined
+  let endpoint: string | undefined
+  const variables: Record<string, any> = {}
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i]!
+    if (arg === '--method' || arg === '-X') {
+      method = args[++i]?.toUpperCase()
+    }
+    else if (arg === '-f' || arg === '-F' || arg === '--field' || arg === '--raw-field') {
+      const field = args[++i] ?? ''
+      const equals = field.indexOf('=')
+      variables[field.slice(0, equals)] = field.slice(equals + 1)
+    }
+    else if (arg === '-H' || arg === '--header' || arg === '--jq' || arg === '-q') {
+      i++
+    }
+    else if (!arg.startsWith('-') && endpoint === undefined) {
+      endpoint = arg
+    }
+  }
+
+  if (endpoint === undefined || endpoint === 'graphql') {
+    return null
+  }
+
+  const effectiveMethod = method ?? (Object.keys(variables).length > 0 ? 'POST' : 'GET')
+  if (SAFE_METHODS.has(effectiveMethod)) {
+    return null
+  }
+
+  return { kind: 'rest', operationName: `${effectiveMethod} ${endpoint}`, variables }
+}
@@ -0,0 +1,236 @@
+/**
+ * Typed GitHub API errors and stable process exit codes
+ *
+ * GraphQL errors are classified by their `type` field and REST errors by HTTP status,
+ * so scripts can branch on the exit code instead of parsing messages.
+ */
+
+/**
+ * Documented exit codes for gh-please commands
+ */
+export const ExitCode = {
+  /** Unclassified failure */
+  GeneralError: 1,
+  /** Invalid input rejected by GitHub (GraphQL UNPROCESSABLE, HTTP 400/422) */
+  ValidationError: 2,
+  /** Issue, PR, repository, user, or other resource does not exist (HTTP 404) */
+  NotFound: 3,
+  /** Authentication missing or token lacks scope/permission (HTTP 401/403) */
+  Forbidden: 4,
+  /** Primary or secondary rate limit exceeded (HTTP 429) */
+  RateLimited: 5,
+  /** Feature preview or repository/organization feature is not enabled */
+  FeatureNotEnabled: 6,
+} as const
+
+export type ExitCodeValue = typeof ExitCode[keyof typeof ExitCode]
+
+/**
+ * Single error entry from a GraphQL response
+ */
+export interface GraphQLErrorEntry {
+  message: string
+  type?: string
+  path?: (string | number)[]
+  extensions?: { code?: string }
+}
+
+/**
+ * Base class for classified GitHub API errors
+ */
+export class GitHubError extends Error {
+  public readonly exitCode: ExitCodeValue = ExitCode.GeneralError
+
+  constructor(
+    message: string,
+    /** GraphQL error type (e.g., NOT_FOUND) when classified from GraphQL */
+    public readonly type?: string,
+    /** HTTP status when classified from a REST response */
+    public readonly status?: number,
+  ) {
+    super(message)
+    this.name = 'GitHubError'
+  }
+}
+
+/**
+ * Requested resource does not exist or is not visible to the token
+ */
+export class NotFoundError extends GitHubError {
+  public override readonly exitCode = ExitCode.NotFound
+  override name = 'NotFoundError'
+}
+
+/**
+ * Authentication failed or the token lacks the required scope or permission
+ */
+export class ForbiddenError extends GitHubError {
+  public override readonly exitCode = ExitCode.Forbidden
+  override name = 'ForbiddenError'
+}
+
+/**
+ * GitHub rate limit exceeded
+ */
+export class RateLimitedError extends GitHubError {
+  public override readonly exitCode = ExitCode.RateLimited
+  override name = 'RateLimitedError'
+}
+
+/**
+ * GitHub rejected the input (invalid arguments, duplicate relationships, etc.)
+ */
+export class ValidationError extends GitHubError {
+  public override readonly exitCode = ExitCode.ValidationError
+  override name = 'ValidationError'
+}
+
+/**
+ * A feature preview or repository/organization feature is not enabled
+ */
+export class FeatureNotEnabledError extends GitHubError {
+  public override readonly exitCode = ExitCode.FeatureNotEnabled
+  override name = 'FeatureNotEnabledError'
+}
+
+/**
+ * GraphQL error types that indicate missing permissions
+ */
+const FORBIDDEN_TYPES = new Set(['FORBIDDEN', 'INSUFFICIENT_SCOPES', 'UNAUTHORIZED'])
+
+/**
+ * GraphQL error types that indicate invalid input
+ */
+const VALIDATION_TYPES = new Set(['UNPROCESSABLE', 'ARGUMENT_ERROR', 'BAD_REQUEST'])
+
+/**
+ * Messages GitHub returns when a feature is disabled or a preview field or argument is unavailable
+ */
+const FEATURE_NOT_ENABLED_PATTERN = /not enabled|feature is not available|doesn't exist on type|doesn't accept argument/i
+
+/**
+ * Messages GitHub returns for rate limiting (REST 403s and GraphQL errors)
+ */
+const RATE_LIMIT_PATTERN = /rate limit/i
+
+/**
+ * Classify GraphQL response errors into a typed error
+ * When several errors are present, the most actionable class wins:
+ * rate limit, then permissions, then feature, then not found, then validation.
+ *
+ * @param errors - `errors` array from the GraphQL response
+ * @param prefix - Message prefix (e.g., "GraphQL errors")
+ * @returns Classified error carrying all error messages
+ */
+export function classifyGraphQLErrors(errors: GraphQLErrorEntry[], prefix = 'GraphQL errors'): GitHubError {
+  return classifyErrorEntries(errors, `${prefix}: ${errors.map(e => e.message).join(', ')}`)
+}
+
+/**
+ * Classify GraphQL error entries, reporting the given message
+ */
+function classifyErrorEntries(errors: GraphQLErrorEntry[], message: string): GitHubError {
+  const has = (predicate: (e: GraphQLErrorEntry) => boolean) => errors.find(predicate)
+
+  const rateLimited = has(e => e.type === 'RATE_LIMITED' || RATE_LIMIT_PATTERN.test(e.message))
+  if (rateLimited) {
+    return new RateLimitedError(message, rateLimited.type)
+  }
+
+  const forbidden = has(e => FORBIDDEN_TYPES.has(e.type ?? ''))
+  if (forbidden) {
+    return new ForbiddenError(message, forbidden.type)
+  }
+
+  const featureDisabled = has(e => e.extensions?.code === 'undefinedField' || e.extensions?.code === 'argumentNotAccepted' || FEATURE_NOT_ENABLED_PATTERN.test(e.message))
+  if (featureDisabled) {
+    return new FeatureNotEnabledError(message, featureDisabled.type)
+  }
+
+  const notFound = has(e => e.type === 'NOT_FOUND')
+  if (notFound) {
+    return new NotFoundError(message, notFound.type)
+  }
+
+  const invalid = has(e => VALIDATION_TYPES.has(e.type ?? ''))
+  if (invalid) {
+    return new ValidationError(message, invalid.type)
+  }
+
+  return new GitHubError(message, errors[0]?.type)
+}
+
+/**
+ * Classify an HTTP status into a typed error
+ *
+ * @param status - HTTP status code
+ * @param message - Error message
+ * @returns Classified error (GitHubError for unrecognized statuses)
+ */
+export function classifyHttpStatus(status: number, message: string): GitHubError {
+  if (status === 429 || (status === 403 && RATE_LIMIT_PATTERN.test(message))) {
+    return new RateLimitedError(message, undefined, status)
+  }
+  if (status === 401 || status === 403) {
+    return new ForbiddenError(message, undefined, status)
+  }
+  if (status === 404 || status === 410) {
+    return new NotFoundError(message, undefined, status)
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, undefined, status)
+  }
+  return new GitHubError(message, undefined, status)
+}
+
+/**
+ * Classify a failed `gh api` invocation from its stdout/stderr
+ *
+ * gh prints the response body (including GraphQL `errors`) to stdout and a summary
+ * such as `gh: Not Found (HTTP 404)` to stderr.
+ *
+ * @param message - Error message to report
+ * @param stderr - gh stderr output
+ * @param stdout - gh stdout output (response body), if available
+ * @returns Classified error
+ *
+ * @example
+ * ```typescript
+ * throw classifyGhApiFailure(`Failed to fetch comment ${id}: ${stderr.trim()}`, stderr)
+ * ```
+ */
+export function classifyGhApiFailure(message: string, stderr: string, stdout = ''): GitHubError {
+  try {
+    const body = JSON.parse(stdout)
+    if (Array.isArray(body?.errors) && body.errors.length > 0 && typeof body.errors[0].message === 'string') {
+      const classified = classifyErrorEntries(body.errors, message)
+      if (classified.exitCode !== ExitCode.GeneralError) {
+        return classified
+      }
+    }
+  }
+  catch {
+    // Not a JSON body; fall back to the HTTP status
+  }
+
+  const statusMatch = stderr.match(/\(HTTP (\d{3})\)/)
+  if (statusMatch) {
+    return classifyHttpStatus(Number(statusMatch[1]), message)
+  }
+
+  if (RATE_LIMIT_PATTERN.test(stderr)) {
+    return new RateLimitedError(message)
+  }
+
+  return new GitHubError(message)
+}
+
+/**
+ * Get the process exit code for an error
+ *
+ * @param error - Caught error
+ * @returns The typed error's exit code, or ExitCode.GeneralError
+ */
+export function getExitCode(error: unknown): ExitCodeValue {
+  return error instanceof GitHubError ? error.exitCode : ExitCode.GeneralError
+}
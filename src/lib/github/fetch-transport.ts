@@ -0,0 +1,245 @@
+/**
+ * Native HTTP transport for the GitHub API
+ * Calls the API of the current host with `fetch` using the gh CLI token,
+ * avoiding a `gh` process per request
+ */
+
+import type { GhApiResponse } from './transport'
+import { getGitHubToken } from '../gh-cli'
+import { getGraphQLUrl, getHost, getRestBaseUrl, isEnterpriseHost } from './host'
+
+/**
+ * Abort requests that take longer than this (reported as a transient "timed out" failure)
+ */
+const REQUEST_TIMEOUT_MS = 30_000
+
+/**
+ * Structured API request
+ */
+export interface ApiRequest {
+  /** HTTP method */
+  method: string
+  /** REST path (e.g., `/repos/o/r/issues/1`) or `graphql` */
+  endpoint: string
+  /** Extra request headers */
+  headers: Record<string, string>
+  /** Query parameters for GET requests, JSON body fields otherwise */
+  fields: Record<string, unknown>
+  /** Follow `Link: rel="next"` and concatenate array pages */
+  paginate: boolean
+}
+
+/**
+ * Tokens looked up with `gh auth token`, by host
+ */
+const tokenPromises = new Map<string, Promise<string | null>>()
+
+/**
+ * Get the API token for the current host
+ *
+ * Uses GH_TOKEN / GITHUB_TOKEN on github.com and GH_ENTERPRISE_TOKEN / GITHUB_ENTERPRISE_TOKEN
+ * on GitHub Enterprise Server (like gh), else `gh auth token --hostname` (looked up once per process).
+ *
+ * @returns Token, or null when unavailable (callers fall back to spawning gh)
+ */
+export async function getApiToken(): Promise<string | null> {
+  const host = getHost()
+  const envToken = isEnterpriseHost(host)
+    ? process.env.GH_ENTERPRISE_TOKEN || process.env.GITHUB_ENTERPRISE_TOKEN
+    : process.env.GH_TOKEN || process.env.GITHUB_TOKEN
+  if (envToken) {
+    return envToken
+  }
+
+  if (!tokenPromises.has(host)) {
+    tokenPromises.set(host, getGitHubToken(host).catch(() => null))
+  }
+  return tokenPromises.get(host)!
+}
+
+/**
+ * Convert a `-F` value the way gh does: true, false, null and integers become JSON values
+ */
+function parseTypedField(value: string): unknown {
+  if (value === 'true' || value === 'false' || value === 'null') {
+    return JSON.parse(value)
+  }
+  if (/^-?\d+$/.test(value)) {
+    return Number(value)
+  }
+  return value
+}
+
+/**
+ * Translate `gh api` arguments into a structured request
+ *
+ * Supports the flags used by gh-please: `--method`/`-X`, `-H`, `-f`, `-F` and `--paginate`.
+ *
+ * @param args - Arguments after `gh` (starting with 'api')
+ * @returns Structured request
+ */
+export function parseGhApiArgs(args: string[]): ApiRequest {
+  const request: ApiRequest = { method: '', endpoint: '', headers: {}, fields: {}, paginate: false }
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i]!
+    if (arg === '--method' || arg === '-X') {
+      request.method = (args[++i] ?? '').toUpperCase()
+    }
+    else if (arg === '-H' || arg === '--header') {
+      const header = args[++i] ?? ''
+      const colon = header.indexOf(':')
+      request.headers[header.slice(0, colon).trim()] = header.slice(colon + 1).trim()
+    }
+    else if (arg === '-f' || arg === '--raw-field' || arg === '-F' || arg === '--field') {
+      const field = args[++i] ?? ''
+      const equals = field.indexOf('=')
+      const value = field.slice(equals + 1)
+      request.fields[field.slice(0, equals)] = arg === '-F' || arg === '--field' ? parseTypedField(value) : value
+    }
+    else if (arg === '--paginate') {
+      request.paginate = true
+    }
+    else if (!arg.startsWith('-') && !request.endpoint) {
+      request.endpoint = arg
+    }
+  }
+
+  // gh sends POST when fields are present and no method is given
+  request.method ||= Object.keys(request.fields).length > 0 ? 'POST' : 'GET'
+  return request
+}
+
+/**
+ * Build the request URL, adding fields as query parameters for GET requests
+ */
+function buildUrl(request: ApiRequest): string {
+  let url: URL
+  if (/^https?:\/\//.test(request.endpoint)) {
+    url = new URL(request.endpoint)
+  }
+  else if (request.endpoint === 'graphql') {
+    url = new URL(getGraphQLUrl())
+  }
+  else {
+    url = new URL(`${getRestBaseUrl()}/${request.endpoint.replace(/^\//, '')}`)
+  }
+
+  if (request.method === 'GET') {
+    for (const [key, value] of Object.entries(request.fields)) {
+      url.searchParams.set(key, String(value))
+    }
+  }
+  return url.toString()
+}
+
+/**
+ * Get the `rel="next"` URL from a Link header
+ */
+function getNextPageUrl(link: string | undefined): string | undefined {
+  return link?.match(/<([^>]+)>;\s*rel="next"/)?.[1]
+}
+
+/**
+ * Summarize an error response the way gh does on stderr (e.g., `gh: Not Found (HTTP 404)`)
+ */
+function describeFailure(body: string, status: number): string {
+  try {
+    const parsed = JSON.parse(body)
+    if (Array.isArray(parsed?.errors) && parsed.errors.length > 0) {
+      return `gh: ${parsed.errors.map((e: { message?: string }) => e.message).join('\n')}`
+    }
+    if (typeof parsed?.message === 'string') {
+      return `gh: ${parsed.message} (HTTP ${status})`
+    }
+  }
+  catch {
+    // Not JSON; report the status only
+  }
+  return `gh: Request failed (HTTP ${status})`
+}
+
+/**
+ * Check whether a GraphQL response body carries errors (gh exits non-zero for these)
+ */
+function hasGraphQLErrors(body: string): boolean {
+  try {
+    const errors = JSON.parse(body)?.errors
+    return Array.isArray(errors) && errors.length > 0
+  }
+  catch {
+    return false
+  }
+}
+
+/**
+ * Send one HTTP request
+ */
+async function send(url: string, request: ApiRequest, token: string): Promise<Response> {
+  const hasBody = request.method !== 'GET' && request.method !== 'HEAD'
+
+  // Bun's fetch pools keep-alive connections, so repeated calls reuse the TLS session
+  return fetch(url, {
+    method: request.method,
+    headers: {
+      'Accept': 'application/vnd.github+json',
+      'Authorization': `bearer ${token}`,
+      'User-Agent': 'gh-please',
+      ...(hasBody && { 'Content-Type': 'application/json' }),
+      ...request.headers,
+    },
+    body: hasBody ? JSON.stringify(request.fields) : undefined,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  })
+}
+
+/**
+ * Execute a request over HTTP, mirroring `gh api` results
+ *
+ * Failures are reported like gh: a non-zero exitCode, a gh-style stderr summary, and the
+ * response body on `body`. GraphQL responses with `errors` also count as failures.
+ *
+ * @param request - Structured request
+ * @param token - API token
+ * @returns Response in the same shape as a `gh api --include` invocation
+ */
+export async function fetchApi(request: ApiRequest, token: string): Promise<GhApiResponse> {
+  let url: string | undefined = buildUrl(request)
+  const pages: unknown[] = []
+  let last: { status: number, headers: Record<string, string>, body: string } | undefined
+
+  try {
+    while (url) {
+      const response = await send(url, request, token)
+      const body = await response.text()
+      const headers: Record<string, string> = {}
+      response.headers.forEach((value, name) => {
+        headers[name.toLowerCase()] = value
+      })
+      last = { status: response.status, headers, body }
+
+      if (!response.ok || !request.paginate) {
+        break
+      }
+
+      const page = body ? JSON.parse(body) : []
+      if (!Array.isArray(page)) {
+        break
+      }
+      pages.push(...page)
+      url = getNextPageUrl(headers.link)
+    }
+  }
+  catch (error) {
+    return { body: '', stderr: error instanceof Error ? error.message : String(error), exitCode: 1, headers: {} }
+  }
+
+  const { status, headers } = last!
+  const body = request.paginate && last!.status < 400 && pages.length > 0 ? JSON.stringify(pages) : last!.body
+
+  if (status >= 400 || (request.endpoint === 'graphql' && hasGraphQLErrors(body))) {
+    return { body, stderr: describeFailure(body, status), exitCode: 1, status, headers }
+  }
+
+  return { body, stderr: '', exitCode: 0, status, headers }
+}
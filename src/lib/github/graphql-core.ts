@@ -3,12 +3,48 @@
  * Uses gh CLI to execute GraphQL queries and mutations
  */
 
+import type { TraceEvent } from '../trace'
+import { isTraceEnabled, traceEvent } from '../trace'
+import { withCache } from './cache'
+import { DRY_RUN_RESULT, getDeclaredOperationName, isDryRun, recordPlannedMutation } from './dry-run'
+import { classifyGhApiFailure, classifyGraphQLErrors, NotFoundError } from './errors'
+import { graphqlApi } from './transport'
+
+/**
+ * Add a `rateLimit` selection to a query so its cost can be reported in the trace
+ * Mutations are left untouched because `rateLimit` is only available on Query.
+ */
+function withRateLimitSelection(query: string): string {
+  if (!/^\s*query\b/.test(query) || query.includes('rateLimit')) {
+    return query
+  }
+  const lastBrace = query.lastIndexOf('}')
+  return `${query.slice(0, lastBrace)}  rateLimit { cost remaining resetAt }\n}${query.slice(lastBrace + 1)}`
+}
+
+/**
+ * Strip the injected `rateLimit` field from response data
+ *
+ * @returns The rate limit cost, if it was requested
+ */
+function takeRateLimit(data: any): TraceEvent['rateLimit'] {
+  if (!data?.rateLimit) {
+    return undefined
+  }
+  const { cost, remaining, resetAt } = data.rateLimit
+  delete data.rateLimit
+  return { cost, remaining, resetAt }
+}
+
 /**
- * Get the gh command path from environment variable or use default
- * This allows tests to inject a mock gh command
+ * Additional options for executeGraphQL
  */
-function getGhCommand(): string {
-  return process.env.GH_PATH || 'gh'
+export interface ExecuteGraphQLOptions {
+  /**
+   * Return partial data instead of throwing when every GraphQL error is NOT_FOUND.
+   * Used by batched lookups, where missing aliases resolve to null.
+   */
+  allowNotFound?: boolean
 }
 
 /**
@@ -18,72 +54,113 @@ function getGhCommand(): string {
  * @param variables - Variables for the query
  * @param features - GraphQL Features header values (e.g., ["sub_issues"])
  * @param operationName - Optional operation name for better debugging and mocking
- * @returns Parsed GraphQL response data
- * @throws Error if the query fails or returns GraphQL errors
+ * @param options - Additional execution options
+ * @returns Parsed GraphQL response data (DRY_RUN_RESULT for mutations in dry-run mode)
+ * @throws GitHubError (or a typed subclass such as NotFoundError) if the query fails
+ *         or returns GraphQL errors
  */
 export async function executeGraphQL(
   query: string,
   variables: Record<string, any> = {},
   features?: string[],
   operationName?: string,
+  options: ExecuteGraphQLOptions = {},
 ): Promise<any> {
-  const args = ['api', 'graphql']
+  const isMutation = /^\s*mutation\b/.test(query)
 
-  // Add GraphQL Features header if provided
-  if (features && features.length > 0) {
-    args.push('-H', `GraphQL-Features: ${features.join(', ')}`)
+  // In dry-run mode, print the mutation instead of sending it
+  if (isMutation && isDryRun()) {
+    recordPlannedMutation({
+      kind: 'graphql',
+      operationName: operationName ?? getDeclaredOperationName(query) ?? 'mutation',
+      variables,
+    })
+    return DRY_RUN_RESULT
   }
 
-  // Add the query
-  args.push('-f', `query=${query}`)
+  // Add rate limit cost reporting in trace mode (--debug / GH_PLEASE_DEBUG)
+  const reportCost = isTraceEnabled()
+  const started = performance.now()
 
-  // Add operation name if provided (for better logging and mock matching)
-  if (operationName) {
-    args.push('-F', `operationName=${operationName}`)
-  }
-
-  // Add variables
-  for (const [key, value] of Object.entries(variables)) {
-    if (Array.isArray(value)) {
-      // Handle arrays: GitHub CLI requires multiple -F flags with array syntax
-      // e.g., -F 'labelIds[]=id1' -F 'labelIds[]=id2'
-      for (const item of value) {
-        const serialized = typeof item === 'string' ? item : JSON.stringify(item)
-        args.push('-F', `${key}[]=${serialized}`)
-      }
-    }
-    else {
-      // Handle scalars: -F 'key=value'
-      const serialized = typeof value === 'string' ? value : JSON.stringify(value)
-      args.push('-F', `${key}=${serialized}`)
-    }
-  }
+  // Mutations are not retried after transient failures because they may have been applied
+  const response = await graphqlApi(
+    { query: reportCost ? withRateLimitSelection(query) : query, variables, features, operationName },
+    { idempotent: !isMutation },
+  )
+  const output = response.body
 
-  const proc = Bun.spawn([getGhCommand(), ...args], {
-    env: process.env,
-    stdout: 'pipe',
-    stderr: 'pipe',
+  const trace = (extra: Partial<TraceEvent>) => traceEvent({
+    kind: 'graphql',
+    operationName: operationName ?? getDeclaredOperationName(query),
+    durationMs: performance.now() - started,
+    exitCode: response.exitCode,
+    status: response.status,
+    ...extra,
   })
 
-  const output = await new Response(proc.stdout).text()
-  const exitCode = await proc.exited
+  // gh exits non-zero when the response contains GraphQL errors, even with partial data
+  if (options.allowNotFound) {
+    const partial = parseNotFoundPartialData(output)
+    if (partial !== undefined) {
+      trace({ rateLimit: takeRateLimit(partial), errors: parseErrorMessages(output) })
+      return partial
+    }
+  }
 
-  if (exitCode !== 0) {
-    const error = await new Response(proc.stderr).text()
-    throw new Error(`GraphQL query failed: ${error.trim()}`)
+  if (response.exitCode !== 0) {
+    const error = response.stderr
+    trace({ errors: parseErrorMessages(output), error })
+    throw classifyGhApiFailure(`GraphQL query failed: ${error.trim()}`, error, output)
   }
 
   const result = JSON.parse(output)
 
   // Check for GraphQL errors
   if (result.errors) {
-    const errorMessages = result.errors.map((e: any) => e.message).join(', ')
-    throw new Error(`GraphQL errors: ${errorMessages}`)
+    trace({ errors: parseErrorMessages(output) })
+    throw classifyGraphQLErrors(result.errors)
   }
 
+  trace({ rateLimit: takeRateLimit(result.data) })
+
   return result.data
 }
 
+/**
+ * Get GraphQL error messages from a raw response (for tracing)
+ */
+function parseErrorMessages(output: string): string[] | undefined {
+  try {
+    const errors = JSON.parse(output)?.errors
+    return Array.isArray(errors) ? errors.map((e: { message?: string }) => String(e.message)) : undefined
+  }
+  catch {
+    return undefined
+  }
+}
+
+/**
+ * Extract data from a response whose only errors are NOT_FOUND
+ *
+ * @param output - Raw gh api stdout
+ * @returns Response data, or undefined if the response is not a partial NOT_FOUND result
+ */
+function parseNotFoundPartialData(output: string): any {
+  try {
+    const result = JSON.parse(output)
+    if (!result.data) {
+      return undefined
+    }
+    if (result.errors && !result.errors.every((e: any) => e.type === 'NOT_FOUND')) {
+      return undefined
+    }
+    return result.data
+  }
+  catch {
+    return undefined
+  }
+}
+
 /**
  * Get the Node ID for an issue
  *
@@ -91,7 +168,7 @@ export async function executeGraphQL(
  * @param repo - Repository name
  * @param issueNumber - Issue number
  * @returns Node ID string
- * @throws Error if the issue is not found
+ * @throws NotFoundError if the issue is not found
  */
 export async function getIssueNodeId(
   owner: string,
@@ -111,7 +188,7 @@ export async function getIssueNodeId(
   const data = await executeGraphQL(query, { owner, repo, number: issueNumber }, undefined, 'GetIssueNodeId')
 
   if (!data.repository?.issue) {
-    throw new Error(`Issue #${issueNumber} not found in ${owner}/${repo}`)
+    throw new NotFoundError(`Issue #${issueNumber} not found in ${owner}/${repo}`)
   }
 
   return data.repository.issue.id
@@ -124,7 +201,7 @@ export async function getIssueNodeId(
  * @param repo - Repository name
  * @param prNumber - Pull request number
  * @returns Node ID string
- * @throws Error if the PR is not found
+ * @throws NotFoundError if the PR is not found
  */
 export async function getPrNodeId(
   owner: string,
@@ -144,19 +221,19 @@ export async function getPrNodeId(
   const data = await executeGraphQL(query, { owner, repo, number: prNumber }, undefined, 'GetPrNodeId')
 
   if (!data.repository?.pullRequest) {
-    throw new Error(`PR #${prNumber} not found in ${owner}/${repo}`)
+    throw new NotFoundError(`PR #${prNumber} not found in ${owner}/${repo}`)
   }
 
   return data.repository.pullRequest.id
 }
 
 /**
- * Get the Node ID for a repository
+ * Get the Node ID for a repository (cached on disk)
  *
  * @param owner - Repository owner
  * @param repo - Repository name
  * @returns Repository Node ID
- * @throws Error if the repository is not found
+ * @throws NotFoundError if the repository is not found
  */
 export async function getRepositoryNodeId(
   owner: string,
@@ -170,17 +247,19 @@ export async function getRepositoryNodeId(
     }
   `
 
-  const data = await executeGraphQL(query, { owner, repo }, undefined, 'GetRepositoryNodeId')
+  return withCache({ owner, repo, operation: 'repository-id' }, async () => {
+    const data = await executeGraphQL(query, { owner, repo }, undefined, 'GetRepositoryNodeId')
 
-  if (!data.repository?.id) {
-    throw new Error(
-      `Repository ${owner}/${repo} not found.\n`
-      + `Possible reasons:\n`
-      + `  • The repository does not exist\n`
-      + `  • You lack permissions to view this repository\n`
-      + `  • The owner or repo name may be misspelled`,
-    )
-  }
+    if (!data.repository?.id) {
+      throw new NotFoundError(
+        `Repository ${owner}/${repo} not found.\n`
+        + `Possible reasons:\n`
+        + `  • The repository does not exist\n`
+        + `  • You lack permissions to view this repository\n`
+        + `  • The owner or repo name may be misspelled`,
+      )
+    }
 
-  return data.repository.id
+    return data.repository.id as string
+  })
 }
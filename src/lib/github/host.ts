@@ -0,0 +1,101 @@
+/**
+ * GitHub host resolution
+ * Supports github.com and GitHub Enterprise Server via GH_HOST or --hostname
+ */
+
+/**
+ * Public GitHub host
+ */
+export const DEFAULT_HOST = 'github.com'
+
+let hostOverride: string | undefined
+let repositoryHost: string | undefined
+
+/**
+ * Normalize a host name given as `host`, `HOST` or a URL such as `https://host/owner/repo`
+ */
+export function normalizeHost(host: string): string {
+  return host.trim().replace(/^https?:\/\//i, '').replace(/\/.*$/, '').toLowerCase()
+}
+
+/**
+ * Set the host for the current process (from --hostname)
+ *
+ * Also exports GH_HOST so spawned gh commands target the same host.
+ *
+ * @param host - Host name (e.g., github.example.com)
+ */
+export function setHost(host: string): void {
+  hostOverride = normalizeHost(host)
+  process.env.GH_HOST = hostOverride
+}
+
+/**
+ * Record the host of the repository being operated on
+ * (from `--repo HOST/OWNER/REPO`, a repository URL, or the current clone's remote)
+ *
+ * Like gh, the repository's host takes precedence over GH_HOST but not over --hostname.
+ *
+ * @param host - Host name or URL
+ */
+export function setRepositoryHost(host: string): void {
+  repositoryHost = normalizeHost(host)
+}
+
+/**
+ * Get the GitHub host: --hostname, then the repository's host, then GH_HOST, then github.com
+ */
+export function getHost(): string {
+  return hostOverride
+    ?? repositoryHost
+    ?? (process.env.GH_HOST ? normalizeHost(process.env.GH_HOST) : DEFAULT_HOST)
+}
+
+/**
+ * Check whether a host is a GitHub Enterprise Server instance
+ *
+ * @param host - Host name (defaults to the current host)
+ */
+export function isEnterpriseHost(host = getHost()): boolean {
+  return host !== DEFAULT_HOST
+}
+
+/**
+ * Get the REST API base URL for a host
+ * github.com uses api.github.com; GHES serves the API under /api/v3
+ *
+ * @param host - Host name (defaults to the current host)
+ */
+export function getRestBaseUrl(host = getHost()): string {
+  return isEnterpriseHost(host) ? `https://${host}/api/v3` : 'https://api.github.com'
+}
+
+/**
+ * Get the GraphQL endpoint URL for a host
+ * github.com uses api.github.com/graphql; GHES serves it at /api/graphql
+ *
+ * @param host - Host name (defaults to the current host)
+ */
+export function getGraphQLUrl(host = getHost()): string {
+  return isEnterpriseHost(host) ? `https://${host}/api/graphql` : 'https://api.github.com/graphql'
+}
+
+/**
+ * Get the web URL of a repository on the current host
+ *
+ * @example
+ * ```typescript
+ * getRepositoryUrl('owner', 'repo')  // 'https://github.com/owner/repo'
+ * ```
+ */
+export function getRepositoryUrl(owner: string, repo: string): string {
+  return `https://${getHost()}/${owner}/${repo}`
+}
+
+/**
+ * Reset the host override (used by tests)
+ */
+export function resetHost(): void {
+  hostOverride = undefined
+  repositoryHost = undefined
+}
@@ -3,6 +3,62 @@
  * Barrel export for all GitHub GraphQL operations
  */
 
+// On-disk lookup cache
+export {
+  getCacheMode,
+  invalidateCache,
+  setCacheMode,
+  withCache,
+} from './cache'
+
+export type {
+  CacheKey,
+  CacheMode,
+  CacheScope,
+} from './cache'
+
+// Dry-run mode
+export {
+  describeRestMutation,
+  DRY_RUN_PLACEHOLDER,
+  DRY_RUN_RESULT,
+  getPlannedMutations,
+  isDryRun,
+  isDryRunJson,
+  isDryRunResult,
+  printOutput,
+  recordPlannedMutation,
+  resetDryRun,
+  setDryRun,
+  writeOutput,
+} from './dry-run'
+
+export type {
+  DryRunFormat,
+  DryRunResult,
+  PlannedMutation,
+} from './dry-run'
+
+// Typed errors and exit codes
+export {
+  classifyGhApiFailure,
+  classifyGraphQLErrors,
+  classifyHttpStatus,
+  ExitCode,
+  FeatureNotEnabledError,
+  ForbiddenError,
+  getExitCode,
+  GitHubError,
+  NotFoundError,
+  RateLimitedError,
+  ValidationError,
+} from './errors'
+
+export type {
+  ExitCodeValue,
+  GraphQLErrorEntry,
+} from './errors'
+
 // Core utilities
 export {
   executeGraphQL,
@@ -11,22 +67,82 @@ export {
   getRepositoryNodeId,
 } from './graphql-core'
 
+export type { ExecuteGraphQLOptions } from './graphql-core'
+
+// Host resolution (github.com and GitHub Enterprise Server)
+export {
+  DEFAULT_HOST,
+  getGraphQLUrl,
+  getHost,
+  getRepositoryUrl,
+  getRestBaseUrl,
+  isEnterpriseHost,
+  setHost,
+  setRepositoryHost,
+} from './host'
+
 // Issue hierarchy (sub-issues and dependencies)
 export {
   addBlockedBy,
   addSubIssue,
+  getIssueInfos,
+  getParentIssue,
+  getSubIssueTree,
   listBlockedBy,
+  listBlockedByMany,
+  listBlocking,
+  listFilterableSubIssues,
   listSubIssues,
+  MAX_SUB_ISSUE_DEPTH,
+  moveSubIssue,
+  planSubIssueReorder,
   removeBlockedBy,
   removeSubIssue,
+  reprioritizeSubIssue,
+  searchIssues,
+  SubIssueMoveError,
+} from './issue-hierarchy'
+
+export type {
+  AddSubIssueOptions,
+  FilterableIssueInfo,
+  IssueInfo,
+  SubIssueMove,
+  SubIssueMoveMethod,
+  SubIssuePosition,
+  SubIssueTreeNode,
+  SubIssueTreeOptions,
 } from './issue-hierarchy'
 
-// Issue management (types and creation)
+// Issue management (types, creation, labels, body and state)
 export {
+  closeIssue,
   createIssueWithType,
+  getIssueBody,
+  listIssuesWithBody,
   listIssueTypes,
+  removeIssueLabels,
+  searchIssuesWithType,
+  updateIssueBody,
+  updateIssueFields,
   updateIssueType,
 } from './issue-management'
+export type { IssueFieldsUpdate, IssueWithBody, TypedIssueInfo } from './issue-management'
+
+// Organization issue type administration
+export {
+  createOrgIssueType,
+  deleteOrgIssueType,
+  ISSUE_TYPE_COLORS,
+  listOrgIssueTypes,
+  normalizeIssueTypeColor,
+  updateOrgIssueType,
+} from './issue-types'
+export type {
+  IssueTypeColor,
+  IssueTypeInfo,
+  IssueTypeInput,
+} from './issue-types'
 
 // Metadata operations
 export {
@@ -34,7 +150,50 @@ export {
   getLabelNodeIds,
   getMilestoneNodeId,
   getProjectNodeIds,
+  listAssignableUsers,
+  listLabels,
+  listOpenMilestones,
+  listProjects,
 } from './metadata-operations'
+export type {
+  AssignableUserNode,
+  LabelNode,
+  MilestoneNode,
+  ProjectNode,
+} from './metadata-operations'
+// Batched Node ID resolution
+export {
+  BATCH_CHUNK_SIZE,
+  chunkItems,
+  getIssueNodeIds,
+  getPrNodeIds,
+} from './node-id-batch'
+
+// Pagination
+export {
+  MAX_PAGE_SIZE,
+  paginateGraphQL,
+} from './pagination'
+
+export type {
+  Connection,
+  PageInfo,
+  PaginatedResult,
+  PaginationOptions,
+} from './pagination'
+
+// Record/replay of API traffic
+export {
+  getRecordingMode,
+  RecordingNotFoundError,
+  recordOrReplay,
+  resetReplay,
+} from './recording'
+
+export type {
+  RecordingKey,
+  RecordingMode,
+} from './recording'
 
 // Review operations
 export {
@@ -45,3 +204,22 @@ export {
   updateIssueCommentByNodeId,
   updateReviewCommentByNodeId,
 } from './review-operations'
+
+// Transport (HTTP or gh api, with retries)
+export {
+  buildGraphQLArgs,
+  computeRetryDelay,
+  DEFAULT_RETRY_POLICY,
+  getRetryPolicy,
+  getTransportKind,
+  ghApi,
+  graphqlApi,
+} from './transport'
+
+export type {
+  GhApiOptions,
+  GhApiResponse,
+  GraphQLRequest,
+  RetryPolicy,
+  TransportKind,
+} from './transport'
@@ -2,42 +2,140 @@
  * GitHub issue hierarchy operations (sub-issues and dependencies)
  */
 
+import type { PaginationOptions } from './pagination'
+import { FeatureNotEnabledError, NotFoundError } from './errors'
 import { executeGraphQL } from './graphql-core'
+import { BATCH_CHUNK_SIZE, chunkItems } from './node-id-batch'
+import { MAX_PAGE_SIZE, paginateGraphQL } from './pagination'
 
 /**
- * Map GraphQL issue node to standard issue info format
- *
- * @param issue - Raw issue node from GraphQL response
- * @returns Formatted issue info
+ * Deepest sub-issue nesting supported by GitHub
  */
-function mapIssueNode(issue: any): {
+export const MAX_SUB_ISSUE_DEPTH = 8
+
+/**
+ * Issue in a sub-issue tree
+ */
+export interface SubIssueTreeNode {
   number: number
   title: string
   state: string
   nodeId: string
-} {
+  url: string
+  /** Repository in owner/repo format (sub-issues may live in other repositories) */
+  repository: string
+  issueType: string | null
+  assignees: string[]
+  labels: string[]
+  /** Milestone title and due date (ISO 8601, null when the milestone has none) */
+  milestone: { title: string, dueOn: string | null } | null
+  /** Closed and total sub-issues at every level below this issue */
+  progress: { closed: number, total: number }
+  /** True when some sub-issues were not loaded (depth limit or cycle) */
+  truncated: boolean
+  children: SubIssueTreeNode[]
+}
+
+/**
+ * Options for getSubIssueTree
+ */
+export interface SubIssueTreeOptions {
+  /** Levels of sub-issues to load below the root (default: MAX_SUB_ISSUE_DEPTH) */
+  maxDepth?: number
+}
+
+/**
+ * Issue fields selected for sub-issue tree nodes
+ */
+const SUB_ISSUE_TREE_FIELDS = `
+  id
+  number
+  title
+  state
+  url
+  repository { nameWithOwner }
+  issueType { name }
+  assignees(first: 10) { nodes { login } }
+  labels(first: 20) { nodes { name } }
+  milestone { title dueOn }
+  subIssues { totalCount }
+`
+
+/**
+ * Issue returned by sub-issue and dependency listings
+ */
+export interface IssueInfo {
+  number: number
+  title: string
+  state: string
+  nodeId: string
+  url: string
+  /** Repository in owner/repo format (related issues may live in other repositories) */
+  repository?: string
+  /** ISO 8601 creation timestamp */
+  createdAt?: string
+}
+
+/**
+ * Issue fields selected for IssueInfo
+ */
+const ISSUE_INFO_FIELDS = `
+  id
+  number
+  title
+  state
+  url
+  createdAt
+  repository { nameWithOwner }
+`
+
+/**
+ * Map GraphQL issue node to standard issue info format
+ *
+ * @param issue - Raw issue node from GraphQL response
+ * @returns Formatted issue info
+ */
+function mapIssueNode(issue: any): IssueInfo {
   return {
     number: issue.number,
     title: issue.title,
     state: issue.state,
     nodeId: issue.id,
+    url: issue.url,
+    repository: issue.repository?.nameWithOwner,
+    createdAt: issue.createdAt,
   }
 }
 
+/**
+ * Options for addSubIssue
+ */
+export interface AddSubIssueOptions {
+  /** Move the child from its current parent in the same request (not supported by older GitHub Enterprise Server) */
+  replaceParent?: boolean
+}
+
 /**
  * Add a sub-issue to a parent issue
  *
  * @param parentNodeId - Node ID of parent issue
  * @param childNodeId - Node ID of child issue to add
+ * @param options - Whether to replace the child's current parent
  * @throws Error if the mutation fails
  */
 export async function addSubIssue(
   parentNodeId: string,
   childNodeId: string,
+  options: AddSubIssueOptions = {},
 ): Promise<void> {
+  // The argument is only sent when needed so plain adds keep working where it is unknown
+  const replaceParent = options.replaceParent
+    ? { declaration: ', $replaceParent: Boolean', argument: ', replaceParent: $replaceParent' }
+    : { declaration: '', argument: '' }
+
   const mutation = `
-    mutation AddSubIssue($parentId: ID!, $childId: ID!) {
-      addSubIssue(input: {issueId: $parentId, subIssueId: $childId}) {
+    mutation AddSubIssue($parentId: ID!, $childId: ID!${replaceParent.declaration}) {
+      addSubIssue(input: {issueId: $parentId, subIssueId: $childId${replaceParent.argument}}) {
         issue {
           id
           title
@@ -53,7 +151,11 @@ export async function addSubIssue(
 
   await executeGraphQL(
     mutation,
-    { parentId: parentNodeId, childId: childNodeId },
+    {
+      parentId: parentNodeId,
+      childId: childNodeId,
+      ...(options.replaceParent && { replaceParent: true }),
+    },
     ['sub_issues'],
     'AddSubIssue',
   )
@@ -90,33 +192,129 @@ export async function removeSubIssue(
 }
 
 /**
- * List all sub-issues of a parent issue
+ * A sub-issue move failed after the child was detached from its original parent
+ */
+export class SubIssueMoveError extends Error {
+  constructor(
+    message: string,
+    /** Error from the failed step */
+    public override readonly cause: unknown,
+    /** True when the child was re-attached to its original parent */
+    public readonly rolledBack: boolean,
+  ) {
+    super(message)
+    this.name = 'SubIssueMoveError'
+  }
+}
+
+/**
+ * How moveSubIssue reparented the child
+ * - replaced: one addSubIssue call with replaceParent
+ * - re-added: removed from the old parent, then added to the new one
+ * - added: the issue had no parent
+ */
+export type SubIssueMoveMethod = 'replaced' | 're-added' | 'added'
+
+/**
+ * Get the parent of an issue
+ *
+ * @param childNodeId - Node ID of the issue
+ * @returns Parent issue, or null when the issue has none
+ * @throws NotFoundError if the issue does not exist
+ */
+export async function getParentIssue(childNodeId: string): Promise<IssueInfo | null> {
+  const query = `
+    query GetParentIssue($issueId: ID!) {
+      node(id: $issueId) {
+        ... on Issue {
+          parent {
+            ${ISSUE_INFO_FIELDS}
+          }
+        }
+      }
+    }
+  `
+
+  const data = await executeGraphQL(query, { issueId: childNodeId }, ['sub_issues'], 'GetParentIssue')
+  if (!data.node) {
+    throw new NotFoundError(`Issue not found: ${childNodeId}`)
+  }
+  return data.node.parent ? mapIssueNode(data.node.parent) : null
+}
+
+/**
+ * Move a sub-issue to another parent
+ *
+ * Uses addSubIssue with replaceParent. Where GitHub does not support it, falls back
+ * to remove + add; if the add fails, the child is re-attached to its original parent
+ * (at the end of its sub-issue list) so it is not left orphaned.
+ *
+ * @param childNodeId - Node ID of the issue to move
+ * @param newParentNodeId - Node ID of the new parent
+ * @param currentParentNodeId - Node ID of the current parent, or null when the issue has none
+ * @returns How the move was made
+ * @throws SubIssueMoveError if the fallback failed after detaching the child
+ */
+export async function moveSubIssue(
+  childNodeId: string,
+  newParentNodeId: string,
+  currentParentNodeId: string | null,
+): Promise<SubIssueMoveMethod> {
+  if (currentParentNodeId) {
+    try {
+      await addSubIssue(newParentNodeId, childNodeId, { replaceParent: true })
+      return 'replaced'
+    }
+    catch (error) {
+      if (!(error instanceof FeatureNotEnabledError)) {
+        throw error
+      }
+    }
+    await removeSubIssue(currentParentNodeId, childNodeId)
+  }
+
+  try {
+    await addSubIssue(newParentNodeId, childNodeId)
+  }
+  catch (error) {
+    if (!currentParentNodeId) {
+      throw error
+    }
+    const reason = error instanceof Error ? error.message : String(error)
+    try {
+      await addSubIssue(currentParentNodeId, childNodeId)
+    }
+    catch {
+      throw new SubIssueMoveError(`Failed to add the issue to its new parent and to restore its original parent: ${reason}`, error, false)
+    }
+    throw new SubIssueMoveError(`Failed to add the issue to its new parent; restored its original parent: ${reason}`, error, true)
+  }
+
+  return currentParentNodeId ? 're-added' : 'added'
+}
+
+/**
+ * List sub-issues of a parent issue, following pagination cursors
  *
  * @param parentNodeId - Node ID of parent issue
+ * @param options - Optional limit (all sub-issues by default) and truncation callback
  * @returns Array of sub-issue info
- * @warning This function returns a maximum of 100 sub-issues due to pagination limits.
- *          For issues with more sub-issues, consider implementing pagination with `after` cursor.
  */
 export async function listSubIssues(
   parentNodeId: string,
-): Promise<
-  Array<{
-    number: number
-    title: string
-    state: string
-    nodeId: string
-  }>
-> {
+  options: PaginationOptions = {},
+): Promise<IssueInfo[]> {
   const query = `
-    query ListSubIssues($issueId: ID!) {
+    query ListSubIssues($issueId: ID!, $first: Int!, $after: String) {
       node(id: $issueId) {
         ... on Issue {
-          subIssues(first: 100) {
+          subIssues(first: $first, after: $after) {
             nodes {
-              id
-              number
-              title
-              state
+              ${ISSUE_INFO_FIELDS}
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
             }
           }
         }
@@ -124,15 +322,263 @@ export async function listSubIssues(
     }
   `
 
-  const data = await executeGraphQL(query, { issueId: parentNodeId }, [
-    'sub_issues',
-  ], 'ListSubIssues')
+  const { nodes } = await paginateGraphQL(
+    query,
+    { issueId: parentNodeId },
+    data => data.node?.subIssues,
+    { ...options, features: ['sub_issues'], operationName: 'ListSubIssues' },
+  )
+
+  return nodes.map(mapIssueNode)
+}
+
+/**
+ * Sub-issue with the fields issue filters match on
+ */
+export interface FilterableIssueInfo extends IssueInfo {
+  /** Milestone title */
+  milestone: string | null
+  labels: string[]
+  issueType: string | null
+}
+
+/**
+ * Sub-issue node selected by listFilterableSubIssues (IssueInfo fields are read by mapIssueNode)
+ */
+interface FilterableIssueNode {
+  milestone: { title: string } | null
+  labels: { nodes: { name: string }[] } | null
+  issueType: { name: string } | null
+}
+
+/**
+ * List sub-issues of a parent issue with their milestone, labels, and issue type,
+ * following pagination cursors
+ * Sub-issues may live in other repositories, so filter them with these fields rather than a repository search.
+ * Only the first 100 labels of each sub-issue are listed.
+ *
+ * @param parentNodeId - Node ID of parent issue
+ * @param options - Optional limit (all sub-issues by default) and truncation callback
+ * @returns Array of sub-issue info
+ */
+export async function listFilterableSubIssues(
+  parentNodeId: string,
+  options: PaginationOptions = {},
+): Promise<FilterableIssueInfo[]> {
+  const query = `
+    query ListFilterableSubIssues($issueId: ID!, $first: Int!, $after: String) {
+      node(id: $issueId) {
+        ... on Issue {
+          subIssues(first: $first, after: $after) {
+            nodes {
+              ${ISSUE_INFO_FIELDS}
+              milestone { title }
+              labels(first: 100) { nodes { name } }
+              issueType { name }
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+      }
+    }
+  `
+
+  const { nodes } = await paginateGraphQL<FilterableIssueNode>(
+    query,
+    { issueId: parentNodeId },
+    data => data.node?.subIssues,
+    { ...options, features: ['sub_issues'], operationName: 'ListFilterableSubIssues' },
+  )
+
+  return nodes.map(node => ({
+    ...mapIssueNode(node),
+    milestone: node.milestone?.title ?? null,
+    labels: (node.labels?.nodes ?? []).map(label => label.name),
+    issueType: node.issueType?.name ?? null,
+  }))
+}
+
+/**
+ * Position of a sub-issue relative to a sibling
+ * Give either afterId or beforeId (node IDs of sibling sub-issues)
+ */
+export interface SubIssuePosition {
+  afterId?: string
+  beforeId?: string
+}
+
+/**
+ * A single sub-issue move produced by planSubIssueReorder
+ */
+export interface SubIssueMove extends SubIssuePosition {
+  /** Node ID of the sub-issue to move */
+  subIssueId: string
+}
+
+/**
+ * Move a sub-issue to a new position within its parent
+ *
+ * @param parentNodeId - Node ID of parent issue
+ * @param childNodeId - Node ID of the sub-issue to move
+ * @param position - Sibling to place the sub-issue after or before
+ * @throws Error if the mutation fails
+ */
+export async function reprioritizeSubIssue(
+  parentNodeId: string,
+  childNodeId: string,
+  position: SubIssuePosition,
+): Promise<void> {
+  const mutation = `
+    mutation ReprioritizeSubIssue($parentId: ID!, $childId: ID!, $afterId: ID, $beforeId: ID) {
+      reprioritizeSubIssue(input: {issueId: $parentId, subIssueId: $childId, afterId: $afterId, beforeId: $beforeId}) {
+        issue {
+          id
+        }
+      }
+    }
+  `
 
-  if (!data.node?.subIssues) {
+  await executeGraphQL(
+    mutation,
+    {
+      parentId: parentNodeId,
+      childId: childNodeId,
+      ...(position.afterId && { afterId: position.afterId }),
+      ...(position.beforeId && { beforeId: position.beforeId }),
+    },
+    ['sub_issues'],
+    'ReprioritizeSubIssue',
+  )
+}
+
+/**
+ * Plan the fewest moves that bring sub-issues into a desired order
+ *
+ * Sub-issues forming the longest run already in the desired relative order stay put;
+ * every other sub-issue is moved after its predecessor in the desired order (or to the
+ * top when it comes first). Moves must be applied in the returned order.
+ *
+ * @param current - Node IDs in their current order
+ * @param desired - The same node IDs in the desired order
+ * @returns Moves to apply (empty when already ordered)
+ *
+ * @example
+ * ```typescript
+ * planSubIssueReorder(['a', 'b', 'c'], ['b', 'c', 'a'])
+ * // [{ subIssueId: 'a', afterId: 'c' }]
+ * ```
+ */
+export function planSubIssueReorder(current: string[], desired: string[]): SubIssueMove[] {
+  const targetIndex = new Map(desired.map((id, index) => [id, index]))
+  const sequence = current.map(id => targetIndex.get(id)!)
+
+  // Longest increasing subsequence of target positions (patience sorting)
+  const tails: number[] = []
+  const tailIndex: number[] = []
+  const previous: number[] = Array.from({ length: sequence.length }, () => -1)
+  sequence.forEach((value, i) => {
+    let low = 0
+    let high = tails.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (tails[mid]! < value) {
+        low = mid + 1
+      }
+      else {
+        high = mid
+      }
+    }
+    tails[low] = value
+    tailIndex[low] = i
+    previous[i] = low > 0 ? tailIndex[low - 1]! : -1
+  })
+
+  const keep = new Set<string>()
+  for (let i = tailIndex[tails.length - 1] ?? -1; i >= 0; i = previous[i]!) {
+    keep.add(current[i]!)
+  }
+
+  const moves: SubIssueMove[] = []
+  let first = current[0]
+  desired.forEach((id, index) => {
+    if (keep.has(id)) {
+      return
+    }
+    if (index === 0) {
+      moves.push({ subIssueId: id, beforeId: first })
+      first = id
+    }
+    else {
+      moves.push({ subIssueId: id, afterId: desired[index - 1] })
+    }
+  })
+
+  return moves
+}
+
+/**
+ * Get issue details for Node IDs in one request
+ *
+ * @param nodeIds - Issue Node IDs
+ * @returns Issues in input order (IDs that are not issues are skipped)
+ */
+export async function getIssueInfos(nodeIds: string[]): Promise<IssueInfo[]> {
+  if (nodeIds.length === 0) {
     return []
   }
 
-  return data.node.subIssues.nodes.map(mapIssueNode)
+  const query = `
+    query GetIssueInfos($ids: [ID!]!) {
+      nodes(ids: $ids) {
+        ... on Issue {
+          ${ISSUE_INFO_FIELDS}
+        }
+      }
+    }
+  `
+
+  const data = await executeGraphQL(query, { ids: nodeIds }, undefined, 'GetIssueInfos')
+  return (data.nodes ?? []).filter((node: any) => node?.id).map(mapIssueNode)
+}
+
+/**
+ * Search issues with GitHub search syntax, following pagination cursors
+ *
+ * @param searchQuery - Search query (e.g., `repo:owner/repo is:issue milestone:"v1"`)
+ * @param options - Optional limit (all results by default) and truncation callback
+ * @returns Matching issues
+ */
+export async function searchIssues(
+  searchQuery: string,
+  options: PaginationOptions = {},
+): Promise<IssueInfo[]> {
+  const query = `
+    query SearchIssues($searchQuery: String!, $first: Int!, $after: String) {
+      search(query: $searchQuery, type: ISSUE, first: $first, after: $after) {
+        nodes {
+          ... on Issue {
+            ${ISSUE_INFO_FIELDS}
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  `
+
+  const { nodes } = await paginateGraphQL<any>(
+    query,
+    { searchQuery },
+    data => data.search,
+    { ...options, operationName: 'SearchIssues' },
+  )
+
+  return nodes.filter(node => node?.id).map(mapIssueNode)
 }
 
 /**
@@ -201,33 +647,186 @@ export async function removeBlockedBy(
 }
 
 /**
- * List all issues blocking a given issue
+ * Dependency connections on an issue, with the operation name used to query each
+ */
+const DEPENDENCY_CONNECTIONS = {
+  blockedBy: 'ListBlockedBy',
+  blocking: 'ListBlocking',
+} as const
+
+/**
+ * List one side of an issue's dependencies, following pagination cursors
+ */
+async function listDependencies(
+  issueNodeId: string,
+  connection: keyof typeof DEPENDENCY_CONNECTIONS,
+  options: PaginationOptions,
+): Promise<IssueInfo[]> {
+  const operationName = DEPENDENCY_CONNECTIONS[connection]
+  const query = `
+    query ${operationName}($issueId: ID!, $first: Int!, $after: String) {
+      node(id: $issueId) {
+        ... on Issue {
+          ${connection}(first: $first, after: $after) {
+            nodes {
+              ${ISSUE_INFO_FIELDS}
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+      }
+    }
+  `
+
+  const { nodes } = await paginateGraphQL(
+    query,
+    { issueId: issueNodeId },
+    data => data.node?.[connection],
+    { ...options, operationName },
+  )
+
+  return nodes.map(mapIssueNode)
+}
+
+/**
+ * List issues blocking a given issue, following pagination cursors
  *
  * @param issueNodeId - Node ID of the issue
+ * @param options - Optional limit (all blockers by default) and truncation callback
  * @returns Array of blocking issue info
- * @warning This function returns a maximum of 100 blocking issues due to pagination limits.
- *          For issues with more blockers, consider implementing pagination with `after` cursor.
  */
 export async function listBlockedBy(
   issueNodeId: string,
-): Promise<
-  Array<{
-    number: number
-    title: string
-    state: string
-    nodeId: string
-  }>
-> {
+  options: PaginationOptions = {},
+): Promise<IssueInfo[]> {
+  return listDependencies(issueNodeId, 'blockedBy', options)
+}
+
+/**
+ * List the blockers of many issues, one request per chunk of BATCH_CHUNK_SIZE issues
+ *
+ * Issues with more blockers than fit in one page are completed with listBlockedBy.
+ *
+ * @param issueNodeIds - Node IDs of the issues
+ * @returns Blocking issues per issue Node ID (IDs that are not issues are absent)
+ */
+export async function listBlockedByMany(issueNodeIds: string[]): Promise<Map<string, IssueInfo[]>> {
   const query = `
-    query ListBlockedBy($issueId: ID!) {
+    query ListBlockedByMany($ids: [ID!]!, $first: Int!) {
+      nodes(ids: $ids) {
+        ... on Issue {
+          id
+          blockedBy(first: $first) {
+            nodes {
+              ${ISSUE_INFO_FIELDS}
+            }
+            pageInfo {
+              hasNextPage
+            }
+          }
+        }
+      }
+    }
+  `
+
+  const blockers = new Map<string, IssueInfo[]>()
+  for (const chunk of chunkItems([...new Set(issueNodeIds)], BATCH_CHUNK_SIZE)) {
+    const data = await executeGraphQL(query, { ids: chunk, first: MAX_PAGE_SIZE }, undefined, 'ListBlockedByMany')
+    for (const node of data.nodes ?? []) {
+      if (!node?.id || !node.blockedBy) {
+        continue
+      }
+      blockers.set(node.id, node.blockedBy.pageInfo.hasNextPage
+        ? await listBlockedBy(node.id)
+        : node.blockedBy.nodes.map(mapIssueNode))
+    }
+  }
+
+  return blockers
+}
+
+/**
+ * List issues blocked by a given issue, following pagination cursors
+ *
+ * @param issueNodeId - Node ID of the issue
+ * @param options - Optional limit (all blocked issues by default) and truncation callback
+ * @returns Array of blocked issue info
+ */
+export async function listBlocking(
+  issueNodeId: string,
+  options: PaginationOptions = {},
+): Promise<IssueInfo[]> {
+  return listDependencies(issueNodeId, 'blocking', options)
+}
+
+/**
+ * Map a GraphQL issue node to a sub-issue tree node without children
+ */
+function mapTreeNode(issue: any): SubIssueTreeNode {
+  return {
+    number: issue.number,
+    title: issue.title,
+    state: issue.state,
+    nodeId: issue.id,
+    url: issue.url,
+    repository: issue.repository?.nameWithOwner ?? '',
+    issueType: issue.issueType?.name ?? null,
+    assignees: (issue.assignees?.nodes ?? []).map((a: { login: string }) => a.login),
+    labels: (issue.labels?.nodes ?? []).map((l: { name: string }) => l.name),
+    milestone: issue.milestone ? { title: issue.milestone.title, dueOn: issue.milestone.dueOn ?? null } : null,
+    progress: { closed: 0, total: 0 },
+    truncated: false,
+    children: [],
+  }
+}
+
+/**
+ * Load an issue and its sub-issues recursively, rolling up closed/total counts
+ *
+ * Only issues that have sub-issues are queried for children. Issues already in the
+ * tree are skipped (and their parent marked truncated) to guard against cycles.
+ *
+ * @param rootNodeId - Node ID of the root issue
+ * @param options - Depth limit
+ * @returns The root issue with nested children
+ * @throws NotFoundError if the root issue does not exist
+ *
+ * @example
+ * ```typescript
+ * const tree = await getSubIssueTree(epicNodeId, { maxDepth: 2 })
+ * console.log(`${tree.progress.closed}/${tree.progress.total} done`)
+ * ```
+ */
+export async function getSubIssueTree(
+  rootNodeId: string,
+  options: SubIssueTreeOptions = {},
+): Promise<SubIssueTreeNode> {
+  const maxDepth = options.maxDepth ?? MAX_SUB_ISSUE_DEPTH
+
+  const rootQuery = `
+    query GetSubIssueTreeRoot($issueId: ID!) {
+      node(id: $issueId) {
+        ... on Issue {
+          ${SUB_ISSUE_TREE_FIELDS}
+        }
+      }
+    }
+  `
+
+  const childrenQuery = `
+    query ListSubIssueTreeChildren($issueId: ID!, $first: Int!, $after: String) {
       node(id: $issueId) {
         ... on Issue {
-          blockedBy(first: 100) {
+          subIssues(first: $first, after: $after) {
             nodes {
-              id
-              number
-              title
-              state
+              ${SUB_ISSUE_TREE_FIELDS}
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
             }
           }
         }
@@ -235,11 +834,46 @@ export async function listBlockedBy(
     }
   `
 
-  const data = await executeGraphQL(query, { issueId: issueNodeId }, undefined, 'ListBlockedBy')
+  const data = await executeGraphQL(rootQuery, { issueId: rootNodeId }, ['sub_issues'], 'GetSubIssueTreeRoot')
+  if (!data.node?.id) {
+    throw new NotFoundError(`Issue not found: ${rootNodeId}`)
+  }
 
-  if (!data.node?.blockedBy) {
-    return []
+  const visited = new Set<string>()
+
+  const expand = async (issue: any, depth: number): Promise<SubIssueTreeNode> => {
+    const node = mapTreeNode(issue)
+    visited.add(node.nodeId)
+
+    if (!issue.subIssues?.totalCount) {
+      return node
+    }
+    if (depth >= maxDepth) {
+      node.truncated = true
+      return node
+    }
+
+    const { nodes } = await paginateGraphQL<any>(
+      childrenQuery,
+      { issueId: node.nodeId },
+      response => response.node?.subIssues,
+      { features: ['sub_issues'], operationName: 'ListSubIssueTreeChildren' },
+    )
+
+    for (const child of nodes) {
+      if (visited.has(child.id)) {
+        node.truncated = true
+        continue
+      }
+
+      const childNode = await expand(child, depth + 1)
+      node.children.push(childNode)
+      node.progress.total += 1 + childNode.progress.total
+      node.progress.closed += (childNode.state === 'CLOSED' ? 1 : 0) + childNode.progress.closed
+    }
+
+    return node
   }
 
-  return data.node.blockedBy.nodes.map(mapIssueNode)
+  return expand(data.node, 0)
 }
@@ -1,33 +1,93 @@
 /**
- * GitHub issue management operations (creation and types)
+ * GitHub issue management operations (creation, types, labels, body and state)
  */
 
+import type { DryRunResult } from './dry-run'
+import type { PaginationOptions } from './pagination'
+import { withCache } from './cache'
+import { isDryRunResult } from './dry-run'
+import { NotFoundError } from './errors'
 import { executeGraphQL, getRepositoryNodeId } from './graphql-core'
+import { paginateGraphQL } from './pagination'
 
 /**
- * List all issue types for a repository
+ * Search result with the issue's current type
+ */
+export interface TypedIssueInfo {
+  number: number
+  title: string
+  state: string
+  nodeId: string
+  url: string
+  /** Current issue type name, or null when the issue has none */
+  issueType: string | null
+}
+
+/**
+ * Issue with its markdown body
+ */
+export interface IssueWithBody {
+  number: number
+  title: string
+  state: string
+  nodeId: string
+  url: string
+  body: string
+}
+
+/**
+ * Fields to change with updateIssueFields; omitted fields are left unchanged
+ */
+export interface IssueFieldsUpdate {
+  title?: string
+  body?: string
+  /** Replaces every label */
+  labelIds?: string[]
+  /** Replaces every assignee */
+  assigneeIds?: string[]
+  /** Milestone Node ID, or null to clear */
+  milestoneId?: string | null
+}
+
+/**
+ * Issue node returned by the type-aware search
+ */
+interface TypedIssueNode {
+  id: string
+  number: number
+  title: string
+  state: string
+  url: string
+  issueType: { name: string } | null
+}
+
+interface IssueTypeNode {
+  id: string
+  name: string
+  description?: string
+  color: string
+  isEnabled: boolean
+}
+
+/**
+ * List all issue types for a repository, following pagination cursors
+ * Complete (unlimited) listings are cached on disk
  *
  * @param owner - Repository owner
  * @param repo - Repository name
+ * @param options - Optional limit (all issue types by default) and truncation callback
  * @returns Array of issue types
  * @throws Error if the query fails
- * @warning This function returns a maximum of 100 issue types due to pagination limits.
- *          For repositories with more issue types, consider implementing pagination with `after` cursor.
  */
 export async function listIssueTypes(
   owner: string,
   repo: string,
-): Promise<Array<{
-  id: string
-  name: string
-  description?: string
-  color: string
-  isEnabled: boolean
-}>> {
+  options: PaginationOptions = {},
+): Promise<IssueTypeNode[]> {
   const query = `
-    query ListIssueTypes($owner: String!, $repo: String!) {
+    query ListIssueTypes($owner: String!, $repo: String!, $first: Int!, $after: String) {
       repository(owner: $owner, name: $repo) {
-        issueTypes(first: 100) {
+        issueTypes(first: $first, after: $after) {
           nodes {
             id
             name
@@ -35,28 +95,45 @@ export async function listIssueTypes(
             color
             isEnabled
           }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
         }
       }
     }
   `
 
-  const data = await executeGraphQL(query, { owner, repo }, undefined, 'ListIssueTypes')
-
-  if (!data.repository) {
-    throw new Error(
-      `Repository ${owner}/${repo} not found or issue types are not available.\n`
-      + `Possible reasons:\n`
-      + `  • The repository does not exist or you lack permissions to view it\n`
-      + `  • The owner or repo name may be misspelled\n`
-      + `  • Issue types may not be enabled for this repository`,
+  const fetchIssueTypes = async (): Promise<IssueTypeNode[]> => {
+    const { nodes } = await paginateGraphQL<IssueTypeNode>(
+      query,
+      { owner, repo },
+      (data) => {
+        if (!data.repository) {
+          throw new NotFoundError(
+            `Repository ${owner}/${repo} not found or issue types are not available.\n`
+            + `Possible reasons:\n`
+            + `  • The repository does not exist or you lack permissions to view it\n`
+            + `  • The owner or repo name may be misspelled\n`
+            + `  • Issue types may not be enabled for this repository`,
+          )
+        }
+        return data.repository.issueTypes
+      },
+      { ...options, operationName: 'ListIssueTypes' },
     )
+    return nodes
   }
 
-  if (!data.repository.issueTypes?.nodes) {
+  const nodes = options.limit === undefined
+    ? await withCache({ owner, repo, operation: 'issue-types' }, fetchIssueTypes)
+    : await fetchIssueTypes()
+
+  if (nodes.length === 0) {
     return []
   }
 
-  return data.repository.issueTypes.nodes
+  return nodes
 }
 
 /**
@@ -71,7 +148,7 @@ export async function listIssueTypes(
  * @param assigneeIds - Array of assignee Node IDs (optional)
  * @param milestoneId - Milestone Node ID (optional)
  * @param projectIds - Array of project Node IDs (optional)
- * @returns Object with issue number and Node ID
+ * @returns Object with issue number and Node ID (DryRunResult in dry-run mode)
  * @throws Error if the mutation fails
  */
 export async function createIssueWithType(
@@ -84,7 +161,7 @@ export async function createIssueWithType(
   assigneeIds?: string[],
   milestoneId?: string,
   projectIds?: string[],
-): Promise<{ number: number, nodeId: string }> {
+): Promise<{ number: number, nodeId: string } | DryRunResult> {
   // Get repository Node ID
   const repositoryId = await getRepositoryNodeId(owner, repo)
 
@@ -120,6 +197,9 @@ export async function createIssueWithType(
   }
 
   const data = await executeGraphQL(mutation, variables, undefined, 'CreateIssueWithType')
+  if (isDryRunResult(data)) {
+    return data
+  }
 
   if (!data.createIssue?.issue) {
     throw new Error(
@@ -172,7 +252,7 @@ export async function updateIssueType(
     issueTypeId,
   }, undefined, 'UpdateIssueType')
 
-  if (!data.updateIssueIssueType?.issue) {
+  if (!isDryRunResult(data) && !data.updateIssueIssueType?.issue) {
     throw new Error(
       `Failed to update issue type for issue ${issueId}.\n`
       + `Possible reasons:\n`
@@ -184,3 +264,257 @@ export async function updateIssueType(
     )
   }
 }
+
+/**
+ * Search issues with GitHub search syntax, including each issue's current type
+ *
+ * @param searchQuery - Search query (e.g., `repo:owner/repo is:issue label:"bug"`)
+ * @param options - Optional limit (all results by default) and truncation callback
+ * @returns Matching issues
+ */
+export async function searchIssuesWithType(
+  searchQuery: string,
+  options: PaginationOptions = {},
+): Promise<TypedIssueInfo[]> {
+  const query = `
+    query SearchIssuesWithType($searchQuery: String!, $first: Int!, $after: String) {
+      search(query: $searchQuery, type: ISSUE, first: $first, after: $after) {
+        nodes {
+          ... on Issue {
+            id
+            number
+            title
+            state
+            url
+            issueType { name }
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  `
+
+  // Search hits that are not issues come back as empty objects
+  const { nodes } = await paginateGraphQL<Partial<TypedIssueNode>>(
+    query,
+    { searchQuery },
+    data => data.search,
+    { ...options, operationName: 'SearchIssuesWithType' },
+  )
+
+  return nodes.filter((node): node is TypedIssueNode => Boolean(node?.id)).map(node => ({
+    number: node.number,
+    title: node.title,
+    state: node.state,
+    nodeId: node.id,
+    url: node.url,
+    issueType: node.issueType?.name ?? null,
+  }))
+}
+
+/**
+ * List the open and closed issues of a repository, including each issue's body
+ * Reads the repository's issue connection directly, so new issues are seen
+ * without search index lag and listings are not capped at 1000 results
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param options - Optional limit (all issues by default) and truncation callback
+ * @returns Issues in creation order
+ * @throws NotFoundError if the repository is not found
+ */
+export async function listIssuesWithBody(
+  owner: string,
+  repo: string,
+  options: PaginationOptions = {},
+): Promise<IssueWithBody[]> {
+  const query = `
+    query ListIssuesWithBody($owner: String!, $repo: String!, $first: Int!, $after: String) {
+      repository(owner: $owner, name: $repo) {
+        issues(first: $first, after: $after, states: [OPEN, CLOSED]) {
+          nodes {
+            id
+            number
+            title
+            state
+            url
+            body
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    }
+  `
+
+  const { nodes } = await paginateGraphQL<any>(
+    query,
+    { owner, repo },
+    (data) => {
+      if (!data.repository?.issues) {
+        throw new NotFoundError(`Repository ${owner}/${repo} not found`)
+      }
+      return data.repository.issues
+    },
+    { ...options, operationName: 'ListIssuesWithBody' },
+  )
+
+  return nodes.map(node => ({
+    number: node.number,
+    title: node.title,
+    state: node.state,
+    nodeId: node.id,
+    url: node.url,
+    body: node.body ?? '',
+  }))
+}
+
+/**
+ * Update the title, body, labels, assignees, and milestone of an issue
+ *
+ * @param issueId - Issue Node ID
+ * @param update - Fields to change (omitted fields are left unchanged)
+ * @throws Error if the mutation fails
+ */
+export async function updateIssueFields(issueId: string, update: IssueFieldsUpdate): Promise<void> {
+  const mutation = `
+    mutation UpdateIssueFields($issueId: ID!, $title: String, $body: String, $labelIds: [ID!], $assigneeIds: [ID!], $milestoneId: ID) {
+      updateIssue(input: {
+        id: $issueId
+        title: $title
+        body: $body
+        labelIds: $labelIds
+        assigneeIds: $assigneeIds
+        milestoneId: $milestoneId
+      }) {
+        issue {
+          id
+        }
+      }
+    }
+  `
+
+  const variables = {
+    issueId,
+    ...(update.title !== undefined && { title: update.title }),
+    ...(update.body !== undefined && { body: update.body }),
+    ...(update.labelIds !== undefined && { labelIds: update.labelIds }),
+    ...(update.assigneeIds !== undefined && { assigneeIds: update.assigneeIds }),
+    ...(update.milestoneId !== undefined && { milestoneId: update.milestoneId }),
+  }
+
+  const data = await executeGraphQL(mutation, variables, undefined, 'UpdateIssueFields')
+
+  if (!isDryRunResult(data) && !data.updateIssue?.issue) {
+    throw new Error(`Failed to update issue ${issueId}`)
+  }
+}
+
+/**
+ * Remove labels from an issue (labels the issue doesn't have are ignored)
+ *
+ * @param issueId - Issue Node ID
+ * @param labelIds - Label Node IDs
+ * @throws Error if the mutation fails
+ */
+export async function removeIssueLabels(issueId: string, labelIds: string[]): Promise<void> {
+  const mutation = `
+    mutation RemoveIssueLabels($issueId: ID!, $labelIds: [ID!]!) {
+      removeLabelsFromLabelable(input: {
+        labelableId: $issueId
+        labelIds: $labelIds
+      }) {
+        clientMutationId
+      }
+    }
+  `
+
+  await executeGraphQL(mutation, { issueId, labelIds }, undefined, 'RemoveIssueLabels')
+}
+
+/**
+ * Get the body of an issue
+ *
+ * @param issueId - Issue Node ID
+ * @returns Markdown body (empty string when the issue has none)
+ * @throws NotFoundError if the issue does not exist
+ */
+export async function getIssueBody(issueId: string): Promise<string> {
+  const query = `
+    query GetIssueBody($issueId: ID!) {
+      node(id: $issueId) {
+        ... on Issue {
+          body
+        }
+      }
+    }
+  `
+
+  const data = await executeGraphQL(query, { issueId }, undefined, 'GetIssueBody')
+
+  if (!data.node) {
+    throw new NotFoundError(`Issue not found: ${issueId}`)
+  }
+
+  return data.node.body ?? ''
+}
+
+/**
+ * Replace the body of an issue
+ *
+ * @param issueId - Issue Node ID
+ * @param body - New markdown body
+ * @throws Error if the mutation fails
+ */
+export async function updateIssueBody(issueId: string, body: string): Promise<void> {
+  const mutation = `
+    mutation UpdateIssueBody($issueId: ID!, $body: String!) {
+      updateIssue(input: {
+        id: $issueId
+        body: $body
+      }) {
+        issue {
+          id
+        }
+      }
+    }
+  `
+
+  const data = await executeGraphQL(mutation, { issueId, body }, undefined, 'UpdateIssueBody')
+
+  if (!isDryRunResult(data) && !data.updateIssue?.issue) {
+    throw new Error(`Failed to update the body of issue ${issueId}`)
+  }
+}
+
+/**
+ * Close an issue as completed
+ *
+ * @param issueId - Issue Node ID
+ * @throws Error if the mutation fails
+ */
+export async function closeIssue(issueId: string): Promise<void> {
+  const mutation = `
+    mutation CloseIssue($issueId: ID!) {
+      closeIssue(input: {
+        issueId: $issueId
+        stateReason: COMPLETED
+      }) {
+        issue {
+          id
+        }
+      }
+    }
+  `
+
+  const data = await executeGraphQL(mutation, { issueId }, undefined, 'CloseIssue')
+
+  if (!isDryRunResult(data) && !data.closeIssue?.issue) {
+    throw new Error(`Failed to close issue ${issueId}`)
+  }
+}
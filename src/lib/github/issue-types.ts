@@ -0,0 +1,262 @@
+/**
+ * Organization issue type administration (list, create, update, delete)
+ *
+ * Issue types are defined per organization and shared by its repositories, so
+ * every mutation clears the cached issue type listings of the organization.
+ */
+
+import type { DryRunResult } from './dry-run'
+import type { PaginationOptions } from './pagination'
+import { invalidateCache } from './cache'
+import { isDryRunResult } from './dry-run'
+import { NotFoundError } from './errors'
+import { executeGraphQL } from './graphql-core'
+import { paginateGraphQL } from './pagination'
+
+/**
+ * Colors accepted by GitHub for issue types
+ */
+export const ISSUE_TYPE_COLORS = ['GRAY', 'BLUE', 'GREEN', 'YELLOW', 'ORANGE', 'RED', 'PINK', 'PURPLE'] as const
+
+export type IssueTypeColor = typeof ISSUE_TYPE_COLORS[number]
+
+/**
+ * Issue type defined by an organization
+ */
+export interface IssueTypeInfo {
+  id: string
+  name: string
+  description: string | null
+  color: string
+  isEnabled: boolean
+}
+
+/**
+ * Fields to set when creating or updating an issue type
+ */
+export interface IssueTypeInput {
+  name?: string
+  description?: string
+  color?: IssueTypeColor
+  isEnabled?: boolean
+}
+
+const ISSUE_TYPE_FIELDS = `
+  id
+  name
+  description
+  color
+  isEnabled
+`
+
+/**
+ * Check a color name (case-insensitive) and return it in GitHub's enum form
+ *
+ * @returns The upper-case color, or null if it is not an issue type color
+ */
+export function normalizeIssueTypeColor(color: string): IssueTypeColor | null {
+  const upper = color.toUpperCase()
+  return (ISSUE_TYPE_COLORS as readonly string[]).includes(upper) ? upper as IssueTypeColor : null
+}
+
+/**
+ * Clear cached issue type listings of the organization's repositories
+ */
+function invalidateIssueTypeCache(org: string): void {
+  invalidateCache({ owner: org, operation: 'issue-types' })
+}
+
+/**
+ * Get the Node ID of an organization
+ */
+async function getOrganizationNodeId(org: string): Promise<string> {
+  const query = `
+    query GetOrganizationNodeId($org: String!) {
+      organization(login: $org) {
+        id
+      }
+    }
+  `
+
+  const data = await executeGraphQL(query, { org }, undefined, 'GetOrganizationNodeId')
+
+  if (!data.organization?.id) {
+    throw new NotFoundError(`Organization ${org} not found`)
+  }
+
+  return data.organization.id as string
+}
+
+/**
+ * List the issue types of an organization, including disabled ones
+ *
+ * @param org - Organization login
+ * @param options - Optional limit (all issue types by default) and truncation callback
+ * @returns Array of issue types
+ * @throws NotFoundError if the organization does not exist or is not visible
+ */
+export async function listOrgIssueTypes(
+  org: string,
+  options: PaginationOptions = {},
+): Promise<IssueTypeInfo[]> {
+  const query = `
+    query ListOrgIssueTypes($org: String!, $first: Int!, $after: String) {
+      organization(login: $org) {
+        issueTypes(first: $first, after: $after) {
+          nodes {
+            ${ISSUE_TYPE_FIELDS}
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    }
+  `
+
+  const { nodes } = await paginateGraphQL<IssueTypeInfo>(
+    query,
+    { org },
+    (data) => {
+      if (!data.organization) {
+        throw new NotFoundError(
+          `Organization ${org} not found.\n`
+          + `Possible reasons:\n`
+          + `  • The organization does not exist or you lack permissions to view it\n`
+          + `  • ${org} is a user account (issue types are only available to organizations)`,
+        )
+      }
+      return data.organization.issueTypes
+    },
+    { ...options, operationName: 'ListOrgIssueTypes' },
+  )
+
+  return nodes.map(node => ({ ...node, description: node.description ?? null }))
+}
+
+/**
+ * Create an issue type in an organization (requires organization admin)
+ *
+ * @param org - Organization login
+ * @param input - Name and optional description, color, and enabled state (enabled by default)
+ * @returns The created issue type (DryRunResult in dry-run mode)
+ * @throws Error if the mutation fails
+ */
+export async function createOrgIssueType(
+  org: string,
+  input: IssueTypeInput & { name: string },
+): Promise<IssueTypeInfo | DryRunResult> {
+  const ownerId = await getOrganizationNodeId(org)
+
+  const mutation = `
+    mutation CreateIssueType($ownerId: ID!, $name: String!, $description: String, $color: IssueTypeColor, $isEnabled: Boolean!) {
+      createIssueType(input: {
+        ownerId: $ownerId
+        name: $name
+        description: $description
+        color: $color
+        isEnabled: $isEnabled
+      }) {
+        issueType {
+          ${ISSUE_TYPE_FIELDS}
+        }
+      }
+    }
+  `
+
+  const variables = {
+    ownerId,
+    name: input.name,
+    ...(input.description !== undefined && { description: input.description }),
+    ...(input.color !== undefined && { color: input.color }),
+    isEnabled: input.isEnabled ?? true,
+  }
+
+  const data = await executeGraphQL(mutation, variables, undefined, 'CreateIssueType')
+  if (isDryRunResult(data)) {
+    return data
+  }
+  invalidateIssueTypeCache(org)
+
+  if (!data.createIssueType?.issueType) {
+    throw new Error(`Failed to create issue type '${input.name}' in ${org}`)
+  }
+
+  return data.createIssueType.issueType
+}
+
+/**
+ * Update an organization issue type; omitted fields are left unchanged
+ *
+ * @param org - Organization login (for cache invalidation)
+ * @param issueTypeId - Issue type Node ID
+ * @param input - Fields to change
+ * @returns The updated issue type (DryRunResult in dry-run mode)
+ * @throws Error if the mutation fails
+ */
+export async function updateOrgIssueType(
+  org: string,
+  issueTypeId: string,
+  input: IssueTypeInput,
+): Promise<IssueTypeInfo | DryRunResult> {
+  const mutation = `
+    mutation UpdateOrgIssueType($issueTypeId: ID!, $name: String, $description: String, $color: IssueTypeColor, $isEnabled: Boolean) {
+      updateIssueType(input: {
+        issueTypeId: $issueTypeId
+        name: $name
+        description: $description
+        color: $color
+        isEnabled: $isEnabled
+      }) {
+        issueType {
+          ${ISSUE_TYPE_FIELDS}
+        }
+      }
+    }
+  `
+
+  const variables = {
+    issueTypeId,
+    ...(input.name !== undefined && { name: input.name }),
+    ...(input.description !== undefined && { description: input.description }),
+    ...(input.color !== undefined && { color: input.color }),
+    ...(input.isEnabled !== undefined && { isEnabled: input.isEnabled }),
+  }
+
+  const data = await executeGraphQL(mutation, variables, undefined, 'UpdateOrgIssueType')
+  if (isDryRunResult(data)) {
+    return data
+  }
+  invalidateIssueTypeCache(org)
+
+  if (!data.updateIssueType?.issueType) {
+    throw new Error(`Failed to update issue type ${issueTypeId} in ${org}`)
+  }
+
+  return data.updateIssueType.issueType
+}
+
+/**
+ * Delete an organization issue type
+ *
+ * Issues of this type lose their type.
+ *
+ * @param org - Organization login (for cache invalidation)
+ * @param issueTypeId - Issue type Node ID
+ * @throws Error if the mutation fails
+ */
+export async function deleteOrgIssueType(org: string, issueTypeId: string): Promise<void> {
+  const mutation = `
+    mutation DeleteIssueType($issueTypeId: ID!) {
+      deleteIssueType(input: { issueTypeId: $issueTypeId }) {
+        deletedIssueTypeId
+      }
+    }
+  `
+
+  const data = await executeGraphQL(mutation, { issueTypeId }, undefined, 'DeleteIssueType')
+  if (!isDryRunResult(data)) {
+    invalidateIssueTypeCache(org)
+  }
+}
@@ -2,68 +2,74 @@
  * GitHub metadata operations for labels, assignees, milestones, and projects
  */
 
+import type { WithCacheOptions } from './cache'
+import { withCache } from './cache'
+import { NotFoundError } from './errors'
 import { executeGraphQL } from './graphql-core'
+import { BATCH_CHUNK_SIZE, chunkItems } from './node-id-batch'
+import { paginateGraphQL } from './pagination'
 
-interface LabelNode {
+/**
+ * Repository label
+ */
+export interface LabelNode {
   id: string
   name: string
 }
 
-interface MilestoneNode {
+/**
+ * Open milestone
+ */
+export interface MilestoneNode {
   id: string
   title: string
 }
 
+/**
+ * Project (V2) of a repository or its owner organization
+ */
+export interface ProjectNode {
+  id: string
+  title: string
+}
+
+/**
+ * User who can be assigned to issues in a repository
+ */
+export interface AssignableUserNode {
+  id: string
+  login: string
+  name: string | null
+}
+
 /**
  * Get Node IDs for multiple labels by name
+ * Uses the cached label list from listLabels and refetches it when a name is missing
  *
  * @param owner - Repository owner
  * @param repo - Repository name
  * @param labelNames - Array of label names
  * @returns Array of label Node IDs
- * @throws Error if any label is not found
- * @warning This function fetches a maximum of 100 labels due to pagination limits.
- *          For repositories with more labels, consider implementing pagination with `after` cursor.
+ * @throws NotFoundError if any label is not found
  */
 export async function getLabelNodeIds(
   owner: string,
   repo: string,
   labelNames: string[],
 ): Promise<string[]> {
-  const query = `
-    query GetLabelNodeIds($owner: String!, $repo: String!) {
-      repository(owner: $owner, name: $repo) {
-        labels(first: 100) {
-          nodes {
-            id
-            name
-          }
-        }
-      }
-    }
-  `
-
-  const data = await executeGraphQL(query, { owner, repo }, undefined, 'GetLabelNodeIds')
+  const labels = await listLabels(owner, repo, {
+    isStale: cached => labelNames.some(name => !cached.some(label => label.name === name)),
+  })
 
-  if (!data.repository?.labels?.nodes) {
-    throw new Error(
-      `Repository ${owner}/${repo} not found or labels are not available.\n`
-      + `Possible reasons:\n`
-      + `  • The repository does not exist or you lack permissions to view it\n`
-      + `  • The owner or repo name may be misspelled`,
-    )
-  }
-
-  const labels: LabelNode[] = data.repository.labels.nodes
   const labelMap = new Map<string, string>(labels.map(label => [label.name, label.id]))
 
   const results = labelNames.map(name => ({ name, nodeId: labelMap.get(name) }))
   const notFound = results.filter(r => !r.nodeId).map(r => r.name)
 
   if (notFound.length > 0) {
-    throw new Error(
+    throw new NotFoundError(
       `Label(s) not found: ${notFound.join(', ')}\n`
-      + `Available labels: ${labels.map((l: any) => l.name).join(', ')}`,
+      + `Available labels: ${labels.map(l => l.name).join(', ')}`,
     )
   }
 
@@ -76,12 +82,14 @@ export async function getLabelNodeIds(
  *
  * Uses dynamic query building with aliases to fetch all users in a single request,
  * reducing API rate limit consumption from N points to 1 point.
+ * Lists longer than BATCH_CHUNK_SIZE are split into several batched requests.
+ * Results for explicit logins are cached on disk.
  *
  * @param owner - Repository owner
  * @param repo - Repository name (not used in queries but kept for API consistency)
  * @param logins - Array of user logins (supports @me)
  * @returns Array of assignee Node IDs in the same order as input logins
- * @throws Error if any user is not found
+ * @throws NotFoundError if any user is not found
  */
 export async function getAssigneeNodeIds(
   owner: string,
@@ -92,93 +100,115 @@ export async function getAssigneeNodeIds(
     return []
   }
 
-  const nodeIds: string[] = []
-  const notFound: string[] = []
+  // Resolve long lists chunk by chunk to stay within query complexity limits
+  if (logins.length > BATCH_CHUNK_SIZE) {
+    const chunkedNodeIds: string[] = []
+    for (const chunk of chunkItems(logins, BATCH_CHUNK_SIZE)) {
+      chunkedNodeIds.push(...await getAssigneeNodeIds(owner, repo, chunk))
+    }
+    return chunkedNodeIds
+  }
 
-  // Separate @me from regular logins
-  const hasMeAlias = logins.includes('@me')
-  const regularLogins = logins.filter(login => login !== '@me')
+  // @me depends on the authenticated account, so only explicit logins are cached
+  if (logins.includes('@me')) {
+    return resolveAssigneeNodeIds()
+  }
 
-  // Build batched query with aliases
-  const queryParts: string[] = []
-  const variables: Record<string, string> = {}
+  return withCache(
+    { owner, repo, operation: 'assignees', params: logins.join(',') },
+    resolveAssigneeNodeIds,
+  )
 
-  // Add viewer query if @me is present
-  if (hasMeAlias) {
-    queryParts.push('viewer { id }')
-  }
+  async function resolveAssigneeNodeIds(): Promise<string[]> {
+    const nodeIds: string[] = []
+    const notFound: string[] = []
 
-  // Add aliased user queries for regular logins
-  for (const [index, login] of regularLogins.entries()) {
-    const alias = `user${index}`
-    const varName = `login${index}`
-    queryParts.push(`${alias}: user(login: $${varName}) { id }`)
-    variables[varName] = login
-  }
+    // Separate @me from regular logins
+    const hasMeAlias = logins.includes('@me')
+    const regularLogins = logins.filter(login => login !== '@me')
 
-  // Build variable declarations
-  const varDeclarations = Object.keys(variables)
-    .map(varName => `$${varName}: String!`)
-    .join(', ')
+    // Build batched query with aliases
+    const queryParts: string[] = []
+    const variables: Record<string, string> = {}
 
-  // Construct final query
-  const batchedQuery = `
-    query GetAssigneeNodeIds${varDeclarations ? `(${varDeclarations})` : ''} {
-      ${queryParts.join('\n      ')}
+    // Add viewer query if @me is present
+    if (hasMeAlias) {
+      queryParts.push('viewer { id }')
+    }
+
+    // Add aliased user queries for regular logins
+    for (const [index, login] of regularLogins.entries()) {
+      const alias = `user${index}`
+      const varName = `login${index}`
+      queryParts.push(`${alias}: user(login: $${varName}) { id }`)
+      variables[varName] = login
     }
-  `
 
-  try {
-    const data = await executeGraphQL(batchedQuery, variables, undefined, 'GetAssigneeNodeIds')
+    // Build variable declarations
+    const varDeclarations = Object.keys(variables)
+      .map(varName => `$${varName}: String!`)
+      .join(', ')
 
-    // Process results in original order
-    for (const login of logins) {
-      if (login === '@me') {
-        if (data.viewer?.id) {
-          nodeIds.push(data.viewer.id)
-        }
-        else {
-          notFound.push(login)
-        }
+    // Construct final query
+    const batchedQuery = `
+      query GetAssigneeNodeIds${varDeclarations ? `(${varDeclarations})` : ''} {
+        ${queryParts.join('\n      ')}
       }
-      else {
-        const index = regularLogins.indexOf(login)
-        const alias = `user${index}`
-        if (data[alias]?.id) {
-          nodeIds.push(data[alias].id)
+    `
+
+    try {
+      // Missing users come back as null aliases instead of failing the whole batch
+      const data = await executeGraphQL(batchedQuery, variables, undefined, 'GetAssigneeNodeIds', { allowNotFound: true })
+
+      // Process results in original order
+      for (const login of logins) {
+        if (login === '@me') {
+          if (data.viewer?.id) {
+            nodeIds.push(data.viewer.id)
+          }
+          else {
+            notFound.push(login)
+          }
         }
         else {
-          notFound.push(login)
+          const index = regularLogins.indexOf(login)
+          const alias = `user${index}`
+          if (data[alias]?.id) {
+            nodeIds.push(data[alias].id)
+          }
+          else {
+            notFound.push(login)
+          }
         }
       }
     }
-  }
-  catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error)
-
-    // Check if error is due to users not found
-    if (errorMessage.includes('Could not resolve to a User') || errorMessage.includes('NOT_FOUND')) {
-      // Parse error to identify which users were not found
-      // GraphQL returns partial results, so re-query individually to identify missing users
-      return fallbackSequentialLookup(owner, repo, logins)
+    catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+
+      // Check if error is due to users not found
+      if (errorMessage.includes('Could not resolve to a User') || errorMessage.includes('NOT_FOUND')) {
+        // Parse error to identify which users were not found
+        // GraphQL returns partial results, so re-query individually to identify missing users
+        return fallbackSequentialLookup(owner, repo, logins)
+      }
+
+      // Re-throw unexpected errors (network, auth, API failures)
+      throw new Error(
+        `Failed to look up assignees: ${errorMessage}\n`
+        + `This may be a network issue, authentication problem, or API error.\n`
+        + `Please check your connection and GitHub authentication: gh auth status`,
+      )
     }
 
-    // Re-throw unexpected errors (network, auth, API failures)
-    throw new Error(
-      `Failed to look up assignees: ${errorMessage}\n`
-      + `This may be a network issue, authentication problem, or API error.\n`
-      + `Please check your connection and GitHub authentication: gh auth status`,
-    )
-  }
+    if (notFound.length > 0) {
+      throw new NotFoundError(
+        `Assignee(s) not found: ${notFound.join(', ')}\n`
+        + `Make sure the user login(s) are correct or use @me for current user`,
+      )
+    }
 
-  if (notFound.length > 0) {
-    throw new Error(
-      `Assignee(s) not found: ${notFound.join(', ')}\n`
-      + `Make sure the user login(s) are correct or use @me for current user`,
-    )
+    return nodeIds
   }
-
-  return nodeIds
 }
 
 /**
@@ -227,7 +257,7 @@ async function fallbackSequentialLookup(
   }
 
   if (notFound.length > 0) {
-    throw new Error(
+    throw new NotFoundError(
       `Assignee(s) not found: ${notFound.join(', ')}\n`
       + `Make sure the user login(s) are correct or use @me for current user`,
     )
@@ -239,51 +269,28 @@ async function fallbackSequentialLookup(
 /**
  * Get Node ID for an open milestone by name
  * Note: Only searches OPEN milestones - closed milestones will not be found
+ * Uses the cached milestone list from listOpenMilestones and refetches it when the name is missing
  *
  * @param owner - Repository owner
  * @param repo - Repository name
  * @param milestoneName - Milestone title (exact match required)
  * @returns Milestone Node ID
- * @throws Error if the milestone is not found or is closed
- * @warning This function fetches a maximum of 100 open milestones due to pagination limits.
- *          For repositories with more milestones, consider implementing pagination with `after` cursor.
+ * @throws NotFoundError if the milestone is not found or is closed
  */
 export async function getMilestoneNodeId(
   owner: string,
   repo: string,
   milestoneName: string,
 ): Promise<string> {
-  const query = `
-    query GetMilestoneNodeId($owner: String!, $repo: String!) {
-      repository(owner: $owner, name: $repo) {
-        milestones(first: 100, states: OPEN) {
-          nodes {
-            id
-            title
-            number
-          }
-        }
-      }
-    }
-  `
+  const milestones = await listOpenMilestones(owner, repo, {
+    isStale: cached => !cached.some(m => m.title === milestoneName),
+  })
 
-  const data = await executeGraphQL(query, { owner, repo }, undefined, 'GetMilestoneNodeId')
-
-  if (!data.repository?.milestones?.nodes) {
-    throw new Error(
-      `Repository ${owner}/${repo} not found or milestones are not available.\n`
-      + `Possible reasons:\n`
-      + `  • The repository does not exist or you lack permissions to view it\n`
-      + `  • The owner or repo name may be misspelled`,
-    )
-  }
-
-  const milestones: MilestoneNode[] = data.repository.milestones.nodes
   const milestone = milestones.find(m => m.title === milestoneName)
 
   if (!milestone) {
     const availableMilestones = milestones.map(m => m.title).join(', ')
-    throw new Error(
+    throw new NotFoundError(
       `Milestone "${milestoneName}" not found.\n${
         availableMilestones
           ? `Available milestones: ${availableMilestones}`
@@ -297,58 +304,25 @@ export async function getMilestoneNodeId(
 /**
  * Get Node IDs for multiple projects by title
  * Searches both repository projects and organization projects
+ * Uses the cached project list from listProjects and refetches it when a title is missing
  *
  * @param owner - Repository owner (or organization login)
  * @param repo - Repository name
  * @param projectTitles - Array of project titles
  * @returns Array of project Node IDs
- * @throws Error if any project is not found
- * @warning This function fetches a maximum of 100 repository projects and 100 organization projects
- *          due to pagination limits. For accounts with more projects, consider implementing
- *          pagination with `after` cursor.
+ * @throws NotFoundError if any project is not found
  */
 export async function getProjectNodeIds(
   owner: string,
   repo: string,
   projectTitles: string[],
 ): Promise<string[]> {
-  // Query both repository and organization projects
-  const query = `
-    query GetProjectNodeIds($owner: String!, $repo: String!) {
-      repository(owner: $owner, name: $repo) {
-        projectsV2(first: 100) {
-          nodes {
-            id
-            title
-          }
-        }
-      }
-      organization(login: $owner) {
-        projectsV2(first: 100) {
-          nodes {
-            id
-            title
-          }
-        }
-      }
-    }
-  `
-
-  const data = await executeGraphQL(query, { owner, repo }, undefined, 'GetProjectNodeIds')
-
-  // Collect all projects from both repository and organization
-  const allProjects: Array<{ id: string, title: string }> = []
-
-  if (data.repository?.projectsV2?.nodes) {
-    allProjects.push(...data.repository.projectsV2.nodes)
-  }
-
-  if (data.organization?.projectsV2?.nodes) {
-    allProjects.push(...data.organization.projectsV2.nodes)
-  }
+  const allProjects = await listProjects(owner, repo, {
+    isStale: cached => projectTitles.some(title => !cached.some(p => p.title === title)),
+  })
 
   if (allProjects.length === 0) {
-    throw new Error(
+    throw new NotFoundError(
       `No projects found for ${owner}/${repo}.\n`
       + `Possible reasons:\n`
       + `  • The repository or organization has no projects\n`
@@ -365,7 +339,7 @@ export async function getProjectNodeIds(
 
   if (notFound.length > 0) {
     const availableProjects = allProjects.map(p => p.title).join(', ')
-    throw new Error(
+    throw new NotFoundError(
       `Project(s) not found: ${notFound.join(', ')}\n${
         availableProjects
           ? `Available projects: ${availableProjects}`
@@ -375,3 +349,221 @@ export async function getProjectNodeIds(
 
   return results.map(r => r.nodeId!)
 }
+
+/**
+ * List the labels of a repository
+ * The list is cached on disk
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param cacheOptions - Cache options (e.g., refetch when a requested name is missing)
+ * @returns Labels in API order
+ * @throws NotFoundError if the repository is not found
+ */
+export async function listLabels(
+  owner: string,
+  repo: string,
+  cacheOptions: WithCacheOptions<LabelNode[]> = {},
+): Promise<LabelNode[]> {
+  const query = `
+    query ListLabels($owner: String!, $repo: String!, $first: Int!, $after: String) {
+      repository(owner: $owner, name: $repo) {
+        labels(first: $first, after: $after) {
+          nodes {
+            id
+            name
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    }
+  `
+
+  return withCache({ owner, repo, operation: 'labels' }, async () => {
+    const { nodes } = await paginateGraphQL<LabelNode>(
+      query,
+      { owner, repo },
+      (data) => {
+        if (!data.repository?.labels) {
+          throw new NotFoundError(
+            `Repository ${owner}/${repo} not found or labels are not available.\n`
+            + `Possible reasons:\n`
+            + `  • The repository does not exist or you lack permissions to view it\n`
+            + `  • The owner or repo name may be misspelled`,
+          )
+        }
+        return data.repository.labels
+      },
+      { operationName: 'ListLabels' },
+    )
+    return nodes
+  }, cacheOptions)
+}
+
+/**
+ * List the open milestones of a repository
+ * The list is cached on disk
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param cacheOptions - Cache options (e.g., refetch when a requested title is missing)
+ * @returns Open milestones in API order
+ * @throws NotFoundError if the repository is not found
+ */
+export async function listOpenMilestones(
+  owner: string,
+  repo: string,
+  cacheOptions: WithCacheOptions<MilestoneNode[]> = {},
+): Promise<MilestoneNode[]> {
+  const query = `
+    query ListOpenMilestones($owner: String!, $repo: String!, $first: Int!, $after: String) {
+      repository(owner: $owner, name: $repo) {
+        milestones(first: $first, after: $after, states: OPEN) {
+          nodes {
+            id
+            title
+            number
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    }
+  `
+
+  return withCache({ owner, repo, operation: 'milestones' }, async () => {
+    const { nodes } = await paginateGraphQL<MilestoneNode>(
+      query,
+      { owner, repo },
+      (data) => {
+        if (!data.repository?.milestones) {
+          throw new NotFoundError(
+            `Repository ${owner}/${repo} not found or milestones are not available.\n`
+            + `Possible reasons:\n`
+            + `  • The repository does not exist or you lack permissions to view it\n`
+            + `  • The owner or repo name may be misspelled`,
+          )
+        }
+        return data.repository.milestones
+      },
+      { operationName: 'ListOpenMilestones' },
+    )
+    return nodes
+  }, cacheOptions)
+}
+
+/**
+ * List the projects of a repository and of its owner organization
+ * The combined list is cached on disk
+ *
+ * @param owner - Repository owner (or organization login)
+ * @param repo - Repository name
+ * @param cacheOptions - Cache options (e.g., refetch when a requested title is missing)
+ * @returns Repository projects followed by organization projects
+ */
+export async function listProjects(
+  owner: string,
+  repo: string,
+  cacheOptions: WithCacheOptions<ProjectNode[]> = {},
+): Promise<ProjectNode[]> {
+  const repositoryQuery = `
+    query ListRepositoryProjects($owner: String!, $repo: String!, $first: Int!, $after: String) {
+      repository(owner: $owner, name: $repo) {
+        projectsV2(first: $first, after: $after) {
+          nodes {
+            id
+            title
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    }
+  `
+
+  const organizationQuery = `
+    query ListOrganizationProjects($owner: String!, $first: Int!, $after: String) {
+      organization(login: $owner) {
+        projectsV2(first: $first, after: $after) {
+          nodes {
+            id
+            title
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    }
+  `
+
+  return withCache({ owner, repo, operation: 'projects' }, async () => {
+    const repositoryProjects = await paginateGraphQL<ProjectNode>(
+      repositoryQuery,
+      { owner, repo },
+      data => data.repository?.projectsV2,
+      { operationName: 'ListRepositoryProjects' },
+    )
+
+    const organizationProjects = await paginateGraphQL<ProjectNode>(
+      organizationQuery,
+      { owner },
+      data => data.organization?.projectsV2,
+      { operationName: 'ListOrganizationProjects' },
+    )
+
+    return [...repositoryProjects.nodes, ...organizationProjects.nodes]
+  }, cacheOptions)
+}
+
+/**
+ * List the users who can be assigned to issues in a repository
+ * The list is cached on disk
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @returns Assignable users in API order
+ * @throws NotFoundError if the repository is not found
+ */
+export async function listAssignableUsers(owner: string, repo: string): Promise<AssignableUserNode[]> {
+  const query = `
+    query ListAssignableUsers($owner: String!, $repo: String!, $first: Int!, $after: String) {
+      repository(owner: $owner, name: $repo) {
+        assignableUsers(first: $first, after: $after) {
+          nodes {
+            id
+            login
+            name
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    }
+  `
+
+  return withCache({ owner, repo, operation: 'assignable-users' }, async () => {
+    const { nodes } = await paginateGraphQL<AssignableUserNode>(
+      query,
+      { owner, repo },
+      (data) => {
+        if (!data.repository?.assignableUsers) {
+          throw new NotFoundError(`Repository ${owner}/${repo} not found`)
+        }
+        return data.repository.assignableUsers
+      },
+      { operationName: 'ListAssignableUsers' },
+    )
+    return nodes.map(node => ({ ...node, name: node.name ?? null }))
+  })
+}
@@ -0,0 +1,184 @@
+/**
+ * Batched Node ID resolution
+ * Resolves many issues or pull requests in a single aliased GraphQL query
+ * per chunk instead of one `gh api graphql` process per entity
+ */
+
+import { NotFoundError } from './errors'
+import { executeGraphQL } from './graphql-core'
+
+/**
+ * Maximum number of aliased lookups per GraphQL request
+ * Keeps each query well below GitHub's node and complexity limits
+ */
+export const BATCH_CHUNK_SIZE = 50
+
+/**
+ * One aliased field in a batched query
+ */
+interface BatchField {
+  /** Field selection including alias (e.g., `issue0: issue(number: $number0) { id }`) */
+  selection: string
+  /** Variable name without `$` */
+  varName: string
+  /** GraphQL type of the variable (e.g., `Int!`) */
+  varType: string
+  value: string | number
+}
+
+/**
+ * Describes how to build and read a batched lookup
+ */
+interface BatchSpec<K> {
+  operationName: string
+  /** Variables shared by every chunk (e.g., owner/repo) */
+  sharedVariables?: Record<string, string>
+  /** Declarations for the shared variables (e.g., `$owner: String!`) */
+  sharedDeclarations?: string[]
+  /** Wraps the aliased fields (e.g., inside `repository(...) { }`) */
+  wrap?: (fields: string) => string
+  buildField: (key: K, index: number) => BatchField
+  /** Reads the Node ID for an alias index from the response data */
+  readId: (data: any, index: number) => string | undefined
+}
+
+/**
+ * Split items into chunks of at most `size` elements
+ */
+export function chunkItems<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+/**
+ * Resolve Node IDs for unique keys in chunked, aliased queries
+ *
+ * @returns Map from key to Node ID (keys that were not found are absent)
+ */
+async function resolveBatched<K>(keys: K[], spec: BatchSpec<K>): Promise<Map<K, string>> {
+  const resolved = new Map<K, string>()
+  const uniqueKeys = [...new Set(keys)]
+
+  for (const chunk of chunkItems(uniqueKeys, BATCH_CHUNK_SIZE)) {
+    const fields = chunk.map((key, index) => spec.buildField(key, index))
+    const varDeclarations = [
+      ...(spec.sharedDeclarations ?? []),
+      ...fields.map(field => `$${field.varName}: ${field.varType}`),
+    ].join(', ')
+    const selections = fields.map(field => field.selection).join('\n      ')
+
+    const query = `
+      query ${spec.operationName}(${varDeclarations}) {
+        ${spec.wrap ? spec.wrap(selections) : selections}
+      }
+    `
+
+    const variables: Record<string, string | number> = { ...spec.sharedVariables }
+    for (const field of fields) {
+      variables[field.varName] = field.value
+    }
+
+    const data = await executeGraphQL(query, variables, undefined, spec.operationName, { allowNotFound: true })
+
+    for (const [index, key] of chunk.entries()) {
+      const id = spec.readId(data, index)
+      if (id) {
+        resolved.set(key, id)
+      }
+    }
+  }
+
+  return resolved
+}
+
+/**
+ * Get Node IDs for multiple issues in as few requests as possible
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param issueNumbers - Issue numbers (duplicates are resolved once)
+ * @returns Node IDs in the same order as the input numbers
+ * @throws NotFoundError listing every issue number that was not found
+ *
+ * @example
+ * ```typescript
+ * const [parentId, childId] = await getIssueNodeIds('owner', 'repo', [10, 11])
+ * ```
+ */
+export async function getIssueNodeIds(
+  owner: string,
+  repo: string,
+  issueNumbers: number[],
+): Promise<string[]> {
+  if (issueNumbers.length === 0) {
+    return []
+  }
+
+  const resolved = await resolveBatched(issueNumbers, {
+    operationName: 'GetIssueNodeIds',
+    sharedVariables: { owner, repo },
+    sharedDeclarations: ['$owner: String!', '$repo: String!'],
+    wrap: fields => `repository(owner: $owner, name: $repo) {\n        ${fields}\n      }`,
+    buildField: (number, index) => ({
+      selection: `issue${index}: issue(number: $number${index}) { id }`,
+      varName: `number${index}`,
+      varType: 'Int!',
+      value: number,
+    }),
+    readId: (data, index) => data.repository?.[`issue${index}`]?.id,
+  })
+
+  const missing = issueNumbers.filter(number => !resolved.has(number))
+  if (missing.length > 0) {
+    throw new NotFoundError(
+      `Issue(s) not found in ${owner}/${repo}: ${[...new Set(missing)].map(n => `#${n}`).join(', ')}`,
+    )
+  }
+
+  return issueNumbers.map(number => resolved.get(number)!)
+}
+
+/**
+ * Get Node IDs for multiple pull requests in as few requests as possible
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param prNumbers - Pull request numbers (duplicates are resolved once)
+ * @returns Node IDs in the same order as the input numbers
+ * @throws NotFoundError listing every PR number that was not found
+ */
+export async function getPrNodeIds(
+  owner: string,
+  repo: string,
+  prNumbers: number[],
+): Promise<string[]> {
+  if (prNumbers.length === 0) {
+    return []
+  }
+
+  const resolved = await resolveBatched(prNumbers, {
+    operationName: 'GetPrNodeIds',
+    sharedVariables: { owner, repo },
+    sharedDeclarations: ['$owner: String!', '$repo: String!'],
+    wrap: fields => `repository(owner: $owner, name: $repo) {\n        ${fields}\n      }`,
+    buildField: (number, index) => ({
+      selection: `pr${index}: pullRequest(number: $number${index}) { id }`,
+      varName: `number${index}`,
+      varType: 'Int!',
+      value: number,
+    }),
+    readId: (data, index) => data.repository?.[`pr${index}`]?.id,
+  })
+
+  const missing = prNumbers.filter(number => !resolved.has(number))
+  if (missing.length > 0) {
+    throw new NotFoundError(
+      `PR(s) not found in ${owner}/${repo}: ${[...new Set(missing)].map(n => `#${n}`).join(', ')}`,
+    )
+  }
+
+  return prNumbers.map(number => resolved.get(number)!)
+}
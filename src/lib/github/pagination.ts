@@ -0,0 +1,133 @@
+/**
+ * Cursor-based pagination for GitHub GraphQL connections
+ * Follows `pageInfo.endCursor` until the connection is exhausted or a limit is reached
+ */
+
+import { executeGraphQL } from './graphql-core'
+
+/**
+ * Maximum page size accepted by the GitHub GraphQL API
+ */
+export const MAX_PAGE_SIZE = 100
+
+/**
+ * GraphQL `PageInfo` fields required for forward pagination
+ */
+export interface PageInfo {
+  hasNextPage: boolean
+  endCursor: string | null
+}
+
+/**
+ * Minimal shape of a GraphQL connection selected with `nodes` and `pageInfo`
+ */
+export interface Connection<T> {
+  nodes: T[]
+  pageInfo?: PageInfo
+}
+
+/**
+ * Options controlling how many nodes are fetched from a connection
+ */
+export interface PaginationOptions {
+  /** Maximum number of nodes to return (undefined fetches every page) */
+  limit?: number
+  /** Called when more nodes exist beyond the limit */
+  onTruncated?: (fetched: number) => void
+}
+
+/**
+ * Options for paginateGraphQL
+ */
+export interface PaginateGraphQLOptions extends PaginationOptions {
+  /** GraphQL Features header values (e.g., ["sub_issues"]) */
+  features?: string[]
+  /** Operation name passed through to executeGraphQL */
+  operationName?: string
+}
+
+/**
+ * Result of a paginated fetch
+ */
+export interface PaginatedResult<T> {
+  nodes: T[]
+  /** True when the connection has more nodes than were returned */
+  hasMore: boolean
+}
+
+/**
+ * Fetch nodes from a GraphQL connection page by page
+ *
+ * The query must declare `$first: Int!` and `$after: String` variables, pass them to
+ * the connection, and select `pageInfo { hasNextPage endCursor }` alongside `nodes`.
+ *
+ * @param query - GraphQL query string with `$first`/`$after` variables
+ * @param variables - Query variables (excluding `first`/`after`)
+ * @param selectConnection - Picks the connection out of the response data
+ * @param options - Limit, truncation callback, features, and operation name
+ * @returns Collected nodes and whether more nodes remain
+ * @throws Error if any page request fails
+ *
+ * @example
+ * ```typescript
+ * const { nodes } = await paginateGraphQL(
+ *   query,
+ *   { owner, repo },
+ *   data => data.repository?.labels,
+ *   { operationName: 'ListLabels' },
+ * )
+ * ```
+ */
+export async function paginateGraphQL<T>(
+  query: string,
+  variables: Record<string, any>,
+  selectConnection: (data: any) => Connection<T> | null | undefined,
+  options: PaginateGraphQLOptions = {},
+): Promise<PaginatedResult<T>> {
+  const { limit, onTruncated, features, operationName } = options
+
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    throw new Error(`Invalid pagination limit: ${limit}. Expected a positive integer`)
+  }
+
+  const nodes: T[] = []
+  let cursor: string | null = null
+  let hasNextPage = true
+
+  while (hasNextPage) {
+    const remaining = limit === undefined ? MAX_PAGE_SIZE : limit - nodes.length
+    const pageVariables: Record<string, any> = {
+      ...variables,
+      first: Math.min(MAX_PAGE_SIZE, remaining),
+      ...(cursor !== null && { after: cursor }),
+    }
+
+    const data = await executeGraphQL(query, pageVariables, features, operationName)
+    const connection = selectConnection(data)
+
+    if (!connection?.nodes) {
+      break
+    }
+
+    nodes.push(...connection.nodes)
+    hasNextPage = connection.pageInfo?.hasNextPage ?? false
+    cursor = connection.pageInfo?.endCursor ?? null
+
+    if (!cursor) {
+      hasNextPage = false
+    }
+
+    if (limit !== undefined && nodes.length >= limit) {
+      break
+    }
+  }
+
+  const hasMore = limit !== undefined && (hasNextPage || nodes.length > limit)
+  const limited = limit === undefined ? nodes : nodes.slice(0, limit)
+
+  if (hasMore) {
+    onTruncated?.(limited.length)
+  }
+
+  return { nodes: limited, hasMore }
+}
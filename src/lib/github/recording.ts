@@ -0,0 +1,218 @@
+/**
+ * Record and replay GitHub API traffic
+ *
+ * GH_PLEASE_RECORD=dir captures every GraphQL and REST response as JSON files in `dir`;
+ * GH_PLEASE_REPLAY=dir serves those captures instead of calling GitHub, so tests and
+ * bug reports run offline and deterministically.
+ *
+ * GraphQL requests are keyed by host, operation name and variables, REST requests by host,
+ * method, endpoint and fields. Repeated identical requests are stored in order and replayed
+ * in the same order within a process; once exhausted, the last capture is served again.
+ * Recording again replaces a capture file the first time a process writes it.
+ */
+
+import type { GhApiResponse } from './transport'
+import { createHash } from 'node:crypto'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { expandHome } from '../path-utils'
+
+/**
+ * Active recording mode, from GH_PLEASE_REPLAY (takes precedence) or GH_PLEASE_RECORD
+ */
+export interface RecordingMode {
+  kind: 'record' | 'replay'
+  dir: string
+}
+
+/**
+ * Identifies a recorded request
+ */
+export type RecordingKey
+  = | { kind: 'graphql', host: string, operationName: string, variables: Record<string, any>, query?: string }
+    | { kind: 'rest', host: string, method: string, endpoint: string, fields: Record<string, unknown> }
+
+/**
+ * A captured response as stored on disk
+ *
+ * JSON bodies are stored parsed so captures stay readable and editable.
+ */
+interface RecordedResponse {
+  exitCode: number
+  status?: number
+  body: unknown
+  stderr: string
+  headers: Record<string, string>
+}
+
+interface RecordingFile {
+  key: RecordingKey
+  responses: RecordedResponse[]
+}
+
+/**
+ * Replay found no capture for a request
+ */
+export class RecordingNotFoundError extends Error {
+  constructor(public readonly key: RecordingKey, public readonly filePath: string) {
+    const name = key.kind === 'graphql' ? key.operationName : `${key.method} ${key.endpoint}`
+    super(`No recorded response for ${name} (expected ${filePath}). Record it with GH_PLEASE_RECORD.`)
+    this.name = 'RecordingNotFoundError'
+  }
+}
+
+/**
+ * Responses served so far per capture file (replay)
+ */
+const replayCursors = new Map<string, number>()
+
+/**
+ * Capture files this process has started writing (record); older responses in them are dropped
+ */
+const recordedFiles = new Set<string>()
+
+/**
+ * Get the recording mode for the current process, or null when disabled
+ */
+export function getRecordingMode(): RecordingMode | null {
+  if (process.env.GH_PLEASE_REPLAY) {
+    return { kind: 'replay', dir: expandHome(process.env.GH_PLEASE_REPLAY) }
+  }
+  if (process.env.GH_PLEASE_RECORD) {
+    return { kind: 'record', dir: expandHome(process.env.GH_PLEASE_RECORD) }
+  }
+  return null
+}
+
+/**
+ * Reset replay positions and the capture files started by this process (used by tests)
+ */
+export function resetReplay(): void {
+  replayCursors.clear()
+  recordedFiles.clear()
+}
+
+/**
+ * Serialize a value with sorted object keys so equal keys hash equally
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map(k => `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+/**
+ * Resolve the capture file for a key
+ *
+ * File names start with the operation name (or method and endpoint) for readability,
+ * followed by a hash of the full key.
+ */
+export function getRecordingFilePath(dir: string, key: RecordingKey): string {
+  const label = key.kind === 'graphql' ? key.operationName : `${key.method}${key.endpoint}`
+  const hash = createHash('sha256').update(stableStringify(key)).digest('hex').slice(0, 16)
+  return path.join(dir, `${label.replace(/[^\w.-]/g, '_').slice(0, 80)}-${hash}.json`)
+}
+
+/**
+ * Read a capture file, or undefined when it does not exist
+ */
+function readRecording(filePath: string): RecordingFile | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as RecordingFile
+  }
+  catch {
+    return undefined
+  }
+}
+
+/**
+ * Append a response to the capture file for a key
+ *
+ * The first response a process records for a key replaces the file, so recording
+ * again does not leave stale responses ahead of the new ones.
+ */
+function saveRecording(dir: string, key: RecordingKey, response: GhApiResponse): void {
+  const filePath = getRecordingFilePath(dir, key)
+  const recording = (recordedFiles.has(filePath) && readRecording(filePath)) || { key, responses: [] }
+  recordedFiles.add(filePath)
+
+  let body: unknown = response.body
+  try {
+    const parsed = JSON.parse(response.body)
+    if (parsed && typeof parsed === 'object') {
+      body = parsed
+    }
+  }
+  catch {
+    // Keep non-JSON bodies as text
+  }
+
+  recording.responses.push({
+    exitCode: response.exitCode,
+    ...(response.status !== undefined && { status: response.status }),
+    body,
+    stderr: response.stderr,
+    headers: response.headers,
+  })
+
+  fs.mkdirSync(dir, { recursive: true })
+  fs.writeFileSync(filePath, `${JSON.stringify(recording, null, 2)}\n`)
+}
+
+/**
+ * Serve the next captured response for a key
+ *
+ * @throws {RecordingNotFoundError} When the request was never recorded
+ */
+function replayRecording(dir: string, key: RecordingKey): GhApiResponse {
+  const filePath = getRecordingFilePath(dir, key)
+  const recording = readRecording(filePath)
+  if (!recording || recording.responses.length === 0) {
+    throw new RecordingNotFoundError(key, filePath)
+  }
+
+  const index = replayCursors.get(filePath) ?? 0
+  replayCursors.set(filePath, index + 1)
+  const recorded = recording.responses[Math.min(index, recording.responses.length - 1)]!
+
+  return {
+    body: typeof recorded.body === 'string' ? recorded.body : JSON.stringify(recorded.body),
+    stderr: recorded.stderr,
+    exitCode: recorded.exitCode,
+    status: recorded.status,
+    headers: recorded.headers ?? {},
+  }
+}
+
+/**
+ * Send a request, recording its response or replaying a capture depending on the mode
+ *
+ * @param describe - Builds the key identifying the request (only called when a mode is active)
+ * @param send - Performs the real request
+ * @returns The live or replayed response
+ */
+export async function recordOrReplay(
+  describe: () => RecordingKey,
+  send: () => Promise<GhApiResponse>,
+): Promise<GhApiResponse> {
+  const mode = getRecordingMode()
+  if (!mode) {
+    return send()
+  }
+
+  const key = describe()
+  if (mode.kind === 'replay') {
+    return replayRecording(mode.dir, key)
+  }
+
+  const response = await send()
+  saveRecording(mode.dir, key, response)
+  return response
+}
@@ -2,7 +2,12 @@
  * GitHub PR review operations including threads, comments, and replies
  */
 
+import type { DryRunResult } from './dry-run'
+import type { PaginationOptions } from './pagination'
+import { isDryRunResult } from './dry-run'
+import { NotFoundError } from './errors'
 import { executeGraphQL } from './graphql-core'
+import { paginateGraphQL } from './pagination'
 
 /**
  * Resolve a review thread
@@ -26,16 +31,15 @@ export async function resolveReviewThread(threadNodeId: string): Promise<void> {
 }
 
 /**
- * List all review threads for a pull request
+ * List review threads for a pull request, following pagination cursors
  *
  * @param prNodeId - Node ID of the pull request
- * @returns Array of review thread info
- * @warning This function returns a maximum of 100 review threads due to pagination limits.
- *          Each thread returns only the first comment. For PRs with more threads or comments,
- *          consider implementing pagination with `after` cursor.
+ * @param options - Optional limit (all threads by default) and truncation callback
+ * @returns Array of review thread info (each thread includes only its first comment)
  */
 export async function listReviewThreads(
   prNodeId: string,
+  options: PaginationOptions = {},
 ): Promise<
   Array<{
     nodeId: string
@@ -48,10 +52,10 @@ export async function listReviewThreads(
   }>
 > {
   const query = `
-    query ListReviewThreads($prId: ID!) {
+    query ListReviewThreads($prId: ID!, $first: Int!, $after: String) {
       node(id: $prId) {
         ... on PullRequest {
-          reviewThreads(first: 100) {
+          reviewThreads(first: $first, after: $after) {
             nodes {
               id
               isResolved
@@ -67,19 +71,24 @@ export async function listReviewThreads(
                 login
               }
             }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
           }
         }
       }
     }
   `
 
-  const data = await executeGraphQL(query, { prId: prNodeId }, undefined, 'ListReviewThreads')
-
-  if (!data.node?.reviewThreads) {
-    return []
-  }
+  const { nodes } = await paginateGraphQL<any>(
+    query,
+    { prId: prNodeId },
+    data => data.node?.reviewThreads,
+    { ...options, operationName: 'ListReviewThreads' },
+  )
 
-  return data.node.reviewThreads.nodes.map((thread: any) => ({
+  return nodes.map((thread: any) => ({
     nodeId: thread.id,
     isResolved: thread.isResolved,
     path: thread.path,
@@ -100,7 +109,7 @@ export async function listReviewThreads(
  * @param commentIdentifier - Node ID (PRRC_...) or Database ID of the review comment
  * @param prNodeId - Node ID of the pull request
  * @returns Thread Node ID (PRRT_...)
- * @throws Error if the comment or thread is not found
+ * @throws NotFoundError if the comment or thread is not found
  * @see https://github.com/orgs/community/discussions/24666
  */
 export async function getThreadIdFromComment(
@@ -109,10 +118,10 @@ export async function getThreadIdFromComment(
 ): Promise<string> {
   // Query all reviewThreads with their comments
   const query = `
-    query GetThreadsForComment($prId: ID!) {
+    query GetThreadsForComment($prId: ID!, $first: Int!, $after: String) {
       node(id: $prId) {
         ... on PullRequest {
-          reviewThreads(first: 100) {
+          reviewThreads(first: $first, after: $after) {
             nodes {
               id
               comments(first: 100) {
@@ -122,23 +131,33 @@ export async function getThreadIdFromComment(
                 }
               }
             }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
           }
         }
       }
     }
   `
 
-  const data = await executeGraphQL(query, { prId: prNodeId }, undefined, 'GetThreadsForComment')
-
-  if (!data.node?.reviewThreads?.nodes) {
-    throw new Error(
-      `Failed to fetch review threads from PR.\n`
-      + `Please verify the PR Node ID and try again.`,
-    )
-  }
+  const { nodes: threads } = await paginateGraphQL<any>(
+    query,
+    { prId: prNodeId },
+    (data) => {
+      if (!data.node?.reviewThreads?.nodes) {
+        throw new Error(
+          `Failed to fetch review threads from PR.\n`
+          + `Please verify the PR Node ID and try again.`,
+        )
+      }
+      return data.node.reviewThreads
+    },
+    { operationName: 'GetThreadsForComment' },
+  )
 
   // Search for the comment in all threads
-  for (const thread of data.node.reviewThreads.nodes) {
+  for (const thread of threads) {
     for (const comment of thread.comments?.nodes || []) {
       // Match by Node ID or Database ID
       if (
@@ -150,12 +169,11 @@ export async function getThreadIdFromComment(
     }
   }
 
-  throw new Error(
+  throw new NotFoundError(
     `Thread not found for review comment ${commentIdentifier}.\n`
     + `Possible reasons:\n`
     + `  • The comment may have been deleted\n`
     + `  • The comment ID may be incorrect (use 'gh please pr review thread list <pr>' to see valid IDs)\n`
-    + `  • The PR may have more than 100 review threads (pagination not yet supported)\n`
     + `  • The thread may have more than 100 comments (pagination not yet supported)\n`
     + `  • You may lack permissions to view this PR\n`
     + `\n`
@@ -174,7 +192,7 @@ export async function getThreadIdFromComment(
  * @param identifier - Thread ID (PRRT_...), Comment ID (PRRC_...), or Database ID
  * @param body - Reply body text
  * @param prNodeId - Node ID of the pull request
- * @returns Created reply information
+ * @returns Created reply information (DryRunResult in dry-run mode)
  * @throws Error if the mutation fails
  */
 export async function createReviewCommentReply(
@@ -185,7 +203,7 @@ export async function createReviewCommentReply(
   nodeId: string
   databaseId: number
   url: string
-}> {
+} | DryRunResult> {
   // Determine the thread ID based on identifier format
   let threadId: string
 
@@ -218,6 +236,9 @@ export async function createReviewCommentReply(
     threadId,
     body,
   }, undefined, 'CreateReviewCommentReply')
+  if (isDryRunResult(data)) {
+    return data
+  }
 
   if (!data.addPullRequestReviewThreadReply?.comment) {
     throw new Error('Failed to create review comment reply')
@@ -261,7 +282,7 @@ export async function updateReviewCommentByNodeId(
     body,
   }, undefined, 'UpdateReviewComment')
 
-  if (!data.updatePullRequestReviewComment?.pullRequestReviewComment) {
+  if (!isDryRunResult(data) && !data.updatePullRequestReviewComment?.pullRequestReviewComment) {
     throw new Error('Failed to update review comment')
   }
 }
@@ -295,7 +316,7 @@ export async function updateIssueCommentByNodeId(
     body,
   }, undefined, 'UpdateIssueComment')
 
-  if (!data.updateIssueComment?.issueComment) {
+  if (!isDryRunResult(data) && !data.updateIssueComment?.issueComment) {
     throw new Error('Failed to update issue comment')
   }
 }
@@ -0,0 +1,426 @@
+/**
+ * GitHub API transport
+ * Sends requests over HTTP (or by spawning `gh api`) and retries rate-limited and
+ * transient failures with backoff
+ */
+
+import type { ApiRequest } from './fetch-transport'
+import { traceEvent } from '../trace'
+import { describeRestMutation, DRY_RUN_PLACEHOLDER, getDeclaredOperationName, isDryRun, recordPlannedMutation } from './dry-run'
+import { fetchApi, getApiToken, parseGhApiArgs } from './fetch-transport'
+import { getHost, isEnterpriseHost } from './host'
+import { recordOrReplay } from './recording'
+
+/**
+ * Get the gh command path from environment variable or use default
+ * This allows tests to inject a mock gh command
+ */
+export function getGhCommand(): string {
+  return process.env.GH_PATH || 'gh'
+}
+
+/**
+ * How API requests are sent
+ * - fetch: call the API directly over HTTP with the gh token (default)
+ * - gh: spawn `gh api` per request
+ */
+export type TransportKind = 'fetch' | 'gh'
+
+/**
+ * Get the transport for the current process
+ *
+ * Set GH_PLEASE_TRANSPORT=gh to always spawn gh. gh is also used when GH_PATH points
+ * at a specific gh binary and when no token is available.
+ */
+export function getTransportKind(): TransportKind {
+  const configured = process.env.GH_PLEASE_TRANSPORT?.toLowerCase()
+  if (configured === 'gh' || configured === 'fetch') {
+    return configured
+  }
+  if (process.env.GH_PATH) {
+    return 'gh'
+  }
+  return 'fetch'
+}
+
+/**
+ * Retry limits for GitHub API requests
+ */
+export interface RetryPolicy {
+  /** Maximum number of retries after the first attempt */
+  maxRetries: number
+  /** Base delay for exponential backoff in milliseconds */
+  baseDelayMs: number
+  /** Longest single wait in milliseconds; longer waits (e.g., a far rate limit reset) fail instead */
+  maxDelayMs: number
+}
+
+/**
+ * Default retry policy: 3 retries, 1s base delay, waits up to 60s
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 60_000,
+}
+
+/**
+ * Read a non-negative integer environment variable
+ */
+function readEnvInt(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return process.env[name] !== undefined && Number.isInteger(value) && value >= 0 ? value : fallback
+}
+
+/**
+ * Get the retry policy for the current process
+ * Override with GH_PLEASE_MAX_RETRIES, GH_PLEASE_RETRY_BASE_DELAY_MS and GH_PLEASE_RETRY_MAX_DELAY_MS
+ */
+export function getRetryPolicy(): RetryPolicy {
+  return {
+    maxRetries: readEnvInt('GH_PLEASE_MAX_RETRIES', DEFAULT_RETRY_POLICY.maxRetries),
+    baseDelayMs: readEnvInt('GH_PLEASE_RETRY_BASE_DELAY_MS', DEFAULT_RETRY_POLICY.baseDelayMs),
+    maxDelayMs: readEnvInt('GH_PLEASE_RETRY_MAX_DELAY_MS', DEFAULT_RETRY_POLICY.maxDelayMs),
+  }
+}
+
+/**
+ * Response from a `gh api` invocation
+ */
+export interface GhApiResponse {
+  /** Response body (headers stripped) */
+  body: string
+  stderr: string
+  exitCode: number
+  /** HTTP status, when known */
+  status?: number
+  /** Response headers with lowercase names (empty when unavailable) */
+  headers: Record<string, string>
+}
+
+/**
+ * Options for ghApi
+ */
+export interface GhApiOptions {
+  /**
+   * Whether the request can be safely repeated after a 5xx or network error.
+   * Rate-limited requests are always retried because GitHub rejected them before processing.
+   */
+  idempotent?: boolean
+  /** Request response headers with `--include` (not supported together with `--paginate`) */
+  includeHeaders?: boolean
+}
+
+/**
+ * Split `gh api --include` output into status, headers, and body
+ *
+ * @param output - Raw stdout
+ * @returns Parsed parts; output without a status line is treated as a bare body
+ */
+export function parseIncludedResponse(output: string): Pick<GhApiResponse, 'body' | 'status' | 'headers'> {
+  if (!output.startsWith('HTTP/')) {
+    return { body: output, headers: {} }
+  }
+
+  const separator = output.match(/\r?\n\r?\n/)
+  const head = separator ? output.slice(0, separator.index) : output
+  const body = separator ? output.slice(separator.index! + separator[0].length) : ''
+
+  const [statusLine = '', ...headerLines] = head.split(/\r?\n/)
+  const status = Number(statusLine.split(' ')[1])
+  const headers: Record<string, string> = {}
+
+  for (const line of headerLines) {
+    const colon = line.indexOf(':')
+    if (colon > 0) {
+      headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim()
+    }
+  }
+
+  return { body, status: Number.isFinite(status) ? status : undefined, headers }
+}
+
+/**
+ * Messages GitHub uses for secondary rate limits and abuse detection
+ */
+const SECONDARY_RATE_LIMIT_PATTERN = /secondary rate limit|abuse detection|rate limit exceeded|RATE_LIMITED/i
+
+/**
+ * Transient network failures reported by gh
+ */
+const TRANSIENT_ERROR_PATTERN = /timeout|timed out|connection reset|ECONNRESET|unexpected EOF|TLS handshake|socket connection was closed|\(HTTP 50[234]\)/i
+
+/**
+ * Statuses that indicate a transient server failure
+ */
+const TRANSIENT_STATUSES = new Set([502, 503, 504])
+
+/**
+ * Check whether a response was rejected by a rate limit
+ */
+function isRateLimited(response: GhApiResponse): boolean {
+  if (response.status === 429) {
+    return true
+  }
+  if (response.headers['x-ratelimit-remaining'] === '0' && (response.status === 403 || response.exitCode !== 0)) {
+    return true
+  }
+  return response.exitCode !== 0
+    && SECONDARY_RATE_LIMIT_PATTERN.test(`${response.stderr}\n${response.body}`)
+}
+
+/**
+ * Check whether a response failed transiently (5xx or network)
+ */
+function isTransientFailure(response: GhApiResponse): boolean {
+  if (response.exitCode === 0) {
+    return false
+  }
+  if (response.status !== undefined) {
+    return TRANSIENT_STATUSES.has(response.status)
+  }
+  return TRANSIENT_ERROR_PATTERN.test(response.stderr)
+}
+
+/**
+ * Compute how long to wait before retrying a response
+ *
+ * Honors `Retry-After`, then `x-ratelimit-reset` when the limit is exhausted,
+ * otherwise uses exponential backoff with jitter.
+ *
+ * @param response - Failed response
+ * @param attempt - Zero-based retry attempt
+ * @param policy - Retry policy
+ * @param now - Current time in milliseconds (for testing)
+ * @returns Delay in milliseconds
+ */
+export function computeRetryDelay(
+  response: GhApiResponse,
+  attempt: number,
+  policy: RetryPolicy,
+  now = Date.now(),
+): number {
+  const retryAfter = Number(response.headers['retry-after'])
+  if (response.headers['retry-after'] !== undefined && Number.isFinite(retryAfter)) {
+    return Math.max(0, retryAfter * 1000)
+  }
+
+  const reset = Number(response.headers['x-ratelimit-reset'])
+  if (response.headers['x-ratelimit-remaining'] === '0' && Number.isFinite(reset)) {
+    return Math.max(0, reset * 1000 - now)
+  }
+
+  const exponential = policy.baseDelayMs * 2 ** attempt
+  // Full jitter between half and the whole exponential delay
+  return Math.min(policy.maxDelayMs, exponential / 2 + Math.random() * exponential / 2)
+}
+
+/**
+ * Spawn `gh` once and capture its output
+ * GitHub Enterprise Server requests name the host explicitly with `--hostname`.
+ */
+async function spawnGhApi(args: string[]): Promise<GhApiResponse> {
+  const hostArgs = isEnterpriseHost() ? ['--hostname', getHost()] : []
+  const proc = Bun.spawn([getGhCommand(), ...args, ...hostArgs], {
+    env: process.env,
+    stdout: 'pipe',
+    stderr: 'pipe',
+  })
+
+  const output = await new Response(proc.stdout).text()
+  const exitCode = await proc.exited
+  const stderr = exitCode !== 0 ? await new Response(proc.stderr).text() : ''
+
+  return { ...parseIncludedResponse(output), stderr, exitCode }
+}
+
+/**
+ * Send a request until it succeeds, fails permanently, or retries run out
+ */
+async function sendWithRetries(
+  send: () => Promise<GhApiResponse>,
+  idempotent: boolean,
+  command: string[],
+): Promise<GhApiResponse> {
+  const policy = getRetryPolicy()
+
+  for (let attempt = 0; ; attempt++) {
+    const started = performance.now()
+    const response = await send()
+    traceEvent({
+      kind: 'api',
+      command,
+      durationMs: performance.now() - started,
+      exitCode: response.exitCode,
+      status: response.status,
+      attempt,
+      ...(response.exitCode !== 0 && { error: response.stderr }),
+    })
+
+    const rateLimited = isRateLimited(response)
+    const retryable = rateLimited || (idempotent && isTransientFailure(response))
+    if (!retryable || attempt >= policy.maxRetries) {
+      return response
+    }
+
+    const delay = computeRetryDelay(response, attempt, policy)
+    if (delay > policy.maxDelayMs) {
+      return response
+    }
+
+    const reason = rateLimited ? 'rate limited' : `transient failure${response.status ? ` (HTTP ${response.status})` : ''}`
+    console.warn(`⚠️  GitHub API ${reason}, retrying in ${Math.ceil(delay / 1000)}s (${attempt + 1}/${policy.maxRetries})`)
+    await Bun.sleep(delay)
+  }
+}
+
+/**
+ * Get the token for the fetch transport, or null when gh should be spawned instead
+ */
+async function getFetchToken(): Promise<string | null> {
+  return getTransportKind() === 'fetch' ? getApiToken() : null
+}
+
+/**
+ * Run a `gh api` request, retrying rate limits and transient failures
+ *
+ * With the fetch transport, the arguments are translated into an HTTP request
+ * and no gh process is started.
+ * With GH_PLEASE_RECORD or GH_PLEASE_REPLAY, responses are captured to or served from disk.
+ *
+ * @param args - Arguments after `gh` (must start with 'api')
+ * @param options - Idempotency and header options
+ * @returns The final response (successful or not); callers classify failures.
+ *          In dry-run mode, mutating REST calls are recorded and answered with a placeholder body.
+ *
+ * @example
+ * ```typescript
+ * const response = await ghApi(['api', '/repos/o/r/issues/comments/1'])
+ * if (response.exitCode !== 0) {
+ *   throw classifyGhApiFailure('Failed to fetch comment', response.stderr, response.body)
+ * }
+ * ```
+ */
+export async function ghApi(args: string[], options: GhApiOptions = {}): Promise<GhApiResponse> {
+  const { idempotent = true, includeHeaders = true } = options
+
+  const planned = isDryRun() ? describeRestMutation(args) : null
+  if (planned) {
+    recordPlannedMutation(planned)
+    const body = JSON.stringify({ id: DRY_RUN_PLACEHOLDER, node_id: DRY_RUN_PLACEHOLDER, html_url: DRY_RUN_PLACEHOLDER })
+    return { body, stderr: '', exitCode: 0, status: 200, headers: {} }
+  }
+
+  return recordOrReplay(
+    () => {
+      const { method, endpoint, fields } = parseGhApiArgs(args)
+      return { kind: 'rest', host: getHost(), method, endpoint, fields }
+    },
+    async () => {
+      const token = await getFetchToken()
+      if (token) {
+        const request = parseGhApiArgs(args)
+        return sendWithRetries(() => fetchApi(request, token), idempotent, [request.method, request.endpoint])
+      }
+
+      const spawnArgs = includeHeaders ? [...args, '--include'] : args
+      return sendWithRetries(() => spawnGhApi(spawnArgs), idempotent, [getGhCommand(), ...spawnArgs])
+    },
+  )
+}
+
+/**
+ * GraphQL request
+ */
+export interface GraphQLRequest {
+  query: string
+  variables: Record<string, any>
+  /** GraphQL-Features header values (e.g., ["sub_issues"]) */
+  features?: string[]
+  operationName?: string
+}
+
+/**
+ * Build `gh api graphql` arguments for a request
+ *
+ * @param request - GraphQL request
+ * @returns Arguments after `gh`
+ */
+export function buildGraphQLArgs(request: GraphQLRequest): string[] {
+  const args = ['api', 'graphql']
+
+  // Add GraphQL Features header if provided
+  if (request.features && request.features.length > 0) {
+    args.push('-H', `GraphQL-Features: ${request.features.join(', ')}`)
+  }
+
+  args.push('-f', `query=${request.query}`)
+
+  // Add operation name if provided (for better logging and mock matching)
+  if (request.operationName) {
+    args.push('-F', `operationName=${request.operationName}`)
+  }
+
+  // Add variables
+  for (const [key, value] of Object.entries(request.variables)) {
+    if (Array.isArray(value)) {
+      // Handle arrays: GitHub CLI requires multiple -F flags with array syntax
+      // e.g., -F 'labelIds[]=id1' -F 'labelIds[]=id2'
+      for (const item of value) {
+        const serialized = typeof item === 'string' ? item : JSON.stringify(item)
+        args.push('-F', `${key}[]=${serialized}`)
+      }
+    }
+    else {
+      // Handle scalars: -F 'key=value'
+      const serialized = typeof value === 'string' ? value : JSON.stringify(value)
+      args.push('-F', `${key}=${serialized}`)
+    }
+  }
+
+  return args
+}
+
+/**
+ * Run a GraphQL request, retrying rate limits and transient failures
+ *
+ * The fetch transport sends variables as JSON; the gh transport serializes them into `-F` flags.
+ * Requests are recorded or replayed by operation name and variables when GH_PLEASE_RECORD or GH_PLEASE_REPLAY is set.
+ *
+ * @param request - GraphQL request
+ * @param options - Idempotency options (mutations should pass `idempotent: false`)
+ * @returns The final response; GraphQL `errors` yield a non-zero exitCode like gh
+ */
+export async function graphqlApi(request: GraphQLRequest, options: GhApiOptions = {}): Promise<GhApiResponse> {
+  const { idempotent = true } = options
+
+  return recordOrReplay(
+    () => {
+      const operationName = request.operationName ?? getDeclaredOperationName(request.query)
+      // Anonymous operations are told apart by their document
+      return operationName
+        ? { kind: 'graphql', host: getHost(), operationName, variables: request.variables }
+        : { kind: 'graphql', host: getHost(), operationName: 'anonymous', variables: request.variables, query: request.query }
+    },
+    async () => {
+      const token = await getFetchToken()
+      if (token) {
+        const apiRequest: ApiRequest = {
+          method: 'POST',
+          endpoint: 'graphql',
+          headers: request.features?.length ? { 'GraphQL-Features': request.features.join(', ') } : {},
+          fields: {
+            query: request.query,
+            variables: request.variables,
+            ...(request.operationName && { operationName: request.operationName }),
+          },
+          paginate: false,
+        }
+        return sendWithRetries(() => fetchApi(apiRequest, token), idempotent, ['POST', 'graphql'])
+      }
+
+      const args = [...buildGraphQLArgs(request), '--include']
+      return sendWithRetries(() => spawnGhApi(args), idempotent, [getGhCommand(), ...args])
+    },
+  )
+}
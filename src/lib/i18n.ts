@@ -1,26 +1,79 @@
 import type { Language } from '../types'
 
 export interface IssueMessages {
-  gettingParentIssue: (parentNumber: number) => string
+  gettingParentIssue: (parentRef: string) => string
   creatingSubIssue: string
-  subIssueCreatedLinked: (childNumber: number, parentNumber: number) => string
+  subIssueCreatedLinked: (childRef: string, parentRef: string) => string
+  subIssueSourceRequired: string
+  readingPlan: (path: string) => string
+  creatingPlannedIssues: (count: number) => string
+  plannedIssueCreated: (issueRef: string, title: string) => string
+  planSummary: (count: number, parentRef: string) => string
+  planPartiallyCreated: (created: number, total: number, parentRef: string) => string
+  fetchingIssueBody: (issueRef: string) => string
+  noTaskItems: (issueRef: string) => string
+  foundTaskItems: (count: number) => string
+  selectTaskItems: string
+  taskItemsAllRequired: string
+  operationCancelled: string
+  closedTaskItemCreated: (issueRef: string, title: string) => string
+  updatingIssueBody: (issueRef: string) => string
+  taskItemsPartiallyExtracted: (created: number, total: number, issueRef: string) => string
+  taskItemsExtracted: (count: number, parentRef: string) => string
   gettingNodeIds: string
-  linkingSubIssue: (childNumber: number, parentNumber: number) => string
+  linkingSubIssue: (childRef: string, parentRef: string) => string
   subIssueLinked: string
-  unlinkingSubIssue: (childNumber: number, parentNumber: number) => string
+  unlinkingSubIssue: (childRef: string, parentRef: string) => string
   subIssueUnlinked: string
-  fetchingSubIssues: (parentNumber: number) => string
-  noSubIssues: (parentNumber: number) => string
+  fetchingSubIssues: (parentRef: string) => string
+  noSubIssues: (parentRef: string) => string
   foundSubIssues: (count: number) => string
-  settingBlocker: (blockerNumber: number, issueNumber: number) => string
+  fetchingSubIssueTree: (issueRef: string) => string
+  subIssueTreeProgress: (closed: number, total: number) => string
+  depthInvalid: (value: string, max: number) => string
+  reorderPositionRequired: string
+  reorderOrderInvalid: (value: string) => string
+  reorderTargetIsChild: (child: string) => string
+  notASubIssue: (childRef: string, parentRef: string) => string
+  reorderingSubIssue: (childRef: string, parentRef: string) => string
+  reorderingSubIssues: (count: number, parentRef: string) => string
+  subIssueReordered: string
+  subIssueOrderUnchanged: string
+  movingSubIssue: (childRef: string, fromRef: string | null, toRef: string) => string
+  subIssueMoved: (childRef: string, toRef: string) => string
+  alreadySubIssueOf: (childRef: string, parentRef: string) => string
+  subIssueFinalParent: (childRef: string, parentRef: string | null) => string
+  settingBlocker: (blockerRef: string, issueRef: string) => string
   dependencyAdded: string
-  issueBlockedBy: (issueNumber: number, blockerNumber: number) => string
-  removingBlocker: (blockerNumber: number, issueNumber: number) => string
+  issueBlockedBy: (issueRef: string, blockerRef: string) => string
+  removingBlocker: (blockerRef: string, issueRef: string) => string
   dependencyRemoved: string
-  issueNoLongerBlocked: (issueNumber: number, blockerNumber: number) => string
-  fetchingBlockers: (issueNumber: number) => string
-  noBlockers: (issueNumber: number) => string
-  issueBlockedByCount: (issueNumber: number, count: number) => string
+  issueNoLongerBlocked: (issueRef: string, blockerRef: string) => string
+  fetchingBlockers: (issueRef: string) => string
+  noBlockers: (issueRef: string) => string
+  issueBlockedByCount: (issueRef: string, count: number) => string
+  fetchingBlocked: (issueRef: string) => string
+  noBlocked: (issueRef: string) => string
+  issueBlockingCount: (issueRef: string, count: number) => string
+  dependencyDirectionRequired: string
+  graphSourceRequired: string
+  graphFormatInvalid: (format: string) => string
+  searchingIssues: (query: string) => string
+  noIssuesMatched: string
+  crawlingDependencies: (count: number) => string
+  dependencyCyclesFound: (count: number) => string
+  dependencyGraphTruncated: (depth: number) => string
+  readySortRequiresParent: string
+  readySortInvalid: (sort: string) => string
+  checkingBlockers: (count: number) => string
+  noReadyIssues: string
+  readyIssuesCount: (count: number) => string
+  progressFormatInvalid: (format: string) => string
+  collectingProgress: (issueRef: string) => string
+  noProgressSubIssues: (issueRef: string) => string
+  postingProgressComment: (issueRef: string) => string
+  progressCommentCreated: (url: string) => string
+  progressCommentUpdated: (url: string) => string
   issueNumberInvalid: string
   errorPrefix: string
   unknownError: string
@@ -54,6 +107,70 @@ export interface IssueMessages {
   removingIssueType: (issueNumber: number) => string
   issueTypeRemoved: string
   typeRequired: string
+  fetchingOrgIssueTypes: (org: string) => string
+  orgIssueTypeNotFound: (typeName: string, org: string) => string
+  issueTypeAlreadyExists: (typeName: string, org: string) => string
+  issueTypeColorInvalid: (color: string, colors: string) => string
+  issueTypeEditRequired: string
+  creatingIssueType: (typeName: string, org: string) => string
+  issueTypeCreated: (typeName: string) => string
+  updatingIssueType: (typeName: string) => string
+  issueTypeUpdated: (typeName: string) => string
+  issueTypeEnabled: (typeName: string) => string
+  issueTypeDisabled: (typeName: string) => string
+  issueTypeStateUnchanged: (typeName: string, enabled: boolean) => string
+  confirmDeleteIssueType: (typeName: string, org: string) => string
+  deletingIssueType: (typeName: string) => string
+  issueTypeDeleted: (typeName: string) => string
+  readingTypeManifest: (path: string) => string
+  typeSyncUpToDate: (org: string) => string
+  typeSyncPreview: (org: string, count: number) => string
+  confirmTypeSync: (count: number) => string
+  typeSyncApplied: (count: number) => string
+  typeSetTargetRequired: string
+  typeSetTargetConflict: string
+  typeSetSearchTypeRequired: string
+  typeSetFromLabelConflict: string
+  removeLabelNamesRequired: string
+  retypeConflict: (issueRef: string, types: string[]) => string
+  retypingIssues: (count: number) => string
+  retypeProgress: (index: number, total: number, issueRef: string, typeName: string, retyped: boolean, removedLabels: string[]) => string
+  retypeFailed: (issueRef: string, error: string) => string
+  retypeSummary: (retyped: number, unchanged: number, labelsRemoved: number, conflicts: number, failed: number) => string
+  fieldRequiresTemplate: string
+  fieldRequiresIssueForm: (template: string) => string
+  usingIssueForm: (formName: string, source: 'local' | 'api') => string
+  issueFormSkipped: (fileName: string, reason: string) => string
+  formFieldsMissing: (fields: string[]) => string
+  formFieldRequired: string
+  formNoResponse: string
+  formPromptCancelled: string
+  titleRequired: string
+  wizardNotWithJson: string
+  wizardIntro: (repo: string) => string
+  wizardTitle: string
+  wizardLoadingMetadata: string
+  wizardMetadataLoaded: string
+  wizardSearch: (subject: string, count: number) => string
+  wizardSearchPlaceholder: string
+  wizardNoMatches: (search: string) => string
+  wizardNone: string
+  wizardType: string
+  wizardLabels: string
+  wizardAssignees: string
+  wizardMilestone: string
+  wizardProjects: string
+  wizardParent: string
+  wizardParentPlaceholder: string
+  wizardParentInvalid: string
+  wizardEditBody: string
+  wizardCommandLine: string
+  readingImport: (path: string) => string
+  findingImportedIssues: string
+  importingIssues: (toCreate: number, toUpdate: number) => string
+  importProgress: (index: number, total: number, issueRef: string, title: string, updated: boolean) => string
+  importSummary: (created: number, updated: number, repo: string) => string
+  resultsTruncated: (count: number) => string
 }
 
 export interface PrMessages {
@@ -82,6 +199,7 @@ export interface PrMessages {
   threadAtLocation: (path: string, line: number | null) => string
   resolvedBy: (username: string) => string
   viewPr: string
+  resultsTruncated: (count: number) => string
 }
 
 export interface CommentMessages {
@@ -112,26 +230,83 @@ export interface PassthroughMessages {
 
 export const issueMessages: Record<Language, IssueMessages> = {
   ko: {
-    gettingParentIssue: (parentNumber: number) => `🔍 상위 이슈 #${parentNumber} 가져오는 중...`,
+    gettingParentIssue: (parentRef: string) => `🔍 상위 이슈 ${parentRef} 가져오는 중...`,
     creatingSubIssue: '📝 하위 이슈 생성 중...',
-    subIssueCreatedLinked: (childNumber: number, parentNumber: number) => `✅ 하위 이슈 #${childNumber}가 생성되고 #${parentNumber}에 연결되었습니다!`,
+    subIssueCreatedLinked: (childRef: string, parentRef: string) => `✅ 하위 이슈 ${childRef}가 생성되고 ${parentRef}에 연결되었습니다!`,
+    subIssueSourceRequired: '--title 또는 --from-file 중 하나만 지정하세요',
+    readingPlan: (path: string) => `📄 계획 읽는 중: ${path === '-' ? 'stdin' : path}`,
+    creatingPlannedIssues: (count: number) => `📝 이슈 ${count}개 생성 중...`,
+    plannedIssueCreated: (issueRef: string, title: string) => `   ✅ ${issueRef} ${title}`,
+    planSummary: (count: number, parentRef: string) => `\n✅ 이슈 ${count}개가 생성되고 ${parentRef} 아래에 연결되었습니다:`,
+    planPartiallyCreated: (created: number, total: number, parentRef: string) => `\n⚠️  오류가 발생하기 전에 이슈 ${total}개 중 ${created}개가 ${parentRef} 아래에 생성되었습니다:`,
+    fetchingIssueBody: (issueRef: string) => `📋 ${issueRef} 본문 가져오는 중...`,
+    noTaskItems: (issueRef: string) => `✅ ${issueRef}에 하위 이슈로 만들 체크리스트 항목이 없습니다`,
+    foundTaskItems: (count: number) => `체크리스트 항목 ${count}개를 찾았습니다`,
+    selectTaskItems: '하위 이슈로 만들 항목을 선택하세요:',
+    taskItemsAllRequired: '대화형 터미널이 아닙니다. 모든 항목을 추출하려면 --all을 사용하세요',
+    operationCancelled: '취소되었습니다.',
+    closedTaskItemCreated: (issueRef: string, title: string) => `   ☑️  ${issueRef} ${title} (닫힘)`,
+    updatingIssueBody: (issueRef: string) => `✏️  ${issueRef} 본문의 항목을 새 이슈로 연결하는 중...`,
+    taskItemsPartiallyExtracted: (created: number, total: number, issueRef: string) => `\n⚠️  오류가 발생하기 전에 ${issueRef}의 항목 ${total}개 중 ${created}개가 이슈로 생성되었습니다:`,
+    taskItemsExtracted: (count: number, parentRef: string) => `\n✅ 체크리스트 항목 ${count}개를 ${parentRef}의 하위 이슈로 만들었습니다`,
     gettingNodeIds: '🔍 이슈 노드 ID 가져오는 중...',
-    linkingSubIssue: (childNumber: number, parentNumber: number) => `🔗 #${childNumber}를 #${parentNumber}의 하위 이슈로 연결 중...`,
+    linkingSubIssue: (childRef: string, parentRef: string) => `🔗 ${childRef}를 ${parentRef}의 하위 이슈로 연결 중...`,
     subIssueLinked: '✅ 하위 이슈가 성공적으로 연결되었습니다!',
-    unlinkingSubIssue: (childNumber: number, parentNumber: number) => `🔓 #${childNumber}와 #${parentNumber} 연결 해제 중...`,
+    unlinkingSubIssue: (childRef: string, parentRef: string) => `🔓 ${childRef}와 ${parentRef} 연결 해제 중...`,
     subIssueUnlinked: '✅ 하위 이슈가 성공적으로 연결 해제되었습니다!',
-    fetchingSubIssues: (parentNumber: number) => `📋 #${parentNumber}의 하위 이슈 가져오는 중...`,
-    noSubIssues: (parentNumber: number) => `#${parentNumber}에 대한 하위 이슈를 찾을 수 없습니다`,
+    fetchingSubIssues: (parentRef: string) => `📋 ${parentRef}의 하위 이슈 가져오는 중...`,
+    noSubIssues: (parentRef: string) => `${parentRef}에 대한 하위 이슈를 찾을 수 없습니다`,
     foundSubIssues: (count: number) => `\n✅ ${count}개의 하위 이슈를 찾았습니다:\n`,
-    settingBlocker: (blockerNumber: number, issueNumber: number) => `🔗 #${blockerNumber}를 #${issueNumber}의 차단 이슈로 설정 중...`,
+    fetchingSubIssueTree: (issueRef: string) => `🌳 ${issueRef}의 하위 이슈 트리 가져오는 중...`,
+    subIssueTreeProgress: (closed: number, total: number) => `\n📊 하위 이슈 ${total}개 중 ${closed}개 완료`,
+    depthInvalid: (value: string, max: number) => `잘못된 --depth 값: "${value}". 1에서 ${max} 사이의 정수를 입력하세요`,
+    reorderPositionRequired: '--before, --after, --top, --bottom, --order 중 하나만 지정하세요',
+    reorderOrderInvalid: (value: string) => `잘못된 --order 값: "${value}". 중복 없는 이슈 번호를 쉼표로 구분해 입력하세요 (예: 12,15,9)`,
+    reorderTargetIsChild: (child: string) => `--before/--after에는 이동할 하위 이슈(${child})가 아닌 다른 하위 이슈를 지정하세요`,
+    notASubIssue: (childRef: string, parentRef: string) => `${childRef}는 ${parentRef}의 하위 이슈가 아닙니다`,
+    reorderingSubIssue: (childRef: string, parentRef: string) => `↕️  ${parentRef}에서 ${childRef}의 순서 변경 중...`,
+    reorderingSubIssues: (count: number, parentRef: string) => `↕️  ${parentRef}의 하위 이슈 ${count}개 이동 중...`,
+    subIssueReordered: '✅ 하위 이슈 순서가 변경되었습니다!',
+    subIssueOrderUnchanged: 'ℹ️  하위 이슈가 이미 요청한 순서입니다',
+    movingSubIssue: (childRef: string, fromRef: string | null, toRef: string) => fromRef
+      ? `🔀 ${childRef}를 ${fromRef}에서 ${toRef}(으)로 옮기는 중...`
+      : `🔀 ${childRef}를 ${toRef} 아래로 옮기는 중...`,
+    subIssueMoved: (childRef: string, toRef: string) => `✅ ${childRef}가 이제 ${toRef}의 하위 이슈입니다`,
+    alreadySubIssueOf: (childRef: string, parentRef: string) => `ℹ️  ${childRef}는 이미 ${parentRef}의 하위 이슈입니다`,
+    subIssueFinalParent: (childRef: string, parentRef: string | null) => parentRef
+      ? `   현재 상태: ${childRef}는 ${parentRef}의 하위 이슈입니다`
+      : `   현재 상태: ${childRef}에 상위 이슈가 없습니다`,
+    settingBlocker: (blockerRef: string, issueRef: string) => `🔗 ${blockerRef}를 ${issueRef}의 차단 이슈로 설정 중...`,
     dependencyAdded: '✅ 의존성이 성공적으로 추가되었습니다!',
-    issueBlockedBy: (issueNumber: number, blockerNumber: number) => `   이슈 #${issueNumber}는 이제 #${blockerNumber}에 의해 차단됩니다`,
-    removingBlocker: (blockerNumber: number, issueNumber: number) => `🔓 #${blockerNumber}를 #${issueNumber}의 차단 이슈에서 제거 중...`,
+    issueBlockedBy: (issueRef: string, blockerRef: string) => `   이슈 ${issueRef}는 이제 ${blockerRef}에 의해 차단됩니다`,
+    removingBlocker: (blockerRef: string, issueRef: string) => `🔓 ${blockerRef}를 ${issueRef}의 차단 이슈에서 제거 중...`,
     dependencyRemoved: '✅ 의존성이 성공적으로 제거되었습니다!',
-    issueNoLongerBlocked: (issueNumber: number, blockerNumber: number) => `   이슈 #${issueNumber}는 더 이상 #${blockerNumber}에 의해 차단되지 않습니다`,
-    fetchingBlockers: (issueNumber: number) => `📋 #${issueNumber}의 차단 이슈 가져오는 중...`,
-    noBlockers: (issueNumber: number) => `✅ #${issueNumber}에 대한 차단 이슈를 찾을 수 없습니다`,
-    issueBlockedByCount: (issueNumber: number, count: number) => `\n⚠️  이슈 #${issueNumber}는 ${count}개의 이슈에 의해 차단되었습니다:\n`,
+    issueNoLongerBlocked: (issueRef: string, blockerRef: string) => `   이슈 ${issueRef}는 더 이상 ${blockerRef}에 의해 차단되지 않습니다`,
+    fetchingBlockers: (issueRef: string) => `📋 ${issueRef}의 차단 이슈 가져오는 중...`,
+    noBlockers: (issueRef: string) => `✅ ${issueRef}에 대한 차단 이슈를 찾을 수 없습니다`,
+    issueBlockedByCount: (issueRef: string, count: number) => `\n⚠️  이슈 ${issueRef}는 ${count}개의 이슈에 의해 차단되었습니다:\n`,
+    fetchingBlocked: (issueRef: string) => `📋 ${issueRef}가 차단하는 이슈 가져오는 중...`,
+    noBlocked: (issueRef: string) => `✅ ${issueRef}가 차단하는 이슈가 없습니다`,
+    issueBlockingCount: (issueRef: string, count: number) => `\n⚠️  이슈 ${issueRef}가 ${count}개의 이슈를 차단하고 있습니다:\n`,
+    dependencyDirectionRequired: '--blocked-by 또는 --blocks 중 하나만 지정하세요',
+    graphSourceRequired: '이슈 또는 --milestone/--label 중 하나를 지정하세요',
+    graphFormatInvalid: (format: string) => `지원하지 않는 그래프 형식: "${format}". mermaid, dot, json 중 하나를 사용하세요`,
+    searchingIssues: (query: string) => `🔍 이슈 검색 중: ${query}`,
+    noIssuesMatched: '조건에 맞는 이슈가 없습니다',
+    crawlingDependencies: (count: number) => `🕸️  이슈 ${count}개의 차단 관계 탐색 중...`,
+    dependencyCyclesFound: (count: number) => `순환 의존성 ${count}개를 발견했습니다:`,
+    dependencyGraphTruncated: (depth: number) => `⚠️  깊이 ${depth}에서 탐색을 중단했습니다. 더 보려면 --depth를 늘리세요`,
+    readySortRequiresParent: '--sort order는 --parent와 함께 사용해야 합니다',
+    readySortInvalid: (sort: string) => `지원하지 않는 정렬 방식: "${sort}". order 또는 created를 사용하세요`,
+    checkingBlockers: (count: number) => `🔍 후보 이슈 ${count}개의 차단 이슈 확인 중...`,
+    noReadyIssues: '✅ 바로 작업할 수 있는 이슈가 없습니다',
+    readyIssuesCount: (count: number) => `\n🟢 바로 작업할 수 있는 이슈 ${count}개:\n`,
+    progressFormatInvalid: (format: string) => `지원하지 않는 출력 형식: "${format}". human, markdown, xml 중 하나를 사용하세요`,
+    collectingProgress: (issueRef: string) => `📊 ${issueRef}의 하위 이슈 진행 상황 집계 중...`,
+    noProgressSubIssues: (issueRef: string) => `${issueRef}에 하위 이슈가 없습니다`,
+    postingProgressComment: (issueRef: string) => `💬 ${issueRef}에 진행 상황 코멘트 게시 중...`,
+    progressCommentCreated: (url: string) => `✅ 진행 상황 코멘트를 게시했습니다: ${url}`,
+    progressCommentUpdated: (url: string) => `✅ 진행 상황 코멘트를 업데이트했습니다: ${url}`,
     issueNumberInvalid: '이슈 번호는 유효한 숫자여야 합니다',
     errorPrefix: '❌ 오류',
     unknownError: '알 수 없는 오류',
@@ -168,28 +343,159 @@ export const issueMessages: Record<Language, IssueMessages> = {
     removingIssueType: (issueNumber: number) => `🔓 이슈 #${issueNumber}의 타입 제거 중...`,
     issueTypeRemoved: '✅ 이슈 타입이 제거되었습니다!',
     typeRequired: '❌ 오류: --type 또는 --type-id가 필요합니다',
+    fetchingOrgIssueTypes: (org: string) => `🔍 ${org} 조직의 이슈 타입 가져오는 중...`,
+    orgIssueTypeNotFound: (typeName: string, org: string) => `${org} 조직에서 이슈 타입 '${typeName}'을(를) 찾을 수 없습니다`,
+    issueTypeAlreadyExists: (typeName: string, org: string) => `${org} 조직에 이슈 타입 '${typeName}'이(가) 이미 있습니다`,
+    issueTypeColorInvalid: (color: string, colors: string) => `잘못된 색상: "${color}". ${colors} 중 하나를 사용하세요`,
+    issueTypeEditRequired: '--name, --description, --color 중 하나 이상을 지정하세요',
+    creatingIssueType: (typeName: string, org: string) => `🏷️  ${org} 조직에 이슈 타입 '${typeName}' 생성 중...`,
+    issueTypeCreated: (typeName: string) => `✅ 이슈 타입 '${typeName}'이(가) 생성되었습니다`,
+    updatingIssueType: (typeName: string) => `✏️  이슈 타입 '${typeName}' 수정 중...`,
+    issueTypeUpdated: (typeName: string) => `✅ 이슈 타입 '${typeName}'이(가) 수정되었습니다`,
+    issueTypeEnabled: (typeName: string) => `✅ 이슈 타입 '${typeName}'이(가) 활성화되었습니다`,
+    issueTypeDisabled: (typeName: string) => `✅ 이슈 타입 '${typeName}'이(가) 비활성화되었습니다`,
+    issueTypeStateUnchanged: (typeName: string, enabled: boolean) => `이슈 타입 '${typeName}'은(는) 이미 ${enabled ? '활성화' : '비활성화'}되어 있습니다`,
+    confirmDeleteIssueType: (typeName: string, org: string) => `${org} 조직의 이슈 타입 '${typeName}'을(를) 삭제할까요? 이 타입의 이슈는 타입이 제거됩니다`,
+    deletingIssueType: (typeName: string) => `🗑️  이슈 타입 '${typeName}' 삭제 중...`,
+    issueTypeDeleted: (typeName: string) => `✅ 이슈 타입 '${typeName}'이(가) 삭제되었습니다`,
+    readingTypeManifest: (path: string) => `📄 매니페스트 읽는 중: ${path === '-' ? 'stdin' : path}`,
+    typeSyncUpToDate: (org: string) => `✅ ${org} 조직의 이슈 타입이 매니페스트와 일치합니다`,
+    typeSyncPreview: (org: string, count: number) => `\n${org} 조직에 적용할 변경 ${count}개:\n`,
+    confirmTypeSync: (count: number) => `변경 ${count}개를 적용할까요?`,
+    typeSyncApplied: (count: number) => `\n✅ 변경 ${count}개가 적용되었습니다`,
+    typeSetTargetRequired: '이슈 번호, --search, --from-label 중 하나를 지정하세요',
+    typeSetTargetConflict: '이슈 번호는 --search, --from-label, --remove-label과 함께 사용할 수 없습니다',
+    typeSetSearchTypeRequired: '--search에는 --type이 필요합니다 (또는 --from-label 사용)',
+    typeSetFromLabelConflict: '--from-label은 --type, --type-id와 함께 사용할 수 없습니다',
+    removeLabelNamesRequired: '--from-label 없이 사용할 때는 --remove-label에 라벨 이름을 지정하세요 (예: --remove-label bug)',
+    retypeConflict: (issueRef: string, types: string[]) => `⚠️  ${issueRef}: 라벨이 서로 다른 타입(${types.join(', ')})에 대응되어 건너뜁니다`,
+    retypingIssues: (count: number) => `\n🏷️  이슈 ${count}개의 타입 설정 중...`,
+    retypeProgress: (index: number, total: number, issueRef: string, typeName: string, retyped: boolean, removedLabels: string[]) =>
+      `[${index}/${total}] ${issueRef} ${retyped ? `→ ${typeName}` : `이미 ${typeName}`}${removedLabels.length > 0 ? ` (라벨 제거: ${removedLabels.join(', ')})` : ''}`,
+    retypeFailed: (issueRef: string, error: string) => `❌ ${issueRef}: ${error}`,
+    retypeSummary: (retyped: number, unchanged: number, labelsRemoved: number, conflicts: number, failed: number) => [
+      '\n📊 요약',
+      `   타입 변경: ${retyped}`,
+      `   이미 해당 타입: ${unchanged}`,
+      ...(labelsRemoved > 0 ? [`   라벨 제거: ${labelsRemoved}`] : []),
+      ...(conflicts > 0 ? [`   충돌로 건너뜀: ${conflicts}`] : []),
+      ...(failed > 0 ? [`   실패: ${failed}`] : []),
+    ].join('\n'),
+    fieldRequiresTemplate: '--field는 --template과 함께 사용해야 합니다',
+    fieldRequiresIssueForm: (template: string) => `--field는 이슈 폼에만 사용할 수 있습니다. "${template}"은(는) 마크다운 템플릿입니다`,
+    usingIssueForm: (formName: string, source: 'local' | 'api') => `📋 이슈 폼 "${formName}" 사용 (${source === 'local' ? '로컬 체크아웃' : 'GitHub'})`,
+    issueFormSkipped: (fileName: string, reason: string) => `⚠️  이슈 폼 ${fileName}을(를) 건너뜁니다: ${reason}`,
+    formFieldsMissing: (fields: string[]) => `필수 필드가 비어 있습니다: ${fields.join(', ')}\n--field id=value로 값을 지정하세요`,
+    formFieldRequired: '필수 항목입니다',
+    formNoResponse: '(응답 없음)',
+    formPromptCancelled: '이슈 생성이 취소되었습니다',
+    titleRequired: '--title이 필요합니다 (터미널에서 --title 없이 실행하면 대화형 마법사가 시작됩니다)',
+    wizardNotWithJson: '--json에는 --title이 필요합니다 (대화형 마법사는 --json과 함께 사용할 수 없습니다)',
+    wizardIntro: (repo: string) => `${repo}에 새 이슈 만들기`,
+    wizardTitle: '제목',
+    wizardLoadingMetadata: '타입, 라벨, 담당자, 마일스톤, 프로젝트를 불러오는 중',
+    wizardMetadataLoaded: '불러오기 완료',
+    wizardSearch: (subject: string, count: number) => `${subject} - 항목 ${count}개 중 검색`,
+    wizardSearchPlaceholder: '비워 두면 전체 표시',
+    wizardNoMatches: (search: string) => `"${search}"와 일치하는 항목이 없습니다`,
+    wizardNone: '(없음)',
+    wizardType: '이슈 타입',
+    wizardLabels: '라벨',
+    wizardAssignees: '담당자',
+    wizardMilestone: '마일스톤',
+    wizardProjects: '프로젝트',
+    wizardParent: '상위 이슈 번호 (선택)',
+    wizardParentPlaceholder: '비워 두면 건너뜀',
+    wizardParentInvalid: '이슈 번호는 숫자여야 합니다',
+    wizardEditBody: '에디터에서 본문을 작성할까요?',
+    wizardCommandLine: '같은 이슈를 스크립트에서 만들려면:',
+    readingImport: (path: string) => `📄 가져올 파일 읽는 중: ${path === '-' ? 'stdin' : path}`,
+    findingImportedIssues: '🔍 이전에 가져온 이슈 찾는 중...',
+    importingIssues: (toCreate: number, toUpdate: number) => `\n📥 가져오는 중: 생성 ${toCreate}개, 업데이트 ${toUpdate}개`,
+    importProgress: (index: number, total: number, issueRef: string, title: string, updated: boolean) =>
+      `[${index}/${total}] ${updated ? '업데이트' : '생성'}: ${issueRef} ${title}`,
+    importSummary: (created: number, updated: number, repo: string) =>
+      `\n✅ ${repo}에 이슈 ${created + updated}개를 가져왔습니다 (생성 ${created}, 업데이트 ${updated})`,
+    resultsTruncated: (count: number) => `⚠️  처음 ${count}개의 결과만 표시합니다. 더 보려면 --limit 또는 --all을 사용하세요`,
   },
   en: {
-    gettingParentIssue: (parentNumber: number) => `🔍 Getting parent issue #${parentNumber}...`,
+    gettingParentIssue: (parentRef: string) => `🔍 Getting parent issue ${parentRef}...`,
     creatingSubIssue: '📝 Creating sub-issue...',
-    subIssueCreatedLinked: (childNumber: number, parentNumber: number) => `✅ Sub-issue #${childNumber} created and linked to #${parentNumber}!`,
+    subIssueCreatedLinked: (childRef: string, parentRef: string) => `✅ Sub-issue ${childRef} created and linked to ${parentRef}!`,
+    subIssueSourceRequired: 'Specify either --title or --from-file',
+    readingPlan: (path: string) => `📄 Reading plan from ${path === '-' ? 'stdin' : path}...`,
+    creatingPlannedIssues: (count: number) => `📝 Creating ${count} issue(s)...`,
+    plannedIssueCreated: (issueRef: string, title: string) => `   ✅ ${issueRef} ${title}`,
+    planSummary: (count: number, parentRef: string) => `\n✅ Created ${count} issue(s) under ${parentRef}:`,
+    planPartiallyCreated: (created: number, total: number, parentRef: string) => `\n⚠️  Created ${created} of ${total} issue(s) under ${parentRef} before the error:`,
+    fetchingIssueBody: (issueRef: string) => `📋 Fetching body of ${issueRef}...`,
+    noTaskItems: (issueRef: string) => `✅ No task list items to extract in ${issueRef}`,
+    foundTaskItems: (count: number) => `Found ${count} task list item(s)`,
+    selectTaskItems: 'Select items to turn into sub-issues:',
+    taskItemsAllRequired: 'Not an interactive terminal. Use --all to extract every item',
+    operationCancelled: 'Cancelled.',
+    closedTaskItemCreated: (issueRef: string, title: string) => `   ☑️  ${issueRef} ${title} (closed)`,
+    updatingIssueBody: (issueRef: string) => `✏️  Linking items in the body of ${issueRef} to the new issues...`,
+    taskItemsPartiallyExtracted: (created: number, total: number, issueRef: string) => `\n⚠️  Created issues for ${created} of ${total} item(s) in ${issueRef} before the error:`,
+    taskItemsExtracted: (count: number, parentRef: string) => `\n✅ Extracted ${count} task list item(s) into sub-issues of ${parentRef}`,
     gettingNodeIds: '🔍 Getting issue node IDs...',
-    linkingSubIssue: (childNumber: number, parentNumber: number) => `🔗 Linking #${childNumber} as sub-issue of #${parentNumber}...`,
+    linkingSubIssue: (childRef: string, parentRef: string) => `🔗 Linking ${childRef} as sub-issue of ${parentRef}...`,
     subIssueLinked: '✅ Sub-issue linked successfully!',
-    unlinkingSubIssue: (childNumber: number, parentNumber: number) => `🔓 Unlinking #${childNumber} from #${parentNumber}...`,
+    unlinkingSubIssue: (childRef: string, parentRef: string) => `🔓 Unlinking ${childRef} from ${parentRef}...`,
     subIssueUnlinked: '✅ Sub-issue unlinked successfully!',
-    fetchingSubIssues: (parentNumber: number) => `📋 Fetching sub-issues of #${parentNumber}...`,
-    noSubIssues: (parentNumber: number) => `No sub-issues found for #${parentNumber}`,
+    fetchingSubIssues: (parentRef: string) => `📋 Fetching sub-issues of ${parentRef}...`,
+    noSubIssues: (parentRef: string) => `No sub-issues found for ${parentRef}`,
     foundSubIssues: (count: number) => `\n✅ Found ${count} sub-issue(s):\n`,
-    settingBlocker: (blockerNumber: number, issueNumber: number) => `🔗 Setting #${blockerNumber} as blocker for #${issueNumber}...`,
+    fetchingSubIssueTree: (issueRef: string) => `🌳 Fetching sub-issue tree of ${issueRef}...`,
+    subIssueTreeProgress: (closed: number, total: number) => `\n📊 ${closed}/${total} sub-issue(s) closed`,
+    depthInvalid: (value: string, max: number) => `Invalid --depth value: "${value}". Expected an integer from 1 to ${max}`,
+    reorderPositionRequired: 'Specify exactly one of --before, --after, --top, --bottom, or --order',
+    reorderOrderInvalid: (value: string) => `Invalid --order value: "${value}". Expected comma-separated issue numbers without duplicates (e.g., 12,15,9)`,
+    reorderTargetIsChild: (child: string) => `--before/--after must name a sibling other than the sub-issue being moved (${child})`,
+    notASubIssue: (childRef: string, parentRef: string) => `${childRef} is not a sub-issue of ${parentRef}`,
+    reorderingSubIssue: (childRef: string, parentRef: string) => `↕️  Moving ${childRef} within ${parentRef}...`,
+    reorderingSubIssues: (count: number, parentRef: string) => `↕️  Moving ${count} sub-issue(s) of ${parentRef}...`,
+    subIssueReordered: '✅ Sub-issue order updated!',
+    subIssueOrderUnchanged: 'ℹ️  Sub-issues are already in the requested order',
+    movingSubIssue: (childRef: string, fromRef: string | null, toRef: string) => fromRef
+      ? `🔀 Moving ${childRef} from ${fromRef} to ${toRef}...`
+      : `🔀 Moving ${childRef} under ${toRef}...`,
+    subIssueMoved: (childRef: string, toRef: string) => `✅ ${childRef} is now a sub-issue of ${toRef}`,
+    alreadySubIssueOf: (childRef: string, parentRef: string) => `ℹ️  ${childRef} is already a sub-issue of ${parentRef}`,
+    subIssueFinalParent: (childRef: string, parentRef: string | null) => parentRef
+      ? `   Current state: ${childRef} is a sub-issue of ${parentRef}`
+      : `   Current state: ${childRef} has no parent`,
+    settingBlocker: (blockerRef: string, issueRef: string) => `🔗 Setting ${blockerRef} as blocker for ${issueRef}...`,
     dependencyAdded: '✅ Dependency added successfully!',
-    issueBlockedBy: (issueNumber: number, blockerNumber: number) => `   Issue #${issueNumber} is now blocked by #${blockerNumber}`,
-    removingBlocker: (blockerNumber: number, issueNumber: number) => `🔓 Removing #${blockerNumber} as blocker for #${issueNumber}...`,
+    issueBlockedBy: (issueRef: string, blockerRef: string) => `   Issue ${issueRef} is now blocked by ${blockerRef}`,
+    removingBlocker: (blockerRef: string, issueRef: string) => `🔓 Removing ${blockerRef} as blocker for ${issueRef}...`,
     dependencyRemoved: '✅ Dependency removed successfully!',
-    issueNoLongerBlocked: (issueNumber: number, blockerNumber: number) => `   Issue #${issueNumber} is no longer blocked by #${blockerNumber}`,
-    fetchingBlockers: (issueNumber: number) => `📋 Fetching blockers for #${issueNumber}...`,
-    noBlockers: (issueNumber: number) => `✅ No blocking issues found for #${issueNumber}`,
-    issueBlockedByCount: (issueNumber: number, count: number) => `\n⚠️  Issue #${issueNumber} is blocked by ${count} issue(s):\n`,
+    issueNoLongerBlocked: (issueRef: string, blockerRef: string) => `   Issue ${issueRef} is no longer blocked by ${blockerRef}`,
+    fetchingBlockers: (issueRef: string) => `📋 Fetching blockers for ${issueRef}...`,
+    noBlockers: (issueRef: string) => `✅ No blocking issues found for ${issueRef}`,
+    issueBlockedByCount: (issueRef: string, count: number) => `\n⚠️  Issue ${issueRef} is blocked by ${count} issue(s):\n`,
+    fetchingBlocked: (issueRef: string) => `📋 Fetching issues blocked by ${issueRef}...`,
+    noBlocked: (issueRef: string) => `✅ ${issueRef} is not blocking any issues`,
+    issueBlockingCount: (issueRef: string, count: number) => `\n⚠️  Issue ${issueRef} is blocking ${count} issue(s):\n`,
+    dependencyDirectionRequired: 'Specify exactly one of --blocked-by or --blocks',
+    graphSourceRequired: 'Specify an issue, or --milestone and/or --label',
+    graphFormatInvalid: (format: string) => `Unsupported graph format: "${format}". Use mermaid, dot, or json`,
+    searchingIssues: (query: string) => `🔍 Searching issues: ${query}`,
+    noIssuesMatched: 'No issues matched',
+    crawlingDependencies: (count: number) => `🕸️  Following blockers of ${count} issue(s)...`,
+    dependencyCyclesFound: (count: number) => `Found ${count} dependency cycle(s):`,
+    dependencyGraphTruncated: (depth: number) => `⚠️  Stopped at depth ${depth}. Increase --depth to follow more blockers`,
+    readySortRequiresParent: '--sort order requires --parent',
+    readySortInvalid: (sort: string) => `Unsupported sort: "${sort}". Use order or created`,
+    checkingBlockers: (count: number) => `🔍 Checking blockers of ${count} candidate issue(s)...`,
+    noReadyIssues: '✅ No issues are ready to work on',
+    readyIssuesCount: (count: number) => `\n🟢 ${count} issue(s) ready to work on:\n`,
+    progressFormatInvalid: (format: string) => `Unsupported output format: "${format}". Use human, markdown, or xml`,
+    collectingProgress: (issueRef: string) => `📊 Collecting sub-issue progress of ${issueRef}...`,
+    noProgressSubIssues: (issueRef: string) => `${issueRef} has no sub-issues`,
+    postingProgressComment: (issueRef: string) => `💬 Posting progress comment on ${issueRef}...`,
+    progressCommentCreated: (url: string) => `✅ Progress comment posted: ${url}`,
+    progressCommentUpdated: (url: string) => `✅ Progress comment updated: ${url}`,
     issueNumberInvalid: 'Issue numbers must be valid',
     errorPrefix: '❌ Error',
     unknownError: 'Unknown error',
@@ -226,6 +532,80 @@ export const issueMessages: Record<Language, IssueMessages> = {
     removingIssueType: (issueNumber: number) => `🔓 Removing type from issue #${issueNumber}...`,
     issueTypeRemoved: '✅ Issue type removed successfully!',
     typeRequired: '❌ Error: --type or --type-id is required',
+    fetchingOrgIssueTypes: (org: string) => `🔍 Fetching issue types of ${org}...`,
+    orgIssueTypeNotFound: (typeName: string, org: string) => `Issue type '${typeName}' not found in ${org}`,
+    issueTypeAlreadyExists: (typeName: string, org: string) => `Issue type '${typeName}' already exists in ${org}`,
+    issueTypeColorInvalid: (color: string, colors: string) => `Invalid color: "${color}". Use one of ${colors}`,
+    issueTypeEditRequired: 'Specify at least one of --name, --description, or --color',
+    creatingIssueType: (typeName: string, org: string) => `🏷️  Creating issue type '${typeName}' in ${org}...`,
+    issueTypeCreated: (typeName: string) => `✅ Issue type '${typeName}' created`,
+    updatingIssueType: (typeName: string) => `✏️  Updating issue type '${typeName}'...`,
+    issueTypeUpdated: (typeName: string) => `✅ Issue type '${typeName}' updated`,
+    issueTypeEnabled: (typeName: string) => `✅ Issue type '${typeName}' enabled`,
+    issueTypeDisabled: (typeName: string) => `✅ Issue type '${typeName}' disabled`,
+    issueTypeStateUnchanged: (typeName: string, enabled: boolean) => `Issue type '${typeName}' is already ${enabled ? 'enabled' : 'disabled'}`,
+    confirmDeleteIssueType: (typeName: string, org: string) => `Delete issue type '${typeName}' from ${org}? Issues of this type will lose their type`,
+    deletingIssueType: (typeName: string) => `🗑️  Deleting issue type '${typeName}'...`,
+    issueTypeDeleted: (typeName: string) => `✅ Issue type '${typeName}' deleted`,
+    readingTypeManifest: (path: string) => `📄 Reading manifest from ${path === '-' ? 'stdin' : path}...`,
+    typeSyncUpToDate: (org: string) => `✅ Issue types of ${org} already match the manifest`,
+    typeSyncPreview: (org: string, count: number) => `\n${count} change(s) to apply to ${org}:\n`,
+    confirmTypeSync: (count: number) => `Apply ${count} change(s)?`,
+    typeSyncApplied: (count: number) => `\n✅ Applied ${count} change(s)`,
+    typeSetTargetRequired: 'Specify an issue number, --search, or --from-label',
+    typeSetTargetConflict: 'An issue number cannot be combined with --search, --from-label, or --remove-label',
+    typeSetSearchTypeRequired: '--search requires --type (or use --from-label)',
+    typeSetFromLabelConflict: '--from-label cannot be combined with --type or --type-id',
+    removeLabelNamesRequired: 'Without --from-label, --remove-label needs label names (e.g., --remove-label bug)',
+    retypeConflict: (issueRef: string, types: string[]) => `⚠️  Skipping ${issueRef}: its labels map to different types (${types.join(', ')})`,
+    retypingIssues: (count: number) => `\n🏷️  Setting the type of ${count} issue(s)...`,
+    retypeProgress: (index: number, total: number, issueRef: string, typeName: string, retyped: boolean, removedLabels: string[]) =>
+      `[${index}/${total}] ${issueRef} ${retyped ? `→ ${typeName}` : `already ${typeName}`}${removedLabels.length > 0 ? ` (removed label: ${removedLabels.join(', ')})` : ''}`,
+    retypeFailed: (issueRef: string, error: string) => `❌ ${issueRef}: ${error}`,
+    retypeSummary: (retyped: number, unchanged: number, labelsRemoved: number, conflicts: number, failed: number) => [
+      '\n📊 Summary',
+      `   Retyped: ${retyped}`,
+      `   Already typed: ${unchanged}`,
+      ...(labelsRemoved > 0 ? [`   Labels removed: ${labelsRemoved}`] : []),
+      ...(conflicts > 0 ? [`   Skipped (conflicting labels): ${conflicts}`] : []),
+      ...(failed > 0 ? [`   Failed: ${failed}`] : []),
+    ].join('\n'),
+    fieldRequiresTemplate: '--field requires --template',
+    fieldRequiresIssueForm: (template: string) => `--field only applies to issue forms; "${template}" is a markdown template`,
+    usingIssueForm: (formName: string, source: 'local' | 'api') => `📋 Using issue form "${formName}" (from ${source === 'local' ? 'the local checkout' : 'GitHub'})`,
+    issueFormSkipped: (fileName: string, reason: string) => `⚠️  Skipping issue form ${fileName}: ${reason}`,
+    formFieldsMissing: (fields: string[]) => `Required fields are empty: ${fields.join(', ')}\nProvide them with --field id=value`,
+    formFieldRequired: 'This field is required',
+    formNoResponse: '(no response)',
+    formPromptCancelled: 'Issue creation cancelled',
+    titleRequired: '--title is required (run without --title in a terminal for the interactive wizard)',
+    wizardNotWithJson: '--json requires --title (the interactive wizard cannot be used with --json)',
+    wizardIntro: (repo: string) => `Create a new issue in ${repo}`,
+    wizardTitle: 'Title',
+    wizardLoadingMetadata: 'Loading types, labels, assignees, milestones, and projects',
+    wizardMetadataLoaded: 'Loaded',
+    wizardSearch: (subject: string, count: number) => `${subject} - search ${count} options`,
+    wizardSearchPlaceholder: 'Leave empty to show all',
+    wizardNoMatches: (search: string) => `Nothing matches "${search}"`,
+    wizardNone: '(none)',
+    wizardType: 'Issue type',
+    wizardLabels: 'Labels',
+    wizardAssignees: 'Assignees',
+    wizardMilestone: 'Milestone',
+    wizardProjects: 'Projects',
+    wizardParent: 'Parent issue number (optional)',
+    wizardParentPlaceholder: 'Leave empty to skip',
+    wizardParentInvalid: 'Enter an issue number',
+    wizardEditBody: 'Write the body in your editor?',
+    wizardCommandLine: 'To create the same issue from a script:',
+    readingImport: (path: string) => `📄 Reading import file ${path === '-' ? 'stdin' : path}...`,
+    findingImportedIssues: '🔍 Looking for previously imported issues...',
+    importingIssues: (toCreate: number, toUpdate: number) => `\n📥 Importing: ${toCreate} to create, ${toUpdate} to update`,
+    importProgress: (index: number, total: number, issueRef: string, title: string, updated: boolean) =>
+      `[${index}/${total}] ${updated ? 'Updated' : 'Created'} ${issueRef} ${title}`,
+    importSummary: (created: number, updated: number, repo: string) =>
+      `\n✅ Imported ${created + updated} issue(s) into ${repo} (${created} created, ${updated} updated)`,
+    resultsTruncated: (count: number) => `⚠️  Showing the first ${count} result(s). Use --limit or --all to fetch more`,
   },
 }
 
@@ -256,6 +636,7 @@ export const prMessages: Record<Language, PrMessages> = {
     threadAtLocation: (path: string, line: number | null) => `${path}${line !== null ? `:${line}` : ''}`,
     resolvedBy: (username: string) => `@${username}님이 해결함`,
     viewPr: '   View PR:',
+    resultsTruncated: (count: number) => `⚠️  처음 ${count}개의 결과만 표시합니다. 더 보려면 --limit 또는 --all을 사용하세요`,
   },
   en: {
     fetchingPrInfo: '🔍 Fetching PR information...',
@@ -283,6 +664,7 @@ export const prMessages: Record<Language, PrMessages> = {
     threadAtLocation: (path: string, line: number | null) => `${path}${line !== null ? `:${line}` : ''}`,
     resolvedBy: (username: string) => `resolved by @${username}`,
     viewPr: '   View PR:',
+    resultsTruncated: (count: number) => `⚠️  Showing the first ${count} result(s). Use --limit or --all to fetch more`,
   },
 }
 
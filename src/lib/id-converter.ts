@@ -3,7 +3,10 @@
  * Converts between Database ID and Node ID for various GitHub entities
  */
 
+import { classifyGhApiFailure, NotFoundError } from './github/errors'
+import { ghApi } from './github/transport'
 import {
+  getNodeIdType,
   isLegacyNodeId as isLegacy,
   isNewNodeId as isNew,
 } from './node-id-decoder'
@@ -22,14 +25,6 @@ export type { DecodedNodeId, EncodeNodeIdOptions } from './node-id-decoder'
 
 export type GitHubEntityType = 'review-comment' | 'issue-comment' | 'issue' | 'pull-request'
 
-/**
- * Get the gh command path from environment variable or use default
- * This allows tests to inject a mock gh command
- */
-function getGhCommand(): string {
-  return process.env.GH_PATH || 'gh'
-}
-
 /**
  * Detect if identifier is a Node ID (New or Legacy format)
  * New format: PRRC_xxx, IC_xxx, I_xxx, PR_xxx (prefix + Base64)
@@ -45,23 +40,29 @@ export function isNodeId(identifier: string): boolean {
 /**
  * Detect if identifier is a Thread Node ID (PRRT_...)
  * Thread IDs are used for PR review threads
+ * Legacy-format IDs (returned by older GitHub Enterprise Server versions) are detected by type.
  *
  * @param identifier - String to check
  * @returns True if identifier is a Thread Node ID
  */
 export function isThreadNodeId(identifier: string): boolean {
-  return /^PRRT_[\w-]+$/.test(identifier)
+  return /^PRRT_[\w-]+$/.test(identifier) || getNodeIdType(identifier) === 'PullRequestReviewThread'
 }
 
 /**
  * Detect if identifier is a Comment Node ID (PRRC_... or IC_...)
  * Comment IDs are used for PR review comments or issue comments
+ * Legacy-format IDs (returned by older GitHub Enterprise Server versions) are detected by type.
  *
  * @param identifier - String to check
  * @returns True if identifier is a Comment Node ID
  */
 export function isCommentNodeId(identifier: string): boolean {
-  return /^(?:PRRC|IC)_[\w-]+$/.test(identifier)
+  if (/^(?:PRRC|IC)_[\w-]+$/.test(identifier)) {
+    return true
+  }
+  const type = getNodeIdType(identifier)
+  return type === 'PullRequestReviewComment' || type === 'IssueComment'
 }
 
 /**
@@ -127,9 +128,8 @@ export async function toReviewCommentNodeId(
   // Fetch all PR review comments from REST API (includes node_id field)
   const endpoint = `/repos/${owner}/${repo}/pulls/${prNumber}/comments`
 
-  const proc = Bun.spawn(
+  const response = await ghApi(
     [
-      getGhCommand(),
       'api',
       '-H',
       'Accept: application/vnd.github+json',
@@ -137,18 +137,12 @@ export async function toReviewCommentNodeId(
       'X-GitHub-Api-Version: 2022-11-28',
       endpoint,
     ],
-    {
-      stdout: 'pipe',
-      stderr: 'pipe',
-    },
   )
+  const output = response.body
 
-  const output = await new Response(proc.stdout).text()
-  const exitCode = await proc.exited
-
-  if (exitCode !== 0) {
-    const error = await new Response(proc.stderr).text()
-    throw new Error(`Failed to fetch PR comments: ${error.trim()}`)
+  if (response.exitCode !== 0) {
+    const error = response.stderr
+    throw classifyGhApiFailure(`Failed to fetch PR comments: ${error.trim()}`, error, output)
   }
 
   const comments = JSON.parse(output)
@@ -157,7 +151,7 @@ export async function toReviewCommentNodeId(
   const comment = comments.find((c: any) => c.id === databaseId)
 
   if (!comment) {
-    throw new Error(
+    throw new NotFoundError(
       `Review comment ${databaseId} not found in PR #${prNumber} (${owner}/${repo})`,
     )
   }
@@ -198,9 +192,8 @@ export async function toIssueCommentNodeId(
   // Fetch all issue comments from REST API (includes node_id field)
   const endpoint = `/repos/${owner}/${repo}/issues/${issueNumber}/comments`
 
-  const proc = Bun.spawn(
+  const response = await ghApi(
     [
-      getGhCommand(),
       'api',
       '-H',
       'Accept: application/vnd.github+json',
@@ -208,18 +201,12 @@ export async function toIssueCommentNodeId(
       'X-GitHub-Api-Version: 2022-11-28',
       endpoint,
     ],
-    {
-      stdout: 'pipe',
-      stderr: 'pipe',
-    },
   )
+  const output = response.body
 
-  const output = await new Response(proc.stdout).text()
-  const exitCode = await proc.exited
-
-  if (exitCode !== 0) {
-    const error = await new Response(proc.stderr).text()
-    throw new Error(`Failed to fetch issue comments: ${error.trim()}`)
+  if (response.exitCode !== 0) {
+    const error = response.stderr
+    throw classifyGhApiFailure(`Failed to fetch issue comments: ${error.trim()}`, error, output)
   }
 
   const comments = JSON.parse(output)
@@ -228,7 +215,7 @@ export async function toIssueCommentNodeId(
   const comment = comments.find((c: any) => c.id === databaseId)
 
   if (!comment) {
-    throw new Error(
+    throw new NotFoundError(
       `Issue comment ${databaseId} not found in issue #${issueNumber} (${owner}/${repo})`,
     )
   }
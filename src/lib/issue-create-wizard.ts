@@ -0,0 +1,152 @@
+/**
+ * Helpers for the interactive `issue create` wizard
+ *
+ * The prompts live in the command; this module holds the parts that do not
+ * need a terminal: narrowing long choice lists, editing the body in the
+ * user's editor, and printing the equivalent non-interactive command.
+ */
+
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+/**
+ * Choice offered by a wizard prompt
+ */
+export interface WizardChoice {
+  value: string
+  label: string
+  hint?: string
+}
+
+/**
+ * Issue settings collected by the wizard (or given as options)
+ */
+export interface IssueCreateInput {
+  repo?: string
+  title: string
+  body?: string
+  /** Body file path ("-" for stdin) */
+  bodyFile?: string
+  type?: string
+  /** Issue type Node ID */
+  typeId?: string
+  labels: string[]
+  assignees: string[]
+  milestone?: string
+  projects: string[]
+  parent?: string
+  template?: string
+  fields: string[]
+}
+
+/**
+ * Lists longer than this are narrowed with a search before selection
+ */
+export const WIZARD_SEARCH_THRESHOLD = 15
+
+/**
+ * Filter choices by a search term (case-insensitive, matched against value, label, and hint)
+ *
+ * @param choices - All choices
+ * @param search - Search term; empty keeps every choice
+ * @returns Matching choices in their original order
+ */
+export function filterChoices(choices: WizardChoice[], search: string): WizardChoice[] {
+  const term = search.trim().toLowerCase()
+  if (term.length === 0) {
+    return choices
+  }
+  return choices.filter(choice =>
+    [choice.value, choice.label, choice.hint ?? ''].some(text => text.toLowerCase().includes(term)),
+  )
+}
+
+/**
+ * Quote a value for POSIX shells when it contains anything beyond safe characters
+ */
+export function shellQuote(value: string): string {
+  if (/^[\w@%+=:,./-]+$/.test(value)) {
+    return value
+  }
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+/**
+ * Build the command line that creates the same issue without the wizard
+ *
+ * @param input - Collected settings
+ * @returns `gh please issue create ...` with shell-quoted arguments
+ */
+export function formatIssueCreateCommand(input: IssueCreateInput): string {
+  const args = ['gh', 'please', 'issue', 'create']
+  const push = (flag: string, value: string | undefined) => {
+    if (value !== undefined && value.length > 0) {
+      args.push(flag, shellQuote(value))
+    }
+  }
+
+  push('--repo', input.repo)
+  push('--title', input.title)
+  push('--body', input.body)
+  push('--body-file', input.bodyFile)
+  push('--type', input.type)
+  push('--type-id', input.typeId)
+  input.labels.forEach(label => push('--label', label))
+  input.assignees.forEach(assignee => push('--assignee', assignee))
+  push('--milestone', input.milestone)
+  input.projects.forEach(project => push('--project', project))
+  push('--parent', input.parent)
+  push('--template', input.template)
+  input.fields.forEach(field => push('--field', field))
+
+  return args.join(' ')
+}
+
+/**
+ * Get the user's editor command from VISUAL or EDITOR (default: vi)
+ *
+ * @returns Command and arguments (e.g., ['code', '--wait'])
+ */
+export function getEditorCommand(env: Record<string, string | undefined> = process.env): string[] {
+  const editor = (env.VISUAL || env.EDITOR || 'vi').trim()
+  return editor.split(/\s+/)
+}
+
+/**
+ * Edit text in the user's editor
+ *
+ * @param initial - Text the file starts with
+ * @param fileName - Temporary file name (its extension selects editor highlighting)
+ * @returns Edited text
+ * @throws Error if the editor cannot be started or exits with an error
+ */
+export async function editInEditor(initial: string, fileName = 'ISSUE_BODY.md'): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), 'gh-please-'))
+  const path = join(dir, fileName)
+  const [command, ...args] = getEditorCommand()
+
+  try {
+    await Bun.write(path, initial)
+
+    let exitCode: number
+    try {
+      const proc = Bun.spawn([command!, ...args, path], { stdin: 'inherit', stdout: 'inherit', stderr: 'inherit' })
+      exitCode = await proc.exited
+    }
+    catch (error) {
+      throw new Error(
+        `Failed to start editor "${command}": ${error instanceof Error ? error.message : String(error)}\n`
+        + `Set EDITOR (or VISUAL) to your editor command`,
+      )
+    }
+
+    if (exitCode !== 0) {
+      throw new Error(`Editor "${command}" exited with code ${exitCode}`)
+    }
+    return await Bun.file(path).text()
+  }
+  finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+}
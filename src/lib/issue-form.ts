@@ -0,0 +1,500 @@
+/**
+ * Issue forms (`.github/ISSUE_TEMPLATE/*.yml`)
+ *
+ * Parses issue forms, turns `--field id=value` assignments into answers,
+ * validates required fields, and renders the issue body the way GitHub renders
+ * form submissions:
+ *
+ * ```markdown
+ * ### What happened?
+ *
+ * The app crashed
+ *
+ * ### Version
+ *
+ * _No response_
+ * ```
+ */
+
+import { existsSync } from 'node:fs'
+import { readdir } from 'node:fs/promises'
+import { basename, dirname, extname, join } from 'node:path'
+import { YAML } from 'bun'
+import { classifyGhApiFailure, NotFoundError } from './github/errors'
+import { ghApi } from './github/transport'
+
+export type IssueFormFieldType = 'input' | 'textarea' | 'dropdown' | 'checkboxes'
+
+/**
+ * Dropdown or checkbox option
+ */
+export interface IssueFormOption {
+  label: string
+  /** Checkbox that must be checked */
+  required: boolean
+}
+
+/**
+ * Form element that collects a value (markdown elements are dropped)
+ */
+export interface IssueFormField {
+  type: IssueFormFieldType
+  id?: string
+  label: string
+  description?: string
+  placeholder?: string
+  /** Prefilled value (input and textarea) */
+  value?: string
+  /** Language the textarea value is rendered as a code block in */
+  render?: string
+  /** Dropdown or checkbox options */
+  options: IssueFormOption[]
+  /** Dropdown accepts several options */
+  multiple: boolean
+  /** Index of the preselected dropdown option */
+  defaultOption?: number
+  required: boolean
+}
+
+/**
+ * Parsed issue form
+ */
+export interface IssueForm {
+  /** Template file name (e.g., bug_report.yml) */
+  fileName: string
+  name: string
+  description: string
+  /** Prefilled title (usually a prefix such as "[Bug]: ") */
+  title?: string
+  labels: string[]
+  assignees: string[]
+  /** Issue type name */
+  type?: string
+  fields: IssueFormField[]
+}
+
+/**
+ * Answer to a field: text for inputs and textareas, selected option labels otherwise
+ */
+export type IssueFormAnswer = string | string[]
+
+/**
+ * Where forms were loaded from
+ */
+export type IssueFormSource = 'local' | 'api'
+
+/**
+ * Options for loadIssueForms
+ */
+export interface LoadIssueFormsOptions {
+  /** Read `.github/ISSUE_TEMPLATE` of the current checkout first (only valid when it is owner/repo) */
+  preferLocal?: boolean
+  /** Wanted form; when it matches a file name, only that file is read */
+  name?: string
+}
+
+/**
+ * Forms loaded by loadIssueForms
+ */
+export interface LoadedIssueForms {
+  /** Forms sorted by file name */
+  forms: IssueForm[]
+  source: IssueFormSource
+  /** Form files that could not be parsed, with the reason (they are skipped) */
+  invalid: { fileName: string, message: string }[]
+}
+
+const FIELD_TYPES: readonly string[] = ['input', 'textarea', 'dropdown', 'checkboxes']
+const NO_RESPONSE = '_No response_'
+
+/**
+ * Normalize a string-or-list field (labels, assignees)
+ */
+function toList(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return value.split(',').map(item => item.trim()).filter(Boolean)
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => String(item).trim()).filter(Boolean)
+  }
+  return []
+}
+
+/**
+ * Validate one body element; markdown elements become null
+ */
+function toFormField(value: unknown, fileName: string): IssueFormField | null {
+  if (!value || typeof value !== 'object') {
+    throw new TypeError(`Invalid issue form ${fileName}: every body element must be a mapping`)
+  }
+  const raw = value as Record<string, unknown>
+  if (raw.type === 'markdown') {
+    return null
+  }
+  if (typeof raw.type !== 'string' || !FIELD_TYPES.includes(raw.type)) {
+    throw new TypeError(`Invalid issue form ${fileName}: unknown body element type "${String(raw.type)}"`)
+  }
+  const type = raw.type as IssueFormFieldType
+
+  const attributes = (raw.attributes ?? {}) as Record<string, unknown>
+  const label = attributes.label
+  if (typeof label !== 'string' || label.trim().length === 0) {
+    throw new TypeError(`Invalid issue form ${fileName}: ${type} element needs an attributes.label`)
+  }
+
+  const options: IssueFormOption[] = (Array.isArray(attributes.options) ? attributes.options as unknown[] : []).map((option) => {
+    if (typeof option !== 'object' || option === null) {
+      return { label: String(option), required: false }
+    }
+    const rawOption = option as Record<string, unknown>
+    return { label: String(rawOption.label), required: rawOption.required === true }
+  })
+  if ((type === 'dropdown' || type === 'checkboxes') && options.length === 0) {
+    throw new TypeError(`Invalid issue form ${fileName}: "${label}" needs attributes.options`)
+  }
+
+  const validations = (raw.validations ?? {}) as Record<string, unknown>
+  return {
+    type,
+    ...(typeof raw.id === 'string' && { id: raw.id }),
+    label: label.trim(),
+    ...(typeof attributes.description === 'string' && { description: attributes.description }),
+    ...(typeof attributes.placeholder === 'string' && { placeholder: attributes.placeholder }),
+    ...(typeof attributes.value === 'string' && { value: attributes.value }),
+    ...(typeof attributes.render === 'string' && { render: attributes.render }),
+    options,
+    multiple: attributes.multiple === true,
+    ...(Number.isInteger(attributes.default) && { defaultOption: attributes.default as number }),
+    required: validations.required === true,
+  }
+}
+
+/**
+ * Parse an issue form
+ *
+ * @param text - YAML content
+ * @param fileName - Template file name, used in errors and for lookup
+ * @returns Parsed form
+ * @throws TypeError if the content is not a valid issue form
+ */
+export function parseIssueForm(text: string, fileName: string): IssueForm {
+  let data: unknown
+  try {
+    data = YAML.parse(text)
+  }
+  catch (error) {
+    throw new TypeError(`Invalid issue form ${fileName}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  const raw = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>
+  if (typeof raw.name !== 'string' || !Array.isArray(raw.body)) {
+    throw new TypeError(`Invalid issue form ${fileName}: expected "name" and a "body" list`)
+  }
+
+  return {
+    fileName,
+    name: raw.name,
+    description: typeof raw.description === 'string' ? raw.description : '',
+    ...(typeof raw.title === 'string' && raw.title.length > 0 && { title: raw.title }),
+    labels: toList(raw.labels),
+    assignees: toList(raw.assignees),
+    ...(typeof raw.type === 'string' && { type: raw.type }),
+    fields: (raw.body as unknown[])
+      .map(element => toFormField(element, fileName))
+      .filter((field): field is IssueFormField => field !== null),
+  }
+}
+
+/**
+ * Whether a template file is an issue form (config.yml configures the template chooser)
+ */
+function isFormFile(fileName: string): boolean {
+  const extension = extname(fileName).toLowerCase()
+  return (extension === '.yml' || extension === '.yaml') && basename(fileName, extension).toLowerCase() !== 'config'
+}
+
+/**
+ * Whether a file name, with or without extension, equals a name (ignoring case)
+ */
+function matchesFileName(fileName: string, name: string): boolean {
+  const wanted = name.toLowerCase()
+  return fileName.toLowerCase() === wanted || basename(fileName, extname(fileName)).toLowerCase() === wanted
+}
+
+/**
+ * Pick the form files to read: the one matching the wanted name, or all of them
+ */
+function selectFormFiles(fileNames: string[], name?: string): string[] {
+  const formFiles = fileNames.filter(isFormFile).sort()
+  const matching = name !== undefined ? formFiles.filter(fileName => matchesFileName(fileName, name)) : []
+  return matching.length > 0 ? matching : formFiles
+}
+
+/**
+ * Parse form files, setting aside the ones that are not valid issue forms
+ */
+async function parseFormFiles(
+  fileNames: string[],
+  read: (fileName: string) => Promise<string>,
+  source: IssueFormSource,
+): Promise<LoadedIssueForms> {
+  const loaded: LoadedIssueForms = { forms: [], source, invalid: [] }
+  for (const fileName of fileNames) {
+    const text = await read(fileName)
+    try {
+      loaded.forms.push(parseIssueForm(text, fileName))
+    }
+    catch (error) {
+      loaded.invalid.push({ fileName, message: error instanceof Error ? error.message : String(error) })
+    }
+  }
+  return loaded
+}
+
+/**
+ * Find `.github/ISSUE_TEMPLATE` in the checkout containing a directory
+ *
+ * @param start - Directory to search from (default: current directory)
+ * @returns Template directory, or null outside a checkout or without templates
+ */
+export function findLocalTemplateDir(start: string = process.cwd()): string | null {
+  let dir = start
+  while (true) {
+    const templateDir = join(dir, '.github', 'ISSUE_TEMPLATE')
+    if (existsSync(templateDir)) {
+      return templateDir
+    }
+    const parent = dirname(dir)
+    if (existsSync(join(dir, '.git')) || parent === dir) {
+      return null
+    }
+    dir = parent
+  }
+}
+
+/**
+ * Read the issue forms of a local template directory
+ */
+async function readLocalIssueForms(templateDir: string, name?: string): Promise<LoadedIssueForms> {
+  const fileNames = selectFormFiles(await readdir(templateDir), name)
+  return parseFormFiles(fileNames, fileName => Bun.file(join(templateDir, fileName)).text(), 'local')
+}
+
+/**
+ * Fetch the issue forms of a repository's default branch
+ */
+async function fetchIssueForms(owner: string, repo: string, name?: string): Promise<LoadedIssueForms> {
+  const headers = ['-H', 'X-GitHub-Api-Version: 2022-11-28']
+  const listing = await ghApi(['api', '-H', 'Accept: application/vnd.github+json', ...headers, `/repos/${owner}/${repo}/contents/.github/ISSUE_TEMPLATE`])
+
+  if (listing.exitCode !== 0) {
+    const error = classifyGhApiFailure(
+      `Failed to list issue templates of ${owner}/${repo}: ${listing.stderr.trim()}`,
+      listing.stderr,
+      listing.body,
+    )
+    if (error instanceof NotFoundError) {
+      return { forms: [], source: 'api', invalid: [] }
+    }
+    throw error
+  }
+
+  const entries = JSON.parse(listing.body) as { name: string, path: string, type: string }[]
+  const paths = new Map(entries.filter(entry => entry.type === 'file').map(entry => [entry.name, entry.path]))
+  return parseFormFiles(selectFormFiles([...paths.keys()], name), async (fileName) => {
+    const path = paths.get(fileName)!
+    const file = await ghApi(['api', '-H', 'Accept: application/vnd.github.raw+json', ...headers, `/repos/${owner}/${repo}/contents/${path}`])
+    if (file.exitCode !== 0) {
+      throw classifyGhApiFailure(`Failed to fetch ${path}: ${file.stderr.trim()}`, file.stderr, file.body)
+    }
+    return file.body
+  }, 'api')
+}
+
+/**
+ * Load issue forms from the local checkout, or from the repository through the API
+ *
+ * Files that are not valid issue forms are skipped and reported in `invalid`.
+ * When `name` matches a file name, only that file is read; otherwise every form
+ * is read, since the name may be a form's `name`.
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param options - Where to look first, and the wanted form
+ * @returns Forms sorted by file name, where they came from, and the skipped files
+ */
+export async function loadIssueForms(
+  owner: string,
+  repo: string,
+  options: LoadIssueFormsOptions = {},
+): Promise<LoadedIssueForms> {
+  const localDir = options.preferLocal ? findLocalTemplateDir() : null
+  if (localDir) {
+    const local = await readLocalIssueForms(localDir, options.name)
+    if (local.forms.length > 0 || local.invalid.length > 0) {
+      return local
+    }
+  }
+  return fetchIssueForms(owner, repo, options.name)
+}
+
+/**
+ * Find a form by name or file name (with or without extension), ignoring case
+ */
+export function findIssueForm(forms: IssueForm[], name: string): IssueForm | undefined {
+  return forms.find(form => form.name.toLowerCase() === name.toLowerCase() || matchesFileName(form.fileName, name))
+}
+
+/**
+ * Match option labels, ignoring case
+ */
+function matchOptions(field: IssueFormField, values: string[]): string[] {
+  return values.map((value) => {
+    const option = field.options.find(o => o.label.toLowerCase() === value.toLowerCase())
+    if (!option) {
+      throw new TypeError(
+        `Invalid value "${value}" for "${field.label}". Options: ${field.options.map(o => o.label).join(', ')}`,
+      )
+    }
+    return option.label
+  })
+}
+
+/**
+ * Turn `--field id=value` assignments into answers
+ *
+ * Fields are matched by id or label (ignoring case). Dropdowns with `multiple`
+ * and checkboxes take comma-separated option labels.
+ *
+ * @param form - Issue form
+ * @param assignments - id=value strings
+ * @returns Answers by field
+ * @throws TypeError on malformed assignments, unknown fields, or invalid options
+ */
+export function parseFieldAssignments(form: IssueForm, assignments: string[]): Map<IssueFormField, IssueFormAnswer> {
+  const answers = new Map<IssueFormField, IssueFormAnswer>()
+
+  for (const assignment of assignments) {
+    const separator = assignment.indexOf('=')
+    if (separator <= 0) {
+      throw new TypeError(`Invalid --field "${assignment}". Expected id=value`)
+    }
+    const key = assignment.slice(0, separator).trim().toLowerCase()
+    const value = assignment.slice(separator + 1)
+
+    const field = form.fields.find(f => f.id?.toLowerCase() === key || f.label.toLowerCase() === key)
+    if (!field) {
+      const ids = form.fields.map(f => f.id ?? f.label).join(', ')
+      throw new TypeError(`Unknown field "${assignment.slice(0, separator)}" in form "${form.name}". Fields: ${ids}`)
+    }
+
+    if (field.type === 'input' || field.type === 'textarea') {
+      answers.set(field, value)
+    }
+    else {
+      const values = field.type === 'checkboxes' || field.multiple
+        ? value.split(',').map(item => item.trim()).filter(Boolean)
+        : [value.trim()]
+      answers.set(field, matchOptions(field, values))
+    }
+  }
+
+  return answers
+}
+
+/**
+ * Format answers as --field arguments that parseFieldAssignments reads back
+ *
+ * Fields are named by id (or label); options are comma-separated. Empty answers are left out.
+ *
+ * @returns `id=value` assignments in form order
+ */
+export function formatFieldAssignments(form: IssueForm, answers: Map<IssueFormField, IssueFormAnswer>): string[] {
+  return form.fields.flatMap((field) => {
+    const answer = answers.get(field)
+    const value = Array.isArray(answer) ? answer.join(',') : answer
+    return value ? [`${field.id ?? field.label}=${value}`] : []
+  })
+}
+
+/**
+ * Answer used for a field: the given answer, else the form's prefilled value or default option
+ */
+export function resolveAnswer(field: IssueFormField, answers: Map<IssueFormField, IssueFormAnswer>): IssueFormAnswer | undefined {
+  const answer = answers.get(field)
+  if (answer !== undefined) {
+    return answer
+  }
+  if (field.value !== undefined) {
+    return field.value
+  }
+  if (field.type === 'dropdown' && field.defaultOption !== undefined && field.options[field.defaultOption]) {
+    return [field.options[field.defaultOption]!.label]
+  }
+  return undefined
+}
+
+/**
+ * Find fields whose required validation is not met
+ *
+ * @returns Labels of required fields without an answer, and of required checkboxes left unchecked
+ */
+export function findMissingRequiredFields(form: IssueForm, answers: Map<IssueFormField, IssueFormAnswer>): string[] {
+  const missing: string[] = []
+
+  for (const field of form.fields) {
+    const answer = resolveAnswer(field, answers)
+    if (field.type === 'checkboxes') {
+      const checked = Array.isArray(answer) ? answer : []
+      for (const option of field.options.filter(o => o.required && !checked.includes(o.label))) {
+        missing.push(`${field.label}: ${option.label}`)
+      }
+    }
+    else if (field.required) {
+      const isEmpty = answer === undefined || (Array.isArray(answer) ? answer.length === 0 : answer.trim().length === 0)
+      if (isEmpty) {
+        missing.push(field.label)
+      }
+    }
+  }
+
+  return missing
+}
+
+/**
+ * Render the issue body GitHub creates for a form submission
+ *
+ * Each field becomes a `### Label` section; empty fields read `_No response_`,
+ * textareas with `render` become code blocks, and checkboxes become a task list.
+ *
+ * @param form - Issue form
+ * @param answers - Answers by field (prefilled values and default options fill the rest)
+ * @returns Markdown body
+ */
+export function renderIssueFormBody(form: IssueForm, answers: Map<IssueFormField, IssueFormAnswer>): string {
+  const sections = form.fields.map((field) => {
+    const answer = resolveAnswer(field, answers)
+    let content: string
+
+    if (field.type === 'checkboxes') {
+      const checked = Array.isArray(answer) ? answer : []
+      content = field.options.map(option => `- [${checked.includes(option.label) ? 'X' : ' '}] ${option.label}`).join('\n')
+    }
+    else {
+      const text = (Array.isArray(answer) ? answer.join(', ') : answer ?? '').trim()
+      if (text.length === 0) {
+        content = NO_RESPONSE
+      }
+      else if (field.type === 'textarea' && field.render !== undefined) {
+        content = `\`\`\`${field.render}\n${text}\n\`\`\``
+      }
+      else {
+        content = text
+      }
+    }
+
+    return `### ${field.label}\n\n${content}`
+  })
+
+  return sections.join('\n\n')
+}
@@ -0,0 +1,357 @@
+/**
+ * Declarative bulk issue import
+ *
+ * An import file lists issues as YAML (or JSON) or CSV rows. Every row has a
+ * key; parents and "blocked by" dependencies name other rows by key, and rows
+ * are created parents-first and blockers-first.
+ *
+ * YAML:
+ * ```yaml
+ * - key: schema
+ *   title: Design schema
+ *   type: Task
+ *   labels: [db]
+ *   milestone: v1.0
+ * - key: api
+ *   title: Implement API
+ *   parent: schema
+ *   blockedBy: [schema]
+ * ```
+ *
+ * CSV (list cells are comma-separated):
+ * ```csv
+ * key,title,type,labels,parent,blocked_by
+ * schema,Design schema,Task,db,,
+ * api,Implement API,,"backend,api",schema,schema
+ * ```
+ *
+ * Imported issues end with an `<!-- gh-please:import-key=KEY -->` marker, so
+ * importing the same file again updates those issues instead of duplicating them.
+ */
+
+import { extname } from 'node:path'
+import { YAML } from 'bun'
+import { orderByPrerequisites } from './issue-plan'
+
+/**
+ * Issue declared in an import file
+ */
+export interface ImportRow {
+  /** External key, stored in the issue body and used by parent/blockedBy */
+  key: string
+  title: string
+  body?: string
+  /** Issue type name */
+  type?: string
+  labels: string[]
+  assignees: string[]
+  milestone?: string
+  /** Project titles */
+  projects: string[]
+  /** Key of the parent row */
+  parent?: string
+  /** Keys of the rows blocking this one */
+  blockedBy: string[]
+}
+
+export type ImportFormat = 'yaml' | 'csv'
+
+/**
+ * Marker name of the external key stored in imported issue bodies
+ */
+export const IMPORT_KEY_MARKER = 'gh-please:import-key'
+
+const KEY_PATTERN = /^[\w.:/-]+$/
+const MARKER_PATTERN = /<!-- gh-please:import-key=([\w.:/-]+) -->/
+const FIELDS = ['key', 'title', 'body', 'type', 'labels', 'assignees', 'milestone', 'projects', 'parent', 'blockedBy'] as const
+
+type ImportField = typeof FIELDS[number]
+
+/**
+ * Match a column or YAML field name, ignoring case, `-`, `_`, and spaces (blocked_by → blockedBy)
+ */
+function toFieldName(name: string): ImportField | undefined {
+  const normalized = name.replace(/[-_\s]/g, '').toLowerCase()
+  return FIELDS.find(field => field.toLowerCase() === normalized)
+}
+
+/**
+ * Pick the import format from the file extension, or from the content for stdin
+ *
+ * @param filePath - Import file path ("-" for stdin)
+ * @param text - File content
+ */
+export function detectImportFormat(filePath: string, text: string): ImportFormat {
+  const extension = extname(filePath).toLowerCase()
+  if (extension === '.csv') {
+    return 'csv'
+  }
+  if (extension === '.yml' || extension === '.yaml' || extension === '.json') {
+    return 'yaml'
+  }
+  const firstLine = text.split('\n').find(line => line.trim().length > 0)?.trim() ?? ''
+  return /^[-[{]/.test(firstLine) || firstLine.includes(':') ? 'yaml' : 'csv'
+}
+
+/**
+ * Split CSV text into records (RFC 4180: quoted cells may contain commas, quotes as "", and newlines)
+ */
+function parseCsv(text: string): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      }
+      else if (char === '"') {
+        quoted = false
+      }
+      else {
+        cell += char
+      }
+    }
+    else if (char === '"' && cell.length === 0) {
+      quoted = true
+    }
+    else if (char === ',') {
+      record.push(cell)
+      cell = ''
+    }
+    else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++
+      }
+      record.push(cell)
+      records.push(record)
+      record = []
+      cell = ''
+    }
+    else {
+      cell += char
+    }
+  }
+  if (quoted) {
+    throw new TypeError('Invalid import: unterminated quoted CSV cell')
+  }
+  if (cell.length > 0 || record.length > 0) {
+    record.push(cell)
+    records.push(record)
+  }
+
+  return records.filter(r => r.some(value => value.trim().length > 0))
+}
+
+/**
+ * Normalize a string-or-list field
+ */
+function toList(value: unknown, field: string, row: string): string[] {
+  if (value === undefined || value === null) {
+    return []
+  }
+  if (typeof value === 'string') {
+    return value.split(',').map(item => item.trim()).filter(Boolean)
+  }
+  if (Array.isArray(value) && value.every(item => typeof item === 'string' || typeof item === 'number')) {
+    return value.map(item => String(item).trim()).filter(Boolean)
+  }
+  throw new TypeError(`Invalid import: "${field}" of ${row} must be a string or a list of strings`)
+}
+
+/**
+ * Validate one row
+ *
+ * @param raw - Field values (YAML mapping or CSV record)
+ * @param index - Zero-based row index, for errors
+ */
+function toImportRow(raw: Record<string, unknown>, index: number): ImportRow {
+  const values: Partial<Record<ImportField, unknown>> = {}
+  for (const [name, value] of Object.entries(raw)) {
+    const field = toFieldName(name)
+    if (!field) {
+      throw new TypeError(`Invalid import: unknown field "${name}" in row ${index + 1}. Fields: ${FIELDS.join(', ')}`)
+    }
+    // Empty CSV cells and YAML nulls mean "not set"
+    if (value !== null && value !== undefined && value !== '') {
+      values[field] = typeof value === 'number' ? String(value) : value
+    }
+  }
+
+  const row = typeof values.key === 'string' ? `"${values.key}"` : `row ${index + 1}`
+  if (typeof values.key !== 'string' || !KEY_PATTERN.test(values.key)) {
+    throw new TypeError(`Invalid import: ${row} needs a "key" of letters, digits, and . _ : / -`)
+  }
+  if (typeof values.title !== 'string' || values.title.trim().length === 0) {
+    throw new TypeError(`Invalid import: ${row} needs a non-empty "title"`)
+  }
+  for (const field of ['body', 'type', 'milestone', 'parent'] as const) {
+    if (values[field] !== undefined && typeof values[field] !== 'string') {
+      throw new TypeError(`Invalid import: "${field}" of ${row} must be a string`)
+    }
+  }
+
+  return {
+    key: values.key,
+    title: values.title.trim(),
+    ...(values.body !== undefined && { body: values.body as string }),
+    ...(values.type !== undefined && { type: (values.type as string).trim() }),
+    labels: toList(values.labels, 'labels', row),
+    assignees: toList(values.assignees, 'assignees', row),
+    ...(values.milestone !== undefined && { milestone: (values.milestone as string).trim() }),
+    projects: toList(values.projects, 'projects', row),
+    ...(values.parent !== undefined && { parent: (values.parent as string).trim() }),
+    blockedBy: toList(values.blockedBy, 'blockedBy', row),
+  }
+}
+
+/**
+ * Parse an import file
+ *
+ * YAML holds a list of rows or a mapping with an `issues` list. CSV starts with
+ * a header row; column names follow the YAML fields (`blocked_by` and
+ * `blocked-by` also work).
+ *
+ * @param text - File content
+ * @param format - yaml (also accepts JSON) or csv
+ * @returns Rows in file order
+ * @throws TypeError if the file is malformed
+ */
+export function parseImport(text: string, format: ImportFormat): ImportRow[] {
+  let records: Record<string, unknown>[]
+
+  if (format === 'csv') {
+    const [header, ...rows] = parseCsv(text)
+    if (!header) {
+      throw new TypeError('Invalid import: the CSV file is empty')
+    }
+    records = rows.map((cells, index) => {
+      if (cells.length > header.length) {
+        throw new TypeError(`Invalid import: row ${index + 1} has more cells than the header`)
+      }
+      return Object.fromEntries(header.map((name, i) => [name.trim(), cells[i] ?? '']))
+    })
+  }
+  else {
+    let data: unknown
+    try {
+      data = YAML.parse(text)
+    }
+    catch (error) {
+      throw new TypeError(`Invalid import: ${error instanceof Error ? error.message : String(error)}`)
+    }
+    const list = data && typeof data === 'object' && !Array.isArray(data)
+      ? (data as Record<string, unknown>).issues
+      : data
+    if (!Array.isArray(list)) {
+      throw new TypeError('Invalid import: expected a list of issues (or an "issues" list)')
+    }
+    records = list.map((item, index) => {
+      if (!item || typeof item !== 'object' || Array.isArray(item)) {
+        throw new TypeError(`Invalid import: row ${index + 1} must be a mapping`)
+      }
+      return item as Record<string, unknown>
+    })
+  }
+
+  if (records.length === 0) {
+    throw new TypeError('Invalid import: no issues found')
+  }
+  return records.map(toImportRow)
+}
+
+/**
+ * Order rows for import: parents before children, blockers before the issues they block
+ *
+ * Rows otherwise keep their file order.
+ *
+ * @param rows - Parsed rows
+ * @returns Rows in import order
+ * @throws TypeError on duplicate or unknown keys and on cycles
+ */
+export function orderImport(rows: ImportRow[]): ImportRow[] {
+  const byKey = new Map<string, ImportRow>()
+  for (const row of rows) {
+    if (byKey.has(row.key)) {
+      throw new TypeError(`Invalid import: duplicate key "${row.key}"`)
+    }
+    byKey.set(row.key, row)
+  }
+
+  const resolve = (row: ImportRow, key: string, field: string) => {
+    const target = byKey.get(key)
+    if (!target) {
+      throw new TypeError(`Invalid import: ${field} of "${row.key}" names unknown key "${key}"`)
+    }
+    if (target === row) {
+      throw new TypeError(`Invalid import: "${row.key}" names itself as ${field}`)
+    }
+    return target
+  }
+
+  const prerequisites = new Map(rows.map(row => [row, [
+    ...(row.parent !== undefined ? [resolve(row, row.parent, 'parent')] : []),
+    ...row.blockedBy.map(key => resolve(row, key, 'blockedBy')),
+  ]]))
+
+  const ordered = orderByPrerequisites(rows, row => prerequisites.get(row)!)
+  if (ordered.remaining.length > 0) {
+    throw new TypeError(`Invalid import: circular parent or dependency between ${ordered.remaining.map(row => row.key).join(', ')}`)
+  }
+  return ordered.items
+}
+
+/**
+ * Append the external-key marker to an issue body
+ *
+ * @param body - Body from the import file (optional)
+ * @param key - Row key
+ * @returns Body ending with the marker
+ */
+export function withImportKey(body: string | undefined, key: string): string {
+  const marker = `<!-- ${IMPORT_KEY_MARKER}=${key} -->`
+  const text = body?.trim() ?? ''
+  return text.length > 0 ? `${text}\n\n${marker}` : marker
+}
+
+/**
+ * Keep an existing issue body, appending the external-key marker if it is missing
+ *
+ * @param body - Current issue body
+ * @param key - Row key
+ * @returns The body unchanged when it already carries the key, otherwise the body with the marker
+ */
+export function ensureImportKey(body: string, key: string): string {
+  return extractImportKey(body) === key ? body : withImportKey(body, key)
+}
+
+/**
+ * Read the external key of an imported issue
+ *
+ * @param body - Issue body
+ * @returns The key, or null for issues that were not imported
+ */
+export function extractImportKey(body: string): string | null {
+  return body.match(MARKER_PATTERN)?.[1] ?? null
+}
+
+/**
+ * Index previously imported issues by external key
+ *
+ * @param issues - Issues with their bodies
+ * @returns Issues by key (the first issue wins if a key appears twice)
+ */
+export function indexImportedIssues<T extends { body: string }>(issues: T[]): Map<string, T> {
+  const byKey = new Map<string, T>()
+  for (const issue of issues) {
+    const key = extractImportKey(issue.body)
+    if (key !== null && !byKey.has(key)) {
+      byKey.set(key, issue)
+    }
+  }
+  return byKey
+}
@@ -0,0 +1,326 @@
+/**
+ * Issue plans for bulk sub-issue creation
+ *
+ * A plan is a tree of issues written as YAML (or JSON) or as a markdown task
+ * list. Entries can name each other by local key to declare "blocked by"
+ * dependencies, and are created parents-first and blockers-first.
+ *
+ * YAML:
+ * ```yaml
+ * - key: schema
+ *   title: Design schema
+ *   type: Task
+ *   labels: [db]
+ *   children:
+ *     - title: Review with DBA
+ * - title: Implement API
+ *   assignees: [octocat]
+ *   blockedBy: [schema]
+ * ```
+ *
+ * Markdown (attributes go in a trailing `{...}` block, indented text is the body):
+ * ```markdown
+ * - [ ] Design schema {key=schema type=Task labels=db}
+ *   - [ ] Review with DBA
+ * - [ ] Implement API {assignees=octocat blocked-by=schema}
+ * ```
+ *
+ * Field names ignore case, `-`, and `_`, so `blockedBy`, `blocked-by`, and
+ * `blocked_by` work in both formats.
+ */
+
+import { extname } from 'node:path'
+import { YAML } from 'bun'
+
+/**
+ * Issue to create, with its sub-issues
+ */
+export interface PlanEntry {
+  /** Local key other entries use in blockedBy */
+  key?: string
+  title: string
+  body?: string
+  /** Issue type name */
+  type?: string
+  labels: string[]
+  assignees: string[]
+  /** Keys of entries blocking this one */
+  blockedBy: string[]
+  children: PlanEntry[]
+}
+
+/**
+ * Plan entry in creation order, with the entry it is a sub-issue of
+ */
+export interface PlannedIssue {
+  entry: PlanEntry
+  /** Parent entry, or undefined for top-level entries (sub-issues of the command's parent) */
+  parent?: PlanEntry
+}
+
+export type PlanFormat = 'yaml' | 'markdown'
+
+const TASK_PATTERN = /^(\s*)[-*+] \[[ x]\] (.*)$/i
+const ATTRIBUTES_PATTERN = /\s*\{([^{}]*)\}\s*$/
+
+/**
+ * Pick the plan format from the file extension, or from the content for stdin
+ *
+ * @param filePath - Plan file path ("-" for stdin)
+ * @param text - Plan content
+ */
+export function detectPlanFormat(filePath: string, text: string): PlanFormat {
+  const extension = extname(filePath).toLowerCase()
+  if (extension === '.md' || extension === '.markdown') {
+    return 'markdown'
+  }
+  if (extension === '.yml' || extension === '.yaml' || extension === '.json') {
+    return 'yaml'
+  }
+  const firstLine = text.split('\n').find(line => line.trim().length > 0) ?? ''
+  return TASK_PATTERN.test(firstLine) ? 'markdown' : 'yaml'
+}
+
+/**
+ * Normalize field names, ignoring case, `-`, `_`, and spaces (blocked-by → blockedby)
+ */
+function normalizeFieldNames<T>(fields: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(fields).map(([name, value]) => [name.replace(/[-_\s]/g, '').toLowerCase(), value]))
+}
+
+/**
+ * Normalize a string-or-list field
+ */
+function toList(value: unknown, field: string, title: string): string[] {
+  if (value === undefined || value === null) {
+    return []
+  }
+  if (typeof value === 'string') {
+    return value.split(',').map(item => item.trim()).filter(Boolean)
+  }
+  if (Array.isArray(value) && value.every(item => typeof item === 'string' || typeof item === 'number')) {
+    return value.map(item => String(item).trim()).filter(Boolean)
+  }
+  throw new TypeError(`Invalid plan: "${field}" of "${title}" must be a string or a list of strings`)
+}
+
+/**
+ * Validate one YAML entry and its children
+ */
+function toPlanEntry(value: unknown): PlanEntry {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new TypeError('Invalid plan: every entry must be a mapping with a title')
+  }
+  const raw = normalizeFieldNames(value as Record<string, unknown>)
+  if (typeof raw.title !== 'string' || raw.title.trim().length === 0) {
+    throw new TypeError('Invalid plan: every entry needs a non-empty "title"')
+  }
+  const title = raw.title.trim()
+
+  for (const field of ['key', 'body', 'type'] as const) {
+    if (raw[field] !== undefined && raw[field] !== null && typeof raw[field] !== 'string') {
+      throw new TypeError(`Invalid plan: "${field}" of "${title}" must be a string`)
+    }
+  }
+  if (raw.children !== undefined && raw.children !== null && !Array.isArray(raw.children)) {
+    throw new TypeError(`Invalid plan: "children" of "${title}" must be a list`)
+  }
+
+  return {
+    ...(typeof raw.key === 'string' && { key: raw.key }),
+    title,
+    ...(typeof raw.body === 'string' && { body: raw.body }),
+    ...(typeof raw.type === 'string' && { type: raw.type }),
+    labels: toList(raw.labels, 'labels', title),
+    assignees: toList(raw.assignees, 'assignees', title),
+    blockedBy: toList(raw.blockedby, 'blockedBy', title),
+    children: ((raw.children as unknown[] | undefined) ?? []).map(toPlanEntry),
+  }
+}
+
+/**
+ * Parse a YAML (or JSON) plan: a list of entries, or a mapping with an `issues` list
+ */
+function parseYamlPlan(text: string): PlanEntry[] {
+  let data: unknown
+  try {
+    data = YAML.parse(text)
+  }
+  catch (error) {
+    throw new TypeError(`Invalid plan: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  const entries = data && typeof data === 'object' && !Array.isArray(data)
+    ? (data as Record<string, unknown>).issues
+    : data
+  if (!Array.isArray(entries)) {
+    throw new TypeError('Invalid plan: expected a list of issues (or an "issues" list)')
+  }
+  return entries.map(toPlanEntry)
+}
+
+/**
+ * Parse a markdown task list plan
+ *
+ * Nesting follows indentation. Non-task lines indented under a task become its
+ * body; other lines (headings, prose) are ignored.
+ */
+function parseMarkdownPlan(text: string): PlanEntry[] {
+  const roots: PlanEntry[] = []
+  const stack: { indent: number, entry: PlanEntry, bodyLines: string[] }[] = []
+  const finished: { entry: PlanEntry, bodyLines: string[] }[] = []
+
+  for (const line of text.split('\n')) {
+    const task = line.match(TASK_PATTERN)
+    const indent = line.length - line.trimStart().length
+
+    if (!task) {
+      const current = stack.at(-1)
+      if (current && (indent > current.indent || line.trim().length === 0)) {
+        current.bodyLines.push(line.slice(Math.min(indent, current.indent + 2)))
+      }
+      continue
+    }
+
+    while (stack.length > 0 && stack.at(-1)!.indent >= indent) {
+      finished.push(stack.pop()!)
+    }
+
+    let title = task[2]!
+    let attributes: Record<string, string> = {}
+    const block = title.match(ATTRIBUTES_PATTERN)
+    if (block) {
+      title = title.slice(0, block.index)
+      for (const token of block[1]!.trim().split(/\s+/).filter(Boolean)) {
+        const [name, ...rest] = token.split('=')
+        if (rest.length === 0) {
+          throw new TypeError(`Invalid plan: expected name=value in "{${block[1]}}"`)
+        }
+        attributes[name!] = rest.join('=')
+      }
+      attributes = normalizeFieldNames(attributes)
+    }
+
+    const entry: PlanEntry = {
+      ...(attributes.key !== undefined && { key: attributes.key }),
+      title: title.trim(),
+      ...(attributes.type !== undefined && { type: attributes.type }),
+      labels: toList(attributes.labels ?? attributes.label, 'labels', title),
+      assignees: toList(attributes.assignees ?? attributes.assignee, 'assignees', title),
+      blockedBy: toList(attributes.blockedby, 'blocked-by', title),
+      children: [],
+    }
+    if (entry.title.length === 0) {
+      throw new TypeError(`Invalid plan: task without a title: "${line.trim()}"`)
+    }
+
+    const parent = stack.at(-1)
+    if (parent) {
+      parent.entry.children.push(entry)
+    }
+    else {
+      roots.push(entry)
+    }
+    stack.push({ indent, entry, bodyLines: [] })
+  }
+  finished.push(...stack)
+
+  for (const { entry, bodyLines } of finished) {
+    const body = bodyLines.join('\n').trim()
+    if (body.length > 0) {
+      entry.body = body
+    }
+  }
+
+  if (roots.length === 0) {
+    throw new TypeError('Invalid plan: no "- [ ] task" items found')
+  }
+  return roots
+}
+
+/**
+ * Parse a plan
+ *
+ * @param text - Plan content
+ * @param format - yaml (also accepts JSON) or markdown
+ * @returns Top-level entries
+ * @throws TypeError if the plan is malformed
+ */
+export function parsePlan(text: string, format: PlanFormat): PlanEntry[] {
+  return format === 'markdown' ? parseMarkdownPlan(text) : parseYamlPlan(text)
+}
+
+/**
+ * Order items so each comes after its prerequisites, otherwise keeping input order
+ *
+ * @param items - Items in preferred order
+ * @param prerequisitesOf - Items that must come first (each must be in items)
+ * @returns Ordered items, and the items left over because they form a cycle
+ */
+export function orderByPrerequisites<T>(items: T[], prerequisitesOf: (item: T) => T[]): { items: T[], remaining: T[] } {
+  // Repeatedly take the first item whose prerequisites are all placed
+  const ordered: T[] = []
+  const placed = new Set<T>()
+  let remaining = items
+  while (remaining.length > 0) {
+    const next = remaining.find(item => prerequisitesOf(item).every(p => placed.has(p)))
+    if (next === undefined) {
+      break
+    }
+    ordered.push(next)
+    placed.add(next)
+    remaining = remaining.filter(item => item !== next)
+  }
+
+  return { items: ordered, remaining }
+}
+
+/**
+ * Order plan entries for creation: parents before children, blockers before the issues they block
+ *
+ * Entries otherwise keep their plan order (depth-first).
+ *
+ * @param entries - Top-level plan entries
+ * @returns Every entry with its parent, in creation order
+ * @throws TypeError on duplicate or unknown keys and on dependency cycles
+ */
+export function orderPlan(entries: PlanEntry[]): PlannedIssue[] {
+  const planned: PlannedIssue[] = []
+  const visit = (entry: PlanEntry, parent?: PlanEntry) => {
+    planned.push({ entry, parent })
+    entry.children.forEach(child => visit(child, entry))
+  }
+  entries.forEach(entry => visit(entry))
+
+  const byKey = new Map<string, PlanEntry>()
+  for (const { entry } of planned) {
+    if (entry.key === undefined) {
+      continue
+    }
+    if (byKey.has(entry.key)) {
+      throw new TypeError(`Invalid plan: duplicate key "${entry.key}"`)
+    }
+    byKey.set(entry.key, entry)
+  }
+
+  const prerequisites = new Map<PlanEntry, PlanEntry[]>()
+  for (const { entry, parent } of planned) {
+    const blockers = entry.blockedBy.map((key) => {
+      const blocker = byKey.get(key)
+      if (!blocker) {
+        throw new TypeError(`Invalid plan: "${entry.title}" is blocked by unknown key "${key}"`)
+      }
+      return blocker
+    })
+    prerequisites.set(entry, parent ? [parent, ...blockers] : blockers)
+  }
+
+  const ordered = orderByPrerequisites(planned.map(({ entry }) => entry), entry => prerequisites.get(entry)!)
+  if (ordered.remaining.length > 0) {
+    const titles = ordered.remaining.map(entry => entry.key ?? entry.title).join(', ')
+    throw new TypeError(`Invalid plan: circular dependency between ${titles}`)
+  }
+
+  const byEntry = new Map(planned.map(item => [item.entry, item]))
+  return ordered.items.map(entry => byEntry.get(entry)!)
+}
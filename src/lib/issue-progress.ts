@@ -0,0 +1,117 @@
+/**
+ * Epic progress reports
+ *
+ * Aggregates the whole sub-issue subtree of a parent issue: open/closed counts,
+ * breakdowns by issue type, assignee and label, open issues in overdue
+ * milestones, and open issues still waiting on open blockers.
+ */
+
+import type { ProgressBreakdownEntry, ProgressReportIssue, ProgressReportOutput } from './formatters'
+import type { SubIssueTreeNode } from './github'
+import type { RepoInfo } from './issue-ref'
+import { listBlockedByMany } from './github'
+import { formatIssueRef, toIssueRef } from './issue-ref'
+
+/**
+ * Hidden marker identifying the progress comment on the parent issue
+ */
+export const PROGRESS_COMMENT_MARKER = '<!-- gh-please:progress -->'
+
+/**
+ * Group name for issues without an issue type
+ */
+export const NO_TYPE = '(no type)'
+
+/**
+ * Group name for issues without assignees
+ */
+export const UNASSIGNED = '(unassigned)'
+
+/**
+ * Every issue below the root, depth-first in sub-issue order
+ */
+function flattenSubtree(node: SubIssueTreeNode): SubIssueTreeNode[] {
+  return node.children.flatMap(child => [child, ...flattenSubtree(child)])
+}
+
+/**
+ * Count open and closed issues per group; an issue counts once in each of its groups
+ *
+ * Groups are sorted by size (largest first), then by name.
+ */
+function countBy(issues: SubIssueTreeNode[], groupsOf: (issue: SubIssueTreeNode) => string[]): ProgressBreakdownEntry[] {
+  const groups = new Map<string, ProgressBreakdownEntry>()
+  for (const issue of issues) {
+    for (const name of new Set(groupsOf(issue))) {
+      const entry = groups.get(name) ?? { name, open: 0, closed: 0 }
+      if (issue.state === 'CLOSED') {
+        entry.closed++
+      }
+      else {
+        entry.open++
+      }
+      groups.set(name, entry)
+    }
+  }
+  return [...groups.values()].sort((a, b) =>
+    (b.open + b.closed) - (a.open + a.closed) || a.name.localeCompare(b.name),
+  )
+}
+
+/**
+ * Build a progress report for a sub-issue tree
+ *
+ * Blockers of the open issues in the subtree are looked up in batched requests.
+ *
+ * @param tree - Parent issue with its sub-issue tree (from getSubIssueTree)
+ * @param now - Reference time for overdue milestones
+ * @returns Report data for the output formatters
+ */
+export async function buildProgressReport(tree: SubIssueTreeNode, now: Date = new Date()): Promise<ProgressReportOutput> {
+  const issues = flattenSubtree(tree)
+  const context: RepoInfo = toIssueRef(tree.repository, tree.number, { owner: '', repo: '' })
+  const toReportIssue = (issue: { repository?: string, number: number, title: string, url: string }): ProgressReportIssue => ({
+    ref: formatIssueRef(toIssueRef(issue.repository, issue.number, context), context),
+    title: issue.title,
+    url: issue.url,
+  })
+
+  const closed = issues.filter(issue => issue.state === 'CLOSED').length
+  const openIssues = issues.filter(issue => issue.state !== 'CLOSED')
+
+  const overdue = openIssues
+    .filter(issue => issue.milestone?.dueOn && new Date(issue.milestone.dueOn) < now)
+    .map(issue => ({
+      ...toReportIssue(issue),
+      milestone: issue.milestone!.title,
+      dueOn: issue.milestone!.dueOn!,
+    }))
+
+  const blockersByIssue = await listBlockedByMany(openIssues.map(issue => issue.nodeId))
+  const blocked: ProgressReportOutput['blocked'] = []
+  for (const issue of openIssues) {
+    const blockers = (blockersByIssue.get(issue.nodeId) ?? []).filter(blocker => blocker.state === 'OPEN')
+    if (blockers.length > 0) {
+      blocked.push({
+        ...toReportIssue(issue),
+        blockers: blockers.map(toReportIssue),
+      })
+    }
+  }
+
+  return {
+    parent: { number: tree.number, title: tree.title, url: tree.url },
+    progress: {
+      open: openIssues.length,
+      closed,
+      total: issues.length,
+      percent: issues.length > 0 ? Math.round((closed / issues.length) * 100) : 0,
+    },
+    byType: countBy(issues, issue => [issue.issueType ?? NO_TYPE]),
+    byAssignee: countBy(issues, issue => issue.assignees.length > 0 ? issue.assignees.map(login => `@${login}`) : [UNASSIGNED]),
+    byLabel: countBy(issues, issue => issue.labels),
+    overdue,
+    blocked,
+    truncated: issues.some(issue => issue.truncated) || tree.truncated,
+  }
+}
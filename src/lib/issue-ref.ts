@@ -0,0 +1,186 @@
+/**
+ * Issue references across repositories
+ *
+ * Issue arguments accept `123`, `#123`, `owner/repo#123`, or an issue URL
+ * (`https://github.com/owner/repo/issues/123`). Plain numbers refer to the
+ * repository given by --repo or the current clone.
+ */
+
+import { getIssueNodeIds, getRepositoryUrl, setRepositoryHost } from './github'
+import { getRepoInfo, parseRepoString } from './github-api'
+
+/**
+ * Repository an issue belongs to
+ */
+export interface RepoInfo {
+  owner: string
+  repo: string
+}
+
+/**
+ * Issue identified by repository and number
+ */
+export interface IssueRef extends RepoInfo {
+  number: number
+}
+
+/**
+ * Issue references resolved against a repository context
+ */
+export interface ResolvedIssueRefs {
+  /** Repository for plain numbers and for shortening output (--repo, the current clone, or the first reference) */
+  context: RepoInfo
+  refs: IssueRef[]
+}
+
+/**
+ * Options for resolveIssueRefs
+ */
+export interface ResolveIssueRefsOptions {
+  /** Resolve --repo or the current clone even when every reference names its repository */
+  requireContext?: boolean
+}
+
+const NUMBER_PATTERN = /^#?(\d+)$/
+const QUALIFIED_PATTERN = /^([\w.-]+)\/([\w.-]+)#(\d+)$/
+const URL_PATTERN = /^https?:\/\/([^/]+)\/([^/]+)\/([^/]+)\/issues\/(\d+)\/?(?:[?#].*)?$/i
+
+/**
+ * Parse an issue reference
+ *
+ * @param value - `123`, `#123`, `owner/repo#123`, or an issue URL
+ * @returns Number plus owner/repo (and host for URLs) when the reference names a repository
+ * @throws TypeError if the reference is not recognized
+ *
+ * @example
+ * ```typescript
+ * parseIssueRef('42')                    // { number: 42 }
+ * parseIssueRef('acme/api#42')           // { owner: 'acme', repo: 'api', number: 42 }
+ * parseIssueRef('https://github.com/acme/api/issues/42')
+ * // { owner: 'acme', repo: 'api', number: 42, host: 'github.com' }
+ * ```
+ */
+export function parseIssueRef(value: string): Partial<RepoInfo> & { number: number, host?: string } {
+  const trimmed = value.trim()
+
+  const plain = trimmed.match(NUMBER_PATTERN)
+  if (plain) {
+    return { number: Number(plain[1]) }
+  }
+
+  const qualified = trimmed.match(QUALIFIED_PATTERN)
+  if (qualified) {
+    return { owner: qualified[1]!, repo: qualified[2]!, number: Number(qualified[3]) }
+  }
+
+  const url = trimmed.match(URL_PATTERN)
+  if (url) {
+    return { owner: url[2]!, repo: url[3]!, number: Number(url[4]), host: url[1]!.toLowerCase() }
+  }
+
+  throw new TypeError(
+    `Invalid issue reference: "${value}". Expected a number, owner/repo#number, or an issue URL`,
+  )
+}
+
+/**
+ * Check whether two repositories are the same (GitHub names are case-insensitive)
+ */
+export function isSameRepo(a: RepoInfo, b: RepoInfo): boolean {
+  return a.owner.toLowerCase() === b.owner.toLowerCase() && a.repo.toLowerCase() === b.repo.toLowerCase()
+}
+
+/**
+ * Resolve issue references, filling in the repository for plain numbers
+ *
+ * The current clone is only looked up when a plain number needs it (or when
+ * `requireContext` is set), so fully qualified references work outside a clone.
+ * URLs on another host switch the API host, like `--repo HOST/OWNER/REPO`.
+ *
+ * @param values - Issue reference arguments
+ * @param repoString - --repo option value
+ * @param options - Whether the repository context is always required
+ * @returns Context repository and one reference per value
+ * @throws TypeError if a reference is invalid
+ */
+export async function resolveIssueRefs(
+  values: string[],
+  repoString?: string,
+  options: ResolveIssueRefsOptions = {},
+): Promise<ResolvedIssueRefs> {
+  const parsed = values.map(parseIssueRef)
+
+  for (const ref of parsed) {
+    if (ref.host) {
+      setRepositoryHost(ref.host)
+    }
+  }
+
+  const needsContext = options.requireContext || repoString !== undefined || parsed.some(ref => !ref.owner)
+  const context: RepoInfo = needsContext
+    ? await getRepoInfo(repoString)
+    : { owner: parsed[0]!.owner!, repo: parsed[0]!.repo! }
+
+  return {
+    context,
+    refs: parsed.map(ref => ({
+      owner: ref.owner ?? context.owner,
+      repo: ref.repo ?? context.repo,
+      number: ref.number,
+    })),
+  }
+}
+
+/**
+ * Build a reference from a GraphQL `repository.nameWithOwner` value
+ *
+ * @param repository - owner/repo, or undefined to use the context repository
+ * @param number - Issue number
+ * @param context - Fallback repository
+ */
+export function toIssueRef(repository: string | undefined, number: number, context: RepoInfo): IssueRef {
+  if (!repository) {
+    return { ...context, number }
+  }
+  const { owner, repo } = parseRepoString(repository)
+  return { owner, repo, number }
+}
+
+/**
+ * Format a reference for output: `#123` in the context repository, `owner/repo#123` elsewhere
+ */
+export function formatIssueRef(ref: IssueRef, context: RepoInfo): string {
+  return isSameRepo(ref, context) ? `#${ref.number}` : `${ref.owner}/${ref.repo}#${ref.number}`
+}
+
+/**
+ * Get the web URL of a referenced issue
+ */
+export function getIssueRefUrl(ref: IssueRef): string {
+  return `${getRepositoryUrl(ref.owner, ref.repo)}/issues/${ref.number}`
+}
+
+/**
+ * Resolve Node IDs for references, batching the lookups per repository
+ *
+ * @param refs - Issue references (may span repositories)
+ * @returns Node IDs in the same order as the references
+ * @throws NotFoundError if any issue does not exist
+ */
+export async function getIssueRefNodeIds(refs: IssueRef[]): Promise<string[]> {
+  const groups = new Map<string, { repo: RepoInfo, numbers: number[] }>()
+  for (const ref of refs) {
+    const key = `${ref.owner}/${ref.repo}`.toLowerCase()
+    const group = groups.get(key) ?? { repo: ref, numbers: [] }
+    group.numbers.push(ref.number)
+    groups.set(key, group)
+  }
+
+  const nodeIds = new Map<string, string>()
+  for (const [key, { repo, numbers }] of groups) {
+    const ids = await getIssueNodeIds(repo.owner, repo.repo, numbers)
+    numbers.forEach((number, index) => nodeIds.set(`${key}#${number}`, ids[index]!))
+  }
+
+  return refs.map(ref => nodeIds.get(`${`${ref.owner}/${ref.repo}`.toLowerCase()}#${ref.number}`)!)
+}
@@ -0,0 +1,117 @@
+/**
+ * Bulk issue type assignment
+ *
+ * Turns search results (optionally per label, for label → type mappings) into
+ * a plan of issues to retype, issues already of the right type, and issues
+ * whose labels map to different types.
+ */
+
+import type { TypedIssueInfo } from './github'
+
+/**
+ * Label whose issues get an issue type (from `--from-label bug=Bug`)
+ */
+export interface LabelTypeMapping {
+  label: string
+  type: string
+}
+
+/**
+ * Issue found by a search, with the type it should get
+ */
+export interface RetypeMatch {
+  issue: TypedIssueInfo
+  type: string
+  /** Label the issue was found by (label mappings only) */
+  label?: string
+}
+
+/**
+ * Issue in a retype plan
+ */
+export interface RetypePlanItem {
+  issue: TypedIssueInfo
+  type: string
+  /** Labels the issue was found by */
+  labels: string[]
+  /** False when the issue already has the type */
+  retype: boolean
+}
+
+/**
+ * Issue whose labels map to different types; left unchanged
+ */
+export interface RetypeConflict {
+  issue: TypedIssueInfo
+  types: string[]
+}
+
+export interface RetypePlan {
+  items: RetypePlanItem[]
+  conflicts: RetypeConflict[]
+}
+
+/**
+ * Parse a label → type mapping (e.g., `bug=Bug,enhancement=Feature`)
+ *
+ * @param value - Comma-separated label=Type pairs
+ * @returns Mappings in the given order
+ * @throws TypeError if a pair is malformed or a label is mapped twice
+ */
+export function parseLabelTypeMapping(value: string): LabelTypeMapping[] {
+  const mappings: LabelTypeMapping[] = []
+
+  for (const pair of value.split(',').map(item => item.trim()).filter(Boolean)) {
+    const separator = pair.lastIndexOf('=')
+    const label = pair.slice(0, separator).trim()
+    const type = pair.slice(separator + 1).trim()
+    if (separator === -1 || label.length === 0 || type.length === 0) {
+      throw new TypeError(`Invalid label mapping "${pair}". Expected label=Type (e.g., bug=Bug,enhancement=Feature)`)
+    }
+    if (mappings.some(mapping => mapping.label.toLowerCase() === label.toLowerCase())) {
+      throw new TypeError(`Label "${label}" is mapped more than once`)
+    }
+    mappings.push({ label, type })
+  }
+
+  if (mappings.length === 0) {
+    throw new TypeError('Invalid label mapping: expected label=Type pairs (e.g., bug=Bug,enhancement=Feature)')
+  }
+  return mappings
+}
+
+/**
+ * Merge search matches into a retype plan
+ *
+ * An issue found several times is retyped once; if its matches ask for
+ * different types it becomes a conflict instead. Types compare case-insensitively.
+ *
+ * @param matches - Search matches, in result order
+ * @returns Plan items and conflicts, in order of first match
+ */
+export function planRetype(matches: RetypeMatch[]): RetypePlan {
+  const byIssue = new Map<string, RetypeMatch[]>()
+  for (const match of matches) {
+    byIssue.set(match.issue.nodeId, [...(byIssue.get(match.issue.nodeId) ?? []), match])
+  }
+
+  const items: RetypePlanItem[] = []
+  const conflicts: RetypeConflict[] = []
+  for (const issueMatches of byIssue.values()) {
+    const issue = issueMatches[0]!.issue
+    const types = [...new Map(issueMatches.map(match => [match.type.toLowerCase(), match.type])).values()]
+    if (types.length > 1) {
+      conflicts.push({ issue, types })
+      continue
+    }
+
+    items.push({
+      issue,
+      type: types[0]!,
+      labels: issueMatches.flatMap(match => match.label !== undefined ? [match.label] : []),
+      retype: issue.issueType?.toLowerCase() !== types[0]!.toLowerCase(),
+    })
+  }
+
+  return { items, conflicts }
+}
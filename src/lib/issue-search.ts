@@ -0,0 +1,85 @@
+/**
+ * GitHub issue search queries built from command filters
+ */
+
+import type { RepoInfo } from './issue-ref'
+
+/**
+ * Filters accepted by commands that select issues by search
+ */
+export interface IssueSearchFilters {
+  /** Only open or closed issues (both when omitted) */
+  state?: 'open' | 'closed'
+  /** Milestone title */
+  milestone?: string
+  /** Labels the issues must all have */
+  labels?: string[]
+  /** Issue type name */
+  type?: string
+}
+
+/**
+ * Split a comma-separated --label value into label names
+ */
+export function parseLabelList(value: string | undefined): string[] {
+  return (value ?? '').split(',').map(label => label.trim()).filter(Boolean)
+}
+
+/**
+ * Quote a search qualifier value
+ */
+function quote(value: string): string {
+  return `"${value.replace(/"/g, '\\"')}"`
+}
+
+/**
+ * Build a search query for the issues of a repository
+ *
+ * @param repo - Repository to search
+ * @param filters - State, milestone, labels, and type to match
+ * @returns Search query (e.g., `repo:o/r is:issue is:open milestone:"v1" label:"bug"`)
+ */
+export function buildIssueSearchQuery(repo: RepoInfo, filters: IssueSearchFilters = {}): string {
+  const qualifiers = [`repo:${repo.owner}/${repo.repo}`, 'is:issue']
+  if (filters.state) {
+    qualifiers.push(`is:${filters.state}`)
+  }
+  if (filters.milestone !== undefined) {
+    qualifiers.push(`milestone:${quote(filters.milestone)}`)
+  }
+  for (const label of filters.labels ?? []) {
+    qualifiers.push(`label:${quote(label)}`)
+  }
+  if (filters.type !== undefined) {
+    qualifiers.push(`type:${quote(filters.type)}`)
+  }
+  return qualifiers.join(' ')
+}
+
+/**
+ * Issue fields matched by matchesIssueFilters
+ */
+export interface FilterableIssue {
+  state: string
+  /** Milestone title */
+  milestone: string | null
+  labels: string[]
+  /** Issue type name */
+  issueType: string | null
+}
+
+/**
+ * Check an issue against filters without a search (e.g., sub-issues in other repositories)
+ * Milestone, label, and type names match ignoring case, as search does.
+ *
+ * @param issue - Issue to check
+ * @param filters - State, milestone, labels, and type to match
+ * @returns Whether the issue matches every filter
+ */
+export function matchesIssueFilters(issue: FilterableIssue, filters: IssueSearchFilters): boolean {
+  const same = (a: string | null, b: string) => a !== null && a.toLowerCase() === b.toLowerCase()
+  return (filters.state === undefined || same(issue.state, filters.state))
+    && (filters.milestone === undefined || same(issue.milestone, filters.milestone))
+    && (filters.labels ?? []).every(label => issue.labels.some(name => same(name, label)))
+    && (filters.type === undefined || same(issue.issueType, filters.type))
+}
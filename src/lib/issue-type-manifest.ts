@@ -0,0 +1,220 @@
+/**
+ * Declarative issue type manifests
+ *
+ * A manifest lists the issue types an organization should have. Syncing
+ * compares it with the organization's current types and plans the creates,
+ * updates and (with prune) deletes needed to match it.
+ *
+ * ```yaml
+ * types:
+ *   - name: Bug
+ *     description: Something isn't working
+ *     color: red
+ *   - name: Spike
+ *     color: purple
+ *     enabled: false
+ * ```
+ *
+ * Fields left out of an entry are not changed on existing types.
+ */
+
+import type { IssueTypeColor, IssueTypeInfo, IssueTypeInput } from './github'
+import { YAML } from 'bun'
+import { ISSUE_TYPE_COLORS, normalizeIssueTypeColor } from './github'
+
+/**
+ * Issue type declared in a manifest
+ */
+export interface IssueTypeManifestEntry {
+  name: string
+  description?: string
+  color?: IssueTypeColor
+  enabled?: boolean
+}
+
+/**
+ * Field change of an existing issue type
+ */
+export interface IssueTypeFieldChange {
+  field: 'name' | 'description' | 'color' | 'enabled'
+  from: string
+  to: string
+}
+
+/**
+ * Planned change to an organization's issue types
+ */
+export type IssueTypeChange
+  = | { action: 'create', entry: IssueTypeManifestEntry }
+    | { action: 'update', type: IssueTypeInfo, input: IssueTypeInput, changes: IssueTypeFieldChange[] }
+    | { action: 'delete', type: IssueTypeInfo }
+
+/**
+ * Validate one manifest entry
+ */
+function toManifestEntry(value: unknown): IssueTypeManifestEntry {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new TypeError('Invalid manifest: every type must be a mapping with a name')
+  }
+  const raw = value as Record<string, unknown>
+  if (typeof raw.name !== 'string' || raw.name.trim().length === 0) {
+    throw new TypeError('Invalid manifest: every type needs a non-empty "name"')
+  }
+  const name = raw.name.trim()
+
+  if (raw.description !== undefined && raw.description !== null && typeof raw.description !== 'string') {
+    throw new TypeError(`Invalid manifest: "description" of "${name}" must be a string`)
+  }
+  if (raw.enabled !== undefined && typeof raw.enabled !== 'boolean') {
+    throw new TypeError(`Invalid manifest: "enabled" of "${name}" must be true or false`)
+  }
+
+  let color: IssueTypeColor | undefined
+  if (raw.color !== undefined) {
+    color = typeof raw.color === 'string' ? normalizeIssueTypeColor(raw.color) ?? undefined : undefined
+    if (!color) {
+      throw new TypeError(
+        `Invalid manifest: "color" of "${name}" must be one of ${ISSUE_TYPE_COLORS.map(c => c.toLowerCase()).join(', ')}`,
+      )
+    }
+  }
+
+  return {
+    name,
+    ...(raw.description !== undefined && { description: (raw.description as string | null) ?? '' }),
+    ...(color && { color }),
+    ...(raw.enabled !== undefined && { enabled: raw.enabled as boolean }),
+  }
+}
+
+/**
+ * Parse an issue type manifest (YAML or JSON): a list of types, or a mapping with a `types` list
+ *
+ * @param text - Manifest content
+ * @returns Declared types in manifest order
+ * @throws TypeError if the manifest is malformed or names a type twice
+ */
+export function parseIssueTypeManifest(text: string): IssueTypeManifestEntry[] {
+  let data: unknown
+  try {
+    data = YAML.parse(text)
+  }
+  catch (error) {
+    throw new TypeError(`Invalid manifest: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  const list = data && typeof data === 'object' && !Array.isArray(data)
+    ? (data as Record<string, unknown>).types
+    : data
+  if (!Array.isArray(list)) {
+    throw new TypeError('Invalid manifest: expected a list of types (or a "types" list)')
+  }
+
+  const entries = list.map(toManifestEntry)
+  const seen = new Set<string>()
+  for (const entry of entries) {
+    const key = entry.name.toLowerCase()
+    if (seen.has(key)) {
+      throw new TypeError(`Invalid manifest: type "${entry.name}" is declared more than once`)
+    }
+    seen.add(key)
+  }
+  return entries
+}
+
+/**
+ * Plan the changes that make an organization's issue types match a manifest
+ *
+ * Types are matched by name, ignoring case; a case-only difference renames the
+ * type. Types missing from the manifest are kept unless prune is set.
+ *
+ * @param current - Organization's issue types
+ * @param manifest - Declared types
+ * @param options - Sync options
+ * @param options.prune - Delete types missing from the manifest
+ * @returns Changes in manifest order, deletes last
+ */
+export function planIssueTypeSync(
+  current: IssueTypeInfo[],
+  manifest: IssueTypeManifestEntry[],
+  options: { prune?: boolean } = {},
+): IssueTypeChange[] {
+  const byName = new Map(current.map(type => [type.name.toLowerCase(), type]))
+  const changes: IssueTypeChange[] = []
+
+  for (const entry of manifest) {
+    const type = byName.get(entry.name.toLowerCase())
+    if (!type) {
+      changes.push({ action: 'create', entry })
+      continue
+    }
+    byName.delete(entry.name.toLowerCase())
+
+    const input: IssueTypeInput = {}
+    const fieldChanges: IssueTypeFieldChange[] = []
+    if (entry.name !== type.name) {
+      input.name = entry.name
+      fieldChanges.push({ field: 'name', from: type.name, to: entry.name })
+    }
+    if (entry.description !== undefined && entry.description !== (type.description ?? '')) {
+      input.description = entry.description
+      fieldChanges.push({ field: 'description', from: type.description ?? '', to: entry.description })
+    }
+    if (entry.color !== undefined && entry.color !== type.color.toUpperCase()) {
+      input.color = entry.color
+      fieldChanges.push({ field: 'color', from: type.color, to: entry.color })
+    }
+    if (entry.enabled !== undefined && entry.enabled !== type.isEnabled) {
+      input.isEnabled = entry.enabled
+      fieldChanges.push({ field: 'enabled', from: String(type.isEnabled), to: String(entry.enabled) })
+    }
+
+    if (fieldChanges.length > 0) {
+      changes.push({ action: 'update', type, input, changes: fieldChanges })
+    }
+  }
+
+  if (options.prune) {
+    for (const type of byName.values()) {
+      changes.push({ action: 'delete', type })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Render planned changes as a diff preview (`+` create, `~` update, `-` delete)
+ *
+ * @param changes - Planned changes
+ * @returns One or more lines per change
+ */
+export function formatIssueTypeChanges(changes: IssueTypeChange[]): string {
+  const lines: string[] = []
+
+  for (const change of changes) {
+    if (change.action === 'create') {
+      const { entry } = change
+      const details = [
+        entry.color ?? '',
+        entry.enabled === false ? 'disabled' : '',
+      ].filter(Boolean)
+      lines.push(`+ ${entry.name}${details.length > 0 ? ` (${details.join(', ')})` : ''}`)
+      if (entry.description) {
+        lines.push(`    description: "${entry.description}"`)
+      }
+    }
+    else if (change.action === 'update') {
+      lines.push(`~ ${change.type.name}`)
+      for (const { field, from, to } of change.changes) {
+        const quote = (value: string) => field === 'description' ? `"${value}"` : value
+        lines.push(`    ${field}: ${quote(from)} → ${quote(to)}`)
+      }
+    }
+    else {
+      lines.push(`- ${change.type.name}`)
+    }
+  }
+
+  return lines.join('\n')
+}
@@ -0,0 +1,47 @@
+/**
+ * Shared --limit / --all handling for list commands
+ */
+
+/**
+ * Default number of items fetched by list commands when neither --limit nor --all is given
+ */
+export const DEFAULT_LIST_LIMIT = 100
+
+/**
+ * Command options that control list size
+ */
+export interface ListLimitOptions {
+  limit?: string
+  all?: boolean
+}
+
+/**
+ * Resolve the effective item limit for a list command
+ *
+ * @param options - Command options with optional --limit and --all
+ * @returns Maximum number of items to fetch, or undefined to fetch everything
+ * @throws TypeError if --limit is not a positive integer
+ *
+ * @example
+ * ```typescript
+ * resolveListLimit({})                // 100
+ * resolveListLimit({ limit: '20' })   // 20
+ * resolveListLimit({ all: true })     // undefined
+ * ```
+ */
+export function resolveListLimit(options: ListLimitOptions): number | undefined {
+  if (options.all) {
+    return undefined
+  }
+
+  if (options.limit === undefined) {
+    return DEFAULT_LIST_LIMIT
+  }
+
+  const limit = Number(options.limit)
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new TypeError(`Invalid --limit value: "${options.limit}". Expected a positive integer`)
+  }
+
+  return limit
+}
@@ -46,6 +46,7 @@ const LEGACY_TYPE_PATTERNS: Array<{ pattern: RegExp, type: string }> = [
   { pattern: /Organization(\d+)$/, type: 'Organization' },
   { pattern: /IssueComment(\d+)$/, type: 'IssueComment' },
   { pattern: /PullRequestReviewComment(\d+)$/, type: 'PullRequestReviewComment' },
+  { pattern: /PullRequestReviewThread(\d+)$/, type: 'PullRequestReviewThread' },
   { pattern: /Commit(\d+)$/, type: 'Commit' },
   { pattern: /Release(\d+)$/, type: 'Release' },
   { pattern: /Label(\d+)$/, type: 'Label' },
@@ -1,3 +1,4 @@
+import { printOutput } from './github/dry-run'
 /**
  * Progress and status reporting utilities
  *
@@ -22,19 +23,19 @@ export interface ProgressIndicator {
 export function createProgressIndicator(): ProgressIndicator {
   return {
     start(message: string): void {
-      console.log(`📡 ${message}`)
+      printOutput(`📡 ${message}`)
     },
     update(message: string): void {
-      console.log(`⏳ ${message}`)
+      printOutput(`⏳ ${message}`)
     },
     success(message: string): void {
-      console.log(`✅ ${message}`)
+      printOutput(`✅ ${message}`)
     },
     error(message: string): void {
       console.error(`❌ ${message}`)
     },
     info(message: string): void {
-      console.log(`ℹ️ ${message}`)
+      printOutput(`ℹ️ ${message}`)
     },
   }
 }
@@ -43,22 +44,22 @@ export function createProgressIndicator(): ProgressIndicator {
  * Display authenticated user information
  */
 export function displayAuthenticatedUser(username: string): void {
-  console.log(`✅ Authenticated as @${username}`)
+  printOutput(`✅ Authenticated as @${username}`)
 }
 
 /**
  * Display available commands after successful installation
  */
 export function displayInstalledCommands(pluginName: string, commands: string[]): void {
-  console.log('')
-  console.log('Available commands:')
+  printOutput('')
+  printOutput('Available commands:')
 
   for (const command of commands) {
-    console.log(`  ${command}`)
+    printOutput(`  ${command}`)
   }
 
-  console.log('')
-  console.log(`Run 'gh please ${pluginName} --help' for more information.`)
+  printOutput('')
+  printOutput(`Run 'gh please ${pluginName} --help' for more information.`)
 }
 
 /**
@@ -66,10 +67,10 @@ export function displayInstalledCommands(pluginName: string, commands: string[])
  */
 export function displayAuthError(): void {
   console.error('❌ Not authenticated with GitHub')
-  console.log('Please authenticate first:')
-  console.log('  gh auth login')
-  console.log('Then try again:')
-  console.log('  gh please plugin install ai --premium')
+  printOutput('Please authenticate first:')
+  printOutput('  gh auth login')
+  printOutput('Then try again:')
+  printOutput('  gh please plugin install ai --premium')
 }
 
 /**
@@ -77,19 +78,19 @@ export function displayAuthError(): void {
  */
 export function displayRepoAccessError(repo: string): void {
   console.error(`❌ Repository not found or access denied`)
-  console.log('Verify access:')
-  console.log(`  gh repo view ${repo}`)
+  printOutput('Verify access:')
+  printOutput(`  gh repo view ${repo}`)
 }
 
 /**
  * Display installation completion message
  */
 export function displayInstallationComplete(pluginName: string): void {
-  console.log(`✅ Plugin '${pluginName}' installed successfully!`)
-  console.log('')
-  console.log('💡 Next steps:')
-  console.log('  1. Reload your shell: hash -r')
-  console.log(`  2. Try: gh please ${pluginName} --help`)
+  printOutput(`✅ Plugin '${pluginName}' installed successfully!`)
+  printOutput('')
+  printOutput('💡 Next steps:')
+  printOutput('  1. Reload your shell: hash -r')
+  printOutput(`  2. Try: gh please ${pluginName} --help`)
 }
 
 /**
@@ -97,13 +98,13 @@ export function displayInstallationComplete(pluginName: string): void {
  */
 export function displayGenericInstallError(error: string, premium = false): void {
   console.error(`❌ Installation failed: ${error}`)
-  console.log('')
-  console.log('💡 Troubleshooting:')
-  console.log('  1. Check your internet connection')
-  console.log('  2. Verify GitHub CLI is installed: gh --version')
-  console.log('  3. Check GitHub authentication: gh auth status')
+  printOutput('')
+  printOutput('💡 Troubleshooting:')
+  printOutput('  1. Check your internet connection')
+  printOutput('  2. Verify GitHub CLI is installed: gh --version')
+  printOutput('  3. Check GitHub authentication: gh auth status')
   const installCommand = premium
     ? 'gh please plugin install ai --premium'
     : 'gh please plugin install <name>'
-  console.log(`  4. Try installing again: ${installCommand}`)
+  printOutput(`  4. Try installing again: ${installCommand}`)
 }
@@ -0,0 +1,67 @@
+/**
+ * "Ready to work" queue
+ *
+ * Selects open issues whose blockers are all closed, in a deterministic order,
+ * so developers and agents can pick the next issue to work on.
+ */
+
+import type { IssueInfo } from './github'
+import { BATCH_CHUNK_SIZE, chunkItems, listBlockedByMany } from './github'
+
+/**
+ * Orders for the ready queue
+ * - order: sub-issue order under the parent
+ * - created: oldest first
+ */
+export const READY_SORTS = ['order', 'created'] as const
+
+export type ReadySort = typeof READY_SORTS[number]
+
+/**
+ * Sort candidate issues for the ready queue
+ *
+ * @param issues - Candidates, in sub-issue order when sorting by order
+ * @param sort - order keeps the input order; created sorts oldest first (ties by number)
+ * @returns Sorted copy of the issues
+ */
+export function sortReadyCandidates(issues: IssueInfo[], sort: ReadySort): IssueInfo[] {
+  if (sort === 'order') {
+    return [...issues]
+  }
+  return [...issues].sort((a, b) =>
+    (a.createdAt ?? '').localeCompare(b.createdAt ?? '') || a.number - b.number,
+  )
+}
+
+/**
+ * Keep the open candidates whose blockers are all closed
+ *
+ * Blockers are fetched in batches of candidates, in order, and fetching stops
+ * once `limit` ready issues are found, so asking for the next issue costs one request.
+ *
+ * @param candidates - Issues in queue order
+ * @param limit - Maximum number of ready issues (all when undefined)
+ * @returns Ready issues in queue order
+ */
+export async function findReadyIssues(candidates: IssueInfo[], limit?: number): Promise<IssueInfo[]> {
+  const ready: IssueInfo[] = []
+  const isFull = () => limit !== undefined && ready.length >= limit
+
+  for (const page of chunkItems(candidates.filter(issue => issue.state === 'OPEN'), BATCH_CHUNK_SIZE)) {
+    if (isFull()) {
+      break
+    }
+
+    const blockers = await listBlockedByMany(page.map(issue => issue.nodeId))
+    for (const issue of page) {
+      if (isFull()) {
+        break
+      }
+      if ((blockers.get(issue.nodeId) ?? []).every(blocker => blocker.state === 'CLOSED')) {
+        ready.push(issue)
+      }
+    }
+  }
+
+  return ready
+}
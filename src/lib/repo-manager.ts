@@ -4,36 +4,51 @@ import * as os from 'node:os'
 import * as path from 'node:path'
 import { getGhCommand } from './gh-command'
 import { runCliCommand } from './git-exec'
+import { getHost, isEnterpriseHost, setRepositoryHost } from './github/host'
 
 /**
- * Parse repository string in format "owner/repo" or GitHub URL
+ * Parse repository string in format "owner/repo", "HOST/owner/repo" or a repository URL
+ * (https://HOST/owner/repo, git@HOST:owner/repo.git). `host` is set only when given.
  */
-export function parseRepoString(repoStr: string): { owner: string, repo: string } {
+export function parseRepoString(repoStr: string): { owner: string, repo: string, host?: string } {
   if (!repoStr || repoStr.trim() === '') {
     throw new Error('Repository string cannot be empty')
   }
 
   // Handle owner/repo format
-  const simpleMatch = repoStr.match(/^([^/]+)\/([^/]+)$/)
+  const simpleMatch = repoStr.match(/^([^/:@]+)\/([^/:@]+)$/)
   if (simpleMatch) {
     return { owner: simpleMatch[1]!, repo: simpleMatch[2]! }
   }
 
-  // Handle GitHub URL format
-  const urlMatch = repoStr.match(/github\.com[/:]([\w.-]+)\/([\w.-]+?)(\.git)?$/)
+  // Handle HOST/owner/repo and URL formats on any host (github.com or GitHub Enterprise Server)
+  const urlMatch = repoStr.match(/^(?:https?:\/\/|ssh:\/\/)?(?:[\w.-]+@)?([\w-]+(?:\.[\w-]+)+)(?::\d+)?[/:]([\w.-]+)\/([\w.-]+?)(?:\.git)?\/?$/)
   if (urlMatch) {
-    return { owner: urlMatch[1]!, repo: urlMatch[2]! }
+    return { owner: urlMatch[2]!, repo: urlMatch[3]!, host: urlMatch[1]!.toLowerCase() }
   }
 
   throw new Error(`Invalid repository format: ${repoStr}. Expected "owner/repo" or GitHub URL`)
 }
 
 /**
- * Find bare repository at ~/.please/repositories/{owner}/{repo}.git
+ * Get the bare repository path for a repository
+ * github.com repositories live at ~/.please/repositories/{owner}/{repo}.git;
+ * GitHub Enterprise Server repositories are namespaced by host at
+ * ~/.please/repositories/{host}/{owner}/{repo}.git
+ */
+export function getBareRepoPath(owner: string, repo: string): string {
+  const root = path.join(os.homedir(), '.please', 'repositories')
+  return isEnterpriseHost()
+    ? path.join(root, getHost(), owner, `${repo}.git`)
+    : path.join(root, owner, `${repo}.git`)
+}
+
+/**
+ * Find bare repository at getBareRepoPath(owner, repo)
  * Returns path if exists, null otherwise
  */
 export async function findBareRepo(owner: string, repo: string): Promise<string | null> {
-  const bareRepoPath = path.join(os.homedir(), '.please', 'repositories', owner, `${repo}.git`)
+  const bareRepoPath = getBareRepoPath(owner, repo)
 
   try {
     const stats = await fs.promises.stat(bareRepoPath)
@@ -81,10 +96,10 @@ export async function getGitDir(): Promise<string | null> {
 }
 
 /**
- * Clone repository as bare to ~/.please/repositories/{owner}/{repo}.git
+ * Clone repository as bare to getBareRepoPath(owner, repo)
  */
 export async function cloneBareRepo(owner: string, repo: string): Promise<string> {
-  const bareRepoPath = path.join(os.homedir(), '.please', 'repositories', owner, `${repo}.git`)
+  const bareRepoPath = getBareRepoPath(owner, repo)
   const parentDir = path.dirname(bareRepoPath)
 
   // Create parent directories if they don't exist
@@ -99,7 +114,7 @@ export async function cloneBareRepo(owner: string, repo: string): Promise<string
   let result
   try {
     result = await runCliCommand(
-      [getGhCommand(), 'repo', 'clone', `${owner}/${repo}`, bareRepoPath, '--', '--bare'],
+      [getGhCommand(), 'repo', 'clone', `${getHost()}/${owner}/${repo}`, bareRepoPath, '--', '--bare'],
     )
   }
   catch (error) {
@@ -115,11 +130,12 @@ export async function cloneBareRepo(owner: string, repo: string): Promise<string
 
 /**
  * Get current repository information (owner/repo from gh CLI)
+ * Also records the repository's host, so clones of GitHub Enterprise Server repositories work.
  */
 async function getCurrentRepoInfo(): Promise<{ owner: string, repo: string }> {
   let result
   try {
-    result = await runCliCommand([getGhCommand(), 'repo', 'view', '--json', 'owner,name'])
+    result = await runCliCommand([getGhCommand(), 'repo', 'view', '--json', 'owner,name,url'])
   }
   catch (error) {
     throw new Error(`Failed to get repository info: ${error instanceof Error ? error.message : String(error)}`)
@@ -130,6 +146,9 @@ async function getCurrentRepoInfo(): Promise<{ owner: string, repo: string }> {
   }
 
   const data = JSON.parse(result.stdout)
+  if (data.url) {
+    setRepositoryHost(data.url)
+  }
   return {
     owner: data.owner?.login || data.owner,
     repo: data.name,
@@ -150,6 +169,9 @@ export async function resolveRepository(repoFlag?: string): Promise<RepositoryIn
     const parsed = parseRepoString(repoFlag)
     owner = parsed.owner
     repo = parsed.repo
+    if (parsed.host) {
+      setRepositoryHost(parsed.host)
+    }
   }
   else {
     // Try to get from current directory
@@ -166,7 +188,7 @@ export async function resolveRepository(repoFlag?: string): Promise<RepositoryIn
     gitDir = (await getGitDir()) ?? undefined
   }
 
-  const bareRepoPath = path.join(os.homedir(), '.please', 'repositories', owner, `${repo}.git`)
+  const bareRepoPath = getBareRepoPath(owner, repo)
 
   return {
     owner,
@@ -0,0 +1,27 @@
+/**
+ * Structured (JSON/TOON) command output
+ *
+ * Wraps outputData so structured output follows printOutput: stdout normally,
+ * stderr while stdout is reserved for the JSON dry-run plan.
+ */
+
+import { encode } from '@byjohann/toon'
+import { filterFields, outputData } from '@pleaseai/cli-toolkit/output'
+import { isDryRunJson, printOutput } from './github/dry-run'
+
+/**
+ * Print data in a structured format
+ *
+ * @param data - Data to print
+ * @param format - Output format ('json' or 'toon')
+ * @param fields - Fields to keep (all fields when omitted)
+ */
+export function printData(...[data, format, fields]: Parameters<typeof outputData>): void {
+  if (!isDryRunJson()) {
+    outputData(data, format, fields)
+    return
+  }
+
+  const value = fields ? filterFields(data, fields) : data
+  printOutput(format === 'toon' ? encode(value, { delimiter: '\t' }) : JSON.stringify(value, null, 2))
+}
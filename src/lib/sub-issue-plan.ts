@@ -0,0 +1,148 @@
+/**
+ * Sub-issue plans
+ *
+ * Creates the issues of a plan file (see issue-plan) under a parent issue,
+ * linking nested entries as sub-issues and keyed dependencies as blockers.
+ */
+
+import type { DryRunResult } from './github'
+import type { IssueMessages } from './i18n'
+import type { PlanEntry } from './issue-plan'
+import {
+  addBlockedBy,
+  addSubIssue,
+  createIssueWithType,
+  DRY_RUN_PLACEHOLDER,
+  getAssigneeNodeIds,
+  getLabelNodeIds,
+  isDryRunResult,
+  listIssueTypes,
+  printOutput,
+} from './github'
+import { detectPlanFormat, orderPlan, parsePlan } from './issue-plan'
+import { formatIssueRef, getIssueRefNodeIds, resolveIssueRefs } from './issue-ref'
+
+/**
+ * Options for createSubIssuesFromPlan
+ */
+export interface SubIssuePlanOptions {
+  /** Plan file, or "-" for stdin */
+  fromFile: string
+  /** Repository the issues are created in (default: current repository) */
+  repo?: string
+  /** Issue type name for entries without their own type */
+  type?: string
+}
+
+/**
+ * Format a created issue as #number (the placeholder in dry-run mode)
+ */
+export function formatCreatedIssue(issue: { number: number } | DryRunResult): string {
+  return isDryRunResult(issue) ? DRY_RUN_PLACEHOLDER : `#${issue.number}`
+}
+
+/**
+ * Read a plan from a file or stdin ("-")
+ */
+async function readPlanText(filePath: string): Promise<string> {
+  if (filePath === '-') {
+    return Bun.stdin.text()
+  }
+  const file = Bun.file(filePath)
+  if (!(await file.exists())) {
+    throw new Error(`File not found: ${filePath}`)
+  }
+  return file.text()
+}
+
+/**
+ * Create every issue in a plan file under a parent issue
+ *
+ * The plan is parsed and validated, and its types, labels and assignees are
+ * resolved, before the first issue is created.
+ *
+ * @param parentStr - Parent issue (number, owner/repo#number, or URL)
+ * @param options - Plan file, repository, and default issue type
+ * @param msg - Issue messages for progress output
+ * @throws Error if the plan is invalid or a type is unknown; issues created before
+ * a failure are listed on stderr first
+ */
+export async function createSubIssuesFromPlan(
+  parentStr: string,
+  options: SubIssuePlanOptions,
+  msg: IssueMessages,
+): Promise<void> {
+  printOutput(msg.readingPlan(options.fromFile))
+  const text = await readPlanText(options.fromFile)
+  const planned = orderPlan(parsePlan(text, detectPlanFormat(options.fromFile, text)))
+
+  const { context, refs: [parent] } = await resolveIssueRefs([parentStr], options.repo, { requireContext: true })
+  const { owner, repo } = context
+  const parentLabel = formatIssueRef(parent!, context)
+  printOutput(msg.gettingParentIssue(parentLabel))
+  const [parentNodeId] = await getIssueRefNodeIds([parent!])
+
+  // --type is the default for entries without their own type
+  const typeNames = [...new Set(planned.map(({ entry }) => entry.type ?? options.type).filter(name => name !== undefined))]
+  const typeIds = new Map<string, string>()
+  if (typeNames.length > 0) {
+    printOutput(msg.fetchingIssueTypes)
+    const types = await listIssueTypes(owner, repo)
+    for (const name of typeNames) {
+      const match = types.find(t => t.name.toLowerCase() === name.toLowerCase())
+      if (!match) {
+        throw new Error(`${msg.issueTypeNotFound(name)}${msg.availableTypes}\n${types.map(t => `  - ${t.name}`).join('\n')}`)
+      }
+      typeIds.set(name, match.id)
+    }
+  }
+
+  const labelNames = [...new Set(planned.flatMap(({ entry }) => entry.labels))]
+  const labelIds = new Map(labelNames.length > 0
+    ? (await getLabelNodeIds(owner, repo, labelNames)).map((id, i) => [labelNames[i]!, id])
+    : [])
+  const logins = [...new Set(planned.flatMap(({ entry }) => entry.assignees))]
+  const assigneeIds = new Map(logins.length > 0
+    ? (await getAssigneeNodeIds(owner, repo, logins)).map((id, i) => [logins[i]!, id])
+    : [])
+
+  printOutput(msg.creatingPlannedIssues(planned.length))
+  const byKey = new Map(planned.filter(({ entry }) => entry.key !== undefined).map(({ entry }) => [entry.key!, entry]))
+  const created = new Map<PlanEntry, { number: number, nodeId: string } | DryRunResult>()
+  const mapping = () => planned
+    .filter(({ entry }) => created.has(entry))
+    .map(({ entry }) => `   ${entry.key ?? '-'} → ${formatCreatedIssue(created.get(entry)!)} ${entry.title}`)
+
+  try {
+    for (const { entry, parent: parentEntry } of planned) {
+      const typeName = entry.type ?? options.type
+      const issue = await createIssueWithType(
+        owner,
+        repo,
+        entry.title,
+        entry.body,
+        typeName !== undefined ? typeIds.get(typeName) : undefined,
+        entry.labels.map(name => labelIds.get(name)!),
+        entry.assignees.map(login => assigneeIds.get(login)!),
+      )
+      created.set(entry, issue)
+
+      await addSubIssue(parentEntry ? created.get(parentEntry)!.nodeId : parentNodeId!, issue.nodeId)
+      for (const key of entry.blockedBy) {
+        await addBlockedBy(issue.nodeId, created.get(byKey.get(key)!)!.nodeId)
+      }
+      printOutput(msg.plannedIssueCreated(formatCreatedIssue(issue), entry.title))
+    }
+  }
+  catch (error) {
+    // Show which planned issues already exist, so a re-run can leave them out
+    if (created.size > 0) {
+      console.error(msg.planPartiallyCreated(created.size, planned.length, parentLabel))
+      mapping().forEach(line => console.error(line))
+    }
+    throw error
+  }
+
+  printOutput(msg.planSummary(planned.length, parentLabel))
+  mapping().forEach(line => printOutput(line))
+}
@@ -0,0 +1,88 @@
+/**
+ * Markdown task lists in issue bodies
+ *
+ * Finds `- [ ] item` checkboxes so they can be turned into sub-issues, and
+ * rewrites the items to reference the issues created for them.
+ */
+
+import { parseIssueRef } from './issue-ref'
+
+/**
+ * Task list item in a markdown body
+ */
+export interface TaskListItem {
+  /** Zero-based line index in the body */
+  line: number
+  checked: boolean
+  /** Item text after the checkbox */
+  text: string
+}
+
+const TASK_ITEM_PATTERN = /^(\s*(?:[-*+]|\d+[.)]) \[)([ x])(\] )(.*)$/i
+const FENCE_PATTERN = /^\s*(?:`{3,}|~{3,})/
+
+/**
+ * Check whether an item already refers to an issue (`#123`, `owner/repo#123`, or a URL)
+ */
+function isIssueReference(text: string): boolean {
+  try {
+    parseIssueRef(text)
+    return true
+  }
+  catch {
+    return false
+  }
+}
+
+/**
+ * Find the task list items of a markdown body
+ *
+ * Items inside fenced code blocks, empty items, and items that are already
+ * just an issue reference are skipped.
+ *
+ * @param body - Markdown body
+ * @returns Items in body order
+ */
+export function parseTaskList(body: string): TaskListItem[] {
+  const items: TaskListItem[] = []
+  let inFence = false
+
+  body.split('\n').forEach((line, index) => {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence
+      return
+    }
+    const match = !inFence && line.replace(/\r$/, '').match(TASK_ITEM_PATTERN)
+    if (!match) {
+      return
+    }
+    const text = match[4]!.trim()
+    if (text.length === 0 || isIssueReference(text)) {
+      return
+    }
+    items.push({ line: index, checked: match[2] !== ' ', text })
+  })
+
+  return items
+}
+
+/**
+ * Replace the text of task list items with issue references
+ *
+ * @param body - Markdown body
+ * @param links - Issue reference (e.g., `#123`) per item line index
+ * @returns Body with those items rewritten to `- [ ] #123`, keeping their checkbox state
+ */
+export function linkTaskListItems(body: string, links: Map<number, string>): string {
+  return body
+    .split('\n')
+    .map((line, index) => {
+      const ref = links.get(index)
+      if (ref === undefined) {
+        return line
+      }
+      const carriageReturn = line.endsWith('\r') ? '\r' : ''
+      return line.replace(/\r$/, '').replace(TASK_ITEM_PATTERN, `$1$2$3${ref}`) + carriageReturn
+    })
+    .join('\n')
+}
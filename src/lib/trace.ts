@@ -0,0 +1,150 @@
+/**
+ * Request tracing for debugging
+ *
+ * When enabled with --debug or GH_PLEASE_DEBUG, every subprocess, API request and
+ * GraphQL operation is logged as one JSON object per line (JSONL) to stderr,
+ * or appended to the file given by --debug-file / GH_PLEASE_DEBUG_FILE.
+ * Tokens are redacted before anything is written.
+ */
+
+import * as fs from 'node:fs'
+
+/**
+ * Traced event kinds
+ * - spawn: a git/gh subprocess run by runCliCommand
+ * - gh: a gh passthrough command (executeGhCommand)
+ * - api: a single API request attempt (gh api or HTTP)
+ * - graphql: a GraphQL operation (executeGraphQL)
+ */
+export type TraceKind = 'spawn' | 'gh' | 'api' | 'graphql'
+
+/**
+ * One trace record
+ */
+export interface TraceEvent {
+  kind: TraceKind
+  /** Command line (subprocesses) or `METHOD url` (HTTP requests) */
+  command?: string[]
+  /** GraphQL operation name */
+  operationName?: string
+  durationMs: number
+  exitCode?: number
+  /** HTTP status, when known */
+  status?: number
+  /** Retry attempt (zero-based) for API requests */
+  attempt?: number
+  /** GraphQL rate limit cost and remaining points */
+  rateLimit?: { cost: number, remaining: number, resetAt?: string }
+  /** GraphQL error messages */
+  errors?: string[]
+  /** Failure summary (stderr), truncated */
+  error?: string
+}
+
+/**
+ * Longest value written for a single argument or error
+ */
+const MAX_VALUE_LENGTH = 500
+
+/**
+ * Patterns for secrets that must never reach the trace
+ */
+const SECRET_PATTERNS: RegExp[] = [
+  // GitHub tokens: classic (ghp_, gho_, ghu_, ghs_, ghr_) and fine-grained (github_pat_)
+  /\b(?:gh[pousr]_\w{20,}|github_pat_\w{20,})\b/g,
+  // Authorization headers and token assignments
+  /\b(authorization:\s*(?:bearer|token)\s+)\S+/gi,
+  /\b((?:access_)?token=)[^\s&]+/gi,
+]
+
+let traceTarget: 'stderr' | { file: string } | null = null
+let configured = false
+
+/**
+ * Enable tracing for the current process
+ *
+ * @param file - Append to this file instead of stderr
+ */
+export function enableTrace(file?: string): void {
+  traceTarget = file ? { file } : 'stderr'
+  configured = true
+}
+
+/**
+ * Disable tracing (used by tests)
+ */
+export function resetTrace(): void {
+  traceTarget = null
+  configured = false
+}
+
+/**
+ * Get the trace target, reading GH_PLEASE_DEBUG / GH_PLEASE_DEBUG_FILE unless set explicitly
+ */
+function getTraceTarget(): 'stderr' | { file: string } | null {
+  if (configured) {
+    return traceTarget
+  }
+  if (process.env.GH_PLEASE_DEBUG_FILE) {
+    return { file: process.env.GH_PLEASE_DEBUG_FILE }
+  }
+  const debug = process.env.GH_PLEASE_DEBUG
+  return debug && debug !== '0' && debug !== 'false' ? 'stderr' : null
+}
+
+/**
+ * Check whether tracing is enabled
+ */
+export function isTraceEnabled(): boolean {
+  return getTraceTarget() !== null
+}
+
+/**
+ * Redact tokens and truncate long values
+ *
+ * @param value - Text that may contain secrets
+ * @returns Safe text for the trace
+ */
+export function redactSecrets(value: string): string {
+  let redacted = value
+  for (const pattern of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern, (match, prefix?: string) => {
+      return typeof prefix === 'string' && match.startsWith(prefix) ? `${prefix}[REDACTED]` : '[REDACTED]'
+    })
+  }
+  return redacted.length > MAX_VALUE_LENGTH ? `${redacted.slice(0, MAX_VALUE_LENGTH)}…` : redacted
+}
+
+/**
+ * Write a trace event if tracing is enabled
+ *
+ * @param event - Event to record (command, errors and error text are redacted)
+ */
+export function traceEvent(event: TraceEvent): void {
+  const target = getTraceTarget()
+  if (!target) {
+    return
+  }
+
+  const record = {
+    time: new Date().toISOString(),
+    ...event,
+    durationMs: Math.round(event.durationMs),
+    ...(event.command && { command: event.command.map(redactSecrets) }),
+    ...(event.errors && { errors: event.errors.map(redactSecrets) }),
+    ...(event.error && { error: redactSecrets(event.error.trim()) }),
+  }
+  const line = `${JSON.stringify(record)}\n`
+
+  if (target === 'stderr') {
+    process.stderr.write(line)
+    return
+  }
+
+  try {
+    fs.appendFileSync(target.file, line)
+  }
+  catch {
+    // Tracing must never break a command
+  }
+}
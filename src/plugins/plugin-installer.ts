@@ -7,6 +7,7 @@
 import { mkdir } from 'node:fs/promises'
 import { cleanupArchive, extractTarball } from '../lib/archive'
 import { checkGhAuth } from '../lib/gh-cli'
+import { printOutput } from '../lib/github'
 import { expandHome } from '../lib/path-utils'
 import {
   createProgressIndicator,
@@ -163,14 +164,14 @@ async function installPremiumPlugin(pluginName: string): Promise<InstallResult>
     // 0. Validate plugin name for security
     validatePluginName(pluginName)
 
-    console.log(`🔒 Installing premium plugin: ${pluginName}`)
-    console.log('')
+    printOutput(`🔒 Installing premium plugin: ${pluginName}`)
+    printOutput('')
 
     // 1. Check if user is authenticated with GitHub CLI
     progress.start('Checking GitHub authentication...')
     const isAuthenticated = await checkGhAuth()
     if (!isAuthenticated) {
-      console.log('')
+      printOutput('')
       displayAuthError()
       return {
         success: false,
@@ -184,9 +185,9 @@ async function installPremiumPlugin(pluginName: string): Promise<InstallResult>
     // 2. Verify plugin exists in registry
     const repo = PREMIUM_PLUGIN_REPOS[pluginName]
     if (!repo) {
-      console.log('')
+      printOutput('')
       progress.error(`Plugin '${pluginName}' not found in premium registry`)
-      console.log('Available premium plugins: ai')
+      printOutput('Available premium plugins: ai')
       return {
         success: false,
         pluginName,
@@ -204,10 +205,10 @@ async function installPremiumPlugin(pluginName: string): Promise<InstallResult>
     progress.start(`Downloading from ${repo}...`)
     const downloadResult = await downloadRelease(repo, pluginDir)
     if (!downloadResult.success) {
-      console.log('')
+      printOutput('')
       displayRepoAccessError(repo)
-      console.log('')
-      console.log(`Details: ${downloadResult.error}`)
+      printOutput('')
+      printOutput(`Details: ${downloadResult.error}`)
       return {
         success: false,
         pluginName,
@@ -221,9 +222,9 @@ async function installPremiumPlugin(pluginName: string): Promise<InstallResult>
     progress.update(`Extracting to ${pluginDir}...`)
     const extractResult = await extractPluginTarball(pluginDir)
     if (!extractResult.success) {
-      console.log('')
+      printOutput('')
       progress.error(`Failed to extract ${pluginName}`)
-      console.log(`Details: ${extractResult.error}`)
+      printOutput(`Details: ${extractResult.error}`)
       return {
         success: false,
         pluginName,
@@ -237,9 +238,9 @@ async function installPremiumPlugin(pluginName: string): Promise<InstallResult>
     progress.update(`Verifying installation...`)
     const verifyResult = await verifyPluginInstallation(pluginDir)
     if (!verifyResult.success) {
-      console.log('')
+      printOutput('')
       progress.error(`Plugin installation verification failed`)
-      console.log(`Details: ${verifyResult.error}`)
+      printOutput(`Details: ${verifyResult.error}`)
       return {
         success: false,
         pluginName,
@@ -248,7 +249,7 @@ async function installPremiumPlugin(pluginName: string): Promise<InstallResult>
       }
     }
 
-    console.log('')
+    printOutput('')
     displayInstallationComplete(pluginName)
 
     return {
@@ -258,7 +259,7 @@ async function installPremiumPlugin(pluginName: string): Promise<InstallResult>
     }
   }
   catch (error) {
-    console.log('')
+    printOutput('')
     displayGenericInstallError(
       error instanceof Error ? error.message : 'Unknown error',
       true,
@@ -401,7 +402,7 @@ async function installFromNpm(packageName: string, global: boolean): Promise<Ins
   try {
     const args = global ? ['install', '-g', packageName] : ['install', packageName]
 
-    console.log(`📦 Installing ${packageName}...`)
+    printOutput(`📦 Installing ${packageName}...`)
 
     const proc = Bun.spawn(['npm', ...args], {
       stdio: ['inherit', 'pipe', 'pipe'],
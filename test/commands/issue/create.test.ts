@@ -24,6 +24,13 @@ describe('issue create command', () => {
     expect(titleOption?.required).toBe(true)
   })
 
+  test('should not make title mandatory so the wizard can ask for it', () => {
+    const cmd = createIssueCreateCommand()
+    const titleOption = cmd.options.find(o => o.long === '--title')
+    expect(titleOption?.mandatory).toBe(false)
+    expect(titleOption?.description).toContain('wizard')
+  })
+
   test('should have body option', () => {
     const cmd = createIssueCreateCommand()
     const options = cmd.options || []
@@ -60,6 +67,7 @@ describe('issue create command', () => {
     '--project',
     '--parent',
     '--template',
+    '--field',
     '--body-file',
   ]
 
@@ -36,4 +36,41 @@ describe('dependency command', () => {
     const listCmd = commands.find(c => c.name() === 'list')
     expect(listCmd).toBeDefined()
   })
+
+  test('should accept either --blocked-by or --blocks on add', () => {
+    const cmd = createDependencyCommand()
+    const addCmd = cmd.commands.find(c => c.name() === 'add')!
+    const options = addCmd.options.map(o => o.long)
+    expect(options).toContain('--blocked-by')
+    expect(options).toContain('--blocks')
+    expect(addCmd.options.find(o => o.long === '--blocked-by')!.mandatory).toBe(false)
+  })
+
+  test('should have --blocking option on list', () => {
+    const cmd = createDependencyCommand()
+    const listCmd = cmd.commands.find(c => c.name() === 'list')!
+    expect(listCmd.options.map(o => o.long)).toContain('--blocking')
+  })
+
+  test('should have graph subcommand with source, depth and format options', () => {
+    const cmd = createDependencyCommand()
+    const graphCmd = cmd.commands.find(c => c.name() === 'graph')
+    expect(graphCmd).toBeDefined()
+
+    const options = graphCmd!.options.map(o => o.long)
+    expect(options).toContain('--milestone')
+    expect(options).toContain('--label')
+    expect(options).toContain('--depth')
+    expect(options).toContain('--format')
+  })
+  test('should have ready subcommand with filter and sort options', () => {
+    const cmd = createDependencyCommand()
+    const readyCmd = cmd.commands.find(c => c.name() === 'ready')
+    expect(readyCmd).toBeDefined()
+
+    const options = readyCmd!.options.map(o => o.long)
+    for (const option of ['--milestone', '--label', '--type', '--parent', '--sort', '--json', '--limit']) {
+      expect(options).toContain(option)
+    }
+  })
 })
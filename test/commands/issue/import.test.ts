@@ -0,0 +1,125 @@
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test'
+import { createIssueImportCommand } from '../../../src/commands/issue/import'
+import { getCacheMode, setCacheMode } from '../../../src/lib/github/cache'
+
+/**
+ * Build a mocked gh process that prints the given JSON payload
+ */
+function mockProcess(payload: unknown) {
+  return {
+    stdout: new Response(JSON.stringify(payload)).body,
+    stderr: new Response('').body,
+    exited: Promise.resolve(0),
+  } as any
+}
+
+describe('issue import command', () => {
+  test('should create a command named import', () => {
+    const cmd = createIssueImportCommand()
+    expect(cmd.name()).toBe('import')
+  })
+
+  test('should require a file argument', () => {
+    const cmd = createIssueImportCommand()
+    const args = cmd.registeredArguments
+    expect(args).toHaveLength(1)
+    expect(args[0]!.required).toBe(true)
+  })
+
+  test('should support --repo', () => {
+    const cmd = createIssueImportCommand()
+    expect(cmd.options.map(opt => opt.long)).toEqual(['--repo'])
+  })
+})
+
+describe('issue import command runs', () => {
+  let spawnSpy: any
+  let logSpy: any
+  let errorSpy: any
+  let exitSpy: any
+  let tempDir: string
+  let originalMode: ReturnType<typeof getCacheMode>
+
+  // One issue was imported before under "schema"; its body was edited on GitHub since
+  const existingBody = 'Edited on GitHub\n\n<!-- gh-please:import-key=schema -->'
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gh-please-import-'))
+    originalMode = getCacheMode()
+    setCacheMode('disabled')
+    logSpy = spyOn(console, 'log').mockImplementation(() => {})
+    errorSpy = spyOn(console, 'error').mockImplementation(() => {})
+    exitSpy = spyOn(process, 'exit').mockImplementation((() => {}) as any)
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation((command: string[]) => {
+      const operation = command.find(arg => arg.startsWith('operationName='))
+      switch (operation) {
+        case 'operationName=ListIssuesWithBody':
+          return mockProcess({ data: { repository: { issues: {
+            nodes: [
+              { id: 'I_1', number: 1, title: 'Design schema', state: 'OPEN', url: 'u1', body: existingBody },
+              { id: 'I_2', number: 2, title: 'Unrelated', state: 'CLOSED', url: 'u2', body: 'Not imported' },
+            ],
+            pageInfo: { hasNextPage: false, endCursor: null },
+          } } } })
+        case 'operationName=GetRepositoryNodeId':
+          return mockProcess({ data: { repository: { id: 'R_1' } } })
+        case 'operationName=CreateIssueWithType':
+          return mockProcess({ data: { createIssue: { issue: { id: 'I_3', number: 3 } } } })
+        default:
+          return mockProcess({ data: { updateIssue: { issue: { id: 'I_1' } } } })
+      }
+    })
+  })
+
+  afterEach(() => {
+    spawnSpy.mockRestore()
+    logSpy.mockRestore()
+    errorSpy.mockRestore()
+    exitSpy.mockRestore()
+    setCacheMode(originalMode)
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  /**
+   * Run the import command on a YAML file and return the gh calls by operation name
+   */
+  async function runImport(yaml: string): Promise<Map<string, string[]>> {
+    const file = path.join(tempDir, 'issues.yaml')
+    fs.writeFileSync(file, yaml)
+    await createIssueImportCommand().parseAsync(['node', 'test', file, '--repo', 'o/r'])
+
+    const calls = new Map<string, string[]>()
+    for (const [command] of spawnSpy.mock.calls as [string[]][]) {
+      const operation = command.find(arg => arg.startsWith('operationName='))!.slice('operationName='.length)
+      calls.set(operation, command)
+    }
+    return calls
+  }
+
+  test('should update matched rows and create the others', async () => {
+    const calls = await runImport([
+      '- key: schema',
+      '  title: Design schema v2',
+      '  body: Tables',
+      '- key: api',
+      '  title: Implement API',
+    ].join('\n'))
+
+    expect(calls.get('UpdateIssueFields')).toContain('issueId=I_1')
+    expect(calls.get('UpdateIssueFields')).toContain('body=Tables\n\n<!-- gh-please:import-key=schema -->')
+    expect(calls.get('CreateIssueWithType')).toContain('body=<!-- gh-please:import-key=api -->')
+    expect(calls.get('ListIssuesWithBody')!.join(' ')).toContain('states: [OPEN, CLOSED]')
+  })
+
+  test('should keep the current body when the row has none', async () => {
+    const calls = await runImport('- key: schema\n  title: Design schema v2\n')
+
+    const update = calls.get('UpdateIssueFields')!
+    expect(update).toContain('title=Design schema v2')
+    expect(update.some(arg => arg.startsWith('body='))).toBe(false)
+    expect(calls.has('CreateIssueWithType')).toBe(false)
+  })
+})
@@ -0,0 +1,22 @@
+import { describe, expect, test } from 'bun:test'
+import { createIssueProgressCommand } from '../../../src/commands/issue/progress'
+
+describe('issue progress command', () => {
+  test('should create a command named progress', () => {
+    const cmd = createIssueProgressCommand()
+    expect(cmd.name()).toBe('progress')
+  })
+
+  test('should require a parent issue argument', () => {
+    const cmd = createIssueProgressCommand()
+    const args = cmd.registeredArguments
+    expect(args).toHaveLength(1)
+    expect(args[0]!.required).toBe(true)
+  })
+
+  test('should support --repo, --depth, --format and --comment', () => {
+    const cmd = createIssueProgressCommand()
+    const longs = cmd.options.map(opt => opt.long)
+    expect(longs).toEqual(['--repo', '--depth', '--format', '--comment'])
+  })
+})
@@ -23,6 +23,14 @@ describe('sub-issue command', () => {
     expect(createCmd).toBeDefined()
   })
 
+  test('should accept a plan file instead of --title on create', () => {
+    const cmd = createSubIssueCommand()
+    const createCmd = cmd.commands.find(c => c.name() === 'create')!
+    const options = createCmd.options.map(o => o.long)
+    expect(options).toContain('--from-file')
+    expect(createCmd.options.find(o => o.long === '--title')!.mandatory).toBe(false)
+  })
+
   test('should have add subcommand', () => {
     const cmd = createSubIssueCommand()
     const commands = cmd.commands || []
@@ -80,4 +88,50 @@ describe('sub-issue command', () => {
       expect(typeIdOption).toBeDefined()
     })
   })
+
+  describe('tree subcommand', () => {
+    const cmd = createSubIssueCommand()
+    const treeCmd = cmd.commands.find(c => c.name() === 'tree')
+
+    test('should exist', () => {
+      expect(treeCmd).toBeDefined()
+    })
+
+    test('should have depth, format, query, and repo options', () => {
+      const longs = (treeCmd?.options || []).map(o => o.long)
+      expect(longs).toContain('--depth')
+      expect(longs).toContain('--format')
+      expect(longs).toContain('--query')
+      expect(longs).toContain('--repo')
+    })
+  })
+
+  describe('reorder subcommand', () => {
+    const cmd = createSubIssueCommand()
+    const reorderCmd = cmd.commands.find(c => c.name() === 'reorder')
+
+    test('should exist', () => {
+      expect(reorderCmd).toBeDefined()
+    })
+
+    test('should have position and order options', () => {
+      const longs = (reorderCmd?.options || []).map(o => o.long)
+      expect(longs).toEqual(expect.arrayContaining(['--before', '--after', '--top', '--bottom', '--order', '--repo']))
+    })
+  })
+  test('should have extract subcommand', () => {
+    const cmd = createSubIssueCommand()
+    const extractCmd = cmd.commands.find(c => c.name() === 'extract')
+    expect(extractCmd).toBeDefined()
+
+    const options = extractCmd!.options.map(o => o.long)
+    expect(options).toContain('--include-checked')
+    expect(options).toContain('--all')
+  })
+  test('should have move subcommand with required --to', () => {
+    const cmd = createSubIssueCommand()
+    const moveCmd = cmd.commands.find(c => c.name() === 'move')
+    expect(moveCmd).toBeDefined()
+    expect(moveCmd!.options.find(o => o.long === '--to')!.mandatory).toBe(true)
+  })
 })
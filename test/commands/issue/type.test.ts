@@ -96,4 +96,35 @@ describe('issue type command', () => {
     const repoOption = options.find(o => o.long === '--repo')
     expect(repoOption).toBeDefined()
   })
+
+  test('should have organization admin subcommands', () => {
+    const cmd = createIssueTypeCommand()
+    const names = cmd.commands.map(c => c.name())
+    expect(names).toEqual(expect.arrayContaining(['create', 'edit', 'enable', 'disable', 'delete', 'sync']))
+  })
+
+  test('admin subcommands should have org option', () => {
+    const cmd = createIssueTypeCommand()
+    for (const name of ['create', 'edit', 'enable', 'disable', 'delete', 'sync']) {
+      const subCmd = cmd.commands.find(c => c.name() === name)
+      expect(subCmd?.options.find(o => o.long === '--org')).toBeDefined()
+    }
+  })
+
+  test('sync subcommand should require file option', () => {
+    const cmd = createIssueTypeCommand()
+    const syncCmd = cmd.commands.find(c => c.name() === 'sync')
+    const fileOption = syncCmd?.options.find(o => o.long === '--file')
+    expect(fileOption?.mandatory).toBe(true)
+    expect(syncCmd?.options.find(o => o.long === '--prune')).toBeDefined()
+    expect(syncCmd?.options.find(o => o.long === '--yes')).toBeDefined()
+  })
+
+  test('set subcommand should support bulk options', () => {
+    const cmd = createIssueTypeCommand()
+    const setCmd = cmd.commands.find(c => c.name() === 'set')
+    const longs = setCmd?.options.map(o => o.long)
+    expect(longs).toEqual(expect.arrayContaining(['--search', '--from-label', '--remove-label']))
+    expect(setCmd?.registeredArguments[0]?.required).toBe(false)
+  })
 })
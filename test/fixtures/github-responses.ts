@@ -142,6 +142,19 @@ export function createGetIssueNodeIdResponse(issueNumber: number, nodeId: string
   }
 }
 
+/**
+ * GraphQL Response: Get Issue Node IDs (batched, aliased as issue0, issue1, ...)
+ */
+export function createGetIssueNodeIdsResponse(nodeIds: string[]) {
+  return {
+    data: {
+      repository: Object.fromEntries(
+        nodeIds.map((id, index) => [`issue${index}`, { id }]),
+      ),
+    },
+  }
+}
+
 /**
  * GraphQL Response: Get PR Node ID
  */
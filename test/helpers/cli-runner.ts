@@ -46,6 +46,8 @@ export async function runCli(
     cwd,
     env: {
       ...process.env,
+      // Keep the on-disk lookup cache out of CLI tests
+      GH_PLEASE_NO_CACHE: '1',
       ...env,
     },
     stdout: 'pipe',
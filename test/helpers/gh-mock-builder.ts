@@ -39,11 +39,11 @@ export class GhMockBuilder {
   }
 
   /**
-   * Mock: gh repo view --json owner,name
+   * Mock: gh repo view --json owner,name,url
    */
   onRepoView(response: GhMockResponse): this {
     return this.addRule(
-      ['repo', 'view', '--json', 'owner,name'],
+      ['repo', 'view', '--json', 'owner,name,url'],
       response,
       'Get repository info',
     )
@@ -11,6 +11,7 @@ import {
   createAddBlockedByResponse,
   createAddSubIssueResponse,
   createGetIssueNodeIdResponse,
+  createGetIssueNodeIdsResponse,
   createListBlockedByResponse,
   createListSubIssuesResponse,
   createRemoveBlockedByResponse,
@@ -41,12 +42,22 @@ describe('Issue Commands - CLI Integration', () => {
     const mockRules: GhMockRule[] = [
       // Mock repo view
       {
-        args: ['repo', 'view', '--json', 'owner,name'],
+        args: ['repo', 'view', '--json', 'owner,name,url'],
         response: {
           stdout: ghCliResponses.repoView,
           exitCode: 0,
         },
       },
+      // Mock GraphQL queries - Get Issue Node IDs (batched lookup for add/remove)
+      {
+        args: /api graphql -f query=.*GetIssueNodeIds.*-F operationName=GetIssueNodeIds/,
+        response: {
+          stdout: JSON.stringify(
+            createGetIssueNodeIdsResponse([mockParentIssue.nodeId, mockChildIssue.nodeId]),
+          ),
+          exitCode: 0,
+        },
+      },
       // Mock GraphQL queries - Get Issue Node ID (matches any issue number)
       {
         args: /api graphql -f query=.*repository.*issue.*-F owner=.*-F repo=.*-F number=[0-9]+/,
@@ -37,7 +37,7 @@ describe('PR Commands - CLI Integration', () => {
     const mockRules: GhMockRule[] = [
       // Mock repo view
       {
-        args: ['repo', 'view', '--json', 'owner,name'],
+        args: ['repo', 'view', '--json', 'owner,name,url'],
         response: {
           stdout: ghCliResponses.repoView,
           exitCode: 0,
@@ -424,7 +424,7 @@ describe('PR Commands - CLI Integration', () => {
 
       const noThreadsMockRules: GhMockRule[] = [
         {
-          args: ['repo', 'view', '--json', 'owner,name'],
+          args: ['repo', 'view', '--json', 'owner,name,url'],
           response: {
             stdout: ghCliResponses.repoView,
             exitCode: 0,
@@ -530,7 +530,7 @@ describe('PR Commands - CLI Integration', () => {
 
       const errorMockRules: GhMockRule[] = [
         {
-          args: ['repo', 'view', '--json', 'owner,name'],
+          args: ['repo', 'view', '--json', 'owner,name,url'],
           response: {
             stdout: ghCliResponses.repoView,
             exitCode: 0,
@@ -569,7 +569,7 @@ describe('PR Commands - CLI Integration', () => {
 
       const errorMockRules: GhMockRule[] = [
         {
-          args: ['repo', 'view', '--json', 'owner,name'],
+          args: ['repo', 'view', '--json', 'owner,name,url'],
           response: {
             stdout: ghCliResponses.repoView,
             exitCode: 0,
@@ -0,0 +1,155 @@
+import type { DependencyGraph, DependencyNode } from '../../src/lib/dependency-graph'
+import { describe, expect, spyOn, test } from 'bun:test'
+import {
+  crawlDependencyGraph,
+  findDependencyCycles,
+  renderDependencyGraph,
+} from '../../src/lib/dependency-graph'
+
+const context = { owner: 'plan', repo: 'board' }
+
+/**
+ * Build a graph node in plan/board
+ */
+function node(number: number, blockedBy: number[] = [], state = 'OPEN'): DependencyNode {
+  return {
+    key: `plan/board#${number}`,
+    number,
+    repository: 'plan/board',
+    title: `Issue ${number}`,
+    state,
+    url: `https://github.com/plan/board/issues/${number}`,
+    nodeId: `I_${number}`,
+    blockedBy: blockedBy.map(n => `plan/board#${n}`),
+  }
+}
+
+/**
+ * Build a mocked gh process that prints the given JSON payload
+ */
+function mockProcess(payload: unknown) {
+  return {
+    stdout: new Response(JSON.stringify(payload)).body,
+    stderr: new Response('').body,
+    exited: Promise.resolve(0),
+  } as any
+}
+
+/**
+ * Mock ListBlockedBy responses from an adjacency map of node IDs
+ */
+function mockBlockedBy(blockers: Record<string, number[]>) {
+  return spyOn(Bun, 'spawn').mockImplementation((command: string[]) => {
+    const issueId = command.find(arg => arg.startsWith('issueId='))!.slice('issueId='.length)
+    const nodes = (blockers[issueId] ?? []).map(n => ({
+      id: `I_${n}`,
+      number: n,
+      title: `Issue ${n}`,
+      state: 'OPEN',
+      url: `https://github.com/plan/board/issues/${n}`,
+      repository: { nameWithOwner: 'plan/board' },
+    }))
+    return mockProcess({
+      data: { node: { blockedBy: { nodes, pageInfo: { hasNextPage: false, endCursor: null } } } },
+    })
+  })
+}
+
+describe('findDependencyCycles', () => {
+  test('should return nothing for an acyclic graph', () => {
+    const graph: DependencyGraph = { nodes: [node(1, [2, 3]), node(2, [3]), node(3)], truncated: false }
+
+    expect(findDependencyCycles(graph)).toEqual([])
+  })
+
+  test('should find each cycle once', () => {
+    const graph: DependencyGraph = {
+      nodes: [node(1, [2]), node(2, [3]), node(3, [1]), node(4, [4]), node(5, [1])],
+      truncated: false,
+    }
+
+    const cycles = findDependencyCycles(graph)
+
+    expect(cycles).toHaveLength(2)
+    expect(cycles.map(cycle => [...cycle].sort())).toContainEqual(['plan/board#1', 'plan/board#2', 'plan/board#3'])
+    expect(cycles).toContainEqual(['plan/board#4'])
+  })
+})
+
+describe('renderDependencyGraph', () => {
+  const graph: DependencyGraph = {
+    nodes: [node(1, [2]), { ...node(2), repository: 'other/svc', key: 'other/svc#2', title: 'Say "hi"', state: 'CLOSED' }],
+    truncated: false,
+  }
+  graph.nodes[0]!.blockedBy = ['other/svc#2']
+
+  test('should render Mermaid with edges from blocker to blocked', () => {
+    expect(renderDependencyGraph(graph, 'mermaid', context)).toBe([
+      'graph LR',
+      '  n1["#1 Issue 1"]',
+      '  n2["other/svc#2 Say #quot;hi#quot;"]',
+      '  n2 --> n1',
+      '  classDef closed fill:#eee,color:#888',
+      '  class n2 closed',
+    ].join('\n'))
+  })
+
+  test('should render DOT with escaped labels', () => {
+    const dot = renderDependencyGraph(graph, 'dot', context)
+
+    expect(dot).toStartWith('digraph dependencies {')
+    expect(dot).toContain('n2 [label="other/svc#2 Say \\"hi\\"", style=filled, fillcolor=lightgray];')
+    expect(dot).toContain('  n2 -> n1;')
+  })
+
+  test('should render a JSON adjacency list with cycles', () => {
+    const data = JSON.parse(renderDependencyGraph(graph, 'json', context))
+
+    expect(data.nodes[0]).toEqual({
+      key: 'plan/board#1',
+      number: 1,
+      repository: 'plan/board',
+      title: 'Issue 1',
+      state: 'OPEN',
+      url: 'https://github.com/plan/board/issues/1',
+      blockedBy: ['other/svc#2'],
+    })
+    expect(data.cycles).toEqual([])
+    expect(data.truncated).toBe(false)
+  })
+})
+
+describe('crawlDependencyGraph', () => {
+  const seed = { number: 1, title: 'Issue 1', state: 'OPEN', nodeId: 'I_1', url: '', repository: 'plan/board' }
+
+  test('should follow blockers and stop at cycles', async () => {
+    const spawnSpy = mockBlockedBy({ I_1: [2, 3], I_2: [3], I_3: [1] })
+
+    try {
+      const graph = await crawlDependencyGraph([seed], context)
+
+      expect(graph.nodes.map(n => n.key)).toEqual(['plan/board#1', 'plan/board#2', 'plan/board#3'])
+      expect(graph.nodes[2]!.blockedBy).toEqual(['plan/board#1'])
+      expect(graph.truncated).toBe(false)
+      expect(spawnSpy).toHaveBeenCalledTimes(3)
+    }
+    finally {
+      spawnSpy.mockRestore()
+    }
+  })
+
+  test('should mark the graph truncated at the depth limit', async () => {
+    const spawnSpy = mockBlockedBy({ I_1: [2], I_2: [3] })
+
+    try {
+      const graph = await crawlDependencyGraph([seed], context, 1)
+
+      expect(graph.nodes.map(n => n.number)).toEqual([1, 2])
+      expect(graph.truncated).toBe(true)
+      expect(spawnSpy).toHaveBeenCalledTimes(1)
+    }
+    finally {
+      spawnSpy.mockRestore()
+    }
+  })
+})
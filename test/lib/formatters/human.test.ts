@@ -0,0 +1,49 @@
+import type { OutputData, ProgressReportOutput } from '../../../src/lib/formatters/types'
+import { describe, expect, test } from 'bun:test'
+import { HumanFormatter } from '../../../src/lib/formatters/human'
+
+describe('HumanFormatter', () => {
+  const formatter = new HumanFormatter()
+  const timestamp = '2025-10-21T10:30:00Z'
+  const command = 'gh please test'
+
+  describe('formatProgressReport', () => {
+    test('should format progress report with a progress bar', () => {
+      const data: OutputData = {
+        command,
+        timestamp,
+        data: {
+          parent: { number: 10, title: 'Launch v2', url: 'https://github.com/owner/repo/issues/10' },
+          progress: { open: 1, closed: 3, total: 4, percent: 75 },
+          byType: [{ name: 'Task', open: 1, closed: 3 }],
+          byAssignee: [],
+          byLabel: [],
+          overdue: [],
+          blocked: [{
+            ref: '#12',
+            title: 'Ship release',
+            url: 'https://github.com/owner/repo/issues/12',
+            blockers: [{ ref: '#11', title: 'Write docs', url: 'https://github.com/owner/repo/issues/11' }],
+          }],
+          truncated: true,
+        } satisfies ProgressReportOutput,
+      }
+
+      const output = formatter.format(data)
+
+      expect(output).toContain('📊 #10 Launch v2')
+      expect(output).toContain(`[${'█'.repeat(15)}${'░'.repeat(5)}] 75% (3/4 closed, 1 open)`)
+      expect(output).toContain('depth limit')
+      expect(output).toContain('By type:\n   Task  3/4 closed')
+      expect(output).not.toContain('By assignee:')
+      expect(output).toContain('⏰ Overdue: 0')
+      expect(output).toContain('🚧 Blocked: 1\n   #12 Ship release ← #11')
+    })
+  })
+
+  test('should fall back for other output types', () => {
+    const output = formatter.format({ command, timestamp, data: { foo: 'bar' } })
+
+    expect(output).toBe('Human formatter not yet implemented')
+  })
+})
@@ -3,6 +3,7 @@ import type {
   DependencyListOutput,
   OutputData,
   PluginListOutput,
+  ProgressReportOutput,
   ReviewThreadOutput,
   SubIssueListOutput,
 } from '../../../src/lib/formatters/types'
@@ -339,6 +340,49 @@ describe('MarkdownFormatter', () => {
     })
   })
 
+  describe('formatProgressReport', () => {
+    test('should format progress report with breakdown tables', () => {
+      const data: OutputData = {
+        command,
+        timestamp,
+        repository,
+        data: {
+          parent: { number: 10, title: 'Launch v2', url: 'https://github.com/owner/repo/issues/10' },
+          progress: { open: 2, closed: 1, total: 3, percent: 33 },
+          byType: [{ name: 'Task', open: 2, closed: 1 }],
+          byAssignee: [{ name: '@alice', open: 1, closed: 1 }, { name: '(unassigned)', open: 1, closed: 0 }],
+          byLabel: [],
+          overdue: [{
+            ref: '#11',
+            title: 'Write <docs>',
+            url: 'https://github.com/owner/repo/issues/11',
+            milestone: 'Beta',
+            dueOn: '2025-10-01T00:00:00Z',
+          }],
+          blocked: [{
+            ref: '#12',
+            title: 'Ship | release',
+            url: 'https://github.com/owner/repo/issues/12',
+            blockers: [{ ref: 'other/svc#3', title: 'API', url: 'https://github.com/other/svc/issues/3' }],
+          }],
+          truncated: false,
+        } satisfies ProgressReportOutput,
+      }
+
+      const output = formatter.format(data)
+
+      expect(output).toContain('## Progress for #10: Launch v2')
+      expect(output).toContain('**Progress**: 1/3 closed (33%), 2 open')
+      expect(output).toContain('| Type | Open | Closed |')
+      expect(output).toContain('| Task | 2 | 1 |')
+      expect(output).toContain('| @alice | 1 | 1 |')
+      expect(output).toContain('### By Label\n\n*None*')
+      expect(output).toContain('| [#11](https://github.com/owner/repo/issues/11) | Write <docs> | Beta | 2025-10-01 |')
+      expect(output).toContain('| [#12](https://github.com/owner/repo/issues/12) | Ship \\| release | [other/svc#3](https://github.com/other/svc/issues/3) |')
+      expect(output).toContain('**Parent Issue**: https://github.com/owner/repo/issues/10')
+    })
+  })
+
   describe('formatActionResult', () => {
     test('should format successful action result', () => {
       const data: OutputData = {
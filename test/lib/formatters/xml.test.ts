@@ -3,6 +3,7 @@ import type {
   DependencyListOutput,
   OutputData,
   PluginListOutput,
+  ProgressReportOutput,
   ReviewThreadOutput,
   SubIssueListOutput,
 } from '../../../src/lib/formatters/types'
@@ -275,6 +276,48 @@ describe('XMLFormatter', () => {
     })
   })
 
+  describe('formatProgressReport', () => {
+    test('should format progress report as XML', () => {
+      const data: OutputData = {
+        command,
+        timestamp,
+        repository,
+        data: {
+          parent: { number: 10, title: 'Launch v2', url: 'https://github.com/owner/repo/issues/10' },
+          progress: { open: 2, closed: 1, total: 3, percent: 33 },
+          byType: [{ name: 'Task', open: 2, closed: 1 }],
+          byAssignee: [{ name: '@alice', open: 1, closed: 1 }, { name: '(unassigned)', open: 1, closed: 0 }],
+          byLabel: [],
+          overdue: [{
+            ref: '#11',
+            title: 'Write <docs>',
+            url: 'https://github.com/owner/repo/issues/11',
+            milestone: 'Beta',
+            dueOn: '2025-10-01T00:00:00Z',
+          }],
+          blocked: [{
+            ref: '#12',
+            title: 'Ship | release',
+            url: 'https://github.com/owner/repo/issues/12',
+            blockers: [{ ref: 'other/svc#3', title: 'API', url: 'https://github.com/other/svc/issues/3' }],
+          }],
+          truncated: false,
+        } satisfies ProgressReportOutput,
+      }
+
+      const output = formatter.format(data)
+
+      expect(output).toContain('<progress-report truncated="false">')
+      expect(output).toContain('<percent>33</percent>')
+      expect(output).toContain('<group name="@alice" open="1" closed="1" />')
+      expect(output).toContain('<by-label>\n  </by-label>')
+      expect(output).toContain('<issue ref="#11" due-on="2025-10-01T00:00:00Z">')
+      expect(output).toContain('<title>Write &lt;docs&gt;</title>')
+      expect(output).toContain('<blocked-by ref="other/svc#3">API</blocked-by>')
+      expect(output).toContain('</progress-report>')
+    })
+  })
+
   describe('formatActionResult', () => {
     test('should format successful action result as XML', () => {
       const data: OutputData = {
@@ -195,6 +195,14 @@ describe('github-api', () => {
       })
     })
 
+    test('should parse HOST/owner/repo format', () => {
+      expect(parseRepoString('ghe.example.com/owner/repo')).toEqual({
+        owner: 'owner',
+        repo: 'repo',
+        host: 'ghe.example.com',
+      })
+    })
+
     test('should trim whitespace', () => {
       const result = parseRepoString('  owner/repo  ')
       expect(result).toEqual({
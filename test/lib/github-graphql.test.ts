@@ -12,6 +12,8 @@ import {
   getProjectNodeIds,
   getThreadIdFromComment,
   listBlockedBy,
+  listBlocking,
+  listOpenMilestones,
   listReviewThreads,
   listSubIssues,
   removeBlockedBy,
@@ -176,6 +178,22 @@ describe('github-graphql', () => {
     })
   })
 
+  describe('listBlocking', () => {
+    test('should export function with correct signature', () => {
+      expect(typeof listBlocking).toBe('function')
+    })
+
+    test('should accept issueNodeId parameter', () => {
+      const func = listBlocking.toString()
+      expect(func).toContain('issueNodeId')
+    })
+
+    test('should be async function', () => {
+      const func = listBlocking.toString()
+      expect(func).toContain('async')
+    })
+  })
+
   describe('resolveReviewThread', () => {
     test('should export function with correct signature', () => {
       expect(typeof resolveReviewThread).toBe('function')
@@ -249,11 +267,12 @@ describe('github-graphql', () => {
         expect(func).toContain('databaseId')
       })
 
-      test('should use single GraphQL query', () => {
+      test('should use single paginated GraphQL query', () => {
         const func = getThreadIdFromComment.toString()
-        // Verify only one executeGraphQL call
-        const queryMatches = func.match(/executeGraphQL/g)
+        // Verify one query, paginated across all reviewThreads
+        const queryMatches = func.match(/paginateGraphQL/g)
         expect(queryMatches?.length).toBe(1)
+        expect(func).toContain('endCursor')
       })
 
       test('should throw error when thread not found', () => {
@@ -516,10 +535,9 @@ describe('github-graphql', () => {
       expect(func).toContain('async')
     })
 
-    test('should query repository labels', () => {
+    test('should look up the repository label list', () => {
       const func = getLabelNodeIds.toString()
-      expect(func).toContain('repository')
-      expect(func).toContain('labels')
+      expect(func).toContain('listLabels')
     })
 
     test('should return array of label Node IDs', () => {
@@ -610,10 +628,9 @@ describe('github-graphql', () => {
       expect(func).toContain('async')
     })
 
-    test('should query repository milestones', () => {
+    test('should look up the open milestone list', () => {
       const func = getMilestoneNodeId.toString()
-      expect(func).toContain('repository')
-      expect(func).toContain('milestones')
+      expect(func).toContain('listOpenMilestones')
     })
 
     test('should return milestone Node ID string', () => {
@@ -639,16 +656,9 @@ describe('github-graphql', () => {
       expect(func).toContain('async')
     })
 
-    test('should query repository projects', () => {
-      const func = getProjectNodeIds.toString()
-      expect(func).toContain('repository')
-      expect(func).toContain('projectsV2')
-    })
-
-    test('should query organization projects', () => {
+    test('should look up repository and organization projects', () => {
       const func = getProjectNodeIds.toString()
-      expect(func).toContain('organization')
-      expect(func).toContain('projectsV2')
+      expect(func).toContain('listProjects')
     })
 
     test('should return array of project Node IDs', () => {
@@ -677,9 +687,9 @@ describe('github-graphql', () => {
 
     describe('getMilestoneNodeId limitations', () => {
       test('should document OPEN milestones only limitation', () => {
-        const func = getMilestoneNodeId.toString()
-        // Verify function queries only OPEN milestones
-        expect(func).toContain('OPEN')
+        // Verify the lookup goes through the listing that queries only OPEN milestones
+        expect(getMilestoneNodeId.toString()).toContain('listOpenMilestones')
+        expect(listOpenMilestones.toString()).toContain('states: OPEN')
       })
     })
   })
@@ -0,0 +1,141 @@
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, expect, mock, test } from 'bun:test'
+import {
+  getCacheFilePath,
+  getCacheMode,
+  invalidateCache,
+  setCacheMode,
+  withCache,
+} from '../../../src/lib/github/cache'
+
+const labelsKey = { owner: 'o', repo: 'r', operation: 'labels' }
+
+describe('withCache', () => {
+  let cacheDir: string
+  let originalMode: ReturnType<typeof getCacheMode>
+  const originalEnv = { ...process.env }
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gh-please-cache-'))
+    process.env.GH_PLEASE_CACHE_DIR = cacheDir
+    delete process.env.GH_PLEASE_CACHE_TTL
+    delete process.env.GH_HOST
+    originalMode = getCacheMode()
+    setCacheMode('default')
+  })
+
+  afterEach(() => {
+    setCacheMode(originalMode)
+    process.env = { ...originalEnv }
+    fs.rmSync(cacheDir, { recursive: true, force: true })
+  })
+
+  test('should return the cached value on a second call', async () => {
+    const fetcher = mock(async () => ['bug'])
+
+    expect(await withCache(labelsKey, fetcher)).toEqual(['bug'])
+    expect(await withCache(labelsKey, fetcher)).toEqual(['bug'])
+    expect(fetcher).toHaveBeenCalledTimes(1)
+  })
+
+  test('should store entries under host/owner/repo', async () => {
+    await withCache(labelsKey, async () => ['bug'])
+
+    expect(getCacheFilePath(labelsKey)).toBe(path.join(cacheDir, 'github.com', 'o', 'r', 'labels.json'))
+    expect(fs.existsSync(getCacheFilePath(labelsKey))).toBe(true)
+  })
+
+  test('should keep entries with different params separate', async () => {
+    await withCache({ ...labelsKey, operation: 'assignees', params: 'alice' }, async () => ['A'])
+    const result = await withCache({ ...labelsKey, operation: 'assignees', params: 'bob' }, async () => ['B'])
+
+    expect(result).toEqual(['B'])
+  })
+
+  test('should refetch expired entries', async () => {
+    process.env.GH_PLEASE_CACHE_TTL = '0'
+    const fetcher = mock(async () => ['bug'])
+
+    await withCache(labelsKey, fetcher)
+    await Bun.sleep(5)
+    await withCache(labelsKey, fetcher)
+
+    expect(fetcher).toHaveBeenCalledTimes(2)
+  })
+
+  test('should refetch when the cached value is stale', async () => {
+    await withCache(labelsKey, async () => ['bug'])
+
+    const result = await withCache(
+      labelsKey,
+      async () => ['bug', 'feature'],
+      { isStale: labels => !labels.includes('feature') },
+    )
+
+    expect(result).toEqual(['bug', 'feature'])
+    expect(await withCache(labelsKey, async () => [])).toEqual(['bug', 'feature'])
+  })
+
+  test('should skip reads but write entries in refresh mode', async () => {
+    await withCache(labelsKey, async () => ['old'])
+
+    setCacheMode('refresh')
+    expect(await withCache(labelsKey, async () => ['new'])).toEqual(['new'])
+
+    setCacheMode('default')
+    expect(await withCache(labelsKey, async () => ['unused'])).toEqual(['new'])
+  })
+
+  test('should neither read nor write in disabled mode', async () => {
+    setCacheMode('disabled')
+    await withCache(labelsKey, async () => ['bug'])
+
+    expect(fs.existsSync(getCacheFilePath(labelsKey))).toBe(false)
+  })
+})
+
+describe('invalidateCache', () => {
+  let cacheDir: string
+  let originalMode: ReturnType<typeof getCacheMode>
+  const originalEnv = { ...process.env }
+
+  beforeEach(async () => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gh-please-cache-'))
+    process.env.GH_PLEASE_CACHE_DIR = cacheDir
+    delete process.env.GH_HOST
+    originalMode = getCacheMode()
+    setCacheMode('default')
+
+    await withCache({ owner: 'o', repo: 'r', operation: 'labels' }, async () => [])
+    await withCache({ owner: 'o', repo: 'r', operation: 'projects' }, async () => [])
+    await withCache({ owner: 'o', repo: 'other', operation: 'labels' }, async () => [])
+  })
+
+  afterEach(() => {
+    setCacheMode(originalMode)
+    process.env = { ...originalEnv }
+    fs.rmSync(cacheDir, { recursive: true, force: true })
+  })
+
+  test('should remove an operation across repositories', () => {
+    invalidateCache({ operation: 'labels' })
+
+    expect(fs.existsSync(getCacheFilePath({ owner: 'o', repo: 'r', operation: 'labels' }))).toBe(false)
+    expect(fs.existsSync(getCacheFilePath({ owner: 'o', repo: 'other', operation: 'labels' }))).toBe(false)
+    expect(fs.existsSync(getCacheFilePath({ owner: 'o', repo: 'r', operation: 'projects' }))).toBe(true)
+  })
+
+  test('should remove a whole repository', () => {
+    invalidateCache({ owner: 'o', repo: 'r' })
+
+    expect(fs.existsSync(getCacheFilePath({ owner: 'o', repo: 'r', operation: 'projects' }))).toBe(false)
+    expect(fs.existsSync(getCacheFilePath({ owner: 'o', repo: 'other', operation: 'labels' }))).toBe(true)
+  })
+
+  test('should not throw when nothing is cached', () => {
+    fs.rmSync(cacheDir, { recursive: true, force: true })
+    expect(() => invalidateCache({ operation: 'labels' })).not.toThrow()
+  })
+})
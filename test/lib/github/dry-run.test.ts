@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test'
+import {
+  describeRestMutation,
+  DRY_RUN_PLACEHOLDER,
+  DRY_RUN_RESULT,
+  getDeclaredOperationName,
+  getPlannedMutations,
+  isDryRun,
+  isDryRunResult,
+  printOutput,
+  recordPlannedMutation,
+  resetDryRun,
+  setDryRun,
+  writeOutput,
+} from '../../../src/lib/github/dry-run'
+import { executeGraphQL } from '../../../src/lib/github/graphql-core'
+import { createIssueWithType } from '../../../src/lib/github/issue-management'
+import { ghApi } from '../../../src/lib/github/transport'
+
+describe('describeRestMutation', () => {
+  test('should describe calls with a mutating method', () => {
+    expect(describeRestMutation(['api', '--method', 'PATCH', '/repos/o/r/issues/comments/1', '-f', 'body=hi'])).toEqual({
+      kind: 'rest',
+      operationName: 'PATCH /repos/o/r/issues/comments/1',
+      variables: { body: 'hi' },
+    })
+  })
+
+  test('should treat fields without --method as POST', () => {
+    expect(describeRestMutation(['api', '/repos/o/r/issues/1/comments', '-f', 'body=hi'])?.operationName)
+      .toBe('POST /repos/o/r/issues/1/comments')
+  })
+
+  test('should ignore read-only and GraphQL calls', () => {
+    expect(describeRestMutation(['api', '/repos/o/r/pulls/1/comments', '--paginate'])).toBeNull()
+    expect(describeRestMutation(['api', '--method', 'GET', '/x', '-f', 'per_page=100'])).toBeNull()
+    expect(describeRestMutation(['api', 'graphql', '-f', 'query=mutation { x }'])).toBeNull()
+  })
+})
+
+describe('isDryRunResult', () => {
+  test('should only match the dry-run result', () => {
+    expect(isDryRunResult(DRY_RUN_RESULT)).toBe(true)
+    expect(isDryRunResult({ dryRun: true, nodeId: DRY_RUN_PLACEHOLDER })).toBe(false)
+    expect(isDryRunResult({ number: 1, nodeId: 'I_1' })).toBe(false)
+  })
+})
+
+describe('getDeclaredOperationName', () => {
+  test('should read the operation name', () => {
+    expect(getDeclaredOperationName('\n  mutation AddSubIssue($a: ID!) { x }')).toBe('AddSubIssue')
+    expect(getDeclaredOperationName('mutation { x }')).toBeUndefined()
+  })
+})
+
+describe('dry-run mode', () => {
+  let spawnSpy: any
+  let errorSpy: any
+  beforeEach(() => {
+    spawnSpy = spyOn(Bun, 'spawn')
+    errorSpy = spyOn(console, 'error').mockImplementation(() => {})
+    setDryRun('human')
+  })
+
+  afterEach(() => {
+    resetDryRun()
+    spawnSpy.mockRestore()
+    errorSpy.mockRestore()
+  })
+
+  test('should record GraphQL mutations without sending them', async () => {
+    const mutation = `
+      mutation AddSubIssue($parentId: ID!, $childId: ID!) {
+        addSubIssue(input: { issueId: $parentId, subIssueId: $childId }) { issue { id } }
+      }
+    `
+
+    const data = await executeGraphQL(mutation, { parentId: 'I_1', childId: 'I_2' }, ['sub_issues'])
+
+    expect(spawnSpy).not.toHaveBeenCalled()
+    expect(data).toBe(DRY_RUN_RESULT)
+    expect(getPlannedMutations()).toEqual([
+      { kind: 'graphql', operationName: 'AddSubIssue', variables: { parentId: 'I_1', childId: 'I_2' } },
+    ])
+    expect(errorSpy.mock.calls[0][0]).toContain('AddSubIssue')
+  })
+
+  test('should record mutating REST calls without sending them', async () => {
+    const response = await ghApi(['api', '--method', 'POST', '/repos/o/r/issues/1/comments', '-f', 'body=hi'], { idempotent: false })
+
+    expect(spawnSpy).not.toHaveBeenCalled()
+    expect(JSON.parse(response.body).id).toBe(DRY_RUN_PLACEHOLDER)
+    expect(getPlannedMutations()[0]?.operationName).toBe('POST /repos/o/r/issues/1/comments')
+  })
+
+  test('should return a typed dry-run result from mutations that read their response', async () => {
+    spawnSpy.mockImplementation(() => ({
+      stdout: new Response(JSON.stringify({ data: { repository: { id: 'R_1' } } })).body,
+      stderr: new Response('').body,
+      exited: Promise.resolve(0),
+    }))
+
+    const issue = await createIssueWithType('o', 'r', 'Title')
+
+    expect(isDryRunResult(issue)).toBe(true)
+    expect(issue.nodeId).toBe(DRY_RUN_PLACEHOLDER)
+    expect('number' in issue).toBe(false)
+  })
+
+  test('should write the JSON plan with the given writer and leave console.log alone', () => {
+    const originalLog = console.log
+    const written: string[] = []
+    setDryRun('json', text => written.push(text))
+
+    recordPlannedMutation({ kind: 'gh', operationName: 'gh label create', variables: {} })
+    process.emit('exit', 0)
+
+    expect(console.log).toBe(originalLog)
+    expect(JSON.parse(written.join(''))).toEqual([{ kind: 'gh', operationName: 'gh label create', variables: {} }])
+  })
+
+  test('should keep stdout for the JSON plan alone', async () => {
+    const stdoutSpy = spyOn(process.stdout, 'write').mockImplementation(() => true)
+    const stderrSpy = spyOn(process.stderr, 'write').mockImplementation(() => true)
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {})
+    setDryRun('json')
+
+    try {
+      printOutput('📋 Adding sub-issue...')
+      writeOutput('raw gh output\n')
+      await executeGraphQL('mutation CloseIssue($issueId: ID!) { closeIssue(input: { issueId: $issueId }) { issue { id } } }', { issueId: 'I_1' })
+      process.emit('exit', 0)
+
+      const stdout = stdoutSpy.mock.calls.map(([text]) => String(text)).join('')
+      expect(JSON.parse(stdout)).toEqual([{ kind: 'graphql', operationName: 'CloseIssue', variables: { issueId: 'I_1' } }])
+      expect(logSpy).not.toHaveBeenCalledWith('📋 Adding sub-issue...')
+      expect(errorSpy).toHaveBeenCalledWith('📋 Adding sub-issue...')
+      expect(stderrSpy).toHaveBeenCalledWith('raw gh output\n')
+    }
+    finally {
+      stdoutSpy.mockRestore()
+      stderrSpy.mockRestore()
+      logSpy.mockRestore()
+    }
+  })
+
+  test('should be disabled after reset', () => {
+    expect(isDryRun()).toBe(true)
+    resetDryRun()
+    expect(isDryRun()).toBe(false)
+  })
+})
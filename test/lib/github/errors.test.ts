@@ -0,0 +1,108 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  classifyGhApiFailure,
+  classifyGraphQLErrors,
+  classifyHttpStatus,
+  ExitCode,
+  FeatureNotEnabledError,
+  ForbiddenError,
+  getExitCode,
+  GitHubError,
+  NotFoundError,
+  RateLimitedError,
+  ValidationError,
+} from '../../../src/lib/github/errors'
+
+describe('classifyGraphQLErrors', () => {
+  test('should classify by GraphQL error type', () => {
+    expect(classifyGraphQLErrors([{ type: 'NOT_FOUND', message: 'x' }])).toBeInstanceOf(NotFoundError)
+    expect(classifyGraphQLErrors([{ type: 'FORBIDDEN', message: 'x' }])).toBeInstanceOf(ForbiddenError)
+    expect(classifyGraphQLErrors([{ type: 'INSUFFICIENT_SCOPES', message: 'x' }])).toBeInstanceOf(ForbiddenError)
+    expect(classifyGraphQLErrors([{ type: 'RATE_LIMITED', message: 'x' }])).toBeInstanceOf(RateLimitedError)
+    expect(classifyGraphQLErrors([{ type: 'UNPROCESSABLE', message: 'x' }])).toBeInstanceOf(ValidationError)
+  })
+
+  test('should detect disabled features from the message', () => {
+    const error = classifyGraphQLErrors([
+      { message: 'Field \'subIssues\' doesn\'t exist on type \'Issue\'', extensions: { code: 'undefinedField' } },
+    ])
+    expect(error).toBeInstanceOf(FeatureNotEnabledError)
+  })
+
+  test('should treat unsupported input arguments as disabled features', () => {
+    const error = classifyGraphQLErrors([
+      { message: 'InputObject \'AddSubIssueInput\' doesn\'t accept argument \'replaceParent\'', extensions: { code: 'argumentNotAccepted' } },
+    ])
+    expect(error).toBeInstanceOf(FeatureNotEnabledError)
+  })
+
+  test('should prefer the most actionable class', () => {
+    const error = classifyGraphQLErrors([
+      { type: 'NOT_FOUND', message: 'missing' },
+      { type: 'FORBIDDEN', message: 'denied' },
+    ])
+    expect(error).toBeInstanceOf(ForbiddenError)
+    expect(error.message).toBe('GraphQL errors: missing, denied')
+  })
+
+  test('should fall back to GitHubError', () => {
+    const error = classifyGraphQLErrors([{ message: 'something odd' }])
+    expect(error.constructor).toBe(GitHubError)
+    expect(error.exitCode).toBe(ExitCode.GeneralError)
+  })
+})
+
+describe('classifyHttpStatus', () => {
+  test('should map REST status codes', () => {
+    expect(classifyHttpStatus(404, 'x')).toBeInstanceOf(NotFoundError)
+    expect(classifyHttpStatus(401, 'x')).toBeInstanceOf(ForbiddenError)
+    expect(classifyHttpStatus(403, 'x')).toBeInstanceOf(ForbiddenError)
+    expect(classifyHttpStatus(403, 'API rate limit exceeded')).toBeInstanceOf(RateLimitedError)
+    expect(classifyHttpStatus(429, 'x')).toBeInstanceOf(RateLimitedError)
+    expect(classifyHttpStatus(422, 'x')).toBeInstanceOf(ValidationError)
+    expect(classifyHttpStatus(500, 'x').status).toBe(500)
+  })
+})
+
+describe('classifyGhApiFailure', () => {
+  test('should use GraphQL errors from the response body', () => {
+    const stdout = JSON.stringify({ errors: [{ type: 'NOT_FOUND', message: 'Could not resolve to an Issue' }] })
+    const error = classifyGhApiFailure('GraphQL query failed: gh: Could not resolve', 'gh: Could not resolve', stdout)
+
+    expect(error).toBeInstanceOf(NotFoundError)
+    expect(error.message).toBe('GraphQL query failed: gh: Could not resolve')
+  })
+
+  test('should parse the HTTP status from gh stderr', () => {
+    expect(classifyGhApiFailure('Failed', 'gh: Not Found (HTTP 404)')).toBeInstanceOf(NotFoundError)
+    expect(classifyGhApiFailure('Failed', 'gh: Resource not accessible by integration (HTTP 403)')).toBeInstanceOf(ForbiddenError)
+  })
+
+  test('should return GitHubError when nothing is recognized', () => {
+    expect(classifyGhApiFailure('Failed', 'connection reset').exitCode).toBe(ExitCode.GeneralError)
+  })
+})
+
+describe('getExitCode', () => {
+  test('should return distinct exit codes per error class', () => {
+    const codes = [
+      getExitCode(new NotFoundError('x')),
+      getExitCode(new ForbiddenError('x')),
+      getExitCode(new RateLimitedError('x')),
+      getExitCode(new ValidationError('x')),
+      getExitCode(new FeatureNotEnabledError('x')),
+    ]
+    expect(new Set(codes).size).toBe(codes.length)
+    expect(codes).not.toContain(ExitCode.GeneralError)
+  })
+
+  test('should return 1 for untyped errors', () => {
+    expect(getExitCode(new Error('x'))).toBe(1)
+    expect(getExitCode('x')).toBe(1)
+  })
+
+  test('should set error names for typed errors', () => {
+    expect(new NotFoundError('x').name).toBe('NotFoundError')
+    expect(new GitHubError('x').name).toBe('GitHubError')
+  })
+})
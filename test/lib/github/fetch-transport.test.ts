@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test'
+import { fetchApi, parseGhApiArgs } from '../../../src/lib/github/fetch-transport'
+import { getGraphQLUrl, getRestBaseUrl } from '../../../src/lib/github/host'
+import { getTransportKind, graphqlApi } from '../../../src/lib/github/transport'
+
+/**
+ * Build a JSON response with optional headers
+ */
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } })
+}
+
+describe('parseGhApiArgs', () => {
+  test('should translate method, headers, and fields', () => {
+    const request = parseGhApiArgs([
+      'api',
+      '--method',
+      'patch',
+      '-H',
+      'X-GitHub-Api-Version: 2022-11-28',
+      '/repos/o/r/issues/comments/1',
+      '-f',
+      'body=a=b',
+      '-F',
+      'draft=true',
+    ])
+
+    expect(request).toEqual({
+      method: 'PATCH',
+      endpoint: '/repos/o/r/issues/comments/1',
+      headers: { 'X-GitHub-Api-Version': '2022-11-28' },
+      fields: { body: 'a=b', draft: true },
+      paginate: false,
+    })
+  })
+
+  test('should default to GET, or POST when fields are present', () => {
+    expect(parseGhApiArgs(['api', '/user']).method).toBe('GET')
+    expect(parseGhApiArgs(['api', '/x', '-f', 'a=1']).method).toBe('POST')
+  })
+
+  test('should detect pagination', () => {
+    expect(parseGhApiArgs(['api', '/x', '--paginate']).paginate).toBe(true)
+  })
+})
+
+describe('fetchApi', () => {
+  let fetchSpy: any
+
+  afterEach(() => {
+    fetchSpy.mockRestore()
+  })
+
+  test('should send the token and a JSON body', async () => {
+    fetchSpy = spyOn(globalThis, 'fetch').mockImplementation(async () => jsonResponse({ id: 1 }, 201))
+
+    const response = await fetchApi(parseGhApiArgs(['api', '--method', 'POST', '/repos/o/r/issues/1/comments', '-f', 'body=hi']), 'tok')
+
+    expect(response).toMatchObject({ exitCode: 0, status: 201, body: '{"id":1}' })
+    const [url, init] = fetchSpy.mock.calls[0]
+    expect(url).toBe(`${getRestBaseUrl()}/repos/o/r/issues/1/comments`)
+    expect(init.headers.Authorization).toBe('bearer tok')
+    expect(JSON.parse(init.body)).toEqual({ body: 'hi' })
+  })
+
+  test('should follow Link headers and concatenate pages', async () => {
+    const pages = [
+      jsonResponse([{ id: 1 }], 200, { Link: `<${getRestBaseUrl()}/x?page=2>; rel="next"` }),
+      jsonResponse([{ id: 2 }]),
+    ]
+    fetchSpy = spyOn(globalThis, 'fetch').mockImplementation(async () => pages.shift()!)
+
+    const response = await fetchApi(parseGhApiArgs(['api', '/x', '--paginate']), 'tok')
+
+    expect(JSON.parse(response.body)).toEqual([{ id: 1 }, { id: 2 }])
+    expect(fetchSpy.mock.calls[1][0]).toBe(`${getRestBaseUrl()}/x?page=2`)
+  })
+
+  test('should report HTTP failures like gh', async () => {
+    fetchSpy = spyOn(globalThis, 'fetch').mockImplementation(async () => jsonResponse({ message: 'Not Found' }, 404))
+
+    const response = await fetchApi(parseGhApiArgs(['api', '/x']), 'tok')
+
+    expect(response.exitCode).toBe(1)
+    expect(response.stderr).toBe('gh: Not Found (HTTP 404)')
+  })
+
+  test('should treat GraphQL errors as failures', async () => {
+    fetchSpy = spyOn(globalThis, 'fetch').mockImplementation(async () => jsonResponse({ data: null, errors: [{ message: 'bad' }] }))
+
+    const response = await fetchApi({ method: 'POST', endpoint: 'graphql', headers: {}, fields: {}, paginate: false }, 'tok')
+
+    expect(response.exitCode).toBe(1)
+    expect(response.stderr).toBe('gh: bad')
+  })
+
+  test('should report network errors on stderr', async () => {
+    fetchSpy = spyOn(globalThis, 'fetch').mockImplementation(async () => {
+      throw new Error('The operation timed out.')
+    })
+
+    const response = await fetchApi(parseGhApiArgs(['api', '/x']), 'tok')
+
+    expect(response).toMatchObject({ exitCode: 1, stderr: 'The operation timed out.' })
+  })
+})
+
+describe('transport selection', () => {
+  const originalEnv = { ...process.env }
+  let fetchSpy: any
+  let spawnSpy: any
+
+  beforeEach(() => {
+    fetchSpy = spyOn(globalThis, 'fetch').mockImplementation(async () => jsonResponse({ data: { ok: true } }))
+    spawnSpy = spyOn(Bun, 'spawn')
+  })
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+    fetchSpy.mockRestore()
+    spawnSpy.mockRestore()
+  })
+
+  test('should select gh when configured or when GH_PATH is set', () => {
+    process.env.GH_PLEASE_TRANSPORT = 'gh'
+    expect(getTransportKind()).toBe('gh')
+
+    delete process.env.GH_PLEASE_TRANSPORT
+    process.env.GH_PATH = '/tmp/mock-gh'
+    expect(getTransportKind()).toBe('gh')
+
+    delete process.env.GH_PATH
+    delete process.env.GH_HOST
+    expect(getTransportKind()).toBe('fetch')
+  })
+
+  test('should send GraphQL variables as JSON over HTTP', async () => {
+    process.env.GH_PLEASE_TRANSPORT = 'fetch'
+    process.env.GH_TOKEN = 'tok'
+
+    const response = await graphqlApi({
+      query: 'query Q($ids: [ID!]) { ok }',
+      variables: { ids: ['a', 'b'], count: 2 },
+      features: ['sub_issues'],
+      operationName: 'Q',
+    })
+
+    expect(response.exitCode).toBe(0)
+    expect(spawnSpy).not.toHaveBeenCalled()
+    const [url, init] = fetchSpy.mock.calls[0]
+    expect(url).toBe(getGraphQLUrl())
+    expect(init.headers['GraphQL-Features']).toBe('sub_issues')
+    expect(JSON.parse(init.body)).toEqual({
+      query: 'query Q($ids: [ID!]) { ok }',
+      variables: { ids: ['a', 'b'], count: 2 },
+      operationName: 'Q',
+    })
+  })
+})
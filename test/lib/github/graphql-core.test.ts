@@ -1,5 +1,6 @@
 import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test'
 import { executeGraphQL } from '../../../src/lib/github/graphql-core'
+import { enableTrace, resetTrace } from '../../../src/lib/trace'
 
 describe('graphql-core', () => {
   describe('executeGraphQL', () => {
@@ -237,5 +238,31 @@ describe('graphql-core', () => {
       expect(fullArgs).toContain('-F')
       expect(fullArgs).toContain('operationName=GetIssue')
     })
+
+    test('should request rateLimit cost for queries when tracing', async () => {
+      enableTrace()
+      const stderrSpy = spyOn(process.stderr, 'write').mockImplementation(() => true)
+
+      try {
+        await executeGraphQL('query Viewer { viewer { id } }', {}, undefined, 'Viewer')
+        await executeGraphQL('mutation M { m { id } }')
+
+        const queryArg: string = spawnSpy.mock.calls[0][0].find((arg: string) => arg.startsWith('query='))
+        const mutationArg: string = spawnSpy.mock.calls[1][0].find((arg: string) => arg.startsWith('query='))
+        expect(queryArg).toContain('rateLimit { cost remaining resetAt }')
+        expect(mutationArg).not.toContain('rateLimit')
+      }
+      finally {
+        stderrSpy.mockRestore()
+        resetTrace()
+      }
+    })
+
+    test('should not request rateLimit cost without tracing', async () => {
+      await executeGraphQL('query Viewer { viewer { id } }', {}, undefined, 'Viewer')
+
+      const queryArg: string = spawnSpy.mock.calls[0][0].find((arg: string) => arg.startsWith('query='))
+      expect(queryArg).not.toContain('rateLimit')
+    })
   })
 })
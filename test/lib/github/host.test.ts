@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import {
+  DEFAULT_HOST,
+  getGraphQLUrl,
+  getHost,
+  getRepositoryUrl,
+  getRestBaseUrl,
+  isEnterpriseHost,
+  normalizeHost,
+  resetHost,
+  setHost,
+  setRepositoryHost,
+} from '../../../src/lib/github/host'
+
+describe('host resolution', () => {
+  const originalEnv = { ...process.env }
+
+  afterEach(() => {
+    resetHost()
+    process.env = { ...originalEnv }
+  })
+
+  test('should default to github.com', () => {
+    delete process.env.GH_HOST
+    expect(getHost()).toBe(DEFAULT_HOST)
+    expect(isEnterpriseHost()).toBe(false)
+    expect(getRestBaseUrl()).toBe('https://api.github.com')
+    expect(getGraphQLUrl()).toBe('https://api.github.com/graphql')
+  })
+
+  test('should use GH_HOST for GitHub Enterprise Server', () => {
+    process.env.GH_HOST = 'GHE.example.com'
+    expect(getHost()).toBe('ghe.example.com')
+    expect(getRestBaseUrl()).toBe('https://ghe.example.com/api/v3')
+    expect(getGraphQLUrl()).toBe('https://ghe.example.com/api/graphql')
+    expect(getRepositoryUrl('o', 'r')).toBe('https://ghe.example.com/o/r')
+  })
+
+  test('should prefer --hostname, then the repository host, then GH_HOST', () => {
+    process.env.GH_HOST = 'env.example.com'
+    setRepositoryHost('https://repo.example.com/o/r')
+    expect(getHost()).toBe('repo.example.com')
+
+    setHost('https://flag.example.com/')
+    expect(getHost()).toBe('flag.example.com')
+    expect(process.env.GH_HOST).toBe('flag.example.com')
+  })
+
+  test('should normalize hosts given as URLs', () => {
+    expect(normalizeHost(' https://GHE.example.com/org/repo ')).toBe('ghe.example.com')
+  })
+})
@@ -0,0 +1,320 @@
+import type { SubIssueMove } from '../../../src/lib/github/issue-hierarchy'
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test'
+import { ForbiddenError } from '../../../src/lib/github/errors'
+import { getSubIssueTree, listBlockedByMany, listFilterableSubIssues, moveSubIssue, planSubIssueReorder, reprioritizeSubIssue, SubIssueMoveError } from '../../../src/lib/github/issue-hierarchy'
+import { BATCH_CHUNK_SIZE } from '../../../src/lib/github/node-id-batch'
+
+/**
+ * Build a mocked gh process that prints the given JSON payload
+ */
+function mockProcess(payload: unknown) {
+  return {
+    stdout: new Response(JSON.stringify(payload)).body,
+    stderr: new Response('').body,
+    exited: Promise.resolve(0),
+  } as any
+}
+
+/**
+ * Build a raw issue node as selected by the tree queries
+ */
+function issue(number: number, state: string, childCount: number, extra: Record<string, unknown> = {}) {
+  return {
+    id: `I_${number}`,
+    number,
+    title: `Issue ${number}`,
+    state,
+    url: `https://github.com/o/r/issues/${number}`,
+    repository: { nameWithOwner: 'o/r' },
+    issueType: null,
+    assignees: { nodes: [] },
+    subIssues: { totalCount: childCount },
+    ...extra,
+  }
+}
+
+/**
+ * Build a children page response
+ */
+function childrenPage(nodes: unknown[]) {
+  return { data: { node: { subIssues: { nodes, pageInfo: { hasNextPage: false, endCursor: null } } } } }
+}
+
+describe('getSubIssueTree', () => {
+  let spawnSpy: any
+  let responses: Record<string, unknown>
+
+  beforeEach(() => {
+    responses = {}
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation((command: string[]) => {
+      const issueId = command.find(arg => arg.startsWith('issueId='))!.slice('issueId='.length)
+      const isRoot = command.some(arg => arg.includes('GetSubIssueTreeRoot'))
+      return mockProcess(responses[isRoot ? 'root' : issueId])
+    })
+  })
+
+  afterEach(() => {
+    spawnSpy.mockRestore()
+  })
+
+  test('should walk the hierarchy and roll up progress', async () => {
+    responses.root = { data: { node: issue(1, 'OPEN', 2, { issueType: { name: 'Epic' }, assignees: { nodes: [{ login: 'alice' }] } }) } }
+    responses.I_1 = childrenPage([issue(2, 'OPEN', 2), issue(3, 'CLOSED', 0)])
+    responses.I_2 = childrenPage([issue(4, 'CLOSED', 0), issue(5, 'OPEN', 0)])
+
+    const tree = await getSubIssueTree('I_1')
+
+    expect(tree).toMatchObject({ number: 1, issueType: 'Epic', assignees: ['alice'], progress: { closed: 2, total: 4 } })
+    expect(tree.children.map(c => c.number)).toEqual([2, 3])
+    expect(tree.children[0]!.progress).toEqual({ closed: 1, total: 2 })
+    // Leaves are never queried for children
+    expect(spawnSpy).toHaveBeenCalledTimes(3)
+  })
+
+  test('should map labels and milestones', async () => {
+    responses.root = { data: { node: issue(1, 'OPEN', 1) } }
+    responses.I_1 = childrenPage([issue(2, 'OPEN', 0, {
+      labels: { nodes: [{ name: 'bug' }, { name: 'api' }] },
+      milestone: { title: 'v1.0', dueOn: '2026-01-31T00:00:00Z' },
+    })])
+
+    const tree = await getSubIssueTree('I_1')
+
+    expect(tree).toMatchObject({ labels: [], milestone: null })
+    expect(tree.children[0]).toMatchObject({ labels: ['bug', 'api'], milestone: { title: 'v1.0', dueOn: '2026-01-31T00:00:00Z' } })
+  })
+
+  test('should stop at the depth limit and mark truncated issues', async () => {
+    responses.root = { data: { node: issue(1, 'OPEN', 1) } }
+    responses.I_1 = childrenPage([issue(2, 'OPEN', 3)])
+
+    const tree = await getSubIssueTree('I_1', { maxDepth: 1 })
+
+    expect(tree.children[0]).toMatchObject({ number: 2, truncated: true, children: [] })
+    expect(spawnSpy).toHaveBeenCalledTimes(2)
+  })
+
+  test('should not revisit issues already in the tree', async () => {
+    responses.root = { data: { node: issue(1, 'OPEN', 1) } }
+    responses.I_1 = childrenPage([issue(2, 'OPEN', 1)])
+    responses.I_2 = childrenPage([issue(1, 'OPEN', 1)])
+
+    const tree = await getSubIssueTree('I_1')
+
+    expect(tree.children[0]).toMatchObject({ number: 2, truncated: true, children: [] })
+  })
+
+  test('should throw NotFoundError when the root issue is missing', async () => {
+    responses.root = { data: { node: null } }
+
+    await expect(getSubIssueTree('I_missing')).rejects.toThrow('Issue not found')
+  })
+})
+
+/**
+ * Apply planned moves to a list, the way GitHub would
+ */
+function applyMoves(list: string[], moves: SubIssueMove[]): string[] {
+  const result = [...list]
+  for (const move of moves) {
+    result.splice(result.indexOf(move.subIssueId), 1)
+    const anchor = result.indexOf((move.afterId ?? move.beforeId)!)
+    result.splice(move.afterId ? anchor + 1 : anchor, 0, move.subIssueId)
+  }
+  return result
+}
+
+describe('listFilterableSubIssues', () => {
+  test('should list sub-issues from any repository with their milestone, labels, and type', async () => {
+    const spawnSpy = spyOn(Bun, 'spawn').mockImplementation(() => mockProcess({
+      data: {
+        node: {
+          subIssues: {
+            nodes: [
+              { id: 'I_1', number: 1, title: 'A', state: 'OPEN', url: 'u1', repository: { nameWithOwner: 'acme/api' }, milestone: { title: 'v2.0' }, labels: { nodes: [{ name: 'bug' }] }, issueType: { name: 'Bug' } },
+              { id: 'I_2', number: 2, title: 'B', state: 'OPEN', url: 'u2', repository: { nameWithOwner: 'acme/web' }, milestone: null, labels: { nodes: [] }, issueType: null },
+            ],
+            pageInfo: { hasNextPage: false, endCursor: null },
+          },
+        },
+      },
+    }))
+
+    try {
+      const issues = await listFilterableSubIssues('I_0')
+
+      expect(issues.map(({ repository, milestone, labels, issueType }) => ({ repository, milestone, labels, issueType }))).toEqual([
+        { repository: 'acme/api', milestone: 'v2.0', labels: ['bug'], issueType: 'Bug' },
+        { repository: 'acme/web', milestone: null, labels: [], issueType: null },
+      ])
+      expect(spawnSpy.mock.calls[0][0]).toContain('operationName=ListFilterableSubIssues')
+    }
+    finally {
+      spawnSpy.mockRestore()
+    }
+  })
+})
+
+describe('listBlockedByMany', () => {
+  let spawnSpy: any
+
+  afterEach(() => {
+    spawnSpy.mockRestore()
+  })
+
+  test('should fetch blockers in chunks and page through long blocker lists', async () => {
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation((command: string[]) => {
+      if (command.includes('operationName=ListBlockedBy')) {
+        return mockProcess({ data: { node: { blockedBy: { nodes: [issue(900, 'OPEN', 0)], pageInfo: { hasNextPage: false, endCursor: null } } } } })
+      }
+      const ids = command.filter(arg => arg.startsWith('ids[]=')).map(arg => arg.slice('ids[]='.length))
+      return mockProcess({
+        data: {
+          nodes: ids.map(id => ({
+            id,
+            blockedBy: { nodes: id === 'I_0' ? [issue(7, 'OPEN', 0)] : [], pageInfo: { hasNextPage: id === 'I_1' } },
+          })),
+        },
+      })
+    })
+
+    const ids = Array.from({ length: BATCH_CHUNK_SIZE + 1 }, (_, i) => `I_${i}`)
+    const blockers = await listBlockedByMany(ids)
+
+    const batchCalls = spawnSpy.mock.calls.filter(([command]: [string[]]) => command.includes('operationName=ListBlockedByMany'))
+    expect(batchCalls).toHaveLength(2)
+    expect(blockers.size).toBe(ids.length)
+    expect(blockers.get('I_0')!.map(b => b.number)).toEqual([7])
+    expect(blockers.get('I_1')!.map(b => b.number)).toEqual([900])
+    expect(blockers.get('I_2')).toEqual([])
+  })
+
+  test('should not send requests without issues', async () => {
+    spawnSpy = spyOn(Bun, 'spawn')
+    expect((await listBlockedByMany([])).size).toBe(0)
+    expect(spawnSpy).not.toHaveBeenCalled()
+  })
+})
+
+describe('planSubIssueReorder', () => {
+  test('should return no moves when already ordered', () => {
+    expect(planSubIssueReorder(['a', 'b', 'c'], ['a', 'b', 'c'])).toEqual([])
+  })
+
+  test('should move only the issues out of place', () => {
+    expect(planSubIssueReorder(['a', 'b', 'c', 'd'], ['b', 'c', 'd', 'a'])).toEqual([
+      { subIssueId: 'a', afterId: 'd' },
+    ])
+    expect(planSubIssueReorder(['a', 'b', 'c', 'd'], ['d', 'a', 'b', 'c'])).toEqual([
+      { subIssueId: 'd', beforeId: 'a' },
+    ])
+  })
+
+  test('should produce the desired order for arbitrary permutations', () => {
+    const current = ['a', 'b', 'c', 'd', 'e', 'f']
+    const desired = ['e', 'b', 'f', 'a', 'c', 'd']
+
+    const moves = planSubIssueReorder(current, desired)
+
+    expect(applyMoves(current, moves)).toEqual(desired)
+    // b, c, d (or an equally long run) already in order stay put
+    expect(moves).toHaveLength(3)
+  })
+})
+
+describe('reprioritizeSubIssue', () => {
+  test('should send only the given position', async () => {
+    const spawnSpy = spyOn(Bun, 'spawn').mockImplementation(() => mockProcess({ data: { reprioritizeSubIssue: { issue: { id: 'I_1' } } } }))
+
+    try {
+      await reprioritizeSubIssue('I_1', 'I_2', { afterId: 'I_3' })
+
+      const args = spawnSpy.mock.calls[0]![0] as string[]
+      expect(args).toContain('afterId=I_3')
+      expect(args.some(arg => arg.startsWith('beforeId='))).toBe(false)
+      expect(args).toContain('GraphQL-Features: sub_issues')
+    }
+    finally {
+      spawnSpy.mockRestore()
+    }
+  })
+})
+
+describe('moveSubIssue', () => {
+  const replaceParentUnsupported = {
+    errors: [{ message: 'InputObject \'AddSubIssueInput\' doesn\'t accept argument \'replaceParent\'', extensions: { code: 'argumentNotAccepted' } }],
+  }
+  const added = { data: { addSubIssue: { issue: { id: 'I_NEW' } } } }
+  const removed = { data: { removeSubIssue: { issue: { id: 'I_OLD' } } } }
+
+  /**
+   * Mock responses in call order
+   */
+  function mockSequence(payloads: unknown[]) {
+    return spyOn(Bun, 'spawn').mockImplementation(() => mockProcess(payloads.shift()))
+  }
+
+  /**
+   * Summarize each call as `Mutation:parentId`, marking replaceParent requests
+   */
+  function operations(spawnSpy: any): string[] {
+    return spawnSpy.mock.calls.map((call: any[]) => {
+      const args = call[0] as string[]
+      const query = args.find(arg => arg.startsWith('query='))!
+      return `${query.match(/mutation (\w+)/)![1]}:${args.find(arg => arg.startsWith('parentId='))?.slice('parentId='.length)}${args.some(arg => arg.startsWith('replaceParent=')) ? '+replace' : ''}`
+    })
+  }
+
+  test('should replace the parent in one request', async () => {
+    const spawnSpy = mockSequence([added])
+
+    try {
+      expect(await moveSubIssue('I_CHILD', 'I_NEW', 'I_OLD')).toBe('replaced')
+      expect(operations(spawnSpy)).toEqual(['AddSubIssue:I_NEW+replace'])
+    }
+    finally {
+      spawnSpy.mockRestore()
+    }
+  })
+
+  test('should fall back to remove and add where replaceParent is unsupported', async () => {
+    const spawnSpy = mockSequence([replaceParentUnsupported, removed, added])
+
+    try {
+      expect(await moveSubIssue('I_CHILD', 'I_NEW', 'I_OLD')).toBe('re-added')
+      expect(operations(spawnSpy)).toEqual(['AddSubIssue:I_NEW+replace', 'RemoveSubIssue:I_OLD', 'AddSubIssue:I_NEW'])
+    }
+    finally {
+      spawnSpy.mockRestore()
+    }
+  })
+
+  test('should restore the original parent when the fallback add fails', async () => {
+    const forbidden = { errors: [{ type: 'FORBIDDEN', message: 'Resource not accessible' }] }
+    const spawnSpy = mockSequence([replaceParentUnsupported, removed, forbidden, added])
+
+    try {
+      const error = await moveSubIssue('I_CHILD', 'I_NEW', 'I_OLD').catch(e => e)
+
+      expect(error).toBeInstanceOf(SubIssueMoveError)
+      expect(error.rolledBack).toBe(true)
+      expect(error.cause).toBeInstanceOf(ForbiddenError)
+      expect(operations(spawnSpy)).toEqual(['AddSubIssue:I_NEW+replace', 'RemoveSubIssue:I_OLD', 'AddSubIssue:I_NEW', 'AddSubIssue:I_OLD'])
+    }
+    finally {
+      spawnSpy.mockRestore()
+    }
+  })
+
+  test('should just add issues without a parent', async () => {
+    const spawnSpy = mockSequence([added])
+
+    try {
+      expect(await moveSubIssue('I_CHILD', 'I_NEW', null)).toBe('added')
+      expect(operations(spawnSpy)).toEqual(['AddSubIssue:I_NEW'])
+    }
+    finally {
+      spawnSpy.mockRestore()
+    }
+  })
+})
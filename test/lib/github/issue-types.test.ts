@@ -0,0 +1,127 @@
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test'
+import { getCacheFilePath } from '../../../src/lib/github/cache'
+import { resetDryRun, setDryRun } from '../../../src/lib/github/dry-run'
+import {
+  createOrgIssueType,
+  deleteOrgIssueType,
+  listOrgIssueTypes,
+  normalizeIssueTypeColor,
+  updateOrgIssueType,
+} from '../../../src/lib/github/issue-types'
+
+/**
+ * Build a mocked gh process that prints the given JSON payload
+ */
+function mockProcess(payload: unknown) {
+  return {
+    stdout: new Response(JSON.stringify(payload)).body,
+    stderr: new Response('').body,
+    exited: Promise.resolve(0),
+  } as any
+}
+
+const bug = { id: 'IT_1', name: 'Bug', description: null, color: 'RED', isEnabled: true }
+
+describe('normalizeIssueTypeColor', () => {
+  test('should accept colors in any case', () => {
+    expect(normalizeIssueTypeColor('purple')).toBe('PURPLE')
+    expect(normalizeIssueTypeColor('Gray')).toBe('GRAY')
+    expect(normalizeIssueTypeColor('teal')).toBeNull()
+  })
+})
+
+describe('organization issue types', () => {
+  let spawnSpy: any
+  let cacheDir: string
+  const originalEnv = { ...process.env }
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gh-please-cache-'))
+    process.env.GH_PLEASE_CACHE_DIR = cacheDir
+    delete process.env.GH_HOST
+  })
+
+  afterEach(() => {
+    spawnSpy?.mockRestore()
+    process.env = { ...originalEnv }
+    fs.rmSync(cacheDir, { recursive: true, force: true })
+  })
+
+  test('should list types of an organization', async () => {
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation(() => mockProcess({
+      data: { organization: { issueTypes: { nodes: [bug], pageInfo: { hasNextPage: false, endCursor: null } } } },
+    }))
+
+    expect(await listOrgIssueTypes('acme')).toEqual([bug])
+    expect(spawnSpy.mock.calls[0][0]).toContain('org=acme')
+  })
+
+  test('should throw NotFoundError for unknown organizations', async () => {
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation(() => mockProcess({ data: { organization: null } }))
+
+    await expect(listOrgIssueTypes('nobody')).rejects.toThrow('Organization nobody not found')
+  })
+
+  test('should create a type under the organization node', async () => {
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation((command: string[]) => command.some(arg => arg.includes('GetOrganizationNodeId'))
+      ? mockProcess({ data: { organization: { id: 'O_1' } } })
+      : mockProcess({ data: { createIssueType: { issueType: bug } } }))
+
+    expect(await createOrgIssueType('acme', { name: 'Bug', color: 'RED' })).toEqual(bug)
+
+    const args: string[] = spawnSpy.mock.calls[1][0]
+    expect(args).toContain('ownerId=O_1')
+    expect(args).toContain('color=RED')
+    expect(args).toContain('isEnabled=true')
+    expect(args.some(arg => arg.startsWith('description='))).toBe(false)
+  })
+
+  test('should send only the changed fields and clear cached type listings', async () => {
+    const cached = getCacheFilePath({ owner: 'acme', repo: 'web', operation: 'issue-types' })
+    fs.mkdirSync(path.dirname(cached), { recursive: true })
+    fs.writeFileSync(cached, '{}')
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation(() => mockProcess({
+      data: { updateIssueType: { issueType: { ...bug, isEnabled: false } } },
+    }))
+
+    await updateOrgIssueType('acme', 'IT_1', { isEnabled: false })
+
+    const args: string[] = spawnSpy.mock.calls[0][0]
+    expect(args).toContain('issueTypeId=IT_1')
+    expect(args).toContain('isEnabled=false')
+    expect(args.some(arg => arg.startsWith('name=') || arg.startsWith('color='))).toBe(false)
+    expect(fs.existsSync(cached)).toBe(false)
+  })
+
+  test('should delete a type', async () => {
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation(() => mockProcess({
+      data: { deleteIssueType: { deletedIssueTypeId: 'IT_1' } },
+    }))
+
+    await deleteOrgIssueType('acme', 'IT_1')
+
+    expect(spawnSpy.mock.calls[0][0]).toContain('issueTypeId=IT_1')
+  })
+
+  test('should keep cached type listings in dry-run mode', async () => {
+    const cached = getCacheFilePath({ owner: 'acme', repo: 'web', operation: 'issue-types' })
+    fs.mkdirSync(path.dirname(cached), { recursive: true })
+    fs.writeFileSync(cached, '{}')
+    spawnSpy = spyOn(Bun, 'spawn')
+    setDryRun('json', () => {})
+
+    try {
+      await updateOrgIssueType('acme', 'IT_1', { isEnabled: false })
+      await deleteOrgIssueType('acme', 'IT_1')
+    }
+    finally {
+      resetDryRun()
+    }
+
+    expect(spawnSpy).not.toHaveBeenCalled()
+    expect(fs.existsSync(cached)).toBe(true)
+  })
+})
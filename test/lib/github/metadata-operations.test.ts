@@ -0,0 +1,140 @@
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test'
+import { getCacheMode, setCacheMode } from '../../../src/lib/github/cache'
+import {
+  getLabelNodeIds,
+  getMilestoneNodeId,
+  getProjectNodeIds,
+  listAssignableUsers,
+  listLabels,
+  listOpenMilestones,
+  listProjects,
+} from '../../../src/lib/github/metadata-operations'
+
+/**
+ * Build a mocked gh process that prints the given JSON payload
+ */
+function mockProcess(payload: unknown) {
+  return {
+    stdout: new Response(JSON.stringify(payload)).body,
+    stderr: new Response('').body,
+    exited: Promise.resolve(0),
+  } as any
+}
+
+/**
+ * Wrap nodes in a single-page connection
+ */
+function connection(nodes: unknown[]) {
+  return { nodes, pageInfo: { hasNextPage: false, endCursor: null } }
+}
+
+describe('metadata listings', () => {
+  let spawnSpy: any
+  let cacheDir: string
+  const originalEnv = { ...process.env }
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gh-please-cache-'))
+    process.env.GH_PLEASE_CACHE_DIR = cacheDir
+    delete process.env.GH_HOST
+  })
+
+  afterEach(() => {
+    spawnSpy?.mockRestore()
+    process.env = { ...originalEnv }
+    fs.rmSync(cacheDir, { recursive: true, force: true })
+  })
+
+  test('should list labels and share the cache with label lookups', async () => {
+    const labels = [{ id: 'LA_1', name: 'bug' }, { id: 'LA_2', name: 'docs' }]
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation(() => mockProcess({
+      data: { repository: { labels: connection(labels) } },
+    }))
+    const originalMode = getCacheMode()
+    setCacheMode('default')
+
+    try {
+      expect(await listLabels('o', 'r')).toEqual(labels)
+      expect(await getLabelNodeIds('o', 'r', ['docs'])).toEqual(['LA_2'])
+      expect(spawnSpy).toHaveBeenCalledTimes(1)
+    }
+    finally {
+      setCacheMode(originalMode)
+    }
+  })
+
+  test('should refetch the cached label list when a requested label is missing', async () => {
+    const responses = [
+      [{ id: 'LA_1', name: 'bug' }],
+      [{ id: 'LA_1', name: 'bug' }, { id: 'LA_3', name: 'new' }],
+    ]
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation(() => mockProcess({
+      data: { repository: { labels: connection(responses.shift()!) } },
+    }))
+    const originalMode = getCacheMode()
+    setCacheMode('default')
+
+    try {
+      await listLabels('o', 'r')
+      expect(await getLabelNodeIds('o', 'r', ['new'])).toEqual(['LA_3'])
+      expect(spawnSpy).toHaveBeenCalledTimes(2)
+    }
+    finally {
+      setCacheMode(originalMode)
+    }
+  })
+
+  test('should list open milestones', async () => {
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation(() => mockProcess({
+      data: { repository: { milestones: connection([{ id: 'MI_1', title: 'v1.0' }]) } },
+    }))
+
+    expect(await listOpenMilestones('o', 'r')).toEqual([{ id: 'MI_1', title: 'v1.0' }])
+    expect(spawnSpy.mock.calls[0][0].join(' ')).toContain('states: OPEN')
+  })
+
+  test('should list repository projects followed by organization projects', async () => {
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation((command: string[]) => command.some(arg => arg.includes('ListRepositoryProjects'))
+      ? mockProcess({ data: { repository: { projectsV2: connection([{ id: 'PVT_1', title: 'Repo board' }]) } } })
+      : mockProcess({ data: { organization: { projectsV2: connection([{ id: 'PVT_2', title: 'Roadmap' }]) } } }))
+
+    expect((await listProjects('o', 'r')).map(p => p.title)).toEqual(['Repo board', 'Roadmap'])
+  })
+
+  test('should resolve milestone and project lookups through the listings', async () => {
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation((command: string[]) => {
+      const args = command.join(' ')
+      if (args.includes('ListOpenMilestones')) {
+        return mockProcess({ data: { repository: { milestones: connection([{ id: 'MI_1', title: 'v1.0' }]) } } })
+      }
+      return args.includes('ListRepositoryProjects')
+        ? mockProcess({ data: { repository: { projectsV2: connection([{ id: 'PVT_1', title: 'Repo board' }]) } } })
+        : mockProcess({ data: { organization: { projectsV2: connection([{ id: 'PVT_2', title: 'Roadmap' }]) } } })
+    })
+
+    expect(await getMilestoneNodeId('o', 'r', 'v1.0')).toBe('MI_1')
+    expect(await getProjectNodeIds('o', 'r', ['Roadmap', 'Repo board'])).toEqual(['PVT_2', 'PVT_1'])
+    await expect(getMilestoneNodeId('o', 'r', 'v2.0')).rejects.toThrow('Available milestones: v1.0')
+  })
+
+  test('should list assignable users', async () => {
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation(() => mockProcess({
+      data: { repository: { assignableUsers: connection([{ id: 'U_1', login: 'octocat', name: 'The Octocat' }, { id: 'U_2', login: 'hubot' }]) } },
+    }))
+
+    expect(await listAssignableUsers('o', 'r')).toEqual([
+      { id: 'U_1', login: 'octocat', name: 'The Octocat' },
+      { id: 'U_2', login: 'hubot', name: null },
+    ])
+    expect(spawnSpy.mock.calls[0][0]).toContain('operationName=ListAssignableUsers')
+  })
+
+  test('should throw NotFoundError when the repository is missing', async () => {
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation(() => mockProcess({ data: { repository: null } }))
+
+    await expect(listAssignableUsers('o', 'missing')).rejects.toThrow('Repository o/missing not found')
+  })
+})
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test'
+import { BATCH_CHUNK_SIZE, chunkItems, getIssueNodeIds, getPrNodeIds } from '../../../src/lib/github/node-id-batch'
+
+/**
+ * Build a mocked gh process that prints the given JSON payload
+ */
+function mockProcess(payload: unknown, exitCode = 0) {
+  const stdout = new ReadableStream({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode(JSON.stringify(payload)))
+      controller.close()
+    },
+  })
+
+  const stderr = new ReadableStream({
+    start(controller) {
+      controller.close()
+    },
+  })
+
+  return {
+    stdout,
+    stderr,
+    exited: Promise.resolve(exitCode),
+  } as any
+}
+
+/**
+ * Respond to a batched issue lookup by echoing I_<number> for every aliased variable
+ */
+function echoIssueIds(args: string[], missing: number[] = []) {
+  const repository: Record<string, { id: string } | null> = {}
+  for (const arg of args) {
+    const match = arg.match(/^number(\d+)=(\d+)$/)
+    if (match) {
+      const number = Number(match[2])
+      repository[`issue${match[1]}`] = missing.includes(number) ? null : { id: `I_${number}` }
+    }
+  }
+  return repository
+}
+
+describe('chunkItems', () => {
+  test('should split items into chunks of the given size', () => {
+    expect(chunkItems([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]])
+    expect(chunkItems([], 2)).toEqual([])
+  })
+})
+
+describe('getIssueNodeIds', () => {
+  let spawnSpy: any
+
+  afterEach(() => {
+    spawnSpy?.mockRestore()
+  })
+
+  test('should resolve all issues in a single request', async () => {
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation((command: string[]) => {
+      return mockProcess({ data: { repository: echoIssueIds(command) } })
+    })
+
+    const ids = await getIssueNodeIds('o', 'r', [10, 11, 12])
+
+    expect(ids).toEqual(['I_10', 'I_11', 'I_12'])
+    expect(spawnSpy).toHaveBeenCalledTimes(1)
+
+    const args: string[] = spawnSpy.mock.calls[0][0]
+    expect(args).toContain('operationName=GetIssueNodeIds')
+    expect(args.some(arg => arg.includes('issue2: issue(number: $number2)'))).toBe(true)
+  })
+
+  test('should resolve duplicates once and preserve input order', async () => {
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation((command: string[]) => {
+      return mockProcess({ data: { repository: echoIssueIds(command) } })
+    })
+
+    const ids = await getIssueNodeIds('o', 'r', [5, 3, 5])
+
+    expect(ids).toEqual(['I_5', 'I_3', 'I_5'])
+    const args: string[] = spawnSpy.mock.calls[0][0]
+    expect(args.filter(arg => /^number\d+=/.test(arg))).toHaveLength(2)
+  })
+
+  test('should chunk large batches', async () => {
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation((command: string[]) => {
+      return mockProcess({ data: { repository: echoIssueIds(command) } })
+    })
+
+    const numbers = Array.from({ length: BATCH_CHUNK_SIZE + 1 }, (_, i) => i + 1)
+    const ids = await getIssueNodeIds('o', 'r', numbers)
+
+    expect(ids).toHaveLength(numbers.length)
+    expect(ids.at(-1)).toBe(`I_${numbers.length}`)
+    expect(spawnSpy).toHaveBeenCalledTimes(2)
+  })
+
+  test('should report every missing issue from a partial response', async () => {
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation((command: string[]) => {
+      return mockProcess({
+        data: { repository: echoIssueIds(command, [98, 99]) },
+        errors: [
+          { type: 'NOT_FOUND', message: 'Could not resolve to an Issue with the number of 98.' },
+          { type: 'NOT_FOUND', message: 'Could not resolve to an Issue with the number of 99.' },
+        ],
+      }, 1)
+    })
+
+    await expect(getIssueNodeIds('o', 'r', [1, 98, 99])).rejects.toThrow('Issue(s) not found in o/r: #98, #99')
+  })
+
+  test('should return an empty array without requests', async () => {
+    spawnSpy = spyOn(Bun, 'spawn')
+    expect(await getIssueNodeIds('o', 'r', [])).toEqual([])
+    expect(spawnSpy).not.toHaveBeenCalled()
+  })
+})
+
+describe('getPrNodeIds', () => {
+  let spawnSpy: any
+
+  beforeEach(() => {
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation(() => {
+      return mockProcess({ data: { repository: { pr0: { id: 'PR_1' }, pr1: { id: 'PR_2' } } } })
+    })
+  })
+
+  afterEach(() => {
+    spawnSpy.mockRestore()
+  })
+
+  test('should resolve pull requests in a single request', async () => {
+    expect(await getPrNodeIds('o', 'r', [1, 2])).toEqual(['PR_1', 'PR_2'])
+    expect(spawnSpy).toHaveBeenCalledTimes(1)
+    expect(spawnSpy.mock.calls[0][0]).toContain('operationName=GetPrNodeIds')
+  })
+})
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test'
+import { paginateGraphQL } from '../../../src/lib/github/pagination'
+
+/**
+ * Build a mocked gh process that prints the given JSON payload
+ */
+function mockProcess(payload: unknown) {
+  const stdout = new ReadableStream({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode(JSON.stringify(payload)))
+      controller.close()
+    },
+  })
+
+  const stderr = new ReadableStream({
+    start(controller) {
+      controller.close()
+    },
+  })
+
+  return {
+    stdout,
+    stderr,
+    exited: Promise.resolve(0),
+  } as any
+}
+
+/**
+ * Build a labels connection page response
+ */
+function labelsPage(names: string[], endCursor: string | null, hasNextPage: boolean) {
+  return {
+    data: {
+      repository: {
+        labels: {
+          nodes: names.map(name => ({ id: `LA_${name}`, name })),
+          pageInfo: { hasNextPage, endCursor },
+        },
+      },
+    },
+  }
+}
+
+const query = 'query Labels($first: Int!, $after: String) { repository { labels(first: $first, after: $after) { nodes { id } } } }'
+
+describe('paginateGraphQL', () => {
+  let spawnSpy: any
+  let pages: unknown[]
+
+  beforeEach(() => {
+    pages = []
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation((_command: string[], _options: any) => {
+      return mockProcess(pages.shift())
+    })
+  })
+
+  afterEach(() => {
+    spawnSpy.mockRestore()
+  })
+
+  test('should follow endCursor until hasNextPage is false', async () => {
+    pages.push(
+      labelsPage(['a', 'b'], 'cursor-1', true),
+      labelsPage(['c'], 'cursor-2', false),
+    )
+
+    const result = await paginateGraphQL<{ name: string }>(
+      query,
+      { owner: 'o', repo: 'r' },
+      data => data.repository?.labels,
+    )
+
+    expect(result.nodes.map(n => n.name)).toEqual(['a', 'b', 'c'])
+    expect(result.hasMore).toBe(false)
+    expect(spawnSpy).toHaveBeenCalledTimes(2)
+
+    const firstArgs: string[] = spawnSpy.mock.calls[0][0]
+    const secondArgs: string[] = spawnSpy.mock.calls[1][0]
+    expect(firstArgs).toContain('first=100')
+    expect(firstArgs.some(arg => arg.startsWith('after='))).toBe(false)
+    expect(secondArgs).toContain('after=cursor-1')
+  })
+
+  test('should stop at the limit and report truncation', async () => {
+    pages.push(labelsPage(['a', 'b'], 'cursor-1', true))
+
+    let truncatedAt: number | undefined
+    const result = await paginateGraphQL<{ name: string }>(
+      query,
+      {},
+      data => data.repository?.labels,
+      { limit: 2, onTruncated: (count) => { truncatedAt = count } },
+    )
+
+    expect(result.nodes).toHaveLength(2)
+    expect(result.hasMore).toBe(true)
+    expect(truncatedAt).toBe(2)
+    expect(spawnSpy).toHaveBeenCalledTimes(1)
+    expect(spawnSpy.mock.calls[0][0]).toContain('first=2')
+  })
+
+  test('should not report truncation when the connection is exhausted', async () => {
+    pages.push(labelsPage(['a'], null, false))
+
+    let truncated = false
+    const result = await paginateGraphQL(
+      query,
+      {},
+      data => data.repository?.labels,
+      { limit: 5, onTruncated: () => { truncated = true } },
+    )
+
+    expect(result.nodes).toHaveLength(1)
+    expect(result.hasMore).toBe(false)
+    expect(truncated).toBe(false)
+  })
+
+  test('should return no nodes when the connection is missing', async () => {
+    pages.push({ data: { repository: null } })
+
+    const result = await paginateGraphQL(query, {}, data => data.repository?.labels)
+
+    expect(result.nodes).toEqual([])
+    expect(result.hasMore).toBe(false)
+  })
+
+  test('should reject invalid limits', async () => {
+    await expect(paginateGraphQL(query, {}, data => data, { limit: 0 })).rejects.toThrow('Invalid pagination limit')
+  })
+})
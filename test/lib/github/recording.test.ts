@@ -0,0 +1,131 @@
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test'
+import { executeGraphQL } from '../../../src/lib/github/graphql-core'
+import { getHost } from '../../../src/lib/github/host'
+import { getRecordingFilePath, RecordingNotFoundError, resetReplay } from '../../../src/lib/github/recording'
+import { ghApi } from '../../../src/lib/github/transport'
+
+/**
+ * Build a mocked gh process that prints the given JSON payload
+ */
+function mockProcess(payload: unknown, exitCode = 0) {
+  return {
+    stdout: new Response(`HTTP/2.0 200 OK\nContent-Type: application/json\n\n${JSON.stringify(payload)}`).body,
+    stderr: new Response('').body,
+    exited: Promise.resolve(exitCode),
+  } as any
+}
+
+describe('record and replay', () => {
+  const originalEnv = { ...process.env }
+  let dir: string
+  let spawnSpy: any
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gh-please-recording-'))
+    resetReplay()
+  })
+
+  afterEach(() => {
+    spawnSpy?.mockRestore()
+    spawnSpy = undefined
+    process.env = { ...originalEnv }
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('should capture GraphQL responses by operation name and variables', async () => {
+    process.env.GH_PLEASE_RECORD = dir
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation(() => mockProcess({ data: { repository: { id: 'R_1' } } }))
+
+    await executeGraphQL('query GetRepo($owner: String!) { repository { id } }', { owner: 'o' }, undefined, 'GetRepo')
+
+    const files = fs.readdirSync(dir)
+    expect(files).toHaveLength(1)
+    expect(files[0]).toStartWith('GetRepo-')
+    const recording = JSON.parse(fs.readFileSync(path.join(dir, files[0]!), 'utf8'))
+    expect(recording.key).toEqual({ kind: 'graphql', host: getHost(), operationName: 'GetRepo', variables: { owner: 'o' } })
+    expect(recording.responses[0]).toMatchObject({ exitCode: 0, body: { data: { repository: { id: 'R_1' } } } })
+  })
+
+  test('should replay captures without calling GitHub', async () => {
+    process.env.GH_PLEASE_RECORD = dir
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation(() => mockProcess({ data: { repository: { id: 'R_1' } } }))
+    await executeGraphQL('query GetRepo { repository { id } }', { owner: 'o' })
+    spawnSpy.mockRestore()
+
+    delete process.env.GH_PLEASE_RECORD
+    process.env.GH_PLEASE_REPLAY = dir
+    spawnSpy = spyOn(Bun, 'spawn')
+
+    const data = await executeGraphQL('query GetRepo { repository { id } }', { owner: 'o' })
+
+    expect(data).toEqual({ repository: { id: 'R_1' } })
+    expect(spawnSpy).not.toHaveBeenCalled()
+  })
+
+  test('should replay repeated requests in recorded order', async () => {
+    process.env.GH_PLEASE_RECORD = dir
+    const bodies = [[{ id: 1 }], [{ id: 1 }, { id: 2 }]]
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation(() => mockProcess(bodies.shift()))
+    await ghApi(['api', '/repos/o/r/issues'])
+    await ghApi(['api', '/repos/o/r/issues'])
+    spawnSpy.mockRestore()
+
+    delete process.env.GH_PLEASE_RECORD
+    process.env.GH_PLEASE_REPLAY = dir
+    spawnSpy = spyOn(Bun, 'spawn')
+
+    const first = await ghApi(['api', '/repos/o/r/issues'])
+    const second = await ghApi(['api', '/repos/o/r/issues'])
+    const third = await ghApi(['api', '/repos/o/r/issues'])
+
+    expect(JSON.parse(first.body)).toEqual([{ id: 1 }])
+    expect(JSON.parse(second.body)).toEqual([{ id: 1 }, { id: 2 }])
+    expect(third.body).toBe(second.body)
+    expect(spawnSpy).not.toHaveBeenCalled()
+  })
+
+  test('should replace earlier captures when recording again', async () => {
+    process.env.GH_PLEASE_RECORD = dir
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation(() => mockProcess([{ id: 1 }]))
+    await ghApi(['api', '/repos/o/r/issues'])
+    spawnSpy.mockRestore()
+
+    // A later recording session (a new process) sees fresh data
+    resetReplay()
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation(() => mockProcess([{ id: 2 }]))
+    await ghApi(['api', '/repos/o/r/issues'])
+    spawnSpy.mockRestore()
+
+    delete process.env.GH_PLEASE_RECORD
+    process.env.GH_PLEASE_REPLAY = dir
+    resetReplay()
+    spawnSpy = spyOn(Bun, 'spawn')
+
+    const replayed = await ghApi(['api', '/repos/o/r/issues'])
+
+    expect(JSON.parse(replayed.body)).toEqual([{ id: 2 }])
+    const [file] = fs.readdirSync(dir)
+    expect(JSON.parse(fs.readFileSync(path.join(dir, file!), 'utf8')).responses).toHaveLength(1)
+  })
+
+  test('should keep captures of different hosts apart', () => {
+    const key = { kind: 'graphql', operationName: 'GetRepo', variables: { owner: 'o' } } as const
+
+    expect(getRecordingFilePath(dir, { ...key, host: 'github.com' }))
+      .not
+      .toBe(getRecordingFilePath(dir, { ...key, host: 'github.example.com' }))
+  })
+
+  test('should fail clearly when a request was not recorded', async () => {
+    process.env.GH_PLEASE_REPLAY = dir
+    const expectedPath = getRecordingFilePath(dir, { kind: 'rest', host: getHost(), method: 'GET', endpoint: '/user', fields: {} })
+
+    const error = await ghApi(['api', '/user']).catch(e => e)
+
+    expect(error).toBeInstanceOf(RecordingNotFoundError)
+    expect(error.filePath).toBe(expectedPath)
+  })
+})
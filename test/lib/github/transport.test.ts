@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test'
+import {
+  computeRetryDelay,
+  DEFAULT_RETRY_POLICY,
+  getRetryPolicy,
+  ghApi,
+  parseIncludedResponse,
+} from '../../../src/lib/github/transport'
+
+interface MockReply {
+  stdout: string
+  stderr?: string
+  exitCode?: number
+}
+
+/**
+ * Build a mocked gh process from a reply
+ */
+function mockProcess(reply: MockReply) {
+  return {
+    stdout: new Response(reply.stdout).body,
+    stderr: new Response(reply.stderr ?? '').body,
+    exited: Promise.resolve(reply.exitCode ?? 0),
+  } as any
+}
+
+/**
+ * Build `gh api --include` output
+ */
+function included(status: number, headers: Record<string, string>, body: string): string {
+  const headerLines = Object.entries(headers).map(([name, value]) => `${name}: ${value}`)
+  return [`HTTP/2.0 ${status} Status`, ...headerLines, '', body].join('\r\n')
+}
+
+describe('parseIncludedResponse', () => {
+  test('should split status, headers, and body', () => {
+    const parsed = parseIncludedResponse(included(200, { 'X-RateLimit-Remaining': '42' }, '{"ok":true}'))
+
+    expect(parsed.status).toBe(200)
+    expect(parsed.headers['x-ratelimit-remaining']).toBe('42')
+    expect(parsed.body).toBe('{"ok":true}')
+  })
+
+  test('should treat output without a status line as the body', () => {
+    expect(parseIncludedResponse('{"ok":true}')).toEqual({ body: '{"ok":true}', headers: {} })
+  })
+})
+
+describe('computeRetryDelay', () => {
+  const base = { body: '', stderr: '', exitCode: 1 }
+
+  test('should honor Retry-After', () => {
+    const delay = computeRetryDelay({ ...base, status: 403, headers: { 'retry-after': '7' } }, 0, DEFAULT_RETRY_POLICY)
+    expect(delay).toBe(7000)
+  })
+
+  test('should wait until x-ratelimit-reset when the limit is exhausted', () => {
+    const now = 1_000_000
+    const delay = computeRetryDelay(
+      { ...base, status: 403, headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(now / 1000 + 30) } },
+      0,
+      DEFAULT_RETRY_POLICY,
+      now,
+    )
+    expect(delay).toBe(30_000)
+  })
+
+  test('should use exponential backoff with jitter', () => {
+    const policy = { maxRetries: 3, baseDelayMs: 100, maxDelayMs: 1000 }
+    for (let i = 0; i < 20; i++) {
+      const delay = computeRetryDelay({ ...base, status: 502, headers: {} }, 2, policy)
+      expect(delay).toBeGreaterThanOrEqual(200)
+      expect(delay).toBeLessThanOrEqual(400)
+    }
+  })
+})
+
+describe('getRetryPolicy', () => {
+  const originalEnv = { ...process.env }
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+  })
+
+  test('should read overrides from the environment', () => {
+    process.env.GH_PLEASE_MAX_RETRIES = '0'
+    process.env.GH_PLEASE_RETRY_BASE_DELAY_MS = '5'
+    expect(getRetryPolicy()).toEqual({ ...DEFAULT_RETRY_POLICY, maxRetries: 0, baseDelayMs: 5 })
+  })
+
+  test('should ignore invalid values', () => {
+    process.env.GH_PLEASE_MAX_RETRIES = 'lots'
+    expect(getRetryPolicy().maxRetries).toBe(DEFAULT_RETRY_POLICY.maxRetries)
+  })
+})
+
+describe('ghApi', () => {
+  let spawnSpy: any
+  let sleepSpy: any
+  let warnSpy: any
+  let replies: MockReply[]
+
+  beforeEach(() => {
+    replies = []
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation(() => mockProcess(replies.shift()!))
+    sleepSpy = spyOn(Bun, 'sleep').mockImplementation(async () => {})
+    warnSpy = spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    spawnSpy.mockRestore()
+    sleepSpy.mockRestore()
+    warnSpy.mockRestore()
+  })
+
+  test('should request headers with --include', async () => {
+    replies.push({ stdout: included(200, {}, '{}') })
+
+    await ghApi(['api', '/user'])
+
+    expect(spawnSpy.mock.calls[0][0]).toContain('--include')
+  })
+
+  test('should retry 502 responses and return the successful body', async () => {
+    replies.push(
+      { stdout: included(502, {}, 'Bad Gateway'), stderr: 'gh: HTTP 502', exitCode: 1 },
+      { stdout: included(200, {}, '{"ok":true}') },
+    )
+
+    const response = await ghApi(['api', '/user'])
+
+    expect(response.exitCode).toBe(0)
+    expect(response.body).toBe('{"ok":true}')
+    expect(spawnSpy).toHaveBeenCalledTimes(2)
+    expect(sleepSpy).toHaveBeenCalledTimes(1)
+  })
+
+  test('should not retry transient failures of non-idempotent requests', async () => {
+    replies.push({ stdout: included(502, {}, ''), exitCode: 1 })
+
+    const response = await ghApi(['api', '--method', 'POST', '/x'], { idempotent: false })
+
+    expect(response.status).toBe(502)
+    expect(spawnSpy).toHaveBeenCalledTimes(1)
+  })
+
+  test('should retry secondary rate limits even for mutations', async () => {
+    replies.push(
+      {
+        stdout: included(403, { 'Retry-After': '2' }, '{"message":"You have exceeded a secondary rate limit"}'),
+        exitCode: 1,
+      },
+      { stdout: included(200, {}, '{}') },
+    )
+
+    const response = await ghApi(['api', '--method', 'POST', '/x'], { idempotent: false })
+
+    expect(response.exitCode).toBe(0)
+    expect(sleepSpy).toHaveBeenCalledWith(2000)
+  })
+
+  test('should give up after maxRetries', async () => {
+    for (let i = 0; i <= DEFAULT_RETRY_POLICY.maxRetries; i++) {
+      replies.push({ stdout: included(503, {}, ''), exitCode: 1 })
+    }
+
+    const response = await ghApi(['api', '/user'])
+
+    expect(response.status).toBe(503)
+    expect(spawnSpy).toHaveBeenCalledTimes(DEFAULT_RETRY_POLICY.maxRetries + 1)
+  })
+
+  test('should not wait longer than maxDelayMs', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 3600
+    replies.push({
+      stdout: included(403, { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': String(reset) }, '{"message":"API rate limit exceeded"}'),
+      exitCode: 1,
+    })
+
+    const response = await ghApi(['api', '/user'])
+
+    expect(response.status).toBe(403)
+    expect(sleepSpy).not.toHaveBeenCalled()
+  })
+})
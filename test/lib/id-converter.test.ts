@@ -215,6 +215,10 @@ describe('id-converter', () => {
       expect(isThreadNodeId('PRRT_kwDOL4aMSs6Aw-LK')).toBe(true)
     })
 
+    test('should detect legacy-format thread Node ID (GitHub Enterprise Server)', () => {
+      expect(isThreadNodeId(btoa('023:PullRequestReviewThread123'))).toBe(true)
+    })
+
     test('should reject PR review comment Node ID', () => {
       expect(isThreadNodeId('PRRC_kwDOP34zbs6ShH0J')).toBe(false)
     })
@@ -0,0 +1,121 @@
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import {
+  editInEditor,
+  filterChoices,
+  formatIssueCreateCommand,
+  getEditorCommand,
+  shellQuote,
+} from '../../src/lib/issue-create-wizard'
+
+describe('filterChoices', () => {
+  const choices = [
+    { value: 'octocat', label: 'octocat', hint: 'The Octocat' },
+    { value: 'hubot', label: 'hubot' },
+  ]
+
+  test('should match value, label, or hint ignoring case', () => {
+    expect(filterChoices(choices, 'OCTO').map(c => c.value)).toEqual(['octocat'])
+    expect(filterChoices(choices, 'the oct').map(c => c.value)).toEqual(['octocat'])
+    expect(filterChoices(choices, 'robot')).toEqual([])
+  })
+
+  test('should keep every choice for an empty search', () => {
+    expect(filterChoices(choices, '  ')).toEqual(choices)
+  })
+})
+
+describe('shellQuote', () => {
+  test('should leave safe values unquoted', () => {
+    expect(shellQuote('bug')).toBe('bug')
+    expect(shellQuote('@me')).toBe('@me')
+  })
+
+  test('should single-quote and escape other values', () => {
+    expect(shellQuote('Login fails')).toBe('\'Login fails\'')
+    expect(shellQuote('it\'s $HOME')).toBe('\'it\'\\\'\'s $HOME\'')
+  })
+})
+
+describe('formatIssueCreateCommand', () => {
+  test('should build the equivalent command line', () => {
+    expect(formatIssueCreateCommand({
+      repo: 'acme/app',
+      title: 'Login fails on Safari',
+      body: 'Steps:\n1. Open',
+      type: 'Bug',
+      labels: ['bug', 'good first issue'],
+      assignees: ['octocat'],
+      milestone: 'v1.0',
+      projects: ['Roadmap'],
+      parent: '42',
+      fields: [],
+    })).toBe(
+      'gh please issue create --repo acme/app --title \'Login fails on Safari\' --body \'Steps:\n1. Open\' --type Bug '
+      + '--label bug --label \'good first issue\' --assignee octocat --milestone v1.0 --project Roadmap --parent 42',
+    )
+  })
+
+  test('should carry --body-file and --type-id', () => {
+    expect(formatIssueCreateCommand({
+      title: 'Fix',
+      bodyFile: 'notes/body.md',
+      typeId: 'IT_kwDOA',
+      labels: [],
+      assignees: [],
+      projects: [],
+      fields: [],
+    })).toBe('gh please issue create --title Fix --body-file notes/body.md --type-id IT_kwDOA')
+  })
+
+  test('should leave out empty settings', () => {
+    expect(formatIssueCreateCommand({ title: 'Fix', labels: [], assignees: [], projects: [], fields: [] }))
+      .toBe('gh please issue create --title Fix')
+  })
+})
+
+describe('getEditorCommand', () => {
+  test('should prefer VISUAL over EDITOR and split arguments', () => {
+    expect(getEditorCommand({ VISUAL: 'code --wait', EDITOR: 'nano' })).toEqual(['code', '--wait'])
+    expect(getEditorCommand({ EDITOR: 'nano' })).toEqual(['nano'])
+    expect(getEditorCommand({})).toEqual(['vi'])
+  })
+})
+
+describe('editInEditor', () => {
+  let dir: string
+  const originalEnv = { ...process.env }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'gh-please-editor-'))
+  })
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  /**
+   * Install a fake editor script and point VISUAL at it
+   */
+  function useEditor(script: string): void {
+    const path = join(dir, 'editor.sh')
+    writeFileSync(path, `#!/bin/sh\n${script}\n`)
+    chmodSync(path, 0o755)
+    process.env.VISUAL = path
+  }
+
+  test('should return the text saved by the editor', async () => {
+    useEditor('echo "edited" >> "$1"')
+
+    expect(await editInEditor('draft\n')).toBe('draft\nedited\n')
+  })
+
+  test('should fail when the editor exits with an error', async () => {
+    useEditor('exit 3')
+
+    await expect(editInEditor('')).rejects.toThrow('exited with code 3')
+  })
+})
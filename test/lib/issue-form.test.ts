@@ -0,0 +1,374 @@
+import type { IssueForm } from '../../src/lib/issue-form'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, mock, test } from 'bun:test'
+import {
+  findIssueForm,
+  findLocalTemplateDir,
+  findMissingRequiredFields,
+  formatFieldAssignments,
+  loadIssueForms,
+  parseFieldAssignments,
+  parseIssueForm,
+  renderIssueFormBody,
+} from '../../src/lib/issue-form'
+
+const BUG_REPORT = `
+name: Bug Report
+description: File a bug report
+title: "[Bug]: "
+labels: ["bug", "triage"]
+assignees: octocat
+type: Bug
+body:
+  - type: markdown
+    attributes:
+      value: Thanks for taking the time to fill out this bug report!
+  - type: textarea
+    id: what-happened
+    attributes:
+      label: What happened?
+      placeholder: Tell us what you see!
+    validations:
+      required: true
+  - type: dropdown
+    id: version
+    attributes:
+      label: Version
+      options:
+        - 1.0.2 (Default)
+        - 1.0.3 (Edge)
+      default: 0
+  - type: dropdown
+    id: browsers
+    attributes:
+      label: What browsers are you seeing the problem on?
+      multiple: true
+      options: [Firefox, Chrome, Safari]
+  - type: textarea
+    id: logs
+    attributes:
+      label: Relevant log output
+      render: shell
+  - type: input
+    id: contact
+    attributes:
+      label: Contact Details
+  - type: checkboxes
+    id: terms
+    attributes:
+      label: Code of Conduct
+      options:
+        - label: I agree to follow this project's Code of Conduct
+          required: true
+        - label: I searched for duplicates
+`
+
+describe('parseIssueForm', () => {
+  test('should parse top-level keys and drop markdown elements', () => {
+    const form = parseIssueForm(BUG_REPORT, 'bug_report.yml')
+
+    expect(form.name).toBe('Bug Report')
+    expect(form.title).toBe('[Bug]: ')
+    expect(form.labels).toEqual(['bug', 'triage'])
+    expect(form.assignees).toEqual(['octocat'])
+    expect(form.type).toBe('Bug')
+    expect(form.fields.map(f => f.id)).toEqual(['what-happened', 'version', 'browsers', 'logs', 'contact', 'terms'])
+    expect(form.fields[0]!.required).toBe(true)
+    expect(form.fields[1]!.defaultOption).toBe(0)
+    expect(form.fields[2]!.multiple).toBe(true)
+    expect(form.fields[5]!.options[0]).toEqual({ label: 'I agree to follow this project\'s Code of Conduct', required: true })
+  })
+
+  test('should accept comma-separated labels', () => {
+    const form = parseIssueForm('name: Task\nlabels: "chore, ops"\nbody: []', 'task.yml')
+    expect(form.labels).toEqual(['chore', 'ops'])
+  })
+
+  test('should reject files that are not issue forms', () => {
+    expect(() => parseIssueForm('name: [unclosed', 'broken.yml')).toThrow('Invalid issue form broken.yml')
+    expect(() => parseIssueForm('name: Bug', 'bug.yml')).toThrow('expected "name" and a "body" list')
+    expect(() => parseIssueForm('name: Bug\nbody:\n  - type: slider', 'bug.yml')).toThrow('unknown body element type "slider"')
+    expect(() => parseIssueForm('name: Bug\nbody:\n  - type: dropdown\n    attributes:\n      label: Version', 'bug.yml'))
+      .toThrow('"Version" needs attributes.options')
+  })
+})
+
+describe('findIssueForm', () => {
+  const form = parseIssueForm(BUG_REPORT, 'bug_report.yml')
+
+  test('should match by name or file name, ignoring case', () => {
+    expect(findIssueForm([form], 'bug report')).toBe(form)
+    expect(findIssueForm([form], 'bug_report')).toBe(form)
+    expect(findIssueForm([form], 'BUG_REPORT.yml')).toBe(form)
+    expect(findIssueForm([form], 'feature')).toBeUndefined()
+  })
+})
+
+describe('parseFieldAssignments', () => {
+  const form = parseIssueForm(BUG_REPORT, 'bug_report.yml')
+
+  test('should match fields by id or label and options ignoring case', () => {
+    const answers = parseFieldAssignments(form, [
+      'what-happened=It crashed',
+      'version=1.0.3 (edge)',
+      'What browsers are you seeing the problem on?=firefox, Safari',
+      'terms=I searched for duplicates',
+      'contact=a=b@example.com',
+    ])
+
+    expect(answers.get(form.fields[0]!)).toBe('It crashed')
+    expect(answers.get(form.fields[1]!)).toEqual(['1.0.3 (Edge)'])
+    expect(answers.get(form.fields[2]!)).toEqual(['Firefox', 'Safari'])
+    expect(answers.get(form.fields[5]!)).toEqual(['I searched for duplicates'])
+    expect(answers.get(form.fields[4]!)).toBe('a=b@example.com')
+  })
+
+  test('should format answers as assignments that parse back to the same answers', () => {
+    const answers = parseFieldAssignments(form, [
+      'what-happened=It crashed',
+      'version=1.0.3 (edge)',
+      'What browsers are you seeing the problem on?=firefox, Safari',
+    ])
+
+    const assignments = formatFieldAssignments(form, answers)
+
+    expect(assignments).toEqual(['what-happened=It crashed', 'version=1.0.3 (Edge)', 'browsers=Firefox,Safari'])
+    expect(parseFieldAssignments(form, assignments)).toEqual(answers)
+  })
+
+  test('should reject malformed assignments, unknown fields, and invalid options', () => {
+    expect(() => parseFieldAssignments(form, ['what-happened'])).toThrow('Expected id=value')
+    expect(() => parseFieldAssignments(form, ['severity=high'])).toThrow('Unknown field "severity"')
+    expect(() => parseFieldAssignments(form, ['version=2.0'])).toThrow('Invalid value "2.0" for "Version"')
+  })
+})
+
+describe('findMissingRequiredFields', () => {
+  const form = parseIssueForm(BUG_REPORT, 'bug_report.yml')
+
+  test('should report empty required fields and unchecked required checkboxes', () => {
+    expect(findMissingRequiredFields(form, new Map())).toEqual([
+      'What happened?',
+      'Code of Conduct: I agree to follow this project\'s Code of Conduct',
+    ])
+  })
+
+  test('should pass when required fields are answered', () => {
+    const answers = parseFieldAssignments(form, [
+      'what-happened=It crashed',
+      'terms=I agree to follow this project\'s Code of Conduct',
+    ])
+    expect(findMissingRequiredFields(form, answers)).toEqual([])
+  })
+
+  test('should treat whitespace-only answers as empty', () => {
+    const answers = parseFieldAssignments(form, ['what-happened=  '])
+    expect(findMissingRequiredFields(form, answers)).toContain('What happened?')
+  })
+})
+
+describe('renderIssueFormBody', () => {
+  test('should render sections the way GitHub renders form submissions', () => {
+    const form = parseIssueForm(BUG_REPORT, 'bug_report.yml')
+    const answers = parseFieldAssignments(form, [
+      'what-happened=It crashed',
+      'browsers=Firefox,Chrome',
+      'logs=panic: oops',
+      'terms=I agree to follow this project\'s Code of Conduct',
+    ])
+
+    expect(renderIssueFormBody(form, answers)).toBe([
+      '### What happened?',
+      '',
+      'It crashed',
+      '',
+      '### Version',
+      '',
+      '1.0.2 (Default)',
+      '',
+      '### What browsers are you seeing the problem on?',
+      '',
+      'Firefox, Chrome',
+      '',
+      '### Relevant log output',
+      '',
+      '```shell',
+      'panic: oops',
+      '```',
+      '',
+      '### Contact Details',
+      '',
+      '_No response_',
+      '',
+      '### Code of Conduct',
+      '',
+      '- [X] I agree to follow this project\'s Code of Conduct',
+      '- [ ] I searched for duplicates',
+    ].join('\n'))
+  })
+
+  test('should use prefilled input values', () => {
+    const form: IssueForm = parseIssueForm(
+      'name: Task\nbody:\n  - type: input\n    attributes:\n      label: Area\n      value: backend',
+      'task.yml',
+    )
+    expect(renderIssueFormBody(form, new Map())).toBe('### Area\n\nbackend')
+  })
+})
+
+describe('findLocalTemplateDir', () => {
+  let root: string
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'gh-please-issue-form-'))
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  test('should find the template directory from a subdirectory of the checkout', () => {
+    mkdirSync(join(root, '.git'))
+    mkdirSync(join(root, '.github', 'ISSUE_TEMPLATE'), { recursive: true })
+    mkdirSync(join(root, 'src', 'lib'), { recursive: true })
+
+    expect(findLocalTemplateDir(join(root, 'src', 'lib'))).toBe(join(root, '.github', 'ISSUE_TEMPLATE'))
+  })
+
+  test('should stop at the checkout root', () => {
+    mkdirSync(join(root, 'repo', '.git'), { recursive: true })
+
+    expect(findLocalTemplateDir(join(root, 'repo'))).toBeNull()
+  })
+})
+
+describe('loadIssueForms', () => {
+  const mockGhPath = '/tmp/mock-gh-issue-form'
+  let originalGhPath: string | undefined
+  let originalSpawn: typeof Bun.spawn
+
+  beforeEach(() => {
+    originalGhPath = process.env.GH_PATH
+    originalSpawn = Bun.spawn
+    process.env.GH_PATH = mockGhPath
+  })
+
+  afterEach(() => {
+    if (originalGhPath !== undefined) {
+      process.env.GH_PATH = originalGhPath
+    }
+    else {
+      delete process.env.GH_PATH
+    }
+    Bun.spawn = originalSpawn
+  })
+
+  test('should fetch forms from the repository, skipping config and markdown templates', async () => {
+    const listing = [
+      { name: 'bug_report.yml', path: '.github/ISSUE_TEMPLATE/bug_report.yml', type: 'file' },
+      { name: 'config.yml', path: '.github/ISSUE_TEMPLATE/config.yml', type: 'file' },
+      { name: 'question.md', path: '.github/ISSUE_TEMPLATE/question.md', type: 'file' },
+    ]
+    const mockSpawn = mock((args: string[]) => {
+      const body = args.includes('/repos/o/r/contents/.github/ISSUE_TEMPLATE') ? JSON.stringify(listing) : BUG_REPORT
+      return {
+        stdout: new Response(body).body,
+        stderr: new Response('').body,
+        exited: Promise.resolve(0),
+      }
+    })
+    Bun.spawn = mockSpawn as any
+
+    const { forms, source } = await loadIssueForms('o', 'r')
+
+    expect(source).toBe('api')
+    expect(forms.map(form => form.fileName)).toEqual(['bug_report.yml'])
+    expect(mockSpawn).toHaveBeenCalledTimes(2)
+    expect(mockSpawn.mock.calls[1]![0]).toContain('/repos/o/r/contents/.github/ISSUE_TEMPLATE/bug_report.yml')
+  })
+
+  test('should fetch only the form whose file name matches', async () => {
+    const listing = [
+      { name: 'bug_report.yml', path: '.github/ISSUE_TEMPLATE/bug_report.yml', type: 'file' },
+      { name: 'feature.yml', path: '.github/ISSUE_TEMPLATE/feature.yml', type: 'file' },
+    ]
+    const mockSpawn = mock((args: string[]) => {
+      const body = args.includes('/repos/o/r/contents/.github/ISSUE_TEMPLATE') ? JSON.stringify(listing) : BUG_REPORT
+      return {
+        stdout: new Response(body).body,
+        stderr: new Response('').body,
+        exited: Promise.resolve(0),
+      }
+    })
+    Bun.spawn = mockSpawn as any
+
+    const { forms } = await loadIssueForms('o', 'r', { name: 'bug_report' })
+
+    expect(forms.map(form => form.fileName)).toEqual(['bug_report.yml'])
+    expect(mockSpawn).toHaveBeenCalledTimes(2)
+  })
+
+  test('should skip forms that fail to parse', async () => {
+    const listing = [
+      { name: 'broken.yml', path: '.github/ISSUE_TEMPLATE/broken.yml', type: 'file' },
+      { name: 'bug_report.yml', path: '.github/ISSUE_TEMPLATE/bug_report.yml', type: 'file' },
+    ]
+    Bun.spawn = mock((args: string[]) => {
+      const path = args.find(arg => arg.startsWith('/repos/'))!
+      const body = path.endsWith('/ISSUE_TEMPLATE') ? JSON.stringify(listing) : path.endsWith('broken.yml') ? 'name: Broken' : BUG_REPORT
+      return {
+        stdout: new Response(body).body,
+        stderr: new Response('').body,
+        exited: Promise.resolve(0),
+      }
+    }) as any
+
+    const { forms, invalid } = await loadIssueForms('o', 'r', { name: 'Bug Report' })
+
+    expect(forms.map(form => form.name)).toEqual(['Bug Report'])
+    expect(invalid).toHaveLength(1)
+    expect(invalid[0]!.fileName).toBe('broken.yml')
+    expect(invalid[0]!.message).toContain('expected "name" and a "body" list')
+  })
+
+  test('should read forms from the local checkout when preferred', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'gh-please-issue-form-'))
+    const originalCwd = process.cwd()
+    const mockSpawn = mock(() => {
+      throw new Error('unexpected API call')
+    })
+    Bun.spawn = mockSpawn as any
+
+    try {
+      mkdirSync(join(root, '.git'))
+      mkdirSync(join(root, '.github', 'ISSUE_TEMPLATE'), { recursive: true })
+      writeFileSync(join(root, '.github', 'ISSUE_TEMPLATE', 'bug_report.yml'), BUG_REPORT)
+      writeFileSync(join(root, '.github', 'ISSUE_TEMPLATE', 'config.yml'), 'blank_issues_enabled: false')
+      process.chdir(root)
+
+      const { forms, source } = await loadIssueForms('o', 'r', { preferLocal: true })
+
+      expect(source).toBe('local')
+      expect(forms.map(form => form.name)).toEqual(['Bug Report'])
+      expect(mockSpawn).not.toHaveBeenCalled()
+    }
+    finally {
+      process.chdir(originalCwd)
+      rmSync(root, { recursive: true, force: true })
+    }
+  })
+
+  test('should return no forms when the repository has no template directory', async () => {
+    Bun.spawn = mock(() => ({
+      stdout: new Response('{"message":"Not Found"}').body,
+      stderr: new Response('gh: Not Found (HTTP 404)').body,
+      exited: Promise.resolve(1),
+    })) as any
+
+    const { forms } = await loadIssueForms('o', 'r')
+
+    expect(forms).toEqual([])
+  })
+})
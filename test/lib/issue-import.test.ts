@@ -0,0 +1,146 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  detectImportFormat,
+  ensureImportKey,
+  extractImportKey,
+  indexImportedIssues,
+  orderImport,
+  parseImport,
+  withImportKey,
+} from '../../src/lib/issue-import'
+
+const YAML_IMPORT = `
+issues:
+  - key: api
+    title: Implement API
+    parent: epic
+    blockedBy: [schema]
+    labels: backend, api
+  - key: epic
+    title: Storage epic
+    type: Epic
+    milestone: v1.0
+    projects: [Roadmap]
+  - key: schema
+    title: Design schema
+    parent: epic
+    body: |
+      Tables and indexes
+    assignees: [octocat]
+`
+
+describe('detectImportFormat', () => {
+  test('should use the file extension', () => {
+    expect(detectImportFormat('issues.csv', '')).toBe('csv')
+    expect(detectImportFormat('issues.yml', '')).toBe('yaml')
+    expect(detectImportFormat('issues.json', '')).toBe('yaml')
+  })
+
+  test('should inspect stdin content', () => {
+    expect(detectImportFormat('-', '- key: a\n  title: A')).toBe('yaml')
+    expect(detectImportFormat('-', '[{"key":"a"}]')).toBe('yaml')
+    expect(detectImportFormat('-', 'key,title\na,A')).toBe('csv')
+  })
+})
+
+describe('parseImport', () => {
+  test('should parse YAML rows', () => {
+    const rows = parseImport(YAML_IMPORT, 'yaml')
+
+    expect(rows.map(row => row.key)).toEqual(['api', 'epic', 'schema'])
+    expect(rows[0]).toEqual({
+      key: 'api',
+      title: 'Implement API',
+      labels: ['backend', 'api'],
+      assignees: [],
+      projects: [],
+      parent: 'epic',
+      blockedBy: ['schema'],
+    })
+    expect(rows[1]).toMatchObject({ type: 'Epic', milestone: 'v1.0', projects: ['Roadmap'] })
+    expect(rows[2]).toMatchObject({ body: 'Tables and indexes\n', assignees: ['octocat'] })
+  })
+
+  test('should parse CSV with quoted cells and header aliases', () => {
+    const csv = [
+      'Key,Title,Body,Labels,Parent,blocked_by',
+      'epic,Storage epic,,,,',
+      'api,"Implement API, v2","Line 1',
+      'Line ""2""","backend,api",epic,',
+      '',
+    ].join('\r\n')
+
+    const rows = parseImport(csv, 'csv')
+
+    expect(rows).toHaveLength(2)
+    expect(rows[0]).toEqual({ key: 'epic', title: 'Storage epic', labels: [], assignees: [], projects: [], blockedBy: [] })
+    expect(rows[1]).toMatchObject({
+      key: 'api',
+      title: 'Implement API, v2',
+      body: 'Line 1\r\nLine "2"',
+      labels: ['backend', 'api'],
+      parent: 'epic',
+    })
+  })
+
+  test('should reject malformed rows', () => {
+    expect(() => parseImport('- title: No key', 'yaml')).toThrow('row 1 needs a "key"')
+    expect(() => parseImport('- key: has space\n  title: A', 'yaml')).toThrow('"has space" needs a "key"')
+    expect(() => parseImport('- key: a', 'yaml')).toThrow('"a" needs a non-empty "title"')
+    expect(() => parseImport('- key: a\n  title: A\n  owner: me', 'yaml')).toThrow('unknown field "owner"')
+    expect(() => parseImport('key,title\na,A,extra', 'csv')).toThrow('row 1 has more cells than the header')
+    expect(() => parseImport('key,title\na,"A', 'csv')).toThrow('unterminated quoted CSV cell')
+    expect(() => parseImport('key,title\n', 'csv')).toThrow('no issues found')
+    expect(() => parseImport('title: A', 'yaml')).toThrow('expected a list of issues')
+  })
+})
+
+describe('orderImport', () => {
+  test('should place parents and blockers first, otherwise keeping file order', () => {
+    const rows = orderImport(parseImport(YAML_IMPORT, 'yaml'))
+
+    expect(rows.map(row => row.key)).toEqual(['epic', 'schema', 'api'])
+  })
+
+  test('should reject duplicate keys, unknown references, and cycles', () => {
+    expect(() => orderImport(parseImport('- {key: a, title: A}\n- {key: a, title: B}', 'yaml')))
+      .toThrow('duplicate key "a"')
+    expect(() => orderImport(parseImport('- {key: a, title: A, parent: x}', 'yaml')))
+      .toThrow('parent of "a" names unknown key "x"')
+    expect(() => orderImport(parseImport('- {key: a, title: A, blockedBy: [a]}', 'yaml')))
+      .toThrow('"a" names itself as blockedBy')
+    expect(() => orderImport(parseImport('- {key: a, title: A, parent: b}\n- {key: b, title: B, blockedBy: [a]}', 'yaml')))
+      .toThrow('circular parent or dependency between a, b')
+  })
+})
+
+describe('import key markers', () => {
+  test('should append the marker to the body and read it back', () => {
+    const body = withImportKey('Tables and indexes\n', 'schema')
+
+    expect(body).toBe('Tables and indexes\n\n<!-- gh-please:import-key=schema -->')
+    expect(extractImportKey(body)).toBe('schema')
+    expect(withImportKey(undefined, 'epic')).toBe('<!-- gh-please:import-key=epic -->')
+    expect(extractImportKey('No marker')).toBeNull()
+  })
+
+  test('should keep an existing body and append the marker only when missing', () => {
+    const body = withImportKey('Edited on GitHub', 'schema')
+
+    expect(ensureImportKey(body, 'schema')).toBe(body)
+    expect(ensureImportKey('Edited on GitHub', 'schema')).toBe(body)
+  })
+
+  test('should index issues by key, keeping the first match', () => {
+    const issues = [
+      { number: 1, body: withImportKey('A', 'a') },
+      { number: 2, body: 'Mentions gh-please:import-key in prose' },
+      { number: 3, body: withImportKey('A again', 'a') },
+    ]
+
+    const byKey = indexImportedIssues(issues)
+
+    expect([...byKey.keys()]).toEqual(['a'])
+    expect(byKey.get('a')!.number).toBe(1)
+  })
+})
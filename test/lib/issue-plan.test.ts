@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'bun:test'
+import { detectPlanFormat, orderPlan, parsePlan } from '../../src/lib/issue-plan'
+
+describe('detectPlanFormat', () => {
+  test('should use the file extension', () => {
+    expect(detectPlanFormat('plan.md', '')).toBe('markdown')
+    expect(detectPlanFormat('plan.yml', '- [ ] looks like markdown')).toBe('yaml')
+    expect(detectPlanFormat('plan.json', '[]')).toBe('yaml')
+  })
+
+  test('should sniff stdin content', () => {
+    expect(detectPlanFormat('-', '\n- [ ] Task')).toBe('markdown')
+    expect(detectPlanFormat('-', '- title: Task')).toBe('yaml')
+  })
+})
+
+describe('parsePlan', () => {
+  test('should parse YAML entries with nested children', () => {
+    const plan = parsePlan(`
+issues:
+  - key: schema
+    title: Design schema
+    type: Task
+    labels: [db, backend]
+    children:
+      - title: Review with DBA
+        assignees: octocat
+  - title: Implement API
+    blockedBy: [schema]
+`, 'yaml')
+
+    expect(plan).toEqual([
+      {
+        key: 'schema',
+        title: 'Design schema',
+        type: 'Task',
+        labels: ['db', 'backend'],
+        assignees: [],
+        blockedBy: [],
+        children: [{ title: 'Review with DBA', labels: [], assignees: ['octocat'], blockedBy: [], children: [] }],
+      },
+      { title: 'Implement API', labels: [], assignees: [], blockedBy: ['schema'], children: [] },
+    ])
+  })
+
+  test('should parse markdown task lists with attributes and bodies', () => {
+    const plan = parsePlan([
+      '# Plan',
+      '- [ ] Design schema {key=schema type=Task labels=db,backend}',
+      '  Tables for users and orgs.',
+      '  - [x] Review with DBA',
+      '- [ ] Implement API {blocked-by=schema assignees=octocat}',
+    ].join('\n'), 'markdown')
+
+    expect(plan).toHaveLength(2)
+    expect(plan[0]).toMatchObject({
+      key: 'schema',
+      title: 'Design schema',
+      type: 'Task',
+      labels: ['db', 'backend'],
+      body: 'Tables for users and orgs.',
+    })
+    expect(plan[0]!.children.map(c => c.title)).toEqual(['Review with DBA'])
+    expect(plan[1]).toMatchObject({ title: 'Implement API', blockedBy: ['schema'], assignees: ['octocat'] })
+  })
+
+  test('should accept blockedBy, blocked-by, and blocked_by in both formats', () => {
+    const yaml = parsePlan('- {title: A, blocked-by: x}\n- {title: B, blocked_by: [y]}\n- {title: C, blockedBy: z}', 'yaml')
+    const markdown = parsePlan('- [ ] A {blockedBy=x}\n- [ ] B {blocked_by=y}\n- [ ] C {blocked-by=z}', 'markdown')
+
+    for (const plan of [yaml, markdown]) {
+      expect(plan.map(entry => entry.blockedBy)).toEqual([['x'], ['y'], ['z']])
+    }
+  })
+
+  test('should reject entries without a title', () => {
+    expect(() => parsePlan('- body: no title', 'yaml')).toThrow('non-empty "title"')
+    expect(() => parsePlan('Just prose', 'markdown')).toThrow('no "- [ ] task" items')
+  })
+})
+
+describe('orderPlan', () => {
+  test('should create parents and blockers first, otherwise in plan order', () => {
+    const plan = parsePlan(`
+- title: Implement API
+  blockedBy: schema
+  children:
+    - title: Endpoint tests
+- key: schema
+  title: Design schema
+`, 'yaml')
+
+    const ordered = orderPlan(plan)
+
+    expect(ordered.map(({ entry }) => entry.title)).toEqual(['Design schema', 'Implement API', 'Endpoint tests'])
+    expect(ordered[2]!.parent?.title).toBe('Implement API')
+  })
+
+  test('should reject unknown keys, duplicate keys and cycles', () => {
+    expect(() => orderPlan(parsePlan('- title: A\n  blockedBy: missing', 'yaml'))).toThrow('unknown key "missing"')
+    expect(() => orderPlan(parsePlan('- {key: a, title: A}\n- {key: a, title: B}', 'yaml'))).toThrow('duplicate key "a"')
+    expect(() => orderPlan(parsePlan('- {key: a, title: A, blockedBy: b}\n- {key: b, title: B, blockedBy: a}', 'yaml'))).toThrow('circular dependency')
+  })
+})
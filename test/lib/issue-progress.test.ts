@@ -0,0 +1,177 @@
+import type { SubIssueTreeNode } from '../../src/lib/github'
+import { describe, expect, spyOn, test } from 'bun:test'
+import { buildProgressReport, NO_TYPE, UNASSIGNED } from '../../src/lib/issue-progress'
+
+/**
+ * Build a tree node in plan/board
+ */
+function node(number: number, state: string, extra: Partial<SubIssueTreeNode> = {}): SubIssueTreeNode {
+  return {
+    number,
+    title: `Issue ${number}`,
+    state,
+    nodeId: `I_${number}`,
+    url: `https://github.com/plan/board/issues/${number}`,
+    repository: 'plan/board',
+    issueType: null,
+    assignees: [],
+    labels: [],
+    milestone: null,
+    progress: { closed: 0, total: 0 },
+    truncated: false,
+    children: [],
+    ...extra,
+  }
+}
+
+/**
+ * Build a mocked gh process that prints the given JSON payload
+ */
+function mockProcess(payload: unknown) {
+  return {
+    stdout: new Response(JSON.stringify(payload)).body,
+    stderr: new Response('').body,
+    exited: Promise.resolve(0),
+  } as any
+}
+
+/**
+ * Mock ListBlockedByMany responses: node ID → blockers as [number, state, repository]
+ */
+function mockBlockedBy(blockers: Record<string, [number, string, string][]>) {
+  return spyOn(Bun, 'spawn').mockImplementation((command: string[]) => {
+    const ids = command.filter(arg => arg.startsWith('ids[]=')).map(arg => arg.slice('ids[]='.length))
+    return mockProcess({
+      data: {
+        nodes: ids.map(id => ({
+          id,
+          blockedBy: {
+            nodes: (blockers[id] ?? []).map(([number, state, repository]) => ({
+              id: `I_${number}`,
+              number,
+              title: `Issue ${number}`,
+              state,
+              url: `https://github.com/${repository}/issues/${number}`,
+              repository: { nameWithOwner: repository },
+            })),
+            pageInfo: { hasNextPage: false },
+          },
+        })),
+      },
+    })
+  })
+}
+
+describe('buildProgressReport', () => {
+  const now = new Date('2026-03-01T00:00:00Z')
+  const pastMilestone = { title: 'Sprint 1', dueOn: '2026-02-15T00:00:00Z' }
+  const futureMilestone = { title: 'Sprint 2', dueOn: '2026-03-15T00:00:00Z' }
+
+  const tree = node(1, 'OPEN', {
+    title: 'Epic',
+    children: [
+      node(2, 'OPEN', {
+        issueType: 'Feature',
+        assignees: ['alice'],
+        labels: ['api'],
+        milestone: pastMilestone,
+        children: [
+          node(4, 'CLOSED', { issueType: 'Task', assignees: ['alice', 'bob'], labels: ['api', 'db'], milestone: pastMilestone }),
+          node(5, 'OPEN', { issueType: 'Task', milestone: futureMilestone }),
+        ],
+      }),
+      node(3, 'CLOSED', { issueType: 'Task', assignees: ['bob'] }),
+    ],
+  })
+
+  test('should count the whole subtree and break it down', async () => {
+    const spawnSpy = mockBlockedBy({})
+
+    try {
+      const report = await buildProgressReport(tree, now)
+
+      expect(report.parent).toEqual({ number: 1, title: 'Epic', url: 'https://github.com/plan/board/issues/1' })
+      expect(report.progress).toEqual({ open: 2, closed: 2, total: 4, percent: 50 })
+      expect(report.byType).toEqual([
+        { name: 'Task', open: 1, closed: 2 },
+        { name: 'Feature', open: 1, closed: 0 },
+      ])
+      expect(report.byAssignee).toEqual([
+        { name: '@alice', open: 1, closed: 1 },
+        { name: '@bob', open: 0, closed: 2 },
+        { name: UNASSIGNED, open: 1, closed: 0 },
+      ])
+      expect(report.byLabel).toEqual([
+        { name: 'api', open: 1, closed: 1 },
+        { name: 'db', open: 0, closed: 1 },
+      ])
+      expect(report.truncated).toBe(false)
+      // Blockers of the open issues are fetched in one request
+      expect(spawnSpy).toHaveBeenCalledTimes(1)
+      expect(spawnSpy.mock.calls[0]![0]).toContain('operationName=ListBlockedByMany')
+      const ids = spawnSpy.mock.calls[0]![0].filter((arg: string) => arg.startsWith('ids[]='))
+      expect(ids).toEqual(['ids[]=I_2', 'ids[]=I_5'])
+    }
+    finally {
+      spawnSpy.mockRestore()
+    }
+  })
+
+  test('should list open issues in past-due milestones', async () => {
+    const spawnSpy = mockBlockedBy({})
+
+    try {
+      const report = await buildProgressReport(tree, now)
+
+      expect(report.overdue).toEqual([{
+        ref: '#2',
+        title: 'Issue 2',
+        url: 'https://github.com/plan/board/issues/2',
+        milestone: 'Sprint 1',
+        dueOn: '2026-02-15T00:00:00Z',
+      }])
+    }
+    finally {
+      spawnSpy.mockRestore()
+    }
+  })
+
+  test('should list open issues with open blockers', async () => {
+    const spawnSpy = mockBlockedBy({
+      I_2: [[3, 'CLOSED', 'plan/board']],
+      I_5: [[9, 'OPEN', 'other/svc'], [3, 'CLOSED', 'plan/board']],
+    })
+
+    try {
+      const report = await buildProgressReport(tree, now)
+
+      expect(report.blocked).toEqual([{
+        ref: '#5',
+        title: 'Issue 5',
+        url: 'https://github.com/plan/board/issues/5',
+        blockers: [{ ref: 'other/svc#9', title: 'Issue 9', url: 'https://github.com/other/svc/issues/9' }],
+      }])
+    }
+    finally {
+      spawnSpy.mockRestore()
+    }
+  })
+
+  test('should report an empty subtree and truncation', async () => {
+    const spawnSpy = mockBlockedBy({})
+
+    try {
+      const report = await buildProgressReport(node(1, 'OPEN', { truncated: true }), now)
+
+      expect(report.progress).toEqual({ open: 0, closed: 0, total: 0, percent: 0 })
+      expect(report.byType).toEqual([])
+      expect(report.truncated).toBe(true)
+
+      const untyped = await buildProgressReport(node(1, 'OPEN', { children: [node(2, 'CLOSED')] }), now)
+      expect(untyped.byType).toEqual([{ name: NO_TYPE, open: 0, closed: 1 }])
+    }
+    finally {
+      spawnSpy.mockRestore()
+    }
+  })
+})
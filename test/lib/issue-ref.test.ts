@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, spyOn, test } from 'bun:test'
+import { getHost, resetHost } from '../../src/lib/github/host'
+import {
+  formatIssueRef,
+  getIssueRefNodeIds,
+  parseIssueRef,
+  resolveIssueRefs,
+  toIssueRef,
+} from '../../src/lib/issue-ref'
+
+/**
+ * Build a mocked gh process that prints the given JSON payload
+ */
+function mockProcess(payload: unknown) {
+  return {
+    stdout: new Response(JSON.stringify(payload)).body,
+    stderr: new Response('').body,
+    exited: Promise.resolve(0),
+  } as any
+}
+
+describe('parseIssueRef', () => {
+  test('should parse plain numbers', () => {
+    expect(parseIssueRef('42')).toEqual({ number: 42 })
+    expect(parseIssueRef('#42')).toEqual({ number: 42 })
+  })
+
+  test('should parse owner/repo#number', () => {
+    expect(parseIssueRef('acme/api-server#7')).toEqual({ owner: 'acme', repo: 'api-server', number: 7 })
+  })
+
+  test('should parse issue URLs with their host', () => {
+    expect(parseIssueRef('https://github.com/acme/api/issues/7')).toEqual({ owner: 'acme', repo: 'api', number: 7, host: 'github.com' })
+    expect(parseIssueRef('https://GHE.example.com/acme/api/issues/7#issuecomment-1')).toMatchObject({ number: 7, host: 'ghe.example.com' })
+  })
+
+  test('should reject anything else', () => {
+    expect(() => parseIssueRef('abc')).toThrow('Invalid issue reference')
+    expect(() => parseIssueRef('acme/api')).toThrow('Invalid issue reference')
+    expect(() => parseIssueRef('https://github.com/acme/api/pull/7')).toThrow('Invalid issue reference')
+  })
+})
+
+describe('resolveIssueRefs', () => {
+  let spawnSpy: any
+
+  afterEach(() => {
+    spawnSpy?.mockRestore()
+    spawnSpy = undefined
+    resetHost()
+  })
+
+  test('should fill in --repo for plain numbers', async () => {
+    const { context, refs } = await resolveIssueRefs(['1', 'other/svc#2'], 'plan/board')
+
+    expect(context).toEqual({ owner: 'plan', repo: 'board' })
+    expect(refs).toEqual([
+      { owner: 'plan', repo: 'board', number: 1 },
+      { owner: 'other', repo: 'svc', number: 2 },
+    ])
+  })
+
+  test('should not look up the current repository for qualified references', async () => {
+    spawnSpy = spyOn(Bun, 'spawn')
+
+    const { context } = await resolveIssueRefs(['plan/board#1', 'https://github.com/other/svc/issues/2'])
+
+    expect(context).toEqual({ owner: 'plan', repo: 'board' })
+    expect(spawnSpy).not.toHaveBeenCalled()
+  })
+
+  test('should use the host of an issue URL', async () => {
+    await resolveIssueRefs(['https://ghe.example.com/plan/board/issues/1'])
+
+    expect(getHost()).toBe('ghe.example.com')
+  })
+})
+
+describe('formatIssueRef', () => {
+  const context = { owner: 'plan', repo: 'board' }
+
+  test('should shorten references in the context repository', () => {
+    expect(formatIssueRef({ owner: 'Plan', repo: 'Board', number: 1 }, context)).toBe('#1')
+    expect(formatIssueRef({ owner: 'other', repo: 'svc', number: 2 }, context)).toBe('other/svc#2')
+  })
+
+  test('should build references from nameWithOwner', () => {
+    expect(toIssueRef('other/svc', 2, context)).toEqual({ owner: 'other', repo: 'svc', number: 2 })
+    expect(toIssueRef(undefined, 3, context)).toEqual({ owner: 'plan', repo: 'board', number: 3 })
+  })
+})
+
+describe('getIssueRefNodeIds', () => {
+  test('should batch lookups per repository and keep input order', async () => {
+    const spawnSpy = spyOn(Bun, 'spawn').mockImplementation((command: string[]) => {
+      const repo = command.find(arg => arg.startsWith('repo='))!.slice('repo='.length)
+      const numbers = command.filter(arg => arg.startsWith('number')).map(arg => Number(arg.split('=')[1]))
+      const repository = Object.fromEntries(numbers.map((n, i) => [`issue${i}`, { id: `${repo}_${n}` }]))
+      return mockProcess({ data: { repository } })
+    })
+
+    try {
+      const ids = await getIssueRefNodeIds([
+        { owner: 'plan', repo: 'board', number: 1 },
+        { owner: 'other', repo: 'svc', number: 2 },
+        { owner: 'plan', repo: 'board', number: 3 },
+      ])
+
+      expect(ids).toEqual(['board_1', 'svc_2', 'board_3'])
+      expect(spawnSpy).toHaveBeenCalledTimes(2)
+    }
+    finally {
+      spawnSpy.mockRestore()
+    }
+  })
+})
@@ -0,0 +1,62 @@
+import type { TypedIssueInfo } from '../../src/lib/github'
+import { describe, expect, test } from 'bun:test'
+import { parseLabelTypeMapping, planRetype } from '../../src/lib/issue-retype'
+
+/**
+ * Build a search result with its current type
+ */
+function issue(number: number, issueType: string | null = null): TypedIssueInfo {
+  return {
+    number,
+    title: `Issue ${number}`,
+    state: 'OPEN',
+    nodeId: `I_${number}`,
+    url: `https://github.com/o/r/issues/${number}`,
+    issueType,
+  }
+}
+
+describe('parseLabelTypeMapping', () => {
+  test('should parse label=Type pairs', () => {
+    expect(parseLabelTypeMapping('bug=Bug, enhancement = Feature,')).toEqual([
+      { label: 'bug', type: 'Bug' },
+      { label: 'enhancement', type: 'Feature' },
+    ])
+  })
+
+  test('should keep "=" in label names', () => {
+    expect(parseLabelTypeMapping('kind=bug=Bug')).toEqual([{ label: 'kind=bug', type: 'Bug' }])
+  })
+
+  test('should reject malformed or repeated mappings', () => {
+    expect(() => parseLabelTypeMapping('bug')).toThrow('Invalid label mapping "bug"')
+    expect(() => parseLabelTypeMapping('bug=')).toThrow('Invalid label mapping')
+    expect(() => parseLabelTypeMapping(',')).toThrow('expected label=Type pairs')
+    expect(() => parseLabelTypeMapping('bug=Bug,BUG=Defect')).toThrow('mapped more than once')
+  })
+})
+
+describe('planRetype', () => {
+  test('should skip issues that already have the type', () => {
+    const plan = planRetype([
+      { issue: issue(1), type: 'Bug' },
+      { issue: issue(2, 'bug'), type: 'Bug' },
+      { issue: issue(3, 'Feature'), type: 'Bug' },
+    ])
+
+    expect(plan.items.map(item => [item.issue.number, item.retype])).toEqual([[1, true], [2, false], [3, true]])
+    expect(plan.conflicts).toEqual([])
+  })
+
+  test('should merge labels mapping to the same type and report conflicts', () => {
+    const plan = planRetype([
+      { issue: issue(1), type: 'Bug', label: 'bug' },
+      { issue: issue(2), type: 'Bug', label: 'bug' },
+      { issue: issue(1), type: 'Bug', label: 'defect' },
+      { issue: issue(2), type: 'Feature', label: 'enhancement' },
+    ])
+
+    expect(plan.items).toEqual([{ issue: issue(1), type: 'Bug', labels: ['bug', 'defect'], retype: true }])
+    expect(plan.conflicts).toEqual([{ issue: issue(2), types: ['Bug', 'Feature'] }])
+  })
+})
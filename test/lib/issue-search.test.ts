@@ -0,0 +1,42 @@
+import { describe, expect, test } from 'bun:test'
+import { buildIssueSearchQuery, matchesIssueFilters, parseLabelList } from '../../src/lib/issue-search'
+
+describe('buildIssueSearchQuery', () => {
+  const repo = { owner: 'plan', repo: 'board' }
+
+  test('should scope the query to issues of the repository', () => {
+    expect(buildIssueSearchQuery(repo)).toBe('repo:plan/board is:issue')
+  })
+
+  test('should quote milestone, label and type qualifiers', () => {
+    expect(buildIssueSearchQuery(repo, {
+      state: 'open',
+      milestone: 'v2.0 "beta"',
+      labels: ['good first issue', 'api'],
+      type: 'Bug',
+    })).toBe('repo:plan/board is:issue is:open milestone:"v2.0 \\"beta\\"" label:"good first issue" label:"api" type:"Bug"')
+  })
+})
+
+describe('parseLabelList', () => {
+  test('should split and trim comma-separated labels', () => {
+    expect(parseLabelList('bug, api ,,')).toEqual(['bug', 'api'])
+    expect(parseLabelList(undefined)).toEqual([])
+  })
+})
+
+describe('matchesIssueFilters', () => {
+  const issue = { state: 'OPEN', milestone: 'v2.0', labels: ['bug', 'API'], issueType: 'Bug' }
+
+  test('should match every filter ignoring case', () => {
+    expect(matchesIssueFilters(issue, { state: 'open', milestone: 'V2.0', labels: ['api', 'bug'], type: 'bug' })).toBe(true)
+    expect(matchesIssueFilters(issue, {})).toBe(true)
+  })
+
+  test('should reject issues missing a filter value', () => {
+    expect(matchesIssueFilters(issue, { labels: ['bug', 'docs'] })).toBe(false)
+    expect(matchesIssueFilters(issue, { milestone: 'v3.0' })).toBe(false)
+    expect(matchesIssueFilters({ ...issue, issueType: null }, { type: 'Bug' })).toBe(false)
+    expect(matchesIssueFilters({ ...issue, milestone: null }, { milestone: 'v2.0' })).toBe(false)
+  })
+})
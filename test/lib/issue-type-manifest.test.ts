@@ -0,0 +1,105 @@
+import type { IssueTypeInfo } from '../../src/lib/github'
+import { describe, expect, test } from 'bun:test'
+import { formatIssueTypeChanges, parseIssueTypeManifest, planIssueTypeSync } from '../../src/lib/issue-type-manifest'
+
+/**
+ * Build an organization issue type
+ */
+function type(name: string, extra: Partial<IssueTypeInfo> = {}): IssueTypeInfo {
+  return { id: `IT_${name}`, name, description: null, color: 'GRAY', isEnabled: true, ...extra }
+}
+
+describe('parseIssueTypeManifest', () => {
+  test('should parse a types mapping and normalize colors', () => {
+    const manifest = parseIssueTypeManifest([
+      'types:',
+      '  - name: Bug',
+      '    description: Something is broken',
+      '    color: red',
+      '  - name: Spike',
+      '    enabled: false',
+    ].join('\n'))
+
+    expect(manifest).toEqual([
+      { name: 'Bug', description: 'Something is broken', color: 'RED' },
+      { name: 'Spike', enabled: false },
+    ])
+  })
+
+  test('should accept a top-level list and JSON', () => {
+    expect(parseIssueTypeManifest('- name: Task')).toEqual([{ name: 'Task' }])
+    expect(parseIssueTypeManifest('[{"name": "Task", "color": "Blue"}]')).toEqual([{ name: 'Task', color: 'BLUE' }])
+  })
+
+  test('should reject invalid entries', () => {
+    expect(() => parseIssueTypeManifest('types: nope')).toThrow('expected a list of types')
+    expect(() => parseIssueTypeManifest('- description: no name')).toThrow('non-empty "name"')
+    expect(() => parseIssueTypeManifest('- name: Bug\n  color: teal')).toThrow('"color" of "Bug" must be one of gray, blue')
+    expect(() => parseIssueTypeManifest('- name: Bug\n  enabled: "yes"')).toThrow('"enabled" of "Bug"')
+    expect(() => parseIssueTypeManifest('- name: Bug\n- name: bug')).toThrow('declared more than once')
+  })
+})
+
+describe('planIssueTypeSync', () => {
+  const current = [
+    type('Bug', { description: 'Broken', color: 'RED' }),
+    type('feature', { color: 'BLUE' }),
+    type('Legacy', { isEnabled: false }),
+  ]
+
+  test('should create, update and leave unlisted types alone', () => {
+    const changes = planIssueTypeSync(current, [
+      { name: 'Bug', description: 'Broken', color: 'RED' },
+      { name: 'Feature', color: 'GREEN', enabled: false },
+      { name: 'Task', color: 'YELLOW' },
+    ])
+
+    expect(changes).toEqual([
+      {
+        action: 'update',
+        type: current[1]!,
+        input: { name: 'Feature', color: 'GREEN', isEnabled: false },
+        changes: [
+          { field: 'name', from: 'feature', to: 'Feature' },
+          { field: 'color', from: 'BLUE', to: 'GREEN' },
+          { field: 'enabled', from: 'true', to: 'false' },
+        ],
+      },
+      { action: 'create', entry: { name: 'Task', color: 'YELLOW' } },
+    ])
+  })
+
+  test('should delete unlisted types when pruning', () => {
+    const changes = planIssueTypeSync(current, [{ name: 'Bug' }, { name: 'Feature' }, { name: 'Task' }], { prune: true })
+
+    expect(changes.map(change => change.action)).toEqual(['update', 'create', 'delete'])
+    expect(changes.at(-1)).toEqual({ action: 'delete', type: current[2]! })
+  })
+
+  test('should plan nothing when types match', () => {
+    expect(planIssueTypeSync(current, [{ name: 'Bug', description: 'Broken' }, { name: 'Legacy', enabled: false }])).toEqual([])
+  })
+})
+
+describe('formatIssueTypeChanges', () => {
+  test('should render a diff preview', () => {
+    const output = formatIssueTypeChanges([
+      { action: 'create', entry: { name: 'Task', description: 'Unit of work', color: 'YELLOW', enabled: false } },
+      {
+        action: 'update',
+        type: type('Bug'),
+        input: { description: 'Broken' },
+        changes: [{ field: 'description', from: '', to: 'Broken' }],
+      },
+      { action: 'delete', type: type('Legacy') },
+    ])
+
+    expect(output).toBe([
+      '+ Task (YELLOW, disabled)',
+      '    description: "Unit of work"',
+      '~ Bug',
+      '    description: "" → "Broken"',
+      '- Legacy',
+    ].join('\n'))
+  })
+})
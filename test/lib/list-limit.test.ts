@@ -0,0 +1,24 @@
+import { describe, expect, test } from 'bun:test'
+import { DEFAULT_LIST_LIMIT, resolveListLimit } from '../../src/lib/list-limit'
+
+describe('resolveListLimit', () => {
+  test('should default to DEFAULT_LIST_LIMIT', () => {
+    expect(resolveListLimit({})).toBe(DEFAULT_LIST_LIMIT)
+  })
+
+  test('should parse --limit', () => {
+    expect(resolveListLimit({ limit: '25' })).toBe(25)
+  })
+
+  test('should return undefined for --all', () => {
+    expect(resolveListLimit({ all: true })).toBeUndefined()
+    expect(resolveListLimit({ all: true, limit: '5' })).toBeUndefined()
+  })
+
+  test('should reject non-positive or non-integer limits', () => {
+    expect(() => resolveListLimit({ limit: '0' })).toThrow('Invalid --limit value')
+    expect(() => resolveListLimit({ limit: '-3' })).toThrow('Invalid --limit value')
+    expect(() => resolveListLimit({ limit: 'abc' })).toThrow('Invalid --limit value')
+    expect(() => resolveListLimit({ limit: '1.5' })).toThrow('Invalid --limit value')
+  })
+})
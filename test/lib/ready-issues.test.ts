@@ -0,0 +1,77 @@
+import { describe, expect, spyOn, test } from 'bun:test'
+import { findReadyIssues, sortReadyCandidates } from '../../src/lib/ready-issues'
+
+/**
+ * Build an open issue in plan/board
+ */
+function issue(number: number, createdAt: string, state = 'OPEN') {
+  return { number, title: `Issue ${number}`, state, nodeId: `I_${number}`, url: '', repository: 'plan/board', createdAt }
+}
+
+/**
+ * Mock ListBlockedByMany responses from blocker states per node ID
+ */
+function mockBlockedBy(blockers: Record<string, string[]>) {
+  return spyOn(Bun, 'spawn').mockImplementation((command: string[]) => {
+    const ids = command.filter(arg => arg.startsWith('ids[]=')).map(arg => arg.slice('ids[]='.length))
+    const nodes = ids.map(id => ({
+      id,
+      blockedBy: {
+        nodes: (blockers[id] ?? []).map((state, i) => ({ id: `B_${i}`, number: 900 + i, title: 'Blocker', state, url: '' })),
+        pageInfo: { hasNextPage: false },
+      },
+    }))
+    return {
+      stdout: new Response(JSON.stringify({ data: { nodes } })).body,
+      stderr: new Response('').body,
+      exited: Promise.resolve(0),
+    } as any
+  })
+}
+
+describe('sortReadyCandidates', () => {
+  const issues = [issue(3, '2026-01-02T00:00:00Z'), issue(1, '2026-01-03T00:00:00Z'), issue(2, '2026-01-02T00:00:00Z')]
+
+  test('should keep sub-issue order', () => {
+    expect(sortReadyCandidates(issues, 'order').map(i => i.number)).toEqual([3, 1, 2])
+  })
+
+  test('should sort oldest first with ties by number', () => {
+    expect(sortReadyCandidates(issues, 'created').map(i => i.number)).toEqual([2, 3, 1])
+  })
+})
+
+describe('findReadyIssues', () => {
+  test('should keep open issues whose blockers are all closed', async () => {
+    const spawnSpy = mockBlockedBy({ I_1: ['CLOSED'], I_2: ['OPEN', 'CLOSED'], I_3: [] })
+
+    try {
+      const candidates = [issue(1, ''), issue(2, ''), issue(3, ''), issue(4, '', 'CLOSED')]
+      const ready = await findReadyIssues(candidates)
+
+      expect(ready.map(i => i.number)).toEqual([1, 3])
+      expect(spawnSpy).toHaveBeenCalledTimes(1)
+      expect(spawnSpy.mock.calls[0][0]).not.toContain('ids[]=I_4')
+    }
+    finally {
+      spawnSpy.mockRestore()
+    }
+  })
+
+  test('should fetch blockers in batches and stop between batches once the limit is reached', async () => {
+    const spawnSpy = mockBlockedBy({ I_1: ['OPEN'] })
+
+    try {
+      const candidates = Array.from({ length: 120 }, (_, i) => issue(i + 1, ''))
+
+      expect((await findReadyIssues(candidates, 1)).map(i => i.number)).toEqual([2])
+      expect(spawnSpy).toHaveBeenCalledTimes(1)
+
+      expect(await findReadyIssues(candidates)).toHaveLength(119)
+      expect(spawnSpy).toHaveBeenCalledTimes(4)
+    }
+    finally {
+      spawnSpy.mockRestore()
+    }
+  })
+})
@@ -16,12 +16,18 @@ describe('parseRepoString', () => {
 
   test('should parse github.com URL format', () => {
     const result = parseRepoString('https://github.com/pleaseai/gh-please')
-    expect(result).toEqual({ owner: 'pleaseai', repo: 'gh-please' })
+    expect(result).toEqual({ owner: 'pleaseai', repo: 'gh-please', host: 'github.com' })
   })
 
   test('should parse github.com URL with .git suffix', () => {
     const result = parseRepoString('https://github.com/pleaseai/gh-please.git')
-    expect(result).toEqual({ owner: 'pleaseai', repo: 'gh-please' })
+    expect(result).toEqual({ owner: 'pleaseai', repo: 'gh-please', host: 'github.com' })
+  })
+
+  test('should parse GitHub Enterprise Server URLs and HOST/owner/repo', () => {
+    expect(parseRepoString('https://ghe.example.com/team/app')).toEqual({ owner: 'team', repo: 'app', host: 'ghe.example.com' })
+    expect(parseRepoString('git@ghe.example.com:team/app.git')).toEqual({ owner: 'team', repo: 'app', host: 'ghe.example.com' })
+    expect(parseRepoString('ghe.example.com/team/app')).toEqual({ owner: 'team', repo: 'app', host: 'ghe.example.com' })
   })
 
   test('should throw error for invalid format', () => {
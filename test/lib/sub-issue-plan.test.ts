@@ -0,0 +1,158 @@
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test'
+import { getCacheMode, setCacheMode } from '../../src/lib/github/cache'
+import { getIssueMessages } from '../../src/lib/i18n'
+import { createSubIssuesFromPlan } from '../../src/lib/sub-issue-plan'
+
+/**
+ * Build a mocked gh process that prints the given JSON payload
+ */
+function mockProcess(payload: unknown) {
+  return {
+    stdout: new Response(JSON.stringify(payload)).body,
+    stderr: new Response('').body,
+    exited: Promise.resolve(0),
+  } as any
+}
+
+const plan = [
+  '- key: schema',
+  '  title: Design schema',
+  '  type: Task',
+  '  labels: [db]',
+  '  children:',
+  '    - title: Review with DBA',
+  '- title: Implement API',
+  '  assignees: [octocat]',
+  '  blockedBy: [schema]',
+].join('\n')
+
+describe('createSubIssuesFromPlan', () => {
+  const msg = getIssueMessages('en')
+  let spawnSpy: any
+  let logSpy: any
+  let errorSpy: any
+  let tempDir: string
+  let planFile: string
+  let originalMode: ReturnType<typeof getCacheMode>
+  let failingTitle: string | undefined
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gh-please-plan-'))
+    planFile = path.join(tempDir, 'plan.yaml')
+    fs.writeFileSync(planFile, plan)
+    originalMode = getCacheMode()
+    setCacheMode('disabled')
+    failingTitle = undefined
+    logSpy = spyOn(console, 'log').mockImplementation(() => {})
+    errorSpy = spyOn(console, 'error').mockImplementation(() => {})
+
+    let created = 0
+    spawnSpy = spyOn(Bun, 'spawn').mockImplementation((command: string[]) => {
+      const operation = command.find(arg => arg.startsWith('operationName='))
+      switch (operation) {
+        case 'operationName=GetIssueNodeIds':
+          return mockProcess({ data: { repository: { issue0: { id: 'I_PARENT' } } } })
+        case 'operationName=ListIssueTypes':
+          return mockProcess({ data: { repository: { issueTypes: {
+            nodes: [{ id: 'IT_TASK', name: 'Task', color: 'BLUE', isEnabled: true }],
+            pageInfo: { hasNextPage: false, endCursor: null },
+          } } } })
+        case 'operationName=ListLabels':
+          return mockProcess({ data: { repository: { labels: {
+            nodes: [{ id: 'L_DB', name: 'db' }],
+            pageInfo: { hasNextPage: false, endCursor: null },
+          } } } })
+        case 'operationName=GetAssigneeNodeIds':
+          return mockProcess({ data: { user0: { id: 'U_OCTO' } } })
+        case 'operationName=GetRepositoryNodeId':
+          return mockProcess({ data: { repository: { id: 'R_1' } } })
+        case 'operationName=CreateIssueWithType': {
+          if (failingTitle && command.includes(`title=${failingTitle}`)) {
+            return mockProcess({ data: { createIssue: null } })
+          }
+          created++
+          return mockProcess({ data: { createIssue: { issue: { id: `I_${created}`, number: created } } } })
+        }
+        default:
+          return mockProcess({ data: {} })
+      }
+    })
+  })
+
+  afterEach(() => {
+    spawnSpy.mockRestore()
+    logSpy.mockRestore()
+    errorSpy.mockRestore()
+    setCacheMode(originalMode)
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  /**
+   * gh calls made for an operation, in order
+   */
+  function callsOf(operation: string): string[][] {
+    return (spawnSpy.mock.calls as [string[]][])
+      .map(([command]) => command)
+      .filter(command => command.includes(`operationName=${operation}`))
+  }
+
+  test('should create parents and blockers first, then link them', async () => {
+    await createSubIssuesFromPlan('100', { fromFile: planFile, repo: 'o/r' }, msg)
+
+    const creates = callsOf('CreateIssueWithType')
+    expect(creates.map(command => command.find(arg => arg.startsWith('title=')))).toEqual([
+      'title=Design schema',
+      'title=Review with DBA',
+      'title=Implement API',
+    ])
+
+    const links = callsOf('AddSubIssue').map(command => [
+      command.find(arg => arg.startsWith('parentId=')),
+      command.find(arg => arg.startsWith('childId=')),
+    ])
+    expect(links).toEqual([
+      ['parentId=I_PARENT', 'childId=I_1'],
+      ['parentId=I_1', 'childId=I_2'],
+      ['parentId=I_PARENT', 'childId=I_3'],
+    ])
+
+    const [blocker] = callsOf('AddBlockedBy')
+    expect(blocker).toContain('issueId=I_3')
+    expect(blocker).toContain('blockingIssueId=I_1')
+    expect(logSpy).toHaveBeenCalledWith('   schema → #1 Design schema')
+  })
+
+  test('should resolve types, labels and assignees before creating issues', async () => {
+    await createSubIssuesFromPlan('100', { fromFile: planFile, repo: 'o/r', type: 'task' }, msg)
+
+    const [schema, review, api] = callsOf('CreateIssueWithType')
+    expect(schema).toContain('issueTypeId=IT_TASK')
+    expect(schema!.join(' ')).toContain('L_DB')
+    expect(review).toContain('issueTypeId=IT_TASK')
+    expect(api!.join(' ')).toContain('U_OCTO')
+    expect(callsOf('ListIssueTypes')).toHaveLength(1)
+    expect(callsOf('ListLabels')).toHaveLength(1)
+    expect(callsOf('GetAssigneeNodeIds')).toHaveLength(1)
+  })
+
+  test('should reject unknown types before creating any issue', async () => {
+    fs.writeFileSync(planFile, '- title: Design schema\n  type: Epic\n')
+
+    await expect(createSubIssuesFromPlan('100', { fromFile: planFile, repo: 'o/r' }, msg)).rejects.toThrow(msg.issueTypeNotFound('Epic'))
+    expect(callsOf('CreateIssueWithType')).toHaveLength(0)
+  })
+
+  test('should list the issues created before a failure', async () => {
+    failingTitle = 'Implement API'
+
+    await expect(createSubIssuesFromPlan('100', { fromFile: planFile, repo: 'o/r' }, msg)).rejects.toThrow('Failed to create issue')
+
+    expect(errorSpy).toHaveBeenCalledWith(msg.planPartiallyCreated(2, 3, '#100'))
+    expect(errorSpy).toHaveBeenCalledWith('   schema → #1 Design schema')
+    expect(errorSpy).toHaveBeenCalledWith('   - → #2 Review with DBA')
+    expect(callsOf('AddBlockedBy')).toHaveLength(0)
+  })
+})
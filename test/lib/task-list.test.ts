@@ -0,0 +1,44 @@
+import { describe, expect, test } from 'bun:test'
+import { linkTaskListItems, parseTaskList } from '../../src/lib/task-list'
+
+const body = [
+  '## Tasks',
+  '- [ ] Write migration',
+  '- [x] Update schema docs',
+  '  * [ ] Nested item',
+  '1. [ ] Numbered item',
+  '- [ ] #42',
+  '- [ ] ',
+  '```',
+  '- [ ] Example in code',
+  '```',
+  'Done when all boxes are ticked.',
+].join('\n')
+
+describe('parseTaskList', () => {
+  test('should find checked and unchecked items with their lines', () => {
+    expect(parseTaskList(body)).toEqual([
+      { line: 1, checked: false, text: 'Write migration' },
+      { line: 2, checked: true, text: 'Update schema docs' },
+      { line: 3, checked: false, text: 'Nested item' },
+      { line: 4, checked: false, text: 'Numbered item' },
+    ])
+  })
+})
+
+describe('linkTaskListItems', () => {
+  test('should replace item text with references and keep checkbox state', () => {
+    const linked = linkTaskListItems(body, new Map([[1, '#101'], [2, '#102'], [3, '#103']]))
+    const lines = linked.split('\n')
+
+    expect(lines[1]).toBe('- [ ] #101')
+    expect(lines[2]).toBe('- [x] #102')
+    expect(lines[3]).toBe('  * [ ] #103')
+    expect(lines[4]).toBe('1. [ ] Numbered item')
+    expect(parseTaskList(linked).map(item => item.text)).toEqual(['Numbered item'])
+  })
+
+  test('should keep CRLF line endings', () => {
+    expect(linkTaskListItems('- [ ] Item\r\nText', new Map([[0, '#7']]))).toBe('- [ ] #7\r\nText')
+  })
+})
@@ -0,0 +1,10 @@
+/**
+ * Test preload: keep the on-disk lookup cache out of unit tests
+ * so mocked GraphQL responses never leak between tests or into ~/.please/cache
+ */
+process.env.GH_PLEASE_NO_CACHE = '1'
+
+/**
+ * Spawn gh for API calls so tests can mock Bun.spawn instead of reaching GitHub over HTTP
+ */
+process.env.GH_PLEASE_TRANSPORT = 'gh'